@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { capacityByLayer, unmappedOutputs } from './capacity';
+import { architectures } from './data';
+
+describe('capacity planner', () => {
+  it('MQTT 브로커 추정치를 Kafka/RabbitMQ 메시지 큐 레이어에 붙이지 않음', () => {
+    const layers = capacityByLayer(architectures.v3.infrastructure);
+    const queue = layers.find(({ layer }) => layer.layer === 'Message Queue');
+    expect(queue?.outputs).toEqual(['peakMessagesPerSec', 'kafkaPartitions']);
+    expect(unmappedOutputs(layers)).toEqual(['brokerConnections', 'brokerNodes']);
+  });
+
+  it('MQTT 브로커 레이어가 있으면 그 레이어에 표시', () => {
+    const layers = capacityByLayer([
+      ...architectures.v3.infrastructure,
+      { layer: 'Device Gateway', tech: 'EMQX Cluster', purpose: 'MQTT 연결 종단' }
+    ]);
+    expect(layers.at(-1)?.outputs).toEqual(['brokerConnections', 'brokerNodes']);
+    expect(unmappedOutputs(layers)).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import { parseMetricTarget } from './metrics';
+import type { InfrastructureLayer, Metric } from './model';
+
+// V3 확장성 목표(디바이스 수, 요청량, 월 처리량)를 인프라 규모로 환산하는 용량 계산기
+export interface CapacityInputs {
+  devices: number;
+  // 디바이스 한 대가 텔레메트리를 보내는 간격(초)
+  telemetryIntervalSec: number;
+  payloadBytes: number;
+  // 디바이스 한 대에 내려가는 시간당 제어 명령 수
+  commandsPerDeviceHour: number;
+  retentionDays: number;
+}
+
+// 화면에서 고칠 수 있는 가정값 - 벤치마크나 운영 데이터가 생기면 여기만 바꾸면 됨 (바이트는 10진 단위, 1GB = 10^9)
+export interface CapacityAssumptions {
+  // 평균 대비 피크 트래픽 배율
+  peakFactor: number;
+  // 자원마다 목표로 하는 최대 사용률 (나머지는 장애/배포 여유분)
+  targetUtilization: number;
+  connectionsPerBrokerNode: number;
+  partitionMessagesPerSec: number;
+  partitionBytesPerSec: number;
+  // 텔레메트리 메시지 하나가 TimescaleDB 에 남기는 행 수 (센서 값마다 한 행)
+  rowsPerMessage: number;
+  bytesPerRow: number;
+  compressionRatio: number;
+  // 디바이스 섀도, 세션, 최근 상태 캐시
+  redisBytesPerDevice: number;
+  redisNodeMemoryBytes: number;
+  // 제어 명령 하나가 만드는 API 호출 (인증, 명령, 상태 확인)
+  apiCallsPerCommand: number;
+  // 앱/대시보드가 디바이스 한 대를 조회하는 시간당 횟수
+  readsPerDeviceHour: number;
+  requestsPerGatewayReplica: number;
+  minReplicas: number;
+}
+
+export const DEFAULT_INPUTS: CapacityInputs = {
+  devices: 10_000_000,
+  telemetryIntervalSec: 60,
+  payloadBytes: 512,
+  commandsPerDeviceHour: 2,
+  retentionDays: 90
+};
+
+export const DEFAULT_ASSUMPTIONS: CapacityAssumptions = {
+  peakFactor: 3,
+  targetUtilization: 0.7,
+  connectionsPerBrokerNode: 500_000,
+  partitionMessagesPerSec: 5_000,
+  partitionBytesPerSec: 5_000_000,
+  rowsPerMessage: 4,
+  bytesPerRow: 48,
+  compressionRatio: 10,
+  redisBytesPerDevice: 2_048,
+  redisNodeMemoryBytes: 25_000_000_000,
+  apiCallsPerCommand: 3,
+  readsPerDeviceHour: 12,
+  requestsPerGatewayReplica: 3_000,
+  minReplicas: 2
+};
+
+export interface CapacityEstimate {
+  telemetryPerSec: number;
+  commandsPerSec: number;
+  peakMessagesPerSec: number;
+  ingressBytesPerSec: number;
+  // 텔레메트리와 명령, API 호출을 합친 평균 요청량 - "1M+ req/sec" 목표와 비교
+  requestsPerSec: number;
+  monthlyBytes: number;
+  brokerConnections: number;
+  brokerNodes: number;
+  kafkaPartitions: number;
+  ingestRowsPerSec: number;
+  storageBytes: number;
+  redisBytes: number;
+  redisShards: number;
+  apiRequestsPerSec: number;
+  gatewayReplicas: number;
+}
+
+export type CapacityOutput = Exclude<keyof CapacityEstimate, 'telemetryPerSec' | 'commandsPerSec' | 'requestsPerSec'>;
+
+// 화면에서 값을 어떤 단위로 표시할지
+export type CapacityUnit = 'count' | 'rate' | 'bytes' | 'byteRate';
+
+export const OUTPUT_UNITS: Record<CapacityOutput, CapacityUnit> = {
+  peakMessagesPerSec: 'rate',
+  ingressBytesPerSec: 'byteRate',
+  monthlyBytes: 'bytes',
+  brokerConnections: 'count',
+  brokerNodes: 'count',
+  kafkaPartitions: 'count',
+  ingestRowsPerSec: 'rate',
+  storageBytes: 'bytes',
+  redisBytes: 'bytes',
+  redisShards: 'count',
+  apiRequestsPerSec: 'rate',
+  gatewayReplicas: 'count'
+};
+
+const SECONDS_PER_DAY = 86_400;
+const DAYS_PER_MONTH = 30;
+
+// 사용률 상한을 반영해 필요한 노드/파티션/레플리카 수를 올림
+const units = (load: number, capacity: number, utilization: number, minimum = 1) =>
+  capacity * utilization > 0 ? Math.max(minimum, Math.ceil(load / (capacity * utilization))) : minimum;
+
+export function estimateCapacity(inputs: CapacityInputs, assumptions: CapacityAssumptions = DEFAULT_ASSUMPTIONS): CapacityEstimate {
+  const { devices, telemetryIntervalSec, payloadBytes, commandsPerDeviceHour, retentionDays } = inputs;
+  const a = assumptions;
+
+  const telemetryPerSec = telemetryIntervalSec > 0 ? devices / telemetryIntervalSec : 0;
+  const commandsPerSec = (devices * commandsPerDeviceHour) / 3600;
+  const peakMessagesPerSec = (telemetryPerSec + commandsPerSec) * a.peakFactor;
+  const ingressBytesPerSec = telemetryPerSec * payloadBytes;
+  const apiRequestsPerSec = (devices * (commandsPerDeviceHour * a.apiCallsPerCommand + a.readsPerDeviceHour)) / 3600;
+  const ingestRowsPerSec = telemetryPerSec * a.rowsPerMessage;
+  const redisBytes = devices * a.redisBytesPerDevice;
+
+  return {
+    telemetryPerSec,
+    commandsPerSec,
+    peakMessagesPerSec,
+    ingressBytesPerSec,
+    requestsPerSec: telemetryPerSec + commandsPerSec + apiRequestsPerSec,
+    monthlyBytes: ingressBytesPerSec * SECONDS_PER_DAY * DAYS_PER_MONTH,
+    // 디바이스마다 MQTT 연결 하나를 계속 유지
+    brokerConnections: devices,
+    brokerNodes: units(devices, a.connectionsPerBrokerNode, a.targetUtilization, a.minReplicas),
+    // 메시지 수와 바이트 중 더 빡빡한 쪽이 파티션 수를 결정
+    kafkaPartitions: Math.max(
+      units(peakMessagesPerSec, a.partitionMessagesPerSec, a.targetUtilization),
+      units(ingressBytesPerSec * a.peakFactor, a.partitionBytesPerSec, a.targetUtilization)
+    ),
+    ingestRowsPerSec,
+    storageBytes: (ingestRowsPerSec * SECONDS_PER_DAY * retentionDays * a.bytesPerRow) / Math.max(a.compressionRatio, 1),
+    redisBytes,
+    redisShards: units(redisBytes, a.redisNodeMemoryBytes, a.targetUtilization),
+    apiRequestsPerSec,
+    gatewayReplicas: units(apiRequestsPerSec * a.peakFactor, a.requestsPerGatewayReplica, a.targetUtilization, a.minReplicas)
+  };
+}
+
+// 계산 결과를 배포 아키텍처의 인프라 레이어에 연결 - 레이어 이름이나 기술로 찾음
+const LAYER_OUTPUTS: [RegExp, CapacityOutput[]][] = [
+  [/api gateway|kong/i, ['apiRequestsPerSec', 'gatewayReplicas']],
+  // 디바이스 연결을 받는 MQTT 브로커는 서비스 간 메시지 큐(Kafka/RabbitMQ)와 별개
+  [/mqtt|emqx|mosquitto|vernemq|hivemq/i, ['brokerConnections', 'brokerNodes']],
+  [/message queue|kafka/i, ['peakMessagesPerSec', 'kafkaPartitions']],
+  [/cache|redis/i, ['redisBytes', 'redisShards']],
+  [/database|timescale/i, ['ingestRowsPerSec', 'storageBytes']],
+  [/object storage|s3/i, ['monthlyBytes']],
+  [/load balancer/i, ['ingressBytesPerSec']]
+];
+
+export interface LayerCapacity {
+  layer: InfrastructureLayer;
+  outputs: CapacityOutput[];
+}
+
+// 한 출력은 처음 일치한 레이어에만 표시
+export function capacityByLayer(infrastructure: InfrastructureLayer[]): LayerCapacity[] {
+  const assigned = new Set<CapacityOutput>();
+  return infrastructure.map((layer) => {
+    const outputs = LAYER_OUTPUTS
+      .filter(([pattern]) => pattern.test(layer.layer) || pattern.test(layer.tech))
+      .flatMap(([, keys]) => keys)
+      .filter((key) => !assigned.has(key));
+    outputs.forEach((key) => assigned.add(key));
+    return { layer, outputs };
+  });
+}
+
+// 배포 아키텍처에 대응하는 레이어가 없는 출력 - 다른 레이어에 끼워 넣지 않고 따로 표시
+export function unmappedOutputs(layers: LayerCapacity[]): CapacityOutput[] {
+  const mapped = new Set(layers.flatMap((entry) => entry.outputs));
+  return LAYER_OUTPUTS.flatMap(([, keys]) => keys).filter((key) => !mapped.has(key));
+}
+
+// 확장성 목표 지표 이름과 그 목표를 비교할 계산 결과
+const TARGET_OUTPUTS: Record<string, { unit: CapacityUnit; value: (estimate: CapacityEstimate, inputs: CapacityInputs) => number }> = {
+  devices: { unit: 'count', value: (_, inputs) => inputs.devices },
+  requests: { unit: 'rate', value: (estimate) => estimate.requestsPerSec },
+  data: { unit: 'bytes', value: (estimate) => estimate.monthlyBytes }
+};
+
+export interface TargetCheck {
+  metric: Metric;
+  unit: CapacityUnit;
+  target: number;
+  estimate: number;
+  met: boolean;
+}
+
+// "10M+ 연결 디바이스", "1M+ req/sec", "100TB+/월" 목표를 현재 입력의 계산 결과와 비교
+export function checkTargets(metrics: Metric[], inputs: CapacityInputs, estimate: CapacityEstimate): TargetCheck[] {
+  return metrics.flatMap((metric) => {
+    const output = TARGET_OUTPUTS[metric.name];
+    const parsed = parseMetricTarget(metric.value);
+    if (!output || parsed.kind !== 'quantity') return [];
+    const target = 10 ** parsed.magnitude;
+    const value = output.value(estimate, inputs);
+    return [{ metric, unit: output.unit, target, estimate: value, met: value >= target }];
+  });
+}
+
+// 목표의 디바이스 수를 기본 입력으로 사용 (목표가 없으면 DEFAULT_INPUTS 그대로)
+export function inputsFromTargets(metrics: Metric[]): CapacityInputs {
+  const devices = metrics.find((metric) => metric.name === 'devices');
+  const parsed = devices && parseMetricTarget(devices.value);
+  return parsed?.kind === 'quantity' ? { ...DEFAULT_INPUTS, devices: Math.round(10 ** parsed.magnitude) } : DEFAULT_INPUTS;
+}
@@ -0,0 +1,38 @@
+import { join } from 'path';
+import { checkLocales, translatableText, LOCALES } from './i18n';
+import type { Locale, MessageBundle, TranslationCatalog } from './i18n';
+import { loadArchitectureDirectory, loadComponentMapping, loadMessageBundle, loadTranslationCatalog } from './node';
+
+// 로캘별 누락 키 검사: npx tsx architecture/check-locales.ts
+// - UI 번들(explorer/locales/*.yaml)의 키 누락과 ICU 문법 오류
+// - 아키텍처 데이터 원문 중 번역 카탈로그(architecture/data/locales/*.yaml)에 없는 문장
+// 문제가 하나라도 있으면 종료 코드 1
+const root = join(__dirname, '..');
+const dataDir = join(__dirname, 'data');
+
+const bundles = Object.fromEntries(
+  LOCALES.map((locale) => [locale, loadMessageBundle(join(root, 'explorer', 'locales', `${locale}.yaml`))])
+) as Record<Locale, MessageBundle>;
+
+const catalogs: Partial<Record<Locale, TranslationCatalog>> = Object.fromEntries(
+  LOCALES.filter((locale) => locale !== 'ko').map((locale) => [locale, loadTranslationCatalog(join(dataDir, 'locales', `${locale}.yaml`))])
+);
+
+const sourceText = translatableText(
+  loadArchitectureDirectory(dataDir),
+  loadComponentMapping(join(dataDir, 'component-mapping.yaml'))
+);
+
+let failed = false;
+checkLocales(bundles, catalogs, sourceText).forEach((report) => {
+  const problems = [
+    ...report.missing.map((key) => `누락된 키: ${key}`),
+    ...report.invalid.map(({ key, message }) => `형식 오류: ${key} - ${message}`),
+    ...report.untranslated.map((text) => `번역 없음: ${text}`)
+  ];
+  console.log(`[${report.locale}] UI 키 ${Object.keys(bundles[report.locale]).length}개, 문제 ${problems.length}개`);
+  problems.forEach((problem) => console.log(`  - ${problem}`));
+  if (problems.length > 0) failed = true;
+});
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, snippetFileName } from './code';
+import { architectures } from './data';
+import { ARCHITECTURE_VERSIONS } from './model';
+import type { CodeLanguage, Component } from './model';
+
+// V1~V4 데이터의 실제 스니펫 - 레이어, 기능, 연동 카드에 붙은 코드
+const snippets = new Map<string, Component & { code: string }>(
+  ARCHITECTURE_VERSIONS.flatMap((version) => {
+    const model = architectures[version];
+    return [...model.layers, ...model.features, ...model.integrations]
+      .flatMap((group) => group.components)
+      .flatMap((comp) => (comp.code ? [[comp.name, { ...comp, code: comp.code }] as const] : []));
+  })
+);
+
+const snippet = (name: string) => {
+  const comp = snippets.get(name);
+  if (!comp) throw new Error(`스니펫 없음: ${name}`);
+  return comp.code;
+};
+
+const EXPECTED: Record<string, CodeLanguage> = {
+  'WiFi Manager': 'cpp',
+  'MQTT Client': 'cpp',
+  'Sensor Module': 'cpp',
+  'MQTT Broker': 'mosquitto',
+  'Device Manager': 'javascript',
+  PostgreSQL: 'sql',
+  'Device List': 'vue',
+  'Wake Word Detection': 'cpp',
+  'Thread Network': 'cpp',
+  'Speech Recognition': 'python',
+  'Text-to-Speech': 'python',
+  'Intent Recognition': 'javascript',
+  'Tenant Isolation': 'javascript',
+  'White-Label Support': 'json',
+  'Real-time Analytics': 'typescript',
+  'Business Intelligence': 'javascript',
+  'Open API Platform': 'yaml',
+  'Edge Orchestration': 'yaml',
+  '예측 시뮬레이션': 'javascript',
+  'Trust Score System': 'solidity',
+  'VR 관제 센터': 'csharp'
+};
+
+describe('detectLanguage', () => {
+  it.each(Object.entries(EXPECTED))('%s → %s', (name, language) => {
+    expect(detectLanguage(snippet(name))).toBe(language);
+  });
+
+  it('데이터에 언어를 직접 적은 스니펫이 없음 - 모두 추정으로 결정', () => {
+    expect([...snippets.values()].filter((comp) => comp.language).map((comp) => comp.name)).toEqual([]);
+  });
+
+  it('템플릿 문자열 안의 SQL 은 SQL 로 보지 않지만 -- 주석 뒤의 SQL 은 SQL', () => {
+    expect(snippet('Business Intelligence')).toMatch(/^\s*SELECT/m);
+    expect(detectLanguage('-- 조회\n-- 최근 1시간\nSELECT * FROM telemetry;')).toBe('sql');
+    expect(detectLanguage('const rows = db.query(`\n  SELECT * FROM devices\n`);')).toBe('javascript');
+  });
+
+  it('기호가 없는 문장은 text', () => {
+    expect(detectLanguage('설정 없음')).toBe('text');
+  });
+});
+
+describe('snippetFileName', () => {
+  it('첫 줄 주석의 파일 이름을 우선 사용', () => {
+    expect(snippetFileName('MQTT Broker', 'mosquitto', snippet('MQTT Broker'))).toBe('mosquitto.conf');
+  });
+
+  it('영문 컴포넌트 이름은 slug + 언어 확장자', () => {
+    expect(snippetFileName('WiFi Manager', 'cpp', snippet('WiFi Manager'))).toBe('wifi-manager.cpp');
+    expect(snippetFileName('Business Intelligence', 'javascript', snippet('Business Intelligence'))).toBe('business-intelligence.js');
+    expect(snippetFileName('Text-to-Speech', 'python', snippet('Text-to-Speech'))).toBe('text-to-speech.py');
+  });
+
+  it('한글 이름이면 코드의 첫 클래스/함수 이름을 kebab-case 로', () => {
+    expect(snippetFileName('3D 공간 모델링', 'javascript', snippet('3D 공간 모델링'))).toBe('digital-twin-engine.js');
+    expect(snippetFileName('예측 시뮬레이션', 'javascript', snippet('예측 시뮬레이션'))).toBe('run-predictive-simulation.js');
+    expect(snippetFileName('VR 관제 센터', 'csharp', snippet('VR 관제 센터'))).toBe('vr-control-center.cs');
+  });
+
+  it('이름도 식별자도 없으면 snippet', () => {
+    expect(snippetFileName('설정', 'yaml', 'key: value')).toBe('snippet.yaml');
+  });
+});
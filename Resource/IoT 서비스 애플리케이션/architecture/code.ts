@@ -0,0 +1,172 @@
+import type { CodeLanguage } from './model';
+
+// 코드 스니펫 언어 추정, 파일 이름 결정, 간단한 구문 강조 토큰화
+export const LANGUAGE_INFO: Record<CodeLanguage, { label: string; extension: string }> = {
+  cpp: { label: 'C++ (ESP32)', extension: 'cpp' },
+  javascript: { label: 'JavaScript', extension: 'js' },
+  typescript: { label: 'TypeScript', extension: 'ts' },
+  python: { label: 'Python', extension: 'py' },
+  sql: { label: 'SQL', extension: 'sql' },
+  yaml: { label: 'YAML', extension: 'yaml' },
+  json: { label: 'JSON', extension: 'json' },
+  mosquitto: { label: 'Mosquitto 설정', extension: 'conf' },
+  vue: { label: 'Vue', extension: 'vue' },
+  solidity: { label: 'Solidity', extension: 'sol' },
+  csharp: { label: 'C#', extension: 'cs' },
+  text: { label: 'Text', extension: 'txt' }
+};
+
+// 위에서부터 먼저 맞는 규칙을 사용 - 더 구체적인 언어를 앞에 둠
+const DETECTION_RULES: [CodeLanguage, RegExp][] = [
+  ['vue', /<template[\s>]/],
+  ['mosquitto', /mosquitto\.conf|^\s*(listener|allow_anonymous|password_file)\s/m],
+  // SQL 은 스니펫 맨 앞(-- 주석 다음)에서만 - JS 템플릿 문자열 안의 SELECT 를 SQL 로 보지 않도록
+  ['sql', /^(?:\s*--.*\n)*\s*(CREATE|SELECT|INSERT|UPDATE|ALTER)\s+/],
+  ['solidity', /^\s*(contract\s+\w+|pragma solidity)/m],
+  ['csharp', /MonoBehaviour|using UnityEngine|public class \w+\s*:/],
+  // Arduino 식 선언 "WiFiManager wifiManager;", "PubSubClient mqtt(espClient);" 도 C++
+  ['cpp', /#include\s*[<"]|\bvoid\s+\w+\s*\(|^\s*(float|int|bool|String)\s+\w+\s*[=;(]|^\s*[A-Z]\w*\s+[a-z]\w*\s*(;|\([\w\s,]*\);)\s*$/m],
+  ['python', /^\s*(import \w+\s*$|from [\w.]+ import|def \w+\(|class \w+(\(.*\))?:\s*$)/m],
+  ['yaml', /^(apiVersion|kind|openapi|paths|spec):/m],
+  ['typescript', /\(\s*\w+\s*:\s*[A-Z][\w<>[\]]*\s*[,)]|\b(interface|type)\s+\w+\s*[={<]|\bimplements\s+\w+/]
+];
+
+// 첫 줄의 "// ..." 주석은 데이터 관례상 어떤 언어에도 붙어 있으므로 제외하고 판단
+const withoutLeadingComment = (code: string) => code.replace(/^\s*(\/\/|#|--|<!--).*\n/, '');
+
+const looksLikeJson = (code: string) => {
+  const body = withoutLeadingComment(code).trim();
+  if (!/^[{[]/.test(body)) return false;
+  try {
+    JSON.parse(body);
+    return true;
+  } catch {
+    return /^\{\s*"[^"]+"\s*:/.test(body) && !/;\s*$/m.test(body);
+  }
+};
+
+export function detectLanguage(code: string): CodeLanguage {
+  const rule = DETECTION_RULES.find(([, pattern]) => pattern.test(code));
+  if (rule) return rule[0];
+  if (looksLikeJson(code)) return 'json';
+  return /[;{}()=]/.test(code) ? 'javascript' : 'text';
+}
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// 파일 이름 우선순위: 첫 줄 주석의 "(mosquitto.conf)" → 영문 컴포넌트 이름 → 코드의 첫 클래스/함수 이름
+export function snippetFileName(name: string, language: CodeLanguage, code = ''): string {
+  const extension = LANGUAGE_INFO[language].extension;
+  const named = code.split('\n')[0].match(/\(([\w.-]+\.[a-z]+)\)/i);
+  if (named) return named[1];
+  if (!/[가-힣]/.test(name) && slugify(name)) return `${slugify(name)}.${extension}`;
+
+  const symbol = code.match(/\b(?:class|contract|function)\s+(\w+)|^\s*(?:async\s+)?(\w+)\s*\(/m);
+  const identifier = symbol && (symbol[1] ?? symbol[2]).replace(/([a-z0-9])([A-Z])|([A-Z])([A-Z][a-z])/g, (_, a, b, c, d) => (a ? `${a}-${b}` : `${c}-${d}`));
+  return `${(identifier && slugify(identifier)) || 'snippet'}.${extension}`;
+}
+
+// ---- 구문 강조 ----
+
+export type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'attribute' | 'key' | 'plain';
+
+export interface CodeToken {
+  type: TokenType;
+  text: string;
+}
+
+const keywords = (words: string) => new RegExp(`\\b(?:${words.split(' ').join('|')})\\b`, 'y');
+
+const SLASH_COMMENTS: [TokenType, RegExp][] = [['comment', /\/\/.*/y], ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]];
+const HASH_COMMENT: [TokenType, RegExp] = ['comment', /#.*/y];
+const QUOTED: [TokenType, RegExp][] = [['string', /"(?:\\.|[^"\\\n])*"?/y], ['string', /'(?:\\.|[^'\\\n])*'?/y]];
+const NUMBER: [TokenType, RegExp] = ['number', /\b\d+(?:\.\d+)?\b/y];
+const IDENTIFIER: [TokenType, RegExp] = ['plain', /[A-Za-z_$][\w$]*/y];
+
+const JS_KEYWORDS = 'const let var function async await return if else for while of in new class extends constructor this try catch throw import from export default require switch case break continue typeof null undefined true false';
+
+const LANGUAGE_RULES: Record<CodeLanguage, [TokenType, RegExp][]> = {
+  javascript: [...SLASH_COMMENTS, ...QUOTED, ['string', /`(?:\\.|[^`\\])*`?/y], NUMBER, ['keyword', keywords(JS_KEYWORDS)], IDENTIFIER],
+  typescript: [
+    ...SLASH_COMMENTS, ...QUOTED, ['string', /`(?:\\.|[^`\\])*`?/y], NUMBER,
+    ['keyword', keywords(`${JS_KEYWORDS} interface type implements private public readonly string number boolean`)], IDENTIFIER
+  ],
+  cpp: [
+    ...SLASH_COMMENTS, ['keyword', /#\w+/y], ['string', /<[\w/.]+\.h>/y], ...QUOTED, NUMBER,
+    ['keyword', keywords('void int float double bool char const return if else for while true false class struct new delete auto String')], IDENTIFIER
+  ],
+  csharp: [
+    ...SLASH_COMMENTS, ...QUOTED, NUMBER,
+    ['keyword', keywords('public private protected class void int float string bool var new return if else foreach for in using async await true false null')], IDENTIFIER
+  ],
+  solidity: [
+    ...SLASH_COMMENTS, ...QUOTED, NUMBER,
+    ['keyword', keywords('contract mapping address uint256 uint8 struct function public private external view returns return require emit event memory storage if else')], IDENTIFIER
+  ],
+  python: [
+    HASH_COMMENT, ['string', /"""[\s\S]*?(?:"""|$)/y], ...QUOTED, NUMBER,
+    ['keyword', keywords('def class return if elif else for while in import from as with async await try except raise self None True False lambda yield')], IDENTIFIER
+  ],
+  sql: [
+    ['comment', /--.*/y], ...QUOTED, NUMBER,
+    ['keyword', /\b(?:CREATE|TABLE|INDEX|SELECT|FROM|WHERE|INSERT|INTO|VALUES|UPDATE|SET|PRIMARY|KEY|REFERENCES|NOT|NULL|DEFAULT|UNIQUE|ON|AND|OR|AS|UUID|VARCHAR|TEXT|JSONB|TIMESTAMP|INTEGER|BOOLEAN)\b/yi],
+    IDENTIFIER
+  ],
+  yaml: [['comment', /(?:#|\/\/).*/y], ['key', /^\s*-?\s*[\w./-]+(?=:)/my], ...QUOTED, NUMBER, IDENTIFIER],
+  json: [['comment', /\/\/.*/y], ['key', /"(?:\\.|[^"\\])*"(?=\s*:)/y], ...QUOTED, NUMBER, ['keyword', keywords('true false null')]],
+  mosquitto: [['comment', /(?:#|\/\/).*/y], ['key', /^\s*\w+/my], NUMBER, IDENTIFIER],
+  vue: [
+    ['comment', /<!--[\s\S]*?(?:-->|$)/y], ['tag', /<\/?[\w-]+|\/?>/y], ['attribute', /[:@]?[\w-]+(?==)/y],
+    ...QUOTED, ...SLASH_COMMENTS, NUMBER, ['keyword', keywords(JS_KEYWORDS)], IDENTIFIER
+  ],
+  text: []
+};
+
+export function tokenize(code: string, language: CodeLanguage): CodeToken[] {
+  const rules = LANGUAGE_RULES[language];
+  const tokens: CodeToken[] = [];
+  let plain = '';
+  let pos = 0;
+
+  const flushPlain = () => {
+    if (plain) tokens.push({ type: 'plain', text: plain });
+    plain = '';
+  };
+
+  while (pos < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        if (type === 'plain') {
+          plain += match[0];
+        } else {
+          flushPlain();
+          tokens.push({ type, text: match[0] });
+        }
+        pos += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      plain += code[pos];
+      pos += 1;
+    }
+  }
+  flushPlain();
+  return tokens;
+}
+
+// 줄 번호를 붙일 수 있도록 여러 줄에 걸친 토큰(블록 주석 등)을 줄 단위로 나눔
+export function tokenizeLines(code: string, language: CodeLanguage): CodeToken[][] {
+  const lines: CodeToken[][] = [[]];
+  tokenize(code, language).forEach((token) => {
+    token.text.split('\n').forEach((part, idx) => {
+      if (idx > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  });
+  return lines;
+}
@@ -0,0 +1,19 @@
+import { parseArchitecture, parseComponentMapping } from '../loader';
+import type { ArchitectureSet, ComponentMapping } from '../model';
+import overviewSource from './overview.yaml?raw';
+import v1Source from './v1.yaml?raw';
+import v2Source from './v2.yaml?raw';
+import v3Source from './v3.yaml?raw';
+import v4Source from './v4.yaml?raw';
+import mappingSource from './component-mapping.yaml?raw';
+
+// 번들 시점에 포함되는 기본 아키텍처 데이터 - 잘못된 항목은 모듈 로드 시 바로 예외 발생
+export const architectures: ArchitectureSet = {
+  overview: parseArchitecture(overviewSource, 'yaml', 'overview.yaml'),
+  v1: parseArchitecture(v1Source, 'yaml', 'v1.yaml'),
+  v2: parseArchitecture(v2Source, 'yaml', 'v2.yaml'),
+  v3: parseArchitecture(v3Source, 'yaml', 'v3.yaml'),
+  v4: parseArchitecture(v4Source, 'yaml', 'v4.yaml')
+};
+
+export const componentMapping: ComponentMapping = parseComponentMapping(mappingSource, 'yaml', 'component-mapping.yaml');
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { analyzeServiceDependencies, assertServiceDependencies } from './dependency-graph';
+
+// V3 문서에 연결 대상으로 이름만 나오고 서비스로 정의되지 않은 것들
+// (음성 파이프라인 내부 단계, 외부 발송 채널, 아직 설계 전인 서비스) - 서비스로 정의하면 여기서 뺌
+const PLANNED_SERVICES = [
+  'Auth Service', 'Device Registry', 'Rule Engine', 'ML Service', 'Data Lake', 'Billing Service',
+  'STT Service', 'NLU Service', 'TTS Service',
+  'Email Service', 'Push Service', 'SMS Service'
+];
+
+describe('V3 서비스 의존성', () => {
+  it.each(architectures.v3.architectures.map((architecture) => architecture.id))('%s 에 깨진 참조와 순환이 없음', (architectureId) => {
+    expect(() => assertServiceDependencies(architectures.v3, { architectureId, allowUnresolved: PLANNED_SERVICES })).not.toThrow();
+  });
+
+  it('허용 목록에 없는 새 참조는 실패', () => {
+    const model = structuredClone(architectures.v3);
+    model.architectures[0].services[0].connections.push('Typo Servce');
+    expect(() => assertServiceDependencies(model, { allowUnresolved: PLANNED_SERVICES })).toThrow(/Typo Servce/);
+  });
+
+  it('허용 목록은 검사만 통과시키고 그래프에는 미정의로 남김', () => {
+    const report = analyzeServiceDependencies(architectures.v3);
+    expect(report.unresolved.map((ref) => ref.target)).toContain('Auth Service');
+  });
+});
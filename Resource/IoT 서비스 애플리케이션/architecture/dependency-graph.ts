@@ -0,0 +1,177 @@
+import { splitTech } from './diff';
+import type { ArchitectureModel, Service } from './model';
+
+// V3 마이크로서비스 connections 를 방향 그래프로 보고 깨진 참조/순환/팬인 집중을 분석
+export type NodeKind = 'service' | 'infrastructure' | 'unresolved';
+
+export interface GraphNode {
+  id: string;
+  kind: NodeKind;
+  service?: Service;
+  fanIn: number;
+  fanOut: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  resolved: boolean;
+  inCycle: boolean;
+}
+
+export interface UnresolvedReference {
+  from: string;
+  target: string;
+  suggestion?: string;
+}
+
+export interface DependencyReport {
+  architecture: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  unresolved: UnresolvedReference[];
+  cycles: string[][];
+  hotspots: GraphNode[];
+}
+
+export interface DependencyOptions {
+  architectureId?: string;
+  hotspotThreshold?: number;
+  resolveInfrastructure?: boolean;
+  // assertServiceDependencies 에서만 통과시킬 대상 - 분석 결과(그래프)에는 그대로 미정의로 남음
+  allowUnresolved?: string[];
+}
+
+const words = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word && word !== 'service');
+
+// 정의되지 않은 이름과 가장 많은 단어를 공유하는 서비스를 후보로 제안
+function suggestService(target: string, services: Service[], source: string): string | undefined {
+  const targetWords = words(target);
+  let best: { name: string; score: number } | undefined;
+  services.filter((service) => service.name !== source).forEach((service) => {
+    const score = words(service.name).filter((word) => targetWords.includes(word)).length;
+    if (score > 0 && (!best || score > best.score)) best = { name: service.name, score };
+  });
+  return best?.name;
+}
+
+// Tarjan 알고리즘으로 강한 연결 요소를 찾아 순환 의존성 추출
+function findCycles(nodes: string[], adjacency: Map<string, string[]>): string[][] {
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter += 1;
+    stack.push(node);
+    onStack.add(node);
+
+    (adjacency.get(node) ?? []).forEach((next) => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+
+      const selfLoop = (adjacency.get(node) ?? []).includes(node);
+      if (component.length > 1 || selfLoop) cycles.push(component.reverse());
+    }
+  };
+
+  nodes.forEach((node) => {
+    if (!index.has(node)) visit(node);
+  });
+  return cycles;
+}
+
+export function analyzeServiceDependencies(model: ArchitectureModel, options: DependencyOptions = {}): DependencyReport {
+  const { hotspotThreshold = 2, resolveInfrastructure = true } = options;
+  const architecture = options.architectureId
+    ? model.architectures.find((entry) => entry.id === options.architectureId)
+    : model.architectures[0];
+  if (!architecture) {
+    return { architecture: options.architectureId ?? '', nodes: [], edges: [], unresolved: [], cycles: [], hotspots: [] };
+  }
+
+  const { services } = architecture;
+  const serviceNames = new Set(services.map((service) => service.name));
+  // 인프라 스택에 등장하는 저장소(TimescaleDB 등)는 서비스가 아니어도 유효한 대상으로 취급
+  const infrastructureNames = new Set(
+    resolveInfrastructure ? model.infrastructure.flatMap((layer) => splitTech(layer.tech)) : []
+  );
+
+  const nodes = new Map<string, GraphNode>();
+  services.forEach((service) => {
+    nodes.set(service.name, { id: service.name, kind: 'service', service, fanIn: 0, fanOut: 0 });
+  });
+
+  const edges: GraphEdge[] = [];
+  const unresolved: UnresolvedReference[] = [];
+
+  services.forEach((service) => {
+    service.connections.forEach((target) => {
+      const resolved = serviceNames.has(target) || infrastructureNames.has(target);
+      if (!nodes.has(target)) {
+        nodes.set(target, { id: target, kind: resolved ? 'infrastructure' : 'unresolved', fanIn: 0, fanOut: 0 });
+      }
+      nodes.get(service.name)!.fanOut += 1;
+      nodes.get(target)!.fanIn += 1;
+      edges.push({ from: service.name, to: target, resolved, inCycle: false });
+
+      if (!resolved) {
+        unresolved.push({ from: service.name, target, suggestion: suggestService(target, services, service.name) });
+      }
+    });
+  });
+
+  const adjacency = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) ?? []), edge.to]);
+  });
+  const cycles = findCycles([...nodes.keys()], adjacency);
+
+  cycles.forEach((cycle) => {
+    edges.forEach((edge) => {
+      if (cycle.includes(edge.from) && cycle.includes(edge.to)) edge.inCycle = true;
+    });
+  });
+
+  const hotspots = [...nodes.values()]
+    .filter((node) => node.fanIn >= hotspotThreshold)
+    .sort((a, b) => b.fanIn - a.fanIn);
+
+  return { architecture: architecture.id, nodes: [...nodes.values()], edges, unresolved, cycles, hotspots };
+}
+
+// 테스트/CI 에서 호출 - 깨진 참조나 순환이 있으면 모든 문제를 담아 예외 발생
+export function assertServiceDependencies(model: ArchitectureModel, options: DependencyOptions = {}): DependencyReport {
+  const report = analyzeServiceDependencies(model, options);
+  const allowed = new Set(options.allowUnresolved ?? []);
+  const problems = [
+    ...report.unresolved.filter(({ target }) => !allowed.has(target)).map(({ from, target, suggestion }) =>
+      `${from} → "${target}" 는 정의되지 않은 서비스입니다${suggestion ? ` (혹시 "${suggestion}"?)` : ''}`
+    ),
+    ...report.cycles.map((cycle) => `순환 의존성: ${[...cycle, cycle[0]].join(' → ')}`)
+  ];
+
+  if (problems.length > 0) {
+    throw new Error(`서비스 의존성 검사 실패 (${model.version})\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+  }
+  return report;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { architectures, componentMapping } from './data';
+import { diffArchitectures } from './diff';
+import type { ArchitectureModel } from './model';
+
+const VERSIONS = ['v1', 'v2', 'v3', 'v4'] as const;
+
+describe('diffArchitectures', () => {
+  it('모든 버전 쌍에서 항목 키가 겹치지 않음', () => {
+    VERSIONS.forEach((from) => VERSIONS.forEach((to) => {
+      const keys = diffArchitectures(architectures[from], architectures[to], componentMapping).entries.map((entry) => entry.key);
+      expect(new Set(keys).size).toBe(keys.length);
+    }));
+  });
+
+  it('이름이 같은 짝 없는 컴포넌트도 따로 한 줄씩 나옴', () => {
+    const base = architectures.v1;
+    const [layer] = base.layers;
+    const duplicate = { ...layer.components[0], name: 'Duplicated Widget' };
+    const model: ArchitectureModel = {
+      ...base,
+      layers: [{ ...layer, components: [...layer.components, duplicate, duplicate] }, ...base.layers.slice(1)]
+    };
+    const diff = diffArchitectures(model, { ...base, layers: [], features: [], integrations: [], architectures: [] });
+    const removed = diff.entries.filter((entry) => entry.title === 'Duplicated Widget');
+    expect(removed).toHaveLength(2);
+    expect(removed[0].key).not.toBe(removed[1].key);
+    expect(diff.summary.removed).toBe(diff.entries.length);
+  });
+});
@@ -0,0 +1,237 @@
+import type { ArchitectureModel, ArchitectureVersion, ComponentMapping } from './model';
+
+// 버전 간 비교에 쓰이는 정규화된 컴포넌트 스냅샷
+export interface ComponentSnapshot {
+  version: ArchitectureVersion;
+  name: string;
+  group: string;
+  tech: string[];
+  protocols: string[];
+  responsibilities: string[];
+}
+
+export interface SetDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export const DIFF_STATUSES = ['added', 'removed', 'changed', 'unchanged'] as const;
+export type DiffStatus = typeof DIFF_STATUSES[number];
+
+export interface ComponentDiff {
+  key: string;
+  title: string;
+  status: DiffStatus;
+  matchedBy: 'mapping' | 'name' | null;
+  from: ComponentSnapshot[];
+  to: ComponentSnapshot[];
+  tech: SetDiff;
+  protocols: SetDiff;
+  responsibilities: SetDiff;
+}
+
+export interface ArchitectureDiff {
+  from: ArchitectureVersion;
+  to: ArchitectureVersion;
+  entries: ComponentDiff[];
+  summary: Record<DiffStatus, number>;
+}
+
+const KNOWN_PROTOCOLS: [string, RegExp][] = [
+  ['MQTT', /\bmqtt\b|mosquitto|pubsubclient/i],
+  ['HTTP', /\bhttps?\b|axios|express|fastapi/i],
+  ['REST', /\brest\b|app\.(get|post|put|delete)\(/i],
+  ['WebSocket', /websocket|\bws:\/\//i],
+  ['gRPC', /\bgrpc\b/i],
+  ['Zigbee', /zigbee/i],
+  ['Thread', /\bthread\b|openthread/i],
+  ['Matter', /\bmatter\b/i],
+  ['Kafka', /kafka/i],
+  ['AMQP', /rabbitmq|\bamqp\b|celery/i],
+  ['Pulsar', /pulsar/i],
+  ['RTSP', /\brtsp\b/i],
+  ['mTLS', /\bmtls\b/i],
+  ['OAuth2', /oauth\s*2?/i],
+  ['GraphQL', /graphql/i],
+  ['Redis Pub/Sub', /redis pub[-/]sub/i]
+];
+
+// 기술/코드/설명 텍스트에 언급된 통신 프로토콜 추출
+export function detectProtocols(...texts: (string | undefined)[]): string[] {
+  const joined = texts.filter(Boolean).join('\n');
+  return KNOWN_PROTOCOLS.filter(([, pattern]) => pattern.test(joined)).map(([name]) => name);
+}
+
+// "Kong / Envoy", "Whisper (로컬) + Faster Whisper" 같은 기술 문자열을 항목 단위로 분리
+export function splitTech(tech?: string): string[] {
+  if (!tech) return [];
+  return tech
+    .split(/\s*(?:\+|\/|,)\s*(?![^(]*\))/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+export function collectComponents(model: ArchitectureModel): ComponentSnapshot[] {
+  const { version } = model;
+  const snapshots: ComponentSnapshot[] = [];
+
+  model.layers.forEach((layer) => {
+    layer.components.forEach((comp) => {
+      snapshots.push({
+        version,
+        name: comp.name,
+        group: layer.title,
+        tech: unique(splitTech(comp.tech ?? layer.tech)),
+        protocols: detectProtocols(comp.protocol, comp.tech, comp.code),
+        responsibilities: [comp.purpose, comp.role, comp.platform].filter(Boolean) as string[]
+      });
+    });
+  });
+
+  [...model.features, ...model.integrations].forEach((feature) => {
+    feature.components.forEach((comp) => {
+      snapshots.push({
+        version,
+        name: comp.name,
+        group: feature.title,
+        tech: unique(splitTech(comp.tech)),
+        protocols: detectProtocols(comp.tech, comp.code, comp.flow),
+        responsibilities: [comp.purpose, comp.flow, comp.description, ...(comp.features ?? [])].filter(Boolean) as string[]
+      });
+    });
+  });
+
+  model.architectures.forEach((architecture) => {
+    architecture.services.forEach((service) => {
+      snapshots.push({
+        version,
+        name: service.name,
+        group: architecture.title,
+        tech: unique(splitTech(service.tech)),
+        protocols: detectProtocols(service.tech),
+        responsibilities: [service.responsibility]
+      });
+    });
+  });
+
+  return snapshots;
+}
+
+const STOP_WORDS = new Set(['service', 'engine', 'manager', 'module', 'system', 'client', 'server', 'the']);
+
+const tokens = (value: string) => new Set(
+  value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token && !STOP_WORDS.has(token))
+);
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((token) => b.has(token)).length;
+  return shared / (a.size + b.size - shared);
+};
+
+// 이름 유사도 70%, 역할 유사도 30%로 매칭 점수 계산
+export function similarity(a: ComponentSnapshot, b: ComponentSnapshot): number {
+  const nameScore = jaccard(tokens(a.name), tokens(b.name));
+  const roleScore = jaccard(tokens(a.responsibilities.join(' ')), tokens(b.responsibilities.join(' ')));
+  return nameScore * 0.7 + roleScore * 0.3;
+}
+
+const MATCH_THRESHOLD = 0.5;
+
+const diffSets = (before: string[], after: string[]): SetDiff => ({
+  added: after.filter((value) => !before.includes(value)),
+  removed: before.filter((value) => !after.includes(value)),
+  kept: before.filter((value) => after.includes(value))
+});
+
+function buildEntry(
+  key: string,
+  title: string,
+  matchedBy: ComponentDiff['matchedBy'],
+  from: ComponentSnapshot[],
+  to: ComponentSnapshot[]
+): ComponentDiff {
+  const merged = (list: ComponentSnapshot[], field: 'tech' | 'protocols' | 'responsibilities') =>
+    unique(list.flatMap((snapshot) => snapshot[field]));
+
+  const tech = diffSets(merged(from, 'tech'), merged(to, 'tech'));
+  const protocols = diffSets(merged(from, 'protocols'), merged(to, 'protocols'));
+  const responsibilities = diffSets(merged(from, 'responsibilities'), merged(to, 'responsibilities'));
+
+  let status: DiffStatus;
+  if (from.length === 0) status = 'added';
+  else if (to.length === 0) status = 'removed';
+  else {
+    const changed = [tech, protocols, responsibilities].some((set) => set.added.length > 0 || set.removed.length > 0);
+    const renamed = from.map((s) => s.name).join('|') !== to.map((s) => s.name).join('|');
+    status = changed || renamed ? 'changed' : 'unchanged';
+  }
+
+  return { key, title, status, matchedBy, from, to, tech, protocols, responsibilities };
+}
+
+// label 은 항목 제목에 쓸 표시 이름 - 매칭은 항상 원문 이름으로 함
+export function diffArchitectures(
+  fromModel: ArchitectureModel,
+  toModel: ArchitectureModel,
+  mapping: ComponentMapping = { components: [] },
+  label: (name: string) => string = (name) => name
+): ArchitectureDiff {
+  const fromComponents = collectComponents(fromModel);
+  const toComponents = collectComponents(toModel);
+  const usedFrom = new Set<ComponentSnapshot>();
+  const usedTo = new Set<ComponentSnapshot>();
+  const entries: ComponentDiff[] = [];
+  // 한 버전 안에서도 이름이 겹칠 수 있으므로 (레이어/기능마다 "API Gateway" 등) 그룹과 순번까지 키에 넣음
+  const snapshotKey = (list: ComponentSnapshot[], snapshot: ComponentSnapshot) =>
+    `${snapshot.group}/${snapshot.name}#${list.indexOf(snapshot)}`;
+
+  // 1. 매핑 파일에 명시된 논리 컴포넌트 우선 정렬
+  mapping.components.forEach((logical) => {
+    const pick = (list: ComponentSnapshot[], version: ArchitectureVersion, used: Set<ComponentSnapshot>) => {
+      const names = logical.members[version] ?? [];
+      return list.filter((snapshot) => names.includes(snapshot.name) && !used.has(snapshot));
+    };
+    const from = pick(fromComponents, fromModel.version, usedFrom);
+    const to = pick(toComponents, toModel.version, usedTo);
+    if (from.length === 0 && to.length === 0) return;
+
+    from.forEach((snapshot) => usedFrom.add(snapshot));
+    to.forEach((snapshot) => usedTo.add(snapshot));
+    entries.push(buildEntry(logical.id, logical.title, 'mapping', from, to));
+  });
+
+  // 2. 남은 컴포넌트는 이름/역할 유사도로 1:1 매칭 (점수 높은 쌍부터)
+  const candidates = fromComponents
+    .filter((a) => !usedFrom.has(a))
+    .flatMap((a) => toComponents.filter((b) => !usedTo.has(b)).map((b) => ({ a, b, score: similarity(a, b) })))
+    .filter(({ score }) => score >= MATCH_THRESHOLD)
+    .sort((x, y) => y.score - x.score);
+
+  candidates.forEach(({ a, b }) => {
+    if (usedFrom.has(a) || usedTo.has(b)) return;
+    usedFrom.add(a);
+    usedTo.add(b);
+    entries.push(buildEntry(`${snapshotKey(fromComponents, a)}→${snapshotKey(toComponents, b)}`, a.name === b.name ? label(a.name) : `${label(a.name)} → ${label(b.name)}`, 'name', [a], [b]));
+  });
+
+  // 3. 짝이 없는 컴포넌트는 삭제/추가로 분류
+  fromComponents.filter((a) => !usedFrom.has(a)).forEach((a) => {
+    entries.push(buildEntry(`-${snapshotKey(fromComponents, a)}`, label(a.name), null, [a], []));
+  });
+  toComponents.filter((b) => !usedTo.has(b)).forEach((b) => {
+    entries.push(buildEntry(`+${snapshotKey(toComponents, b)}`, label(b.name), null, [], [b]));
+  });
+
+  const summary: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  entries.forEach((entry) => { summary[entry.status] += 1; });
+
+  return { from: fromModel.version, to: toModel.version, entries, summary };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import {
+  applyEdit, commitModel, createHistory, editHistory, importModel, redo, serializeModel, undo, uniqueId, validateDraft
+} from './editor';
+import { ArchitectureLoadError } from './loader';
+
+const v1 = architectures.v1;
+
+describe('applyEdit', () => {
+  it('경로 밖의 객체는 그대로 공유하고 비운 선택 필드는 키를 제거', () => {
+    const next = applyEdit(v1, { type: 'set', path: ['layers', 0, 'tech'], value: undefined });
+    expect('tech' in next.layers[0]).toBe(false);
+    expect(v1.layers[0].tech).toBeDefined();
+    expect(next.layers[1]).toBe(v1.layers[1]);
+    expect(next.flows).toBe(v1.flows);
+  });
+
+  it('insert/remove/move - 범위 밖으로 옮기면 그대로', () => {
+    const titles = (model: typeof v1) => model.layers.map((layer) => layer.id);
+    const [first, second] = titles(v1);
+    expect(titles(applyEdit(v1, { type: 'move', path: ['layers'], from: 0, to: 1 })).slice(0, 2)).toEqual([second, first]);
+    expect(titles(applyEdit(v1, { type: 'move', path: ['layers'], from: 0, to: -1 }))).toEqual(titles(v1));
+    expect(titles(applyEdit(v1, { type: 'remove', path: ['layers'], index: 0 }))).toEqual(titles(v1).slice(1));
+    const inserted = applyEdit(v1, { type: 'insert', path: ['layers'], index: 0, value: { ...v1.layers[0], id: 'edge' } });
+    expect(titles(inserted)).toEqual(['edge', ...titles(v1)]);
+  });
+});
+
+describe('편집 기록', () => {
+  const setTitle = (history: ReturnType<typeof createHistory>, title: string) =>
+    editHistory(history, { type: 'set', path: ['title'], value: title });
+
+  it('같은 필드를 이어서 입력하면 하나의 편집으로 되돌림', () => {
+    let history = setTitle(setTitle(setTitle(createHistory(v1), 'V'), 'V1'), 'V1 초안');
+    expect(history.past).toHaveLength(1);
+    history = undo(history);
+    expect(history.present).toBe(v1);
+    expect(redo(history).present.title).toBe('V1 초안');
+  });
+
+  it('다른 필드나 구조 편집은 따로 기록하고 새 편집은 다시 실행 목록을 비움', () => {
+    let history = setTitle(createHistory(v1), '초안');
+    history = editHistory(history, { type: 'set', path: ['layers', 0, 'title'], value: '엣지' });
+    history = editHistory(history, { type: 'remove', path: ['flows'], index: 0 });
+    expect(history.past).toHaveLength(3);
+
+    history = undo(undo(history));
+    expect(history.present.layers[0].title).toBe(v1.layers[0].title);
+    expect(history.future).toHaveLength(2);
+    history = setTitle(history, '다른 초안');
+    expect(history.future).toEqual([]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('처음 상태에서 되돌리기와 같은 모델 커밋은 기록을 바꾸지 않음', () => {
+    const history = createHistory(v1);
+    expect(undo(history)).toBe(history);
+    expect(commitModel(history, v1)).toBe(history);
+    expect(commitModel(history, architectures.v2).past).toEqual([v1]);
+  });
+});
+
+describe('validateDraft', () => {
+  it('파일 로드와 같은 스키마로 검사해 문제 경로를 돌려줌', () => {
+    expect(validateDraft(v1)).toEqual([]);
+    const issues = validateDraft(applyEdit(v1, { type: 'set', path: ['layers', 0, 'title'], value: ' ' }));
+    expect(issues.map((issue) => issue.path)).toEqual([['layers', 0, 'title']]);
+  });
+});
+
+describe('uniqueId', () => {
+  it('겹치면 -2, -3 을 붙임', () => {
+    expect(uniqueId('new-layer', [])).toBe('new-layer');
+    expect(uniqueId('new-layer', ['new-layer', 'new-layer-2'])).toBe('new-layer-3');
+  });
+});
+
+describe('importModel', () => {
+  it('내보낸 JSON 을 다시 읽고 다른 버전의 파일은 거부', () => {
+    expect(importModel(serializeModel(v1), 'v1.json', 'v1')).toEqual(v1);
+    expect(() => importModel(serializeModel(v1), 'v1.json', 'v2')).toThrow(ArchitectureLoadError);
+  });
+});
@@ -0,0 +1,218 @@
+import { architectureModelSchema } from './schema';
+import { ArchitectureLoadError, detectFormat, parseArchitecture } from './loader';
+import type { ArchitectureModel, Challenge, Component, Feature, Flow, FlowStep, Layer, Phase, PhaseItem, Service } from './model';
+
+// 폼 편집기용 모델 조작 - 모든 편집은 경로 기반 연산으로 표현되어 되돌리기/다시 실행이 가능
+export type ModelPath = (string | number)[];
+
+export type EditOperation =
+  | { type: 'set'; path: ModelPath; value: unknown }
+  | { type: 'insert'; path: ModelPath; index?: number; value: unknown }
+  | { type: 'remove'; path: ModelPath; index: number }
+  | { type: 'move'; path: ModelPath; from: number; to: number };
+
+type Container = Record<string | number, unknown> | unknown[];
+
+// path 위치의 값을 update 결과로 바꾼 사본 - 경로 밖의 객체는 그대로 공유
+function updateIn(target: unknown, path: ModelPath, update: (value: unknown) => unknown): unknown {
+  if (path.length === 0) return update(target);
+  const [key, ...rest] = path;
+  const container = (target ?? (typeof key === 'number' ? [] : {})) as Container;
+  const next = updateIn((container as Record<string | number, unknown>)[key], rest, update);
+
+  if (Array.isArray(container)) {
+    const copy = [...container];
+    copy[key as number] = next;
+    return copy;
+  }
+  const copy: Record<string | number, unknown> = { ...container };
+  // 선택 필드를 비우면 키 자체를 제거 (빈 문자열은 스키마 검증에 실패하므로)
+  if (next === undefined) delete copy[key];
+  else copy[key] = next;
+  return copy;
+}
+
+export function getIn(target: unknown, path: ModelPath): unknown {
+  return path.reduce<unknown>((value, key) => (value as Record<string | number, unknown> | undefined)?.[key], target);
+}
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export function applyEdit(model: ArchitectureModel, operation: EditOperation): ArchitectureModel {
+  switch (operation.type) {
+    case 'set':
+      return updateIn(model, operation.path, () => operation.value) as ArchitectureModel;
+    case 'insert':
+      return updateIn(model, operation.path, (value) => {
+        const list = [...asList(value)];
+        list.splice(operation.index ?? list.length, 0, operation.value);
+        return list;
+      }) as ArchitectureModel;
+    case 'remove':
+      return updateIn(model, operation.path, (value) => asList(value).filter((_, idx) => idx !== operation.index)) as ArchitectureModel;
+    case 'move':
+      return updateIn(model, operation.path, (value) => {
+        const list = [...asList(value)];
+        if (operation.to < 0 || operation.to >= list.length) return list;
+        const [moved] = list.splice(operation.from, 1);
+        list.splice(operation.to, 0, moved);
+        return list;
+      }) as ArchitectureModel;
+  }
+}
+
+// ---- 되돌리기 / 다시 실행 (횟수 제한 없음) ----
+
+export interface EditHistory {
+  past: ArchitectureModel[];
+  present: ArchitectureModel;
+  future: ArchitectureModel[];
+  // 마지막 'set' 편집의 경로 - 같은 필드를 연속으로 입력하면 하나의 편집으로 합침
+  lastPath?: string;
+}
+
+export const createHistory = (model: ArchitectureModel): EditHistory => ({ past: [], present: model, future: [] });
+
+// 가져오기처럼 모델 전체를 바꾸는 경우도 하나의 편집으로 기록
+export function commitModel(history: EditHistory, model: ArchitectureModel): EditHistory {
+  if (model === history.present) return history;
+  return { past: [...history.past, history.present], present: model, future: [] };
+}
+
+export function editHistory(history: EditHistory, operation: EditOperation): EditHistory {
+  const present = applyEdit(history.present, operation);
+  const lastPath = operation.type === 'set' ? operation.path.join('.') : undefined;
+  if (lastPath !== undefined && lastPath === history.lastPath) return { ...history, present, future: [] };
+  return { ...commitModel(history, present), lastPath };
+}
+
+export function undo(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+}
+
+export function redo(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+}
+
+// ---- 검증 ----
+
+export interface EditIssue {
+  path: ModelPath;
+  message: string;
+}
+
+// 편집 중인 모델을 파일 로드와 같은 스키마로 검사 - 문제가 없으면 빈 배열
+export function validateDraft(model: ArchitectureModel): EditIssue[] {
+  const result = architectureModelSchema.safeParse(model);
+  if (result.success) return [];
+  return result.error.issues.map((issue) => ({ path: issue.path, message: issue.message }));
+}
+
+// ---- 새 항목 기본값 ----
+
+export function uniqueId(prefix: string, existing: string[]): string {
+  let candidate = prefix;
+  for (let suffix = 2; existing.includes(candidate); suffix += 1) candidate = `${prefix}-${suffix}`;
+  return candidate;
+}
+
+// 새 항목의 기본 문구 - UI 는 현재 언어의 문구를 넘김
+export const NEW_ITEM_LABELS = {
+  component: '새 구성 요소',
+  tech: '기술 스택',
+  layer: '새 레이어',
+  step: '새 단계',
+  flow: '새 플로우',
+  feature: '새 기능',
+  service: '새 서비스',
+  responsibility: '담당 책임',
+  phase: '새 구현 단계',
+  task: '새 작업',
+  risk: '새 리스크',
+  mitigation: '대응 방안'
+};
+
+export type NewItemLabels = typeof NEW_ITEM_LABELS;
+
+export const newComponent = (labels: NewItemLabels = NEW_ITEM_LABELS): Component => ({ name: labels.component, tech: labels.tech });
+
+export const newLayer = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): Layer => ({
+  id: uniqueId('new-layer', model.layers.map((layer) => layer.id)),
+  title: labels.layer,
+  components: [newComponent(labels)]
+});
+
+// 새 단계는 첫 두 레이어를 잇도록 두어 바로 검증을 통과하게 함
+export const newFlowStep = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): FlowStep => {
+  const [first = '', second = first] = model.layers.map((layer) => layer.id);
+  return { from: first, to: second, action: labels.step };
+};
+
+export const newFlow = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): Flow => ({
+  id: uniqueId('new-flow', model.flows.map((flow) => flow.id)),
+  title: labels.flow,
+  steps: [newFlowStep(model, labels)]
+});
+
+export const newFeature = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): Feature => ({
+  id: uniqueId('new-feature', model.features.map((feature) => feature.id)),
+  title: labels.feature,
+  components: []
+});
+
+export const newService = (labels: NewItemLabels = NEW_ITEM_LABELS): Service => ({
+  name: labels.service,
+  tech: labels.tech,
+  responsibility: labels.responsibility,
+  connections: []
+});
+
+// 작업/산출물 id 는 모델 전체에서 유일 - 로드맵 진행 상태와 팀 역할이 이 id 를 가리킴
+export const newPhaseItem = (model: ArchitectureModel, prefix: 'task' | 'deliverable', title: string): PhaseItem => ({
+  id: uniqueId(prefix, model.phases.flatMap((phase) => [...phase.tasks, ...phase.deliverables].map((item) => item.id))),
+  title
+});
+
+// 구현 단계는 로드맵 추적기의 작업 항목이 됨
+export const newPhase = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): Phase => ({
+  id: uniqueId(`phase${model.phases.length + 1}`, model.phases.map((phase) => phase.id)),
+  title: labels.phase,
+  tasks: [newPhaseItem(model, 'task', labels.task)],
+  deliverables: []
+});
+
+// 새 리스크는 중간 점수(3×3)의 미조치 상태로 시작
+export const newRisk = (model: ArchitectureModel, labels: NewItemLabels = NEW_ITEM_LABELS): Challenge => ({
+  id: uniqueId('new-risk', model.challenges.map((risk) => risk.id)),
+  challenge: labels.risk,
+  solution: labels.mitigation,
+  likelihood: 3,
+  impact: 3,
+  status: 'open',
+  components: []
+});
+
+// ---- 모델 파일 내보내기 / 가져오기 ----
+
+export function serializeModel(model: ArchitectureModel): string {
+  return `${JSON.stringify(model, null, 2)}\n`;
+}
+
+// 현재 편집 중인 버전과 다른 버전의 파일은 거부
+export function importModel(source: string, fileName: string, expectedVersion: ArchitectureModel['version']): ArchitectureModel {
+  const model = parseArchitecture(source, detectFormat(fileName), fileName);
+  if (model.version !== expectedVersion) {
+    throw new ArchitectureLoadError(fileName, [`version(${model.version})이 편집 중인 버전(${expectedVersion})과 다릅니다`]);
+  }
+  return model;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { toC4Dsl, toMermaidFlowchart } from './export';
+
+describe('architecture export', () => {
+  it('기술이 없는 컴포넌트는 C4 technology 자리를 비워 둠', () => {
+    const dsl = toC4Dsl(architectures.v1);
+    expect(dsl).toMatch(/= component "WiFi Manager" "디바이스 초기 설정" ""/);
+  });
+
+  it('Mermaid 라벨에는 있는 항목만 붙음', () => {
+    const flowchart = toMermaidFlowchart(architectures.v1);
+    expect(flowchart).toContain('"WiFi Manager<br/>- 디바이스 초기 설정"');
+  });
+
+  it('외부 노드 설명은 넘겨받은 로캘 문구를 쓰고 없으면 비워 둠', () => {
+    const labels = { unresolved: 'Undefined service', infrastructure: 'Infrastructure' };
+    const external = (dsl: string) => dsl.split('\n').filter((line) => line.endsWith('"External"'));
+
+    const translated = external(toC4Dsl(architectures.v3, labels));
+    expect(translated.length).toBeGreaterThan(0);
+    translated.forEach((line) => expect(line).toMatch(/ "(Undefined service|Infrastructure)" "" "External"$/));
+    external(toC4Dsl(architectures.v3)).forEach((line) => expect(line).toMatch(/ "" "" "External"$/));
+  });
+});
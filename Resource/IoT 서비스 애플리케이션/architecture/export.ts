@@ -0,0 +1,306 @@
+import { analyzeServiceDependencies } from './dependency-graph';
+import type { ArchitectureModel, Component, Flow } from './model';
+
+// 아키텍처 모델을 문서용 다이어그램(Mermaid, PlantUML, Structurizr C4 DSL)으로 변환
+export type ExportFormat = 'mermaid' | 'plantuml' | 'c4';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mermaid', 'plantuml', 'c4'];
+
+export interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+// 세 가지 출력 형식이 공유하는 중간 그래프 - 레이어/아키텍처는 그룹, 카드/서비스는 노드
+export interface DiagramNode {
+  id: string;
+  label: string;
+  tech?: string;
+  protocol?: string;
+  description?: string;
+  external?: boolean;
+}
+
+export interface DiagramGroup {
+  id: string;
+  label: string;
+  tech?: string;
+  nodes: DiagramNode[];
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  technology?: string;
+  bidirectional?: boolean;
+}
+
+// 서비스 의존성에서 나온 외부 노드의 설명 - 로캘 번들의 export.external.* (생략하면 설명 없이 내보냄)
+export interface ExportLabels {
+  unresolved: string;
+  infrastructure: string;
+}
+
+export interface DiagramGraph {
+  title: string;
+  groups: DiagramGroup[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+const unique = <T>(values: T[]) => [...new Set(values)];
+
+const componentFields = (comp: Component) => ({
+  tech: comp.tech,
+  protocol: comp.protocol,
+  description: comp.role ?? comp.purpose ?? comp.description
+});
+
+// Mermaid/PlantUML 라벨에 붙이는 보조 줄 - 없는 항목은 건너뜀
+const nodeDetails = (node: DiagramNode) => [node.tech, node.protocol, node.description].filter(Boolean) as string[];
+
+// 개요의 "디바이스 ↔ 게이트웨이" 같은 연결 이름을 레이어 id 로 변환
+const findLayerId = (model: ArchitectureModel, term: string) =>
+  model.layers.find((layer) => layer.id === term || layer.title.includes(term))?.id;
+
+export function buildDiagramGraph(model: ArchitectureModel, labels?: ExportLabels): DiagramGraph {
+  const graph: DiagramGraph = { title: model.title, groups: [], nodes: [], edges: [] };
+
+  model.layers.forEach((layer) => {
+    graph.groups.push({
+      id: layer.id,
+      label: layer.title,
+      tech: layer.tech,
+      nodes: layer.components.map((comp, idx) => ({
+        id: `${layer.id}_${idx + 1}`,
+        label: comp.name,
+        ...componentFields(comp)
+      }))
+    });
+  });
+
+  model.protocols.forEach((route) => {
+    const [from, to] = route.link.split(/\s*↔\s*/).map((term) => findLayerId(model, term));
+    if (from && to) {
+      graph.edges.push({ from, to, technology: route.protocols.join(', '), bidirectional: true });
+    }
+  });
+
+  // 같은 레이어 쌍을 오가는 플로우 단계는 하나의 연결로 묶고 사용된 프로토콜을 모음
+  const flowSteps = model.flows.flatMap((flow) => flow.steps).filter((step) => step.from !== step.to);
+  unique(flowSteps.map((step) => `${step.from}>${step.to}`)).forEach((pair) => {
+    const steps = flowSteps.filter((step) => `${step.from}>${step.to}` === pair);
+    const protocols = unique(steps.flatMap((step) => (step.payload ? [step.payload.protocol] : [])));
+    graph.edges.push({
+      from: steps[0].from,
+      to: steps[0].to,
+      label: steps[0].action,
+      technology: protocols.join(', ') || undefined
+    });
+  });
+
+  model.architectures.forEach((architecture, archIdx) => {
+    const report = analyzeServiceDependencies(model, { architectureId: architecture.id });
+    const ids = new Map(report.nodes.map((node, idx) => [node.id, `${architecture.id.replace(/\W/g, '_')}_${idx + 1}`]));
+
+    graph.groups.push({
+      id: architecture.id.replace(/\W/g, '_') || `architecture_${archIdx + 1}`,
+      label: architecture.title,
+      nodes: architecture.services.map((service) => ({
+        id: ids.get(service.name)!,
+        label: service.name,
+        tech: service.tech,
+        description: service.responsibility
+      }))
+    });
+    report.nodes
+      .filter((node) => node.kind !== 'service')
+      .forEach((node) => {
+        graph.nodes.push({
+          id: ids.get(node.id)!,
+          label: node.id,
+          description: labels?.[node.kind === 'unresolved' ? 'unresolved' : 'infrastructure'],
+          external: true
+        });
+      });
+    report.edges.forEach((edge) => {
+      graph.edges.push({ from: ids.get(edge.from)!, to: ids.get(edge.to)! });
+    });
+  });
+
+  return graph;
+}
+
+// ---- Mermaid ----
+
+const mermaidText = (value: string) => value.replace(/"/g, '#quot;');
+
+const mermaidLabel = (node: DiagramNode) =>
+  `"${[node.label, ...nodeDetails(node).map((detail) => `- ${detail}`)].map(mermaidText).join('<br/>')}"`;
+
+export function toMermaidFlowchart(model: ArchitectureModel, labels?: ExportLabels): string {
+  const graph = buildDiagramGraph(model, labels);
+  const lines = ['graph TB', `    %% ${graph.title}`];
+
+  graph.groups.forEach((group) => {
+    lines.push(`    subgraph ${group.id}["${mermaidText(group.tech ? `${group.label} (${group.tech})` : group.label)}"]`);
+    group.nodes.forEach((node) => lines.push(`        ${node.id}[${mermaidLabel(node)}]`));
+    lines.push('    end');
+  });
+  graph.nodes.forEach((node) => {
+    lines.push(`    ${node.id}(${mermaidLabel(node)})`);
+  });
+
+  lines.push('');
+  graph.edges.forEach((edge) => {
+    const text = [edge.label, edge.technology].filter(Boolean).join(' / ');
+    const arrow = edge.bidirectional ? '<-->' : '-->';
+    lines.push(`    ${edge.from} ${arrow}${text ? `|"${mermaidText(text)}"|` : ''} ${edge.to}`);
+  });
+
+  const external = graph.nodes.filter((node) => node.external).map((node) => node.id);
+  if (external.length > 0) {
+    lines.push('', '    classDef external stroke-dasharray: 5 5', `    class ${external.join(',')} external`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function toMermaidSequence(model: ArchitectureModel, flow: Flow): string {
+  const participants = unique(flow.steps.flatMap((step) => [step.from, step.to]));
+  const lines = ['sequenceDiagram', `    %% ${flow.title}`];
+
+  participants.forEach((id) => {
+    const layer = model.layers.find((entry) => entry.id === id);
+    lines.push(`    participant ${id} as ${layer?.title ?? id}`);
+  });
+  lines.push('');
+  flow.steps.forEach((step) => {
+    lines.push(`    ${step.from}->>${step.to}: ${step.action}`);
+    if (step.payload?.target) {
+      lines.push(`    Note over ${step.from},${step.to}: ${step.payload.protocol} ${step.payload.target}`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+// ---- PlantUML ----
+
+const plantText = (value: string) => value.replace(/"/g, "'");
+
+export function toPlantUml(model: ArchitectureModel, labels?: ExportLabels): string {
+  const graph = buildDiagramGraph(model, labels);
+  const lines = ['@startuml', `title ${graph.title}`, ''];
+
+  graph.groups.forEach((group) => {
+    lines.push(`package "${plantText(group.tech ? `${group.label}\\n${group.tech}` : group.label)}" as ${group.id} {`);
+    group.nodes.forEach((node) => {
+      lines.push(`  component "${plantText([node.label, ...nodeDetails(node)].join('\\n'))}" as ${node.id}`);
+    });
+    lines.push('}');
+  });
+  graph.nodes.forEach((node) => {
+    lines.push(`component "${plantText([node.label, ...nodeDetails(node)].join('\\n'))}" as ${node.id} #line.dashed`);
+  });
+
+  lines.push('');
+  graph.edges.forEach((edge) => {
+    const text = [edge.label, edge.technology].filter(Boolean).join(' / ');
+    lines.push(`${edge.from} ${edge.bidirectional ? '<-->' : '-->'} ${edge.to}${text ? ` : ${plantText(text)}` : ''}`);
+  });
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+export function toPlantUmlSequence(model: ArchitectureModel, flow: Flow): string {
+  const participants = unique(flow.steps.flatMap((step) => [step.from, step.to]));
+  const lines = ['@startuml', `title ${flow.title}`, ''];
+
+  participants.forEach((id) => {
+    const layer = model.layers.find((entry) => entry.id === id);
+    lines.push(`participant "${plantText(layer?.title ?? id)}" as ${id}`);
+  });
+  lines.push('');
+  flow.steps.forEach((step) => {
+    lines.push(`${step.from} -> ${step.to} : ${plantText(step.action)}`);
+    if (step.payload?.target) {
+      lines.push(`note right : ${step.payload.protocol} ${plantText(step.payload.target)}`);
+    }
+  });
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+// ---- Structurizr C4 DSL ----
+
+const dslText = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ')}"`;
+
+export function toC4Dsl(model: ArchitectureModel, labels?: ExportLabels): string {
+  const graph = buildDiagramGraph(model, labels);
+  const system = `${model.version}_system`;
+  const lines = [`workspace ${dslText(graph.title)} {`, '  model {', `    ${system} = softwareSystem ${dslText(graph.title)} {`];
+
+  // 그룹은 컨테이너, 카드/서비스는 컴포넌트
+  graph.groups.forEach((group) => {
+    lines.push(`      ${group.id} = container ${dslText(group.label)} "" ${dslText(group.tech ?? '')} {`);
+    group.nodes.forEach((node) => {
+      const description = [node.protocol, node.description].filter(Boolean).join(' - ');
+      lines.push(`        ${node.id} = component ${dslText(node.label)} ${dslText(description)} ${dslText(node.tech ?? '')}`);
+    });
+    lines.push('      }');
+  });
+  graph.nodes.forEach((node) => {
+    lines.push(`      ${node.id} = container ${dslText(node.label)} ${dslText(node.description ?? '')} "" "External"`);
+  });
+  lines.push('    }', '');
+
+  graph.edges.forEach((edge) => {
+    lines.push(`    ${edge.from} -> ${edge.to} ${dslText(edge.label ?? '')} ${dslText(edge.technology ?? '')}`);
+    if (edge.bidirectional) {
+      lines.push(`    ${edge.to} -> ${edge.from} ${dslText(edge.label ?? '')} ${dslText(edge.technology ?? '')}`);
+    }
+  });
+  lines.push('  }', '', '  views {', `    container ${system} {`, '      include *', '      autoLayout', '    }');
+
+  graph.groups.forEach((group) => {
+    lines.push(`    component ${group.id} {`, '      include *', '      autoLayout', '    }');
+  });
+  model.flows.forEach((flow) => {
+    lines.push(`    dynamic ${system} ${dslText(flow.id)} ${dslText(flow.title)} {`);
+    flow.steps.filter((step) => step.from !== step.to).forEach((step) => {
+      lines.push(`      ${step.from} -> ${step.to} ${dslText(step.action)}`);
+    });
+    lines.push('      autoLayout', '    }');
+  });
+
+  lines.push('', '    styles {', '      element "External" {', '        border dashed', '      }', '    }', '  }', '}');
+  return lines.join('\n') + '\n';
+}
+
+// 형식별 다운로드/저장 파일 목록 - 플로우가 있으면 시퀀스 다이어그램을 플로우마다 추가
+export function exportArchitecture(model: ArchitectureModel, format: ExportFormat, labels?: ExportLabels): ExportFile[] {
+  const base = `${model.version}-architecture`;
+  switch (format) {
+    case 'mermaid':
+      return [
+        { fileName: `${base}.mermaid`, content: toMermaidFlowchart(model, labels), mimeType: 'text/plain' },
+        ...model.flows.map((flow) => ({
+          fileName: `${model.version}-${flow.id}-sequence.mermaid`,
+          content: toMermaidSequence(model, flow),
+          mimeType: 'text/plain'
+        }))
+      ];
+    case 'plantuml':
+      return [
+        { fileName: `${base}.puml`, content: toPlantUml(model, labels), mimeType: 'text/plain' },
+        ...model.flows.map((flow) => ({
+          fileName: `${model.version}-${flow.id}-sequence.puml`,
+          content: toPlantUmlSequence(model, flow),
+          mimeType: 'text/plain'
+        }))
+      ];
+    case 'c4':
+      return [{ fileName: `${base}.dsl`, content: toC4Dsl(model, labels), mimeType: 'text/plain' }];
+  }
+}
@@ -0,0 +1,113 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { architectures, componentMapping } from './data';
+import {
+  LOCALES, MessageFormatError, checkLocales, compileMessage, flattenMessages, formatMessage, nameLabel, translatableText,
+  translateComponentMapping, translateModel
+} from './i18n';
+import type { Locale, MessageBundle } from './i18n';
+import { loadMessageBundle, loadTranslationCatalog } from './node';
+
+const catalog = loadTranslationCatalog(join(__dirname, 'data', 'locales', 'en.yaml'));
+
+describe('formatMessage', () => {
+  it('인자와 number/percent 형식', () => {
+    expect(formatMessage('{fileName} 다운로드', { fileName: 'a.js' })).toBe('a.js 다운로드');
+    expect(formatMessage('{count, number}개', { count: 12345 })).toBe('12,345개');
+    expect(formatMessage('{ratio, number, percent}', { ratio: 0.25 }, 'en')).toBe('25%');
+    expect(formatMessage('값 없음: {missing}')).toBe('값 없음: {missing}');
+  });
+
+  it('plural 은 =N, 로캘 복수 규칙, other 순으로 고르고 # 은 숫자', () => {
+    const pattern = '{count, plural, =0 {No lines} one {Show # more line} other {Show # more lines}}';
+    expect(formatMessage(pattern, { count: 0 }, 'en')).toBe('No lines');
+    expect(formatMessage(pattern, { count: 1 }, 'en')).toBe('Show 1 more line');
+    expect(formatMessage(pattern, { count: 1200 }, 'en')).toBe('Show 1,200 more lines');
+    // 한국어는 one 이 없음 - 1 도 other
+    expect(formatMessage(pattern, { count: 1 }, 'ko')).toBe('Show 1 more lines');
+  });
+
+  it('select 와 plural 중첩, 따옴표 이스케이프', () => {
+    const pattern = "{kind, select, device {{count, plural, one {# device} other {# devices}}} other {'{'none'}'}}";
+    expect(formatMessage(pattern, { kind: 'device', count: 3 }, 'en')).toBe('3 devices');
+    expect(formatMessage(pattern, { kind: 'user' }, 'en')).toBe('{none}');
+    expect(formatMessage("It''s {name}", { name: 'ok' })).toBe("It's ok");
+  });
+
+  it.each([
+    ['{count, plural, one {#}}', '"other" 선택지가 필요합니다'],
+    ['{count, date}', '지원하지 않는 형식 "date"'],
+    ['{name', '"," 가 필요합니다'],
+    ['닫는 괄호만 }', '짝이 맞지 않는 "}"'],
+    ['{count, plural, other {#}', '"}" 가 필요합니다']
+  ])('잘못된 형식 %s → MessageFormatError', (pattern, reason) => {
+    expect(() => compileMessage(pattern)).toThrow(MessageFormatError);
+    expect(() => compileMessage(pattern)).toThrow(reason);
+  });
+});
+
+describe('checkLocales', () => {
+  const bundles = (ko: Record<string, unknown>, en: Record<string, unknown>) =>
+    ({ ko: flattenMessages(ko), en: flattenMessages(en) }) as Record<Locale, MessageBundle>;
+
+  it('로캘마다 빠진 키, 형식 오류, 번역 없는 원문을 보고', () => {
+    const reports = checkLocales(
+      bundles({ a: 'A', nested: { b: '{count, plural, other {#}}' } }, { a: 'A', broken: '{x, plural, one {#}}' }),
+      { en: { '원문': 'Source' } },
+      ['원문', '새 문장']
+    );
+    expect(reports).toEqual([
+      { locale: 'ko', missing: ['broken'], invalid: [], untranslated: [] },
+      {
+        locale: 'en',
+        missing: ['nested.b'],
+        invalid: [{ key: 'broken', message: expect.stringContaining('"other" 선택지가 필요합니다') }],
+        untranslated: ['새 문장']
+      }
+    ]);
+  });
+
+  it('저장소의 UI 번들과 데이터 카탈로그에 문제가 없음 (npm run check:locales 와 같은 검사)', () => {
+    const real = Object.fromEntries(
+      LOCALES.map((locale) => [locale, loadMessageBundle(join(__dirname, '..', 'explorer', 'locales', `${locale}.yaml`))])
+    ) as Record<Locale, MessageBundle>;
+    const reports = checkLocales(real, { en: catalog }, translatableText(architectures, componentMapping));
+    expect(reports.map(({ locale, missing, invalid, untranslated }) => ({ locale, problems: [...missing, ...invalid.map((issue) => issue.key), ...untranslated] })))
+      .toEqual(LOCALES.map((locale) => ({ locale, problems: [] })));
+  });
+});
+
+describe('translateModel', () => {
+  const overview = translateModel(architectures.overview, catalog);
+
+  it('이름은 원문 그대로 두고 나머지 문구만 번역', () => {
+    const device = overview.layers[0];
+    expect(device.title).toBe('Device Layer');
+    expect(device.components[0].name).toBe('AI 스피커');
+    expect(overview.layers.flatMap((layer) => layer.components.map((comp) => comp.name)))
+      .toEqual(architectures.overview.layers.flatMap((layer) => layer.components.map((comp) => comp.name)));
+  });
+
+  it('팀 역할과 리스크가 가리키는 이름도 그대로라 번역 후에도 구성 요소를 찾음', () => {
+    const names = new Set(overview.layers.flatMap((layer) => layer.components.map((comp) => comp.name)));
+    expect(overview.team.flatMap((role) => role.components).filter((name) => !names.has(name))).toEqual([]);
+
+    const v4 = translateModel(architectures.v4, catalog);
+    expect(v4.features[0].components[0].name).toBe('3D 공간 모델링');
+    expect(v4.challenges.flatMap((risk) => risk.components)).toEqual(architectures.v4.challenges.flatMap((risk) => risk.components));
+  });
+
+  it('컴포넌트 매핑은 제목만 번역하고 버전별 이름은 유지', () => {
+    const mapping = translateComponentMapping(componentMapping, catalog);
+    const automation = mapping.components.find((component) => component.id === 'automation')!;
+    expect(automation.title).toBe('Automation Engine');
+    expect(automation.members).toEqual(componentMapping.components.find((component) => component.id === 'automation')!.members);
+  });
+
+  it('이름은 카탈로그 검사 대상이고 표시할 때 nameLabel 로 번역', () => {
+    expect(translatableText(architectures)).toEqual(expect.arrayContaining(['AI 스피커', '3D 공간 모델링']));
+    expect(nameLabel(catalog)('3D 공간 모델링')).toBe('3D Spatial Modeling');
+    expect(nameLabel(catalog)('없는 이름')).toBe('없는 이름');
+    expect(nameLabel()('AI 스피커')).toBe('AI 스피커');
+  });
+});
@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import { issueMessages } from '../shared/validation';
+import type { ArchitectureModel, ArchitectureSet, ComponentMapping } from './model';
+
+export type Locale = 'ko' | 'en';
+
+export const LOCALES: Locale[] = ['ko', 'en'];
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+export const LOCALE_LABELS: Record<Locale, string> = { ko: '한국어', en: 'English' };
+
+export const isLocale = (value: string | null): value is Locale => LOCALES.includes(value as Locale);
+
+export type MessageValues = Record<string, string | number>;
+
+// ---- ICU 메시지 포맷 (인자, number, plural, select 지원) ----
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string; format?: 'number' | 'percent' }
+  | { type: 'pound' }
+  | { type: 'plural'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> };
+
+export class MessageFormatError extends Error {
+  constructor(public readonly pattern: string, reason: string) {
+    super(`메시지 형식 오류: ${reason}\n  ${pattern}`);
+    this.name = 'MessageFormatError';
+  }
+}
+
+function parseMessage(pattern: string): MessageNode[] {
+  let pos = 0;
+  const fail = (reason: string): never => {
+    throw new MessageFormatError(pattern, `${reason} (${pos}번째 문자)`);
+  };
+
+  const skipSpace = () => {
+    while (/\s/.test(pattern[pos] ?? '')) pos += 1;
+  };
+
+  const readWord = () => {
+    skipSpace();
+    const start = pos;
+    while (pos < pattern.length && /[^\s,{}]/.test(pattern[pos])) pos += 1;
+    if (start === pos) fail('이름이 필요합니다');
+    return pattern.slice(start, pos);
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (pattern[pos] !== char) fail(`"${char}" 가 필요합니다`);
+    pos += 1;
+  };
+
+  // inPlural 일 때만 # 을 숫자 자리로 해석
+  const parseNodes = (depth: number, inPlural: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (pos < pattern.length) {
+      const char = pattern[pos];
+      if (char === "'") {
+        // '' 은 작은따옴표 하나, '{...}' 는 따옴표 안을 그대로 출력
+        if (pattern[pos + 1] === "'") {
+          text += "'";
+          pos += 2;
+        } else if (/[{}#]/.test(pattern[pos + 1] ?? '')) {
+          const end = pattern.indexOf("'", pos + 1);
+          text += pattern.slice(pos + 1, end === -1 ? pattern.length : end);
+          pos = end === -1 ? pattern.length : end + 1;
+        } else {
+          text += char;
+          pos += 1;
+        }
+      } else if (char === '{') {
+        flush();
+        pos += 1;
+        nodes.push(parseArgument(depth));
+      } else if (char === '}') {
+        if (depth === 0) fail('짝이 맞지 않는 "}"');
+        break;
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        pos += 1;
+      } else {
+        text += char;
+        pos += 1;
+      }
+    }
+    flush();
+    return nodes;
+  };
+
+  const parseOptions = (depth: number, inPlural: boolean) => {
+    const options: Record<string, MessageNode[]> = {};
+    skipSpace();
+    while (pos < pattern.length && pattern[pos] !== '}') {
+      const key = readWord();
+      expect('{');
+      options[key] = parseNodes(depth + 1, inPlural);
+      expect('}');
+      skipSpace();
+    }
+    if (!options.other) fail('"other" 선택지가 필요합니다');
+    return options;
+  };
+
+  const parseArgument = (depth: number): MessageNode => {
+    const name = readWord();
+    skipSpace();
+    if (pattern[pos] === '}') {
+      pos += 1;
+      return { type: 'argument', name };
+    }
+    expect(',');
+    const kind = readWord();
+    let node: MessageNode;
+    if (kind === 'number') {
+      skipSpace();
+      let format: 'number' | 'percent' = 'number';
+      if (pattern[pos] === ',') {
+        pos += 1;
+        format = readWord() === 'percent' ? 'percent' : 'number';
+      }
+      node = { type: 'argument', name, format };
+    } else if (kind === 'plural' || kind === 'select') {
+      expect(',');
+      const options = parseOptions(depth, kind === 'plural');
+      node = kind === 'plural' ? { type: 'plural', name, options } : { type: 'select', name, options };
+    } else {
+      return fail(`지원하지 않는 형식 "${kind}"`);
+    }
+    expect('}');
+    return node;
+  };
+
+  const nodes = parseNodes(0, false);
+  if (pos < pattern.length) fail('짝이 맞지 않는 "}"');
+  return nodes;
+}
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+export function compileMessage(pattern: string): MessageNode[] {
+  let nodes = parsedMessages.get(pattern);
+  if (!nodes) {
+    nodes = parseMessage(pattern);
+    parsedMessages.set(pattern, nodes);
+  }
+  return nodes;
+}
+
+function render(nodes: MessageNode[], values: MessageValues, locale: Locale, pluralValue?: number): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'pound':
+        return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+      case 'argument': {
+        const value = values[node.name];
+        if (value === undefined) return `{${node.name}}`;
+        if (!node.format || typeof value !== 'number') return String(value);
+        return new Intl.NumberFormat(locale, node.format === 'percent' ? { style: 'percent' } : {}).format(value);
+      }
+      case 'plural': {
+        const count = Number(values[node.name] ?? 0);
+        const option = node.options[`=${count}`] ?? node.options[new Intl.PluralRules(locale).select(count)] ?? node.options.other;
+        return render(option, values, locale, count);
+      }
+      case 'select': {
+        const option = node.options[String(values[node.name])] ?? node.options.other;
+        return render(option, values, locale, pluralValue);
+      }
+    }
+  }).join('');
+}
+
+export function formatMessage(pattern: string, values: MessageValues = {}, locale: Locale = DEFAULT_LOCALE): string {
+  return render(compileMessage(pattern), values, locale);
+}
+
+// ---- 로캘 번들 ----
+
+type NestedMessages = string | NestedMessages[] | { [key: string]: NestedMessages };
+
+const nestedMessagesSchema: z.ZodType<NestedMessages> = z.lazy(() =>
+  z.union([z.string(), z.array(nestedMessagesSchema), z.record(nestedMessagesSchema)])
+);
+
+export const messageBundleSchema = z.record(nestedMessagesSchema);
+
+export type MessageBundle = Record<string, string>;
+
+// { overview: { title: '…' }, items: ['a', 'b'] } → { 'overview.title': '…', 'items.0': 'a', 'items.1': 'b' }
+export function flattenMessages(nested: unknown, origin = '<inline>'): MessageBundle {
+  const result = messageBundleSchema.safeParse(nested);
+  if (!result.success) {
+    throw new MessageFormatError(origin, issueMessages(result.error).join(', '));
+  }
+
+  const flat: MessageBundle = {};
+  const walk = (value: NestedMessages, path: string) => {
+    if (typeof value === 'string') flat[path] = value;
+    else if (Array.isArray(value)) value.forEach((item, idx) => walk(item, `${path}.${idx}`));
+    else Object.entries(value).forEach(([key, item]) => walk(item, path ? `${path}.${key}` : key));
+  };
+  walk(result.data, '');
+  return flat;
+}
+
+// "team.members" 아래의 배열 길이 - items.0, items.1.label 같은 키에서 인덱스를 셈
+export function listSize(bundle: MessageBundle, key: string): number {
+  const prefix = `${key}.`;
+  const indices = Object.keys(bundle)
+    .filter((candidate) => candidate.startsWith(prefix))
+    .map((candidate) => Number(candidate.slice(prefix.length).split('.')[0]))
+    .filter((index) => Number.isInteger(index));
+  return indices.length === 0 ? 0 : Math.max(...indices) + 1;
+}
+
+// ---- 아키텍처 데이터 번역 (원문 → 번역문 카탈로그) ----
+
+export type TranslationCatalog = Record<string, string>;
+
+export const translationCatalogSchema = z.record(z.string());
+
+// 식별자, 스타일, 코드/메시지 본문처럼 번역하면 안 되는 필드 (connections/members 는 이름 참조 목록)
+const UNTRANSLATED_FIELDS = new Set(['id', 'version', 'icon', 'color', 'language', 'code', 'body', 'target', 'protocol', 'from', 'to', 'quarter', 'owner', 'status', 'reviewDate', 'category', 'connections', 'members']);
+
+// 구성 요소/서비스/지표 이름은 URL·검색 파라미터, 컴포넌트 매핑, 팀/리스크/로드맵 추적이 가리키는 키
+// 데이터에서는 원문을 유지하고 화면에 그릴 때만 nameLabel 로 번역
+const NAME_FIELDS = new Set(['name']);
+// 문자열이면 이름 참조(팀, 리스크), 객체면 레이어/기능의 카드 목록
+const NAME_LIST_FIELDS = new Set(['components']);
+
+const HANGUL = /[가-힣]/;
+
+const keepName = (text: string) => text;
+
+function mapText(value: unknown, translate: (text: string) => string, field?: string, name = keepName): unknown {
+  if (field && UNTRANSLATED_FIELDS.has(field)) return value;
+  if (typeof value === 'string') {
+    if (!HANGUL.test(value) || (field && NAME_LIST_FIELDS.has(field))) return value;
+    return field && NAME_FIELDS.has(field) ? name(value) : translate(value);
+  }
+  if (Array.isArray(value)) return value.map((item) => mapText(item, translate, field && NAME_LIST_FIELDS.has(field) ? field : undefined, name));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapText(item, translate, key, name)]));
+  }
+  return value;
+}
+
+// 카탈로그가 번역해야 할 원문 - 화면에서 번역하는 이름도 포함
+export function translatableText(set: ArchitectureSet, mapping?: ComponentMapping): string[] {
+  const found = new Set<string>();
+  const collect = (text: string) => {
+    found.add(text);
+    return text;
+  };
+  Object.values(set).forEach((model) => mapText(model, collect, undefined, collect));
+  if (mapping) mapText(mapping, collect, undefined, collect);
+  return [...found];
+}
+
+// 카탈로그에 없는 문장은 원문 그대로 둠 (누락은 checkLocales 로 보고) - 이름은 번역하지 않음
+export function translateModel(model: ArchitectureModel, catalog: TranslationCatalog): ArchitectureModel {
+  return mapText(model, (text) => catalog[text] ?? text) as ArchitectureModel;
+}
+
+export function translateArchitectures(set: ArchitectureSet, catalog: TranslationCatalog): ArchitectureSet {
+  return Object.fromEntries(
+    Object.entries(set).map(([version, model]) => [version, translateModel(model, catalog)])
+  ) as ArchitectureSet;
+}
+
+export function translateComponentMapping(mapping: ComponentMapping, catalog: TranslationCatalog): ComponentMapping {
+  return mapText(mapping, (text) => catalog[text] ?? text) as ComponentMapping;
+}
+
+// 화면/보고서에 표시할 이름 - 카탈로그가 없거나(기본 로캘) 번역이 없으면 원문
+export const nameLabel = (catalog?: TranslationCatalog) => (name: string) => catalog?.[name] ?? name;
+
+// ---- 누락 키 검사 ----
+
+export interface LocaleReport {
+  locale: Locale;
+  missing: string[];
+  invalid: { key: string; message: string }[];
+  // 데이터 카탈로그에 번역이 없는 원문 (기본 로캘은 원문이므로 항상 비어 있음)
+  untranslated: string[];
+}
+
+export function checkLocales(
+  bundles: Record<Locale, MessageBundle>,
+  catalogs: Partial<Record<Locale, TranslationCatalog>> = {},
+  sourceText: string[] = []
+): LocaleReport[] {
+  const allKeys = [...new Set(LOCALES.flatMap((locale) => Object.keys(bundles[locale])))].sort();
+
+  return LOCALES.map((locale) => {
+    const bundle = bundles[locale];
+    const invalid: LocaleReport['invalid'] = [];
+    Object.entries(bundle).forEach(([key, pattern]) => {
+      try {
+        compileMessage(pattern);
+      } catch (error) {
+        invalid.push({ key, message: (error as Error).message.split('\n')[0] });
+      }
+    });
+    const catalog = catalogs[locale];
+    return {
+      locale,
+      missing: allKeys.filter((key) => bundle[key] === undefined),
+      invalid,
+      untranslated: locale === DEFAULT_LOCALE ? [] : sourceText.filter((text) => !catalog?.[text])
+    };
+  });
+}
@@ -0,0 +1,5 @@
+export * from './model';
+export { parseArchitecture, parseComponentMapping, validateArchitecture, detectFormat, ArchitectureLoadError } from './loader';
+export type { SourceFormat } from './loader';
+export { LoadError } from '../shared/validation';
+export type { LoadErrorType } from '../shared/validation';
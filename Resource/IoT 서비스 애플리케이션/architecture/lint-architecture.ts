@@ -0,0 +1,39 @@
+import { readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { lintArchitectures, lintFailed, LINT_RULES } from './lint';
+import { ArchitectureLoadError } from './loader';
+import { parseMermaidGraph } from './mermaid-import';
+import { loadArchitectureDirectory, loadComponentMapping } from './node';
+
+// 기술 스택 정합성 검사: npx tsx architecture/lint-architecture.ts [Mermaid 파일...] [--strict]
+// Mermaid 파일을 주지 않으면 MVP 프로젝트의 다이어그램을 함께 검사
+// 오류가 있으면 종료 코드 1 (--strict 면 경고도 실패)
+const dataDir = join(__dirname, 'data');
+const mvpDir = join(__dirname, '..', '..', 'MVP 프로젝트');
+const DEFAULT_DIAGRAMS = ['1. mvp-architecture.mermaid', '2. expanded-iot-architecture.mermaid', '4. plugin-architecture-diagram.mermaid']
+  .map((name) => join(mvpDir, name));
+
+const args = process.argv.slice(2);
+const strict = args.includes('--strict');
+const files = args.filter((arg) => arg !== '--strict');
+
+try {
+  const set = loadArchitectureDirectory(dataDir);
+  const mapping = loadComponentMapping(join(dataDir, 'component-mapping.yaml'));
+  const diagrams = (files.length > 0 ? files : DEFAULT_DIAGRAMS)
+    .map((file) => parseMermaidGraph(readFileSync(file, 'utf-8'), basename(file)));
+
+  const report = lintArchitectures(set, mapping, diagrams);
+  LINT_RULES.forEach((rule) => {
+    const issues = report.issues.filter((issue) => issue.rule === rule);
+    if (issues.length === 0) return;
+    console.log(`${rule} (${issues.length})`);
+    issues.forEach((issue) => console.log(`  [${issue.severity === 'error' ? '오류' : '경고'}] ${issue.message}`));
+  });
+  console.log(`오류 ${report.summary.error}개, 경고 ${report.summary.warning}개`);
+  process.exit(lintFailed(report, strict) ? 1 : 0);
+} catch (error) {
+  if (!(error instanceof ArchitectureLoadError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+}
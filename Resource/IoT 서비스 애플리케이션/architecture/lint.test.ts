@@ -0,0 +1,115 @@
+import { spawnSync } from 'child_process';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { architectures, componentMapping } from './data';
+import { detectRuntimes, lintArchitectures, lintFailed, LINT_SEVERITY } from './lint';
+import type { LintRule } from './lint';
+import type { ArchitectureSet } from './model';
+
+// CLI 는 tsx 로 새 프로세스를 띄워 실행 - 컴파일 포함이라 기본 5초 제한보다 여유를 둠
+const CLI_TIMEOUT_MS = 30_000;
+
+const { v1, v3 } = architectures;
+const issuesOf = (set: ArchitectureSet, rule: LintRule) =>
+  lintArchitectures(set, componentMapping).issues.filter((issue) => issue.rule === rule);
+
+describe('detectRuntimes', () => {
+  it('런타임이 정해진 프레임워크도 런타임으로 추정', () => {
+    expect(detectRuntimes(['Node-RED'])).toEqual(['Node.js']);
+    expect(detectRuntimes(['FastAPI', 'Spring Boot'])).toEqual(['Python', 'Java']);
+    expect(detectRuntimes(['Go', 'Kafka Streams'])).toEqual(['Go']);
+    expect(detectRuntimes(['JavaScript', 'Google Cloud'])).toEqual([]);
+  });
+});
+
+describe('lintArchitectures', () => {
+  it('현재 데이터의 모순은 오류, 편차는 경고로 집계', () => {
+    const report = lintArchitectures(architectures, componentMapping);
+    expect(report.issues.every((issue) => issue.severity === LINT_SEVERITY[issue.rule])).toBe(true);
+    expect(report.summary).toEqual({
+      error: report.issues.filter((issue) => issue.severity === 'error').length,
+      warning: report.issues.filter((issue) => issue.severity === 'warning').length
+    });
+
+    const conflicts = report.issues.filter((issue) => issue.rule === 'conflictingTech');
+    expect(conflicts.map((issue) => issue.values.component)).toEqual(['텔레메트리 수집', '자동화 엔진']);
+    expect(conflicts[0].origins).toEqual(['v1', 'v3']);
+    expect(conflicts[0].message).toBe('"텔레메트리 수집" 의 런타임이 출처마다 다릅니다: v1 Protocol Bridge (Node.js), v3 Telemetry Service (Go)');
+
+    const deviation = report.issues.find((issue) => issue.rule === 'stackDeviation')!;
+    expect(deviation.values).toMatchObject({ group: 'v3 마이크로서비스 아키텍처', expected: 'Node.js' });
+    expect(issuesOf(architectures, 'unlistedProtocol').map((issue) => issue.values.protocol))
+      .toEqual(expect.arrayContaining(['Matter', 'AMQP', 'Kafka']));
+  });
+
+  it('Mermaid 다이어그램은 매핑 밖에서도 이름이 같으면 같은 컴포넌트로 묶음', () => {
+    const diagram = {
+      title: 'mvp.mermaid',
+      direction: 'TB' as const,
+      layers: [{ id: 'backend', title: 'Backend', components: [{ name: 'REST API', tech: 'Spring Boot' }] }],
+      flows: [],
+      warnings: []
+    };
+    const conflict = lintArchitectures(architectures, componentMapping, [diagram]).issues
+      .find((issue) => issue.rule === 'conflictingTech' && issue.values.component === 'API 진입점')!;
+    expect(conflict.origins).toEqual(['v1', 'mvp.mermaid']);
+  });
+
+  it('매핑이 가리키는 컴포넌트가 없으면 staleMapping 오류', () => {
+    expect(issuesOf(architectures, 'staleMapping')).toEqual([]);
+    const mapping = {
+      components: [{ id: 'ghost', title: '유령', members: { v3: ['Telemetry Service', 'Ghost Service'] } }]
+    };
+    const issues = lintArchitectures(architectures, mapping).issues.filter((issue) => issue.rule === 'staleMapping');
+    expect(issues).toEqual([{
+      rule: 'staleMapping',
+      severity: 'error',
+      origins: ['v3'],
+      values: { component: '유령', version: 'v3', member: 'Ghost Service' },
+      message: '매핑 "유령": v3 에 "Ghost Service" 컴포넌트가 없습니다'
+    }]);
+  });
+
+  it('연결이 없는 서비스와 흐름에 등장하지 않는 레이어는 경고', () => {
+    expect(issuesOf(architectures, 'orphanService')).toEqual([]);
+    expect(issuesOf(architectures, 'orphanLayer')).toEqual([]);
+
+    const [microservices, ...rest] = v3.architectures;
+    const set: ArchitectureSet = {
+      ...architectures,
+      v1: { ...v1, layers: [...v1.layers, { ...v1.layers[0], id: 'edge', title: '엣지' }] },
+      v3: {
+        ...v3,
+        architectures: [{
+          ...microservices,
+          services: [...microservices.services, { name: 'Lonely Service', tech: 'Node.js', responsibility: '외톨이', connections: [] }]
+        }, ...rest]
+      }
+    };
+    expect(issuesOf(set, 'orphanService').map((issue) => issue.values))
+      .toEqual([{ architecture: microservices.title, service: 'Lonely Service' }]);
+    expect(issuesOf(set, 'orphanLayer').map((issue) => issue.message)).toEqual(['레이어 "v1 엣지" 는 어떤 흐름에도 등장하지 않습니다']);
+  });
+});
+
+describe('lintFailed', () => {
+  it('오류가 있으면 실패, strict 면 경고도 실패', () => {
+    const report = (error: number, warning: number) => ({ issues: [], summary: { error, warning } });
+    expect(lintFailed(report(1, 0))).toBe(true);
+    expect(lintFailed(report(0, 2))).toBe(false);
+    expect(lintFailed(report(0, 2), true)).toBe(true);
+    expect(lintFailed(report(0, 0), true)).toBe(false);
+  });
+});
+
+describe('lint:architecture', () => {
+  it('오류가 있는 현재 데이터는 규칙별로 출력하고 종료 코드 1', () => {
+    const tsx = join(__dirname, '..', 'node_modules', 'tsx', 'dist', 'cli.mjs');
+    const result = spawnSync(process.execPath, [tsx, join(__dirname, 'lint-architecture.ts')], { encoding: 'utf-8' });
+    expect(lintArchitectures(architectures, componentMapping).summary.error).toBeGreaterThan(0);
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(1);
+    expect(result.stdout).toMatch(/^conflictingTech \(\d+\)\n  \[오류\] /);
+    expect(result.stdout).toMatch(/오류 \d+개, 경고 \d+개\n$/);
+  }, CLI_TIMEOUT_MS);
+});
@@ -0,0 +1,268 @@
+import { analyzeServiceDependencies } from './dependency-graph';
+import { detectProtocols, splitTech } from './diff';
+import type { ImportedDiagram } from './mermaid-import';
+import { ARCHITECTURE_VERSIONS } from './model';
+import type { ArchitectureSet, ArchitectureVersion, ComponentMapping, Flow, Layer } from './model';
+
+// 버전/문서 사이의 기술 스택 주장이 서로 맞는지 검사하는 규칙 기반 린터
+export type LintRule =
+  | 'conflictingTech' | 'stackDeviation' | 'unlistedProtocol' | 'orphanService' | 'orphanLayer' | 'staleMapping';
+
+export type LintSeverity = 'error' | 'warning';
+
+// UI 는 rule/values 로 로캘별 문구를 만들고, message 는 CLI 용 기본(한국어) 문구
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  // 문제가 발견된 버전 또는 Mermaid 파일 이름
+  origins: string[];
+  values: Record<string, string | number>;
+  message: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  summary: Record<LintSeverity, number>;
+}
+
+export const LINT_RULES: LintRule[] = [
+  'conflictingTech', 'stackDeviation', 'unlistedProtocol', 'orphanService', 'orphanLayer', 'staleMapping'
+];
+
+// 서로 다른 출처의 모순과 깨진 매핑은 오류, 의도했을 수 있는 편차와 고립 요소는 경고
+export const LINT_SEVERITY: Record<LintRule, LintSeverity> = {
+  conflictingTech: 'error',
+  stackDeviation: 'warning',
+  unlistedProtocol: 'error',
+  orphanService: 'warning',
+  orphanLayer: 'warning',
+  staleMapping: 'error'
+};
+
+const LINT_MESSAGES: Record<LintRule, (values: Record<string, string | number>) => string> = {
+  conflictingTech: ({ component, claims }) => `"${component}" 의 런타임이 출처마다 다릅니다: ${claims}`,
+  stackDeviation: ({ group, components, runtime, expected }) =>
+    `${group}: ${components} 는 ${runtime} 기반이지만 개요의 기본 백엔드는 ${expected} 입니다`,
+  unlistedProtocol: ({ protocol, components }) => `프로토콜 전략 표에 없는 ${protocol} 사용: ${components}`,
+  orphanService: ({ architecture, service }) => `${architecture}: ${service} 는 어떤 서비스와도 연결되지 않았습니다`,
+  orphanLayer: ({ layer }) => `레이어 "${layer}" 는 어떤 흐름에도 등장하지 않습니다`,
+  staleMapping: ({ component, version, member }) => `매핑 "${component}": ${version} 에 "${member}" 컴포넌트가 없습니다`
+};
+
+// 기술 항목에서 서버 런타임 계열을 추정 - Node-RED, Celery 처럼 런타임이 정해진 프레임워크도 포함
+const RUNTIMES: [string, RegExp][] = [
+  ['Node.js', /^node\b|^node\.js|node-red|express|nest\.?js|fastify/i],
+  ['Python', /python|celery|fastapi|django|flask/i],
+  ['Java', /\bjava\b|spring|kotlin/i],
+  ['Go', /^go(lang)?\b/i],
+  ['.NET', /\.net\b|c#/i],
+  ['Rust', /\brust\b/i]
+];
+
+export function detectRuntimes(tech: string[]): string[] {
+  return RUNTIMES.filter(([, pattern]) => tech.some((item) => pattern.test(item))).map(([name]) => name);
+}
+
+// 린트 대상이 되는 컴포넌트 하나의 기술 주장
+interface TechClaim {
+  origin: string;
+  name: string;
+  group: string;
+  runtimes: string[];
+  protocols: string[];
+  backend: boolean;
+}
+
+const BACKEND_GROUP = /backend|cloud|server|백엔드|클라우드|서버/i;
+
+// 프로토콜이 아니라 보안 방식이라 전략 표 대상이 아닌 항목
+const SECURITY_PROTOCOLS = ['mTLS', 'OAuth2'];
+
+// 전략 표의 "REST API" 는 HTTP 위에서 동작하므로 HTTP 도 포함된 것으로 봄
+const IMPLIED_PROTOCOLS: Record<string, string[]> = { REST: ['HTTP'] };
+
+const unique = (values: string[]) => [...new Set(values)];
+
+const claim = (origin: string, name: string, group: string, tech: string | undefined, backend: boolean, protocol?: string): TechClaim => {
+  const items = splitTech(tech);
+  return { origin, name, group, runtimes: detectRuntimes(items), protocols: detectProtocols(protocol, tech), backend };
+};
+
+const layerClaims = (origin: string, layers: Layer[]) =>
+  layers.flatMap((layer) => layer.components.map((comp) =>
+    claim(origin, comp.name, layer.title, comp.tech ?? layer.tech, BACKEND_GROUP.test(`${layer.id} ${layer.title}`), comp.protocol)
+  ));
+
+function collectClaims(set: ArchitectureSet, diagrams: ImportedDiagram[]): TechClaim[] {
+  const models = ARCHITECTURE_VERSIONS.map((version) => set[version]);
+  return [
+    ...models.flatMap((model) => [
+      ...layerClaims(model.version, model.layers),
+      ...[...model.features, ...model.integrations].flatMap((feature) =>
+        feature.components.map((comp) => claim(model.version, comp.name, feature.title, comp.tech, false))
+      ),
+      ...model.architectures.flatMap((architecture) =>
+        architecture.services.map((service) => claim(model.version, service.name, architecture.title, service.tech, true))
+      ),
+      ...model.infrastructure.map((layer) => claim(model.version, layer.layer, layer.purpose, layer.tech, false))
+    ]),
+    ...diagrams.flatMap((diagram) => layerClaims(diagram.title, diagram.layers))
+  ];
+}
+
+const describe = (entry: TechClaim) => `${entry.origin} ${entry.name}`;
+
+// 매핑 파일로 이름이 바뀐 컴포넌트를 묶고, 매핑에 없으면 이름이 같은 것끼리 묶음
+function logicalKey(entry: TechClaim, mapping: ComponentMapping) {
+  const version = ARCHITECTURE_VERSIONS.find((candidate) => candidate === entry.origin);
+  const mapped = mapping.components.find((component) => version
+    ? component.members[version]?.includes(entry.name)
+    : Object.values(component.members).some((names) => names?.includes(entry.name)));
+  return mapped
+    ? { key: `mapping:${mapped.id}`, title: mapped.title }
+    : { key: `name:${entry.name.toLowerCase().replace(/\s+/g, ' ')}`, title: entry.name };
+}
+
+function conflictingTech(claims: TechClaim[], mapping: ComponentMapping) {
+  const groups = new Map<string, { title: string; claims: TechClaim[] }>();
+  claims.filter((entry) => entry.runtimes.length > 0).forEach((entry) => {
+    const { key, title } = logicalKey(entry, mapping);
+    const group = groups.get(key) ?? { title, claims: [] };
+    group.claims.push(entry);
+    groups.set(key, group);
+  });
+
+  // 런타임이 하나도 겹치지 않는 주장이 한 쌍이라도 있으면 모순
+  return [...groups.values()]
+    .filter((group) => group.claims.some((a) => group.claims.some((b) => !a.runtimes.some((runtime) => b.runtimes.includes(runtime)))))
+    .map((group) => ({
+      origins: unique(group.claims.map((entry) => entry.origin)),
+      values: {
+        component: group.title,
+        claims: group.claims.map((entry) => `${describe(entry)} (${entry.runtimes.join(', ')})`).join(', ')
+      }
+    }));
+}
+
+// 개요 기술 스택의 Backend 항목이 정한 런타임과 다른 백엔드 컴포넌트 (출처/그룹 단위로 묶음)
+function stackDeviation(claims: TechClaim[], set: ArchitectureSet) {
+  const expected = unique(set.overview.techStacks.flatMap((stack) =>
+    stack.items.filter((item) => /backend|백엔드/i.test(item.category)).flatMap((item) => detectRuntimes(splitTech(item.tech)))
+  ));
+  if (expected.length === 0) return [];
+
+  const groups = new Map<string, TechClaim[]>();
+  claims
+    .filter((entry) => entry.backend && entry.runtimes.length > 0 && !entry.runtimes.some((runtime) => expected.includes(runtime)))
+    .forEach((entry) => {
+      const key = `${entry.origin}\u0000${entry.group}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    });
+
+  return [...groups.values()].map((entries) => ({
+    origins: [entries[0].origin],
+    values: {
+      group: `${entries[0].origin} ${entries[0].group}`,
+      components: unique(entries.map((entry) => entry.name)).join(', '),
+      runtime: unique(entries.flatMap((entry) => entry.runtimes)).join(', '),
+      expected: expected.join(', ')
+    }
+  }));
+}
+
+// 개요의 프로토콜 전략 표(링크별 프로토콜)에 없는 프로토콜을 쓰는 컴포넌트와 흐름
+function unlistedProtocols(claims: TechClaim[], set: ArchitectureSet, diagrams: ImportedDiagram[]) {
+  const listed = detectProtocols(...set.overview.protocols.flatMap((route) => route.protocols));
+  if (listed.length === 0) return [];
+  const covered = new Set([...listed, ...listed.flatMap((protocol) => IMPLIED_PROTOCOLS[protocol] ?? []), ...SECURITY_PROTOCOLS]);
+
+  const usages = new Map<string, { origins: string[]; uses: string[] }>();
+  const use = (protocol: string, origin: string, label: string) => {
+    if (covered.has(protocol)) return;
+    const usage = usages.get(protocol) ?? { origins: [], uses: [] };
+    usage.origins = unique([...usage.origins, origin]);
+    usage.uses = unique([...usage.uses, label]);
+    usages.set(protocol, usage);
+  };
+
+  claims.forEach((entry) => entry.protocols.forEach((protocol) => use(protocol, entry.origin, describe(entry))));
+  const flowSources: { origin: string; flows: Flow[] }[] = [
+    ...ARCHITECTURE_VERSIONS.map((version) => ({ origin: version, flows: set[version].flows })),
+    ...diagrams.map((diagram) => ({ origin: diagram.title, flows: diagram.flows }))
+  ];
+  flowSources.forEach(({ origin, flows }) => flows.forEach((flow) => flow.steps.forEach((step) => {
+    const protocol = step.payload?.protocol;
+    if (protocol === 'MQTT' || protocol === 'HTTP' || protocol === 'WebSocket') use(protocol, origin, `${origin} ${flow.title}`);
+  })));
+
+  return [...usages.entries()].map(([protocol, usage]) => ({
+    origins: usage.origins,
+    values: { protocol, components: usage.uses.join(', ') }
+  }));
+}
+
+// 연결이 하나도 없는 서비스 - 의존성 그래프에서 들어오고 나가는 간선이 모두 0
+function orphanServices(set: ArchitectureSet) {
+  return ARCHITECTURE_VERSIONS.flatMap((version) => set[version].architectures.flatMap((architecture) =>
+    analyzeServiceDependencies(set[version], { architectureId: architecture.id }).nodes
+      .filter((node) => node.kind === 'service' && node.fanIn + node.fanOut === 0)
+      .map((node) => ({ origins: [version], values: { architecture: architecture.title, service: node.id } }))
+  ));
+}
+
+// 흐름이 정의된 모델에서 어느 단계에도 등장하지 않는 레이어
+function orphanLayers(set: ArchitectureSet, diagrams: ImportedDiagram[]) {
+  const sources = [
+    ...ARCHITECTURE_VERSIONS.map((version) => ({ origin: version, layers: set[version].layers, flows: set[version].flows })),
+    ...diagrams.map((diagram) => ({ origin: diagram.title, layers: diagram.layers, flows: diagram.flows }))
+  ];
+  return sources.filter(({ flows }) => flows.length > 0).flatMap(({ origin, layers, flows }) => {
+    const touched = new Set(flows.flatMap((flow) => flow.steps.flatMap((step) => [step.from, step.to])));
+    return layers
+      .filter((layer) => !touched.has(layer.id))
+      .map((layer) => ({ origins: [origin], values: { layer: `${origin} ${layer.title}` } }));
+  });
+}
+
+// 매핑 파일이 가리키는 컴포넌트가 해당 버전에서 사라졌거나 이름이 바뀐 경우
+function staleMappings(claims: TechClaim[], mapping: ComponentMapping) {
+  return mapping.components.flatMap((component) =>
+    (Object.entries(component.members) as [ArchitectureVersion, string[]][]).flatMap(([version, names]) =>
+      names
+        .filter((name) => !claims.some((entry) => entry.origin === version && entry.name === name))
+        .map((name) => ({ origins: [version], values: { component: component.title, version, member: name } }))
+    )
+  );
+}
+
+// diagrams 는 parseMermaidGraph 로 읽은 문서용 다이어그램 (MVP 프로젝트의 Mermaid 파일 등)
+export function lintArchitectures(set: ArchitectureSet, mapping: ComponentMapping, diagrams: ImportedDiagram[] = []): LintReport {
+  const claims = collectClaims(set, diagrams);
+  const found: [LintRule, { origins: string[]; values: Record<string, string | number> }[]][] = [
+    ['conflictingTech', conflictingTech(claims, mapping)],
+    ['stackDeviation', stackDeviation(claims, set)],
+    ['unlistedProtocol', unlistedProtocols(claims, set, diagrams)],
+    ['orphanService', orphanServices(set)],
+    ['orphanLayer', orphanLayers(set, diagrams)],
+    ['staleMapping', staleMappings(claims, mapping)]
+  ];
+
+  const issues = found.flatMap(([rule, entries]) => entries.map(({ origins, values }) => ({
+    rule,
+    severity: LINT_SEVERITY[rule],
+    origins,
+    values,
+    message: LINT_MESSAGES[rule](values)
+  })));
+  return {
+    issues,
+    summary: {
+      error: issues.filter((issue) => issue.severity === 'error').length,
+      warning: issues.filter((issue) => issue.severity === 'warning').length
+    }
+  };
+}
+
+// CI 종료 코드 판단 - strict 면 경고도 실패로 처리
+export const lintFailed = (report: LintReport, strict = false) =>
+  report.summary.error > 0 || (strict && report.summary.warning > 0);
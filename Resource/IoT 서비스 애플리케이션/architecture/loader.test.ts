@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { architectures, componentMapping } from './data';
+import { LoadError } from '../shared/validation';
+import { ArchitectureLoadError, detectFormat, parseArchitecture } from './loader';
+import { loadMessageBundle, loadTranslationCatalog } from './node';
+import { TrackerLoadError, parseTrackerState } from './tracker';
+
+describe('architecture loader', () => {
+  it('번들된 기본 데이터가 모두 스키마를 통과함', () => {
+    expect(Object.keys(architectures)).toEqual(['overview', 'v1', 'v2', 'v3', 'v4']);
+    expect(componentMapping).toBeDefined();
+  });
+
+  it('문제 항목을 경로와 함께 모두 보고함', () => {
+    try {
+      parseArchitecture('version: 1\n', 'yaml', 'broken.yaml');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ArchitectureLoadError);
+      expect((error as ArchitectureLoadError).origin).toBe('broken.yaml');
+      expect((error as ArchitectureLoadError).issues.length).toBeGreaterThan(1);
+    }
+  });
+
+  it('YAML 문법 오류도 같은 오류로 감쌈', () => {
+    expect(() => parseArchitecture('a: [', 'yaml', 'bad.yaml')).toThrow(ArchitectureLoadError);
+  });
+
+  it('지원하지 않는 확장자는 거부', () => {
+    expect(detectFormat('v1.yml')).toBe('yaml');
+    expect(() => detectFormat('v1.toml')).toThrow(ArchitectureLoadError);
+  });
+
+  it('다른 로드 오류도 같은 모양으로 문제 항목을 보고', () => {
+    expect(() => parseTrackerState('{', 'progress.json')).toThrow(TrackerLoadError);
+    try {
+      parseTrackerState('{"items":{"v1/p1/task/0":{"status":"lost"}}}', 'progress.json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(LoadError);
+      expect((error as LoadError).message).toMatch(/^progress\.json: 로드맵 진행 상태를 불러올 수 없습니다\n  - items\./);
+    }
+  });
+
+  it('번역 파일의 YAML 문법 오류도 파일 위치와 함께 보고', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'locales-'));
+    try {
+      const file = join(dir, 'en.yaml');
+      writeFileSync(file, 'nav:\n  label: [unclosed\n');
+      expect(() => loadMessageBundle(file)).toThrow(ArchitectureLoadError);
+      expect(() => loadTranslationCatalog(file)).toThrow(`${file}: 아키텍처 데이터를 불러올 수 없습니다`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
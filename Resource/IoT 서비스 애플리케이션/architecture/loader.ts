@@ -0,0 +1,42 @@
+import { parse as parseYaml } from 'yaml';
+import { LoadError, validateWith } from '../shared/validation';
+import type { LoadErrorType } from '../shared/validation';
+import { architectureModelSchema, componentMappingSchema } from './schema';
+import type { ArchitectureModel, ComponentMapping } from './model';
+
+
+export type SourceFormat = 'json' | 'yaml';
+
+export class ArchitectureLoadError extends LoadError {
+  constructor(origin: string, issues: string[]) {
+    super(origin, issues, '아키텍처 데이터를 불러올 수 없습니다');
+    this.name = 'ArchitectureLoadError';
+  }
+}
+
+// JSON/YAML 문법 오류도 같은 오류로 감쌈
+export function parseSource(source: string, format: SourceFormat, origin: string, errorType: LoadErrorType = ArchitectureLoadError): unknown {
+  try {
+    return format === 'yaml' ? parseYaml(source) : JSON.parse(source);
+  } catch (error) {
+    throw new errorType(origin, [(error as Error).message]);
+  }
+}
+
+export function detectFormat(fileName: string): SourceFormat {
+  if (/\.ya?ml$/i.test(fileName)) return 'yaml';
+  if (/\.json$/i.test(fileName)) return 'json';
+  throw new ArchitectureLoadError(fileName, ['지원하지 않는 파일 형식 (json, yaml, yml만 가능)']);
+}
+
+export function validateArchitecture(data: unknown, origin = '<inline>'): ArchitectureModel {
+  return validateWith(architectureModelSchema, data, origin, ArchitectureLoadError);
+}
+
+export function parseArchitecture(source: string, format: SourceFormat, origin = '<inline>'): ArchitectureModel {
+  return validateArchitecture(parseSource(source, format, origin), origin);
+}
+
+export function parseComponentMapping(source: string, format: SourceFormat, origin = '<inline>'): ComponentMapping {
+  return validateWith(componentMappingSchema, parseSource(source, format, origin), origin, ArchitectureLoadError);
+}
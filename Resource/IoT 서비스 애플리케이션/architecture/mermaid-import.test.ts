@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { UNGROUPED, parseMermaidGraph } from './mermaid-import';
+
+const mvpDir = join(__dirname, '..', '..', 'MVP 프로젝트');
+const parseFile = (name: string) => parseMermaidGraph(readFileSync(join(mvpDir, name), 'utf-8'), name);
+const graph = (...lines: string[]) => parseMermaidGraph(['graph TB', ...lines].join('\n'));
+
+describe('parseMermaidGraph - MVP 다이어그램', () => {
+  it('MVP 아키텍처를 서브그래프별 레이어와 실선/점선 흐름으로 변환', () => {
+    const diagram = parseFile('1. mvp-architecture.mermaid');
+    expect(diagram.direction).toBe('TB');
+    expect(diagram.layers.map((layer) => [layer.title, layer.components.length])).toEqual([
+      ['Device Layer (라즈베리파이)', 4],
+      ['Backend Services (Spring Boot)', 6],
+      ['Core Plugins', 3],
+      ['AI/ML Services', 3],
+      ['그룹 없음', 1]
+    ]);
+    expect(diagram.layers[0].tech).toBe('라즈베리파이');
+    expect(diagram.layers[0].components[1]).toEqual({ name: 'Wake Word Detection', tech: 'Porcupine', purpose: '로컬 트리거' });
+    expect(diagram.flows.map((flow) => [flow.id, flow.steps.length])).toEqual([['main', 18], ['async', 3]]);
+  });
+
+  it('스타일 지시문만 경고하고 처음 나온 줄을 알려 줌', () => {
+    expect(parseFile('1. mvp-architecture.mermaid').warnings).toEqual([{ line: 63, code: 'ignoredStyles', values: { count: 8 } }]);
+    expect(parseFile('2. expanded-iot-architecture.mermaid').warnings).toEqual([{ line: 121, code: 'ignoredStyles', values: { count: 14 } }]);
+    expect(parseFile('4. plugin-architecture-diagram.mermaid').warnings).toEqual([{ line: 41, code: 'ignoredStyles', values: { count: 6 } }]);
+  });
+
+  it('LR 다이어그램의 중첩 서브그래프도 각각 레이어로 펼침', () => {
+    const diagram = parseFile('20.1 MVP 파일별 의종성 및 상호작용.mermaid');
+    expect(diagram.direction).toBe('LR');
+    expect(diagram.layers).toHaveLength(13);
+    expect(diagram.layers.some((layer) => layer.id === UNGROUPED)).toBe(false);
+  });
+
+  it('sequenceDiagram 은 변환하지 않고 첫 줄에 경고', () => {
+    const diagram = parseFile('21.1 주요 이벤트 별 시퀀스.mermaid');
+    expect(diagram).toMatchObject({ direction: '', layers: [], flows: [] });
+    expect(diagram.warnings).toEqual([{ line: 1, code: 'unsupportedDiagram', values: { kind: 'sequenceDiagram' } }]);
+  });
+});
+
+describe('parseMermaidGraph - 경고', () => {
+  it('지원하지 않는 화살표는 남은 부분을 알려 주고 그 줄의 연결을 멈춤', () => {
+    const diagram = graph('A[Hub] --> B[Broker] --x C[Cloud]');
+    expect(diagram.warnings).toEqual([{ line: 2, code: 'unsupportedArrow', values: { text: '--x C[Cloud]' } }]);
+    expect(diagram.flows[0].steps.map((step) => step.action)).toEqual(['Hub → Broker']);
+  });
+
+  it('화살표 뒤에 노드가 없으면 missingTarget', () => {
+    expect(graph('A[Hub]', 'A -->').warnings).toEqual([{ line: 3, code: 'missingTarget', values: { text: 'A -->' } }]);
+  });
+
+  it('닫히지 않은 subgraph 는 마지막 줄에 개수로 경고하고 노드는 그 레이어에 둠', () => {
+    const diagram = graph('subgraph "Edge (K3s)"', 'subgraph Inner', 'A[Gateway]');
+    expect(diagram.warnings).toEqual([{ line: 4, code: 'unclosedSubgraph', values: { count: 2 } }]);
+    expect(diagram.layers.map((layer) => layer.title)).toEqual(['Inner']);
+  });
+
+  it('스타일 지시문은 개수와 처음 나온 줄로 한 번만 경고', () => {
+    const diagram = graph('A --> B', 'classDef device fill:#fff', 'class A device', 'style B fill:#000');
+    expect(diagram.warnings).toEqual([{ line: 3, code: 'ignoredStyles', values: { count: 3 } }]);
+  });
+
+  it('라벨의 프로토콜로 메시지를 추정하고 양방향 화살표는 두 단계로', () => {
+    const diagram = graph('A[Hub] <-->|MQTT publish| B[Broker]');
+    expect(diagram.flows[0].steps).toEqual([
+      { from: UNGROUPED, to: UNGROUPED, action: 'Hub → Broker: MQTT publish', payload: { protocol: 'MQTT', target: 'Hub → Broker', body: 'MQTT publish' } },
+      { from: UNGROUPED, to: UNGROUPED, action: 'Broker → Hub: MQTT publish', payload: { protocol: 'MQTT', target: 'Broker → Hub', body: 'MQTT publish' } }
+    ]);
+  });
+});
@@ -0,0 +1,260 @@
+import type { Component, Flow, FlowPayload, FlowStep, Layer } from './model';
+
+// 손으로 관리하던 Mermaid graph/flowchart 다이어그램을 레이어/컴포넌트/플로우 모델로 변환
+export type MermaidWarningCode =
+  | 'unclosedLabel' | 'unsupportedDiagram' | 'unmatchedEnd' | 'ampersand' | 'unparsedLine'
+  | 'unsupportedArrow' | 'missingTarget' | 'empty' | 'unclosedSubgraph' | 'ignoredStyles';
+
+// 문구는 로캘 번들의 mermaid.warnings.<code> 를 code/values 로 채워 만듦
+export interface MermaidWarning {
+  line: number;
+  code: MermaidWarningCode;
+  values: Record<string, string | number>;
+}
+
+export interface ImportedDiagram {
+  title: string;
+  direction: string;
+  layers: Layer[];
+  flows: Flow[];
+  warnings: MermaidWarning[];
+}
+
+interface ParsedNode {
+  id: string;
+  label?: string;
+  layerId: string;
+}
+
+interface ParsedEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dotted: boolean;
+  line: number;
+}
+
+export const UNGROUPED = 'ungrouped';
+
+const LAYER_COLORS = [
+  'bg-green-100 border-green-400',
+  'bg-blue-100 border-blue-400',
+  'bg-purple-100 border-purple-400',
+  'bg-yellow-100 border-yellow-400',
+  'bg-red-100 border-red-400',
+  'bg-indigo-100 border-indigo-400'
+];
+
+// 노드 모양별 여닫는 괄호 - 긴 토큰부터 검사해야 "[(" 가 "[" 로 잘못 잡히지 않음
+const NODE_SHAPES: [string, string][] = [
+  ['([', '])'], ['[(', ')]'], ['[[', ']]'], ['((', '))'], ['{{', '}}'],
+  ['[/', '/]'], ['[\\', '\\]'], ['[', ']'], ['(', ')'], ['{', '}'], ['>', ']']
+];
+
+// 화살표 뒤 |라벨|, "-- 라벨 -->", "-.라벨.->" 형식을 모두 지원
+const ARROW = /^\s*(<?)(?:(-->|---|==>|===|-\.->|-\.-)|--\s+(.+?)\s+-->|-\.\s*([^.>]+?)\s*\.->)(?:\s*\|([^|]*)\|)?\s*/;
+const NODE_ID = /^\s*([A-Za-z0-9_À-￿]+)/;
+const STYLE_DIRECTIVE = /^(classDef|class|style|linkStyle|click)\b/;
+
+const cleanLabel = (label: string) => label.trim().replace(/^"(.*)"$/s, '$1').trim();
+const labelLines = (label: string) => cleanLabel(label).split(/<br\s*\/?>/i).map((line) => line.trim()).filter(Boolean);
+const inlineLabel = (label: string) => labelLines(label).join(' ');
+
+// "Backend Services (Spring Boot)" 의 괄호 부분을 레이어 기술 스택으로 사용
+const splitTitle = (title: string) => {
+  const match = title.match(/^(.*?)\s*\(([^()]+)\)\s*$/);
+  return match ? { title: title.trim(), tech: match[2].trim() } : { title: title.trim(), tech: undefined };
+};
+
+// 첫 줄은 이름, "- " 로 시작하는 줄은 기술/용도/기능 순서, 나머지는 설명
+function toComponent(node: ParsedNode): Component {
+  const [name = node.id, ...rest] = labelLines(node.label ?? node.id);
+  const bullets = rest.filter((line) => line.startsWith('-')).map((line) => line.replace(/^-\s*/, ''));
+  const others = rest.filter((line) => !line.startsWith('-'));
+  const [tech, purpose, ...features] = bullets;
+
+  const comp: Component = { name };
+  if (tech) comp.tech = tech;
+  if (purpose) comp.purpose = purpose;
+  if (features.length > 0) comp.features = features;
+  if (others.length > 0) comp.description = others.join(' ');
+  return comp;
+}
+
+// 엣지 라벨에서 프로토콜을 추정해 플로우 플레이어의 메시지 패널에 표시
+function guessPayload(label: string | undefined, from: string, to: string): FlowPayload | undefined {
+  if (!label) return undefined;
+  const protocol: FlowPayload['protocol'] | undefined =
+    /mqtt/i.test(label) ? 'MQTT'
+      : /websocket|\bws\b/i.test(label) ? 'WebSocket'
+      : /https?|rest|api/i.test(label) ? 'HTTP'
+      : /sql|query|쿼리/i.test(label) ? 'SQL'
+      : undefined;
+  return protocol && { protocol, target: `${from} → ${to}`, body: label };
+}
+
+export function parseMermaidGraph(source: string, title = 'Mermaid 다이어그램'): ImportedDiagram {
+  const warnings: MermaidWarning[] = [];
+  const warn = (line: number, code: MermaidWarningCode, values: Record<string, string | number> = {}) => {
+    warnings.push({ line, code, values });
+  };
+  const nodes = new Map<string, ParsedNode>();
+  const edges: ParsedEdge[] = [];
+  const layerTitles = new Map<string, string>([[UNGROUPED, '그룹 없음']]);
+  const stack: string[] = [];
+  let direction = '';
+  // 무시한 스타일 지시문은 개수와 처음 나온 줄로 한 번만 경고
+  const ignoredStyles = { count: 0, line: 0 };
+
+  const currentLayer = () => stack[stack.length - 1] ?? UNGROUPED;
+
+  // 처음 등장한 서브그래프에 노드를 배치하되, 라벨이 나중에 정의되면 그 위치를 우선
+  const registerNode = (id: string, label?: string) => {
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, label, layerId: currentLayer() });
+    } else if (label && !existing.label) {
+      existing.label = label;
+      existing.layerId = currentLayer();
+    }
+  };
+
+  // "A[라벨]" 형태의 노드 참조를 읽고 남은 문자열을 반환
+  const readNode = (text: string, line: number): { id: string; rest: string } | null => {
+    const idMatch = text.match(NODE_ID);
+    if (!idMatch) return null;
+    const id = idMatch[1];
+    let rest = text.slice(idMatch[0].length);
+
+    const shape = NODE_SHAPES.find(([open]) => rest.startsWith(open));
+    if (!shape) {
+      registerNode(id);
+      return { id, rest };
+    }
+    const [open, close] = shape;
+    const body = rest.slice(open.length);
+    // 따옴표로 감싼 라벨은 닫는 따옴표 이후에서 닫는 괄호를 찾음
+    const searchFrom = body.startsWith('"') ? Math.max(body.indexOf('"', 1), 0) : 0;
+    const closeIdx = body.indexOf(close, searchFrom);
+    if (closeIdx === -1) {
+      warn(line, 'unclosedLabel', { id, close });
+      registerNode(id);
+      return { id, rest: '' };
+    }
+    registerNode(id, body.slice(0, closeIdx));
+    rest = body.slice(closeIdx + close.length);
+    return { id, rest };
+  };
+
+  source.split(/\r?\n/).forEach((raw, idx) => {
+    const line = idx + 1;
+    const text = raw.replace(/%%.*$/, '').trim();
+    if (!text) return;
+
+    if (!direction) {
+      const header = text.match(/^(graph|flowchart)\s*(TB|TD|BT|LR|RL)?\s*;?$/);
+      if (header) {
+        direction = header[2] ?? 'TB';
+        return;
+      }
+      warn(line, 'unsupportedDiagram', { kind: text.split(/\s/)[0] });
+      direction = 'unsupported';
+      return;
+    }
+    if (direction === 'unsupported') return;
+
+    if (STYLE_DIRECTIVE.test(text)) {
+      if (ignoredStyles.count === 0) ignoredStyles.line = line;
+      ignoredStyles.count += 1;
+      return;
+    }
+
+    const subgraph = text.match(/^subgraph\s+(.+)$/);
+    if (subgraph) {
+      // subgraph "제목" / subgraph id["제목"] / subgraph 제목
+      const spec = subgraph[1].trim();
+      const withId = spec.match(/^([A-Za-z0-9_-]+)\s*\[(.+)\]$/);
+      const layerId = `layer-${layerTitles.size}`;
+      layerTitles.set(layerId, cleanLabel(withId ? withId[2] : spec));
+      stack.push(layerId);
+      return;
+    }
+    if (text === 'end') {
+      if (stack.length === 0) warn(line, 'unmatchedEnd');
+      stack.pop();
+      return;
+    }
+    if (/^direction\s+/.test(text)) return;
+
+    if (text.includes('&')) {
+      warn(line, 'ampersand', { text });
+      return;
+    }
+
+    // 노드 정의 또는 "A --> B --> C" 같은 연결 체인
+    let node = readNode(text, line);
+    if (!node) {
+      warn(line, 'unparsedLine', { text });
+      return;
+    }
+    let rest = node.rest;
+    while (rest.trim()) {
+      const arrow = rest.match(ARROW);
+      if (!arrow) {
+        warn(line, 'unsupportedArrow', { text: rest.trim() });
+        break;
+      }
+      const next = readNode(rest.slice(arrow[0].length), line);
+      if (!next) {
+        warn(line, 'missingTarget', { text });
+        break;
+      }
+      const label = arrow[5] ?? arrow[3] ?? arrow[4];
+      const dotted = (arrow[2] ?? '').includes('.') || arrow[4] !== undefined;
+      edges.push({ from: node.id, to: next.id, label: label ? inlineLabel(label) : undefined, dotted, line });
+      if (arrow[1]) {
+        edges.push({ from: next.id, to: node.id, label: label ? inlineLabel(label) : undefined, dotted, line });
+      }
+      node = next;
+      rest = next.rest;
+    }
+  });
+
+  if (!direction) warn(1, 'empty');
+  if (stack.length > 0) warn(source.split(/\r?\n/).length, 'unclosedSubgraph', { count: stack.length });
+  if (ignoredStyles.count > 0) warn(ignoredStyles.line, 'ignoredStyles', { count: ignoredStyles.count });
+
+  // 중첩 서브그래프도 각각 하나의 레이어로 펼침 - 노드가 없는 서브그래프는 제외
+  const layers: Layer[] = [...layerTitles.entries()]
+    .sort(([a], [b]) => Number(a === UNGROUPED) - Number(b === UNGROUPED))
+    .map(([id, layerTitle]) => ({ id, ...splitTitle(layerTitle), members: [...nodes.values()].filter((node) => node.layerId === id) }))
+    .filter((layer) => layer.members.length > 0)
+    .map(({ id, title: layerTitle, tech, members }, idx) => ({
+      id,
+      title: layerTitle,
+      ...(tech ? { tech } : {}),
+      color: LAYER_COLORS[idx % LAYER_COLORS.length],
+      components: members.map(toComponent)
+    }));
+
+  const nodeName = (id: string) => toComponent(nodes.get(id)!).name;
+  const toStep = (edge: ParsedEdge): FlowStep => {
+    const from = nodes.get(edge.from)!;
+    const to = nodes.get(edge.to)!;
+    const payload = guessPayload(edge.label, nodeName(edge.from), nodeName(edge.to));
+    return {
+      from: from.layerId,
+      to: to.layerId,
+      action: `${nodeName(edge.from)} → ${nodeName(edge.to)}${edge.label ? `: ${edge.label}` : ''}`,
+      ...(payload ? { payload } : {})
+    };
+  };
+
+  // 실선은 주요 흐름, 점선은 비동기(이벤트) 흐름으로 나눔
+  const flows: Flow[] = [
+    { id: 'main', title: '주요 흐름', steps: edges.filter((edge) => !edge.dotted).map(toStep) },
+    { id: 'async', title: '비동기 흐름', steps: edges.filter((edge) => edge.dotted).map(toStep) }
+  ].filter((flow) => flow.steps.length > 0);
+
+  return { title, direction: direction === 'unsupported' ? '' : direction, layers, flows, warnings };
+}
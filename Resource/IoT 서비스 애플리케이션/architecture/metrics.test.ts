@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { chartMetrics, parseMetricTarget } from './metrics';
+
+describe('parseMetricTarget', () => {
+  it('퍼센트 목표와 비교 방향', () => {
+    expect(parseMetricTarget('99.999%')).toEqual({ kind: 'percent', value: 99.999, comparator: '>=' });
+    expect(parseMetricTarget('99.99% SLA')).toEqual({ kind: 'percent', value: 99.99, comparator: '>=' });
+    expect(parseMetricTarget('< 5%')).toEqual({ kind: 'percent', value: 5, comparator: '<' });
+  });
+
+  it('K/M 배율과 천 단위 쉼표는 규모에 반영하고 단위는 남김', () => {
+    expect(parseMetricTarget('10M+ 연결 디바이스')).toEqual({ kind: 'quantity', value: 10, unit: 'M 연결 디바이스', comparator: '>=', magnitude: 7 });
+    expect(parseMetricTarget('100,000+ B2B 고객')).toMatchObject({ value: 100000, unit: 'B2B 고객', magnitude: 5 });
+    expect(parseMetricTarget('1M+ req/sec')).toMatchObject({ unit: 'M req/sec', magnitude: 6 });
+    expect(parseMetricTarget('≤ 50ms')).toMatchObject({ value: 50, unit: 'ms', comparator: '<' });
+  });
+
+  it('데이터량 단위의 접두어는 단위에 붙인 채 배율로 흡수', () => {
+    expect(parseMetricTarget('1PB+/일')).toEqual({ kind: 'quantity', value: 1, unit: 'PB/일', comparator: '>=', magnitude: 15 });
+    expect(parseMetricTarget('100TB+/월 처리')).toMatchObject({ unit: 'TB/월 처리', magnitude: 14 });
+    expect(parseMetricTarget('1GB/s')).toMatchObject({ unit: 'GB/s', magnitude: 9 });
+    // 소문자가 이어지면 배율이 아님
+    expect(parseMetricTarget('100Mbps')).toMatchObject({ unit: 'Mbps', magnitude: 2 });
+  });
+
+  it('숫자로 시작하지 않거나 숫자가 아니면 정성 목표', () => {
+    expect(parseMetricTarget('완전 구현')).toEqual({ kind: 'qualitative', label: '완전 구현' });
+    expect(parseMetricTarget('1.2.3')).toEqual({ kind: 'qualitative', label: '1.2.3' });
+    expect(parseMetricTarget('0 건')).toMatchObject({ kind: 'quantity', magnitude: 0 });
+  });
+});
+
+describe('chartMetrics', () => {
+  it('V4 지표를 적힌 순서대로 분류별로 묶음', () => {
+    const groups = chartMetrics(architectures.v4.metrics);
+    expect(groups.map((group) => group.category)).toEqual(['innovation', 'performance', 'security']);
+    expect(groups[2].metrics.every(({ target }) => target.kind === 'qualitative')).toBe(true);
+    expect(groups[1].metrics.map(({ target }) => target.kind)).toEqual(['quantity', 'quantity', 'quantity', 'percent']);
+  });
+});
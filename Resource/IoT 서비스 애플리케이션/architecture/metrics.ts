@@ -0,0 +1,48 @@
+import type { Metric } from './model';
+
+// "99.999%", "< 10ms", "100M+", "1PB+/일" 같은 목표 문자열을 차트로 그릴 수 있는 형태로 해석
+export type MetricTarget =
+  | { kind: 'percent'; value: number; comparator: '<' | '>=' }
+  | { kind: 'quantity'; value: number; unit: string; comparator: '<' | '>='; magnitude: number }
+  | { kind: 'qualitative'; label: string };
+
+export interface ChartedMetric {
+  metric: Metric;
+  target: MetricTarget;
+}
+
+const SCALE: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12, P: 1e15 };
+
+export function parseMetricTarget(value: string): MetricTarget {
+  const match = value.trim().match(/^(<|>|≤|≥)?\s*([\d,.]+)\s*([KMBTP](?![A-Za-z]))?\s*(\+)?\s*(.*)$/);
+  if (!match) return { kind: 'qualitative', label: value };
+
+  const [, sign, digits, scale, , rest] = match;
+  const comparator = sign === '<' || sign === '≤' ? '<' : '>=';
+  const number = Number(digits.replace(/,/g, ''));
+  if (Number.isNaN(number)) return { kind: 'qualitative', label: value };
+
+  const unit = rest.replace('+', '').trim();
+  if (unit.startsWith('%')) return { kind: 'percent', value: number, comparator };
+
+  // 1PB 처럼 단위 접두어가 붙은 데이터량은 접두어를 배율로 흡수
+  const prefixed = unit.match(/^([KMGTP])B/);
+  const factor = (scale ? SCALE[scale] : 1) * (prefixed ? SCALE[prefixed[1] === 'G' ? 'B' : prefixed[1]] : 1);
+  const scaled = number * factor;
+  return {
+    kind: 'quantity',
+    value: number,
+    unit: [scale, unit].filter(Boolean).join(' '),
+    comparator,
+    magnitude: scaled > 0 ? Math.log10(scaled) : 0
+  };
+}
+
+export function chartMetrics(metrics: Metric[]): { category: string; metrics: ChartedMetric[] }[] {
+  return [...new Set(metrics.map((metric) => metric.category))].map((category) => ({
+    category,
+    metrics: metrics
+      .filter((metric) => metric.category === category)
+      .map((metric) => ({ metric, target: parseMetricTarget(metric.value) }))
+  }));
+}
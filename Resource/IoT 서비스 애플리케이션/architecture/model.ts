@@ -0,0 +1,35 @@
+import type { z } from 'zod';
+import type {
+  versionSchema, codeLanguageSchema, componentSchema, layerSchema, domainSchema, techStackSchema,
+  protocolRouteSchema, flowPayloadSchema, flowStepSchema, flowSchema, roadmapSlotSchema, featureSchema, serviceSchema,
+  serviceArchitectureSchema, infrastructureLayerSchema, phaseItemSchema, phaseSchema, teamRoleSchema,
+  challengeSchema, metricSchema, architectureModelSchema, componentMappingSchema
+} from './schema';
+
+// 스키마에서 파생된 도메인 타입 - 검증을 통과한 데이터만 이 타입을 가짐
+export type ArchitectureVersion = z.infer<typeof versionSchema>;
+export type CodeLanguage = z.infer<typeof codeLanguageSchema>;
+export type Component = z.infer<typeof componentSchema>;
+export type Layer = z.infer<typeof layerSchema>;
+export type Domain = z.infer<typeof domainSchema>;
+export type TechStack = z.infer<typeof techStackSchema>;
+export type ProtocolRoute = z.infer<typeof protocolRouteSchema>;
+export type FlowPayload = z.infer<typeof flowPayloadSchema>;
+export type FlowStep = z.infer<typeof flowStepSchema>;
+export type Flow = z.infer<typeof flowSchema>;
+export type RoadmapSlot = z.infer<typeof roadmapSlotSchema>;
+export type Feature = z.infer<typeof featureSchema>;
+export type Service = z.infer<typeof serviceSchema>;
+export type ServiceArchitecture = z.infer<typeof serviceArchitectureSchema>;
+export type InfrastructureLayer = z.infer<typeof infrastructureLayerSchema>;
+export type Phase = z.infer<typeof phaseSchema>;
+export type PhaseItem = z.infer<typeof phaseItemSchema>;
+export type TeamRole = z.infer<typeof teamRoleSchema>;
+export type Challenge = z.infer<typeof challengeSchema>;
+export type Metric = z.infer<typeof metricSchema>;
+export type ArchitectureModel = z.infer<typeof architectureModelSchema>;
+export type ComponentMapping = z.infer<typeof componentMappingSchema>;
+
+export type ArchitectureSet = Record<ArchitectureVersion, ArchitectureModel>;
+
+export const ARCHITECTURE_VERSIONS: ArchitectureVersion[] = ['overview', 'v1', 'v2', 'v3', 'v4'];
@@ -0,0 +1,76 @@
+import { readFileSync, readdirSync, writeFileSync, mkdirSync } from 'fs';
+import { join, basename } from 'path';
+import { validateWith } from '../shared/validation';
+import { parseArchitecture, parseComponentMapping, parseSource, detectFormat, ArchitectureLoadError } from './loader';
+import { exportArchitecture, EXPORT_FORMATS } from './export';
+import type { ExportFormat, ExportLabels } from './export';
+import { renderReport } from './report';
+import type { ReportOptions } from './report';
+import { flattenMessages, translationCatalogSchema } from './i18n';
+import type { MessageBundle, TranslationCatalog } from './i18n';
+import { ARCHITECTURE_VERSIONS } from './model';
+import type { ArchitectureModel, ArchitectureSet, ArchitectureVersion, ComponentMapping } from './model';
+
+// Node 전용 로더 (CLI, 문서 생성 스크립트에서 사용)
+export function loadArchitectureFile(filePath: string): ArchitectureModel {
+  return parseArchitecture(readFileSync(filePath, 'utf8'), detectFormat(filePath), filePath);
+}
+
+export function loadComponentMapping(filePath: string): ComponentMapping {
+  return parseComponentMapping(readFileSync(filePath, 'utf8'), detectFormat(filePath), filePath);
+}
+
+export function loadArchitectureDirectory(dir: string): ArchitectureSet {
+  const loaded: Partial<ArchitectureSet> = {};
+
+  readdirSync(dir)
+    .filter((file) => /\.(json|ya?ml)$/i.test(file))
+    .forEach((file) => {
+      const version = basename(file).replace(/\.(json|ya?ml)$/i, '') as ArchitectureVersion;
+      if (!ARCHITECTURE_VERSIONS.includes(version)) return;
+
+      const model = loadArchitectureFile(join(dir, file));
+      if (model.version !== version) {
+        throw new ArchitectureLoadError(file, [`파일 이름(${version})과 version(${model.version})이 다릅니다`]);
+      }
+      loaded[version] = model;
+    });
+
+  const missing = ARCHITECTURE_VERSIONS.filter((version) => !loaded[version]);
+  if (missing.length > 0) {
+    throw new ArchitectureLoadError(dir, missing.map((version) => `${version} 버전 파일이 없습니다`));
+  }
+  return loaded as ArchitectureSet;
+}
+
+// YAML 문법 오류도 파일 위치와 함께 ArchitectureLoadError 로 보고
+export function loadMessageBundle(filePath: string): MessageBundle {
+  return flattenMessages(parseSource(readFileSync(filePath, 'utf8'), 'yaml', filePath), filePath);
+}
+
+export function loadTranslationCatalog(filePath: string): TranslationCatalog {
+  return validateWith(translationCatalogSchema, parseSource(readFileSync(filePath, 'utf8'), 'yaml', filePath), filePath, ArchitectureLoadError);
+}
+
+// 문서 재생성용 - 모델을 지정한 형식들로 내보내고 작성한 파일 경로를 반환
+export function writeArchitectureExports(
+  model: ArchitectureModel,
+  outDir: string,
+  formats: ExportFormat[] = EXPORT_FORMATS,
+  labels?: ExportLabels
+): string[] {
+  mkdirSync(outDir, { recursive: true });
+  return formats.flatMap((format) => exportArchitecture(model, format, labels)).map((file) => {
+    const filePath = join(outDir, file.fileName);
+    writeFileSync(filePath, file.content, 'utf8');
+    return filePath;
+  });
+}
+
+// 인쇄용 HTML 보고서를 `${version}-report.html` 로 저장하고 경로를 반환
+export function writeArchitectureReport(model: ArchitectureModel, outDir: string, options: ReportOptions = {}): string {
+  mkdirSync(outDir, { recursive: true });
+  const filePath = join(outDir, `${model.version}-report.html`);
+  writeFileSync(filePath, renderReport(model, options), 'utf8');
+  return filePath;
+}
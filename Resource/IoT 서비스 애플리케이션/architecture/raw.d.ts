@@ -0,0 +1,14 @@
+declare module '*.yaml?raw' {
+  const source: string;
+  export default source;
+}
+
+declare module '*.json?raw' {
+  const source: string;
+  export default source;
+}
+
+declare module '*.mermaid?raw' {
+  const source: string;
+  export default source;
+}
@@ -0,0 +1,48 @@
+import { join, resolve } from 'path';
+import { isLocale, nameLabel, translateModel } from './i18n';
+import type { Locale } from './i18n';
+import { ArchitectureLoadError } from './loader';
+import { ARCHITECTURE_VERSIONS } from './model';
+import type { ArchitectureVersion } from './model';
+import { loadArchitectureDirectory, loadMessageBundle, loadTranslationCatalog, writeArchitectureReport } from './node';
+import { reportLabels } from './report';
+
+// 인쇄용 HTML 보고서 생성: npx tsx architecture/render-report.ts [버전...|all] [--lang en] [--out 디렉터리]
+// 네트워크 없이 동작하며, 결과 파일을 브라우저에서 열어 인쇄(PDF로 저장)하면 PDF 가 됨
+const root = join(__dirname, '..');
+const dataDir = join(__dirname, 'data');
+const USAGE = `사용법: npx tsx architecture/render-report.ts [${ARCHITECTURE_VERSIONS.join('|')}|all ...] [--lang ko|en] [--out 디렉터리]`;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args.splice(idx, 2)[1] : undefined;
+};
+
+const lang = option('--lang') ?? 'ko';
+const outDir = resolve(option('--out') ?? 'reports');
+const requested = args.length === 0 || args.includes('all') ? ARCHITECTURE_VERSIONS : args;
+const unknown = requested.filter((version) => !ARCHITECTURE_VERSIONS.includes(version as ArchitectureVersion));
+
+if (!isLocale(lang) || unknown.length > 0) {
+  if (unknown.length > 0) console.error(`알 수 없는 버전: ${unknown.join(', ')}`);
+  if (!isLocale(lang)) console.error(`지원하지 않는 언어: ${lang}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  const locale: Locale = lang;
+  const set = loadArchitectureDirectory(dataDir);
+  const catalog = locale === 'ko' ? undefined : loadTranslationCatalog(join(dataDir, 'locales', `${locale}.yaml`));
+  const labels = reportLabels(loadMessageBundle(join(root, 'explorer', 'locales', `${locale}.yaml`)));
+
+  (requested as ArchitectureVersion[]).forEach((version) => {
+    const model = catalog ? translateModel(set[version], catalog) : set[version];
+    console.log(writeArchitectureReport(model, outDir, { labels, locale, name: nameLabel(catalog) }));
+  });
+} catch (error) {
+  if (!(error instanceof ArchitectureLoadError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+}
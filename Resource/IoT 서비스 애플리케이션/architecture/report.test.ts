@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { nameLabel, translateModel } from './i18n';
+import type { ArchitectureModel } from './model';
+import { loadMessageBundle, loadTranslationCatalog } from './node';
+import { highlightCode, renderReport, reportLabels, sequenceDiagramSvg } from './report';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+const texts = (root: ParentNode, selector: string) => [...root.querySelectorAll(selector)].map((element) => element.textContent);
+const sectionIds = (doc: Document) => [...doc.querySelectorAll('main > section')].map((section) => section.id);
+
+describe('renderReport', () => {
+  it('모델에 있는 섹션만 본문과 목차에 넣고 목차 링크는 모두 본문을 가리킴', () => {
+    const doc = parse(renderReport(architectures.v2, { generatedAt: '2026-10-19' }));
+    expect(doc.documentElement.lang).toBe('ko');
+    expect(doc.title).toBe(architectures.v2.title);
+    expect(doc.querySelector('header .meta')?.textContent).toBe('v2 · 생성일 2026-10-19');
+    expect(sectionIds(doc)).toEqual(['features', 'phases', 'risks', 'team']);
+
+    const targets = [...doc.querySelectorAll<HTMLAnchorElement>('nav.toc a')].map((link) => link.getAttribute('href')!.slice(1));
+    expect(targets.length).toBeGreaterThan(sectionIds(doc).length);
+    expect(targets.filter((id) => !doc.getElementById(id))).toEqual([]);
+  });
+
+  it('카드는 펼친 상태로 모든 구성 요소와 스니펫을 출력', () => {
+    const doc = parse(renderReport(architectures.v1));
+    const components = architectures.v1.layers.flatMap((layer) => layer.components);
+    expect(texts(doc, '#layers .card h4')).toEqual(components.map((comp) => comp.name));
+    expect(doc.querySelectorAll('#layers pre.code')).toHaveLength(components.filter((comp) => comp.code).length);
+    expect(doc.querySelector('#layers pre.code[data-language="cpp"] .tok-keyword')).not.toBeNull();
+  });
+
+  it('플로우마다 단계 수만큼 화살표가 있는 시퀀스 다이어그램', () => {
+    const doc = parse(renderReport(architectures.v1));
+    architectures.v1.flows.forEach((flow) => {
+      const section = doc.getElementById(`flows-${flow.id}`)!;
+      expect(section.querySelectorAll('svg.sequence .message')).toHaveLength(flow.steps.length);
+      expect(section.querySelectorAll('ol.steps > li')).toHaveLength(flow.steps.length);
+    });
+  });
+
+  it('리스크는 점수 순으로 수준과 상태를 라벨로 표시', () => {
+    const doc = parse(renderReport(architectures.v2));
+    const rows = [...doc.querySelectorAll('#risks tbody tr')];
+    expect(rows).toHaveLength(architectures.v2.challenges.length);
+    const scores = rows.map((row) => Number(row.querySelector('.level')!.textContent!.split(' · ')[1]));
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(rows[0].querySelector('.level')!.textContent).toMatch(/^(높음|보통|낮음) · \d+$/);
+  });
+
+  it('모델의 문자열은 모두 이스케이프', () => {
+    const model: ArchitectureModel = {
+      ...architectures.v1,
+      title: '<script>alert(1)</script>',
+      layers: [{ ...architectures.v1.layers[0], title: 'A & "B"' }, ...architectures.v1.layers.slice(1)]
+    };
+    const html = renderReport(model);
+    expect(html).not.toContain('<script>');
+    const doc = parse(html);
+    expect(doc.querySelector('script')).toBeNull();
+    expect(doc.querySelector('h1')?.textContent).toBe('<script>alert(1)</script>');
+    expect(doc.querySelector('#layers h3')?.textContent).toBe('A & "B"');
+  });
+
+  it('다른 언어는 로캘 번들의 라벨과 이름 번역으로 렌더링', () => {
+    const catalog = loadTranslationCatalog(join(__dirname, 'data', 'locales', 'en.yaml'));
+    const labels = reportLabels(loadMessageBundle(join(__dirname, '..', 'explorer', 'locales', 'en.yaml')));
+    const doc = parse(renderReport(translateModel(architectures.v4, catalog), { labels, locale: 'en', name: nameLabel(catalog), generatedAt: '2026-10-19' }));
+    expect(doc.documentElement.lang).toBe('en');
+    expect(doc.querySelector('nav.toc h2')?.textContent).toBe('Contents');
+    expect(doc.querySelector('header .meta')?.textContent).toBe('v4 · generated 2026-10-19');
+    expect(texts(doc, '#features .card h4')).toContain('3D Spatial Modeling');
+  });
+});
+
+describe('sequenceDiagramSvg', () => {
+  it('참여자는 레이어 순서, 모델에 없는 참여자는 뒤에 두고 자기 자신에게 보내는 단계는 고리 모양', () => {
+    const model = architectures.v1;
+    const [first, second] = model.layers;
+    const svg = parse(sequenceDiagramSvg(model, {
+      id: 'loop',
+      title: '고리',
+      steps: [
+        { from: 'external', to: second.id, action: '외부 요청' },
+        { from: second.id, to: first.id, action: '전달' },
+        { from: first.id, to: first.id, action: '처리' }
+      ]
+    })).querySelector('svg')!;
+    expect(svg.getAttribute('aria-label')).toBe('고리');
+    expect(texts(svg, '.participant title')).toEqual([first.title, second.title, 'external']);
+    expect(svg.querySelectorAll('.message line')).toHaveLength(2);
+    expect(svg.querySelectorAll('.message path')).toHaveLength(1);
+    expect(texts(svg, '.message text')).toEqual(['1. 외부 요청', '2. 전달', '3. 처리']);
+  });
+});
+
+describe('highlightCode', () => {
+  it('토큰은 span 으로 감싸고 코드 안의 HTML 은 이스케이프', () => {
+    const html = highlightCode('const tag = "<b>";', 'javascript');
+    expect(html).toBe('<pre class="code" data-language="javascript"><code><span class="tok-keyword">const</span> tag = <span class="tok-string">&quot;&lt;b&gt;&quot;</span>;</code></pre>');
+  });
+});
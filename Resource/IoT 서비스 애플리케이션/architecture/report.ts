@@ -0,0 +1,466 @@
+import { detectLanguage, tokenizeLines } from './code';
+import { formatMessage, DEFAULT_LOCALE } from './i18n';
+import type { Locale, MessageBundle } from './i18n';
+import { riskLevel, riskScore, sortRisks } from './risk';
+import { todayIso } from './tracker';
+import type { ArchitectureModel, Component, Feature, Flow, FlowPayload } from './model';
+
+// 인쇄용 정적 보고서 - 모델 하나를 외부 리소스 없이 열리는 HTML 한 장으로 렌더링
+// 카드는 모두 펼친 상태, 플로우는 SVG 시퀀스 다이어그램, 스니펫은 구문 강조로 출력
+// PDF 는 브라우저의 인쇄(PDF로 저장)로 만들며 @media print 스타일이 쪽 나눔을 맡음
+
+// 제목과 필드 이름 - UI 로캘 번들의 report.* 로 바꿔 넘길 수 있음 (ICU 형식)
+export const REPORT_LABELS = {
+  toc: '목차',
+  generated: '{version} · 생성일 {date}',
+  layers: '레이어 구성',
+  flows: '데이터 플로우',
+  domains: '도메인 서비스',
+  techStacks: '기술 스택',
+  protocols: '통신 프로토콜',
+  features: '주요 기능',
+  architectures: '서비스 아키텍처',
+  infrastructure: '인프라',
+  integrations: '향후 통합',
+  phases: '구현 단계',
+  risks: '리스크 레지스터',
+  team: '팀 역할',
+  metrics: '성능 목표',
+  tech: '기술',
+  protocol: '프로토콜',
+  role: '역할',
+  platform: '플랫폼',
+  purpose: '목적',
+  flow: '흐름',
+  description: '설명',
+  featureList: '기능',
+  integrationList: '연동',
+  regions: '지원 리전',
+  languages: '지원 언어',
+  benefits: '효과',
+  roadmap: '로드맵',
+  responsibility: '책임',
+  connections: '연결',
+  category: '분류',
+  reason: '선정 이유',
+  link: '구간',
+  layer: '계층',
+  payload: '메시지 예시',
+  weeks: '{weeks}주',
+  tasks: '작업',
+  deliverables: '산출물',
+  challenge: '리스크',
+  likelihood: '발생 가능성',
+  impact: '영향도',
+  score: '점수',
+  status: '상태',
+  owner: '담당',
+  reviewDate: '검토일',
+  solution: '대응 방안',
+  components: '관련 구성 요소',
+  levelHigh: '높음',
+  levelMedium: '보통',
+  levelLow: '낮음',
+  statusOpen: '미조치',
+  statusMitigating: '대응 중',
+  statusMitigated: '완화됨',
+  statusAccepted: '수용',
+  headcount: '{count}명',
+  focus: '담당 업무',
+  metric: '지표',
+  value: '목표값'
+};
+
+export type ReportLabels = Record<keyof typeof REPORT_LABELS, string>;
+
+export interface ReportOptions {
+  labels?: ReportLabels;
+  locale?: Locale;
+  // 구성 요소/서비스 이름의 표시 문구 (translateModel 은 이름을 번역하지 않음) - 생략하면 원문
+  name?: (text: string) => string;
+  // YYYY-MM-DD - 생략하면 오늘
+  generatedAt?: string;
+}
+
+// 로캘 번들(report.*)에서 라벨을 골라 냄 - 없는 키는 기본(한국어) 라벨 사용
+export const reportLabels = (bundle: MessageBundle): ReportLabels =>
+  Object.fromEntries(
+    Object.entries(REPORT_LABELS).map(([key, fallback]) => [key, bundle[`report.${key}`] ?? fallback])
+  ) as ReportLabels;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const unique = <T>(values: T[]) => [...new Set(values)];
+
+const anchor = (...parts: string[]) =>
+  parts.join('-').toLowerCase().replace(/[^a-z0-9가-힣]+/g, '-').replace(/^-|-$/g, '');
+
+const list = (items: string[] | undefined) =>
+  items && items.length > 0 ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '';
+
+// 값이 있는 필드만 정의 목록으로 출력
+const fields = (entries: [string, string | string[] | undefined][]) => {
+  const rows = entries
+    .filter(([, value]) => (Array.isArray(value) ? value.length > 0 : Boolean(value)))
+    .map(([label, value]) =>
+      `<dt>${escapeHtml(label)}</dt><dd>${Array.isArray(value) ? list(value) : escapeHtml(value as string)}</dd>`
+    );
+  return rows.length > 0 ? `<dl>${rows.join('')}</dl>` : '';
+};
+
+const table = (headers: string[], rows: string[][]) =>
+  `<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+// ---- 구문 강조 ----
+
+export function highlightCode(code: string, language = detectLanguage(code)): string {
+  const lines = tokenizeLines(code, language).map((line) =>
+    line.map((token) =>
+      token.type === 'plain' ? escapeHtml(token.text) : `<span class="tok-${token.type}">${escapeHtml(token.text)}</span>`
+    ).join('')
+  );
+  return `<pre class="code" data-language="${language}"><code>${lines.join('\n')}</code></pre>`;
+}
+
+const payloadBlock = (payload: FlowPayload) =>
+  highlightCode(payload.body, /^\s*[{[]/.test(payload.body) ? 'json' : 'text');
+
+// ---- 시퀀스 다이어그램 ----
+
+const SEQUENCE = { column: 180, margin: 16, header: 34, row: 48, loop: 40 };
+
+// 참여자는 레이어 순서대로, 모델에 없는 참여자는 처음 나온 순서대로 뒤에 둠
+export function sequenceDiagramSvg(model: ArchitectureModel, flow: Flow): string {
+  const order = model.layers.map((layer) => layer.id);
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  const participants = unique(flow.steps.flatMap((step) => [step.from, step.to])).sort((a, b) => rank(a) - rank(b));
+  const titleOf = (id: string) => model.layers.find((layer) => layer.id === id)?.title ?? id;
+
+  const { column, margin, header, row, loop } = SEQUENCE;
+  const x = (id: string) => margin + column * participants.indexOf(id) + column / 2;
+  const top = margin + header;
+  const width = margin * 2 + column * participants.length + loop;
+  const height = top + row * flow.steps.length + margin;
+  const marker = `arrow-${anchor(flow.id)}`;
+
+  const heads = participants.map((id) => {
+    const left = x(id) - column / 2 + 8;
+    return `<g class="participant"><title>${escapeHtml(titleOf(id))}</title>` +
+      `<rect x="${left}" y="${margin}" width="${column - 16}" height="${header - 8}" rx="4"/>` +
+      `<text x="${x(id)}" y="${margin + (header - 8) / 2}" text-anchor="middle" dominant-baseline="central">${escapeHtml(titleOf(id))}</text>` +
+      `<line class="lifeline" x1="${x(id)}" y1="${top - 8}" x2="${x(id)}" y2="${height - margin}"/></g>`;
+  });
+
+  const arrows = flow.steps.map((step, idx) => {
+    const y = top + row * idx + row * 0.55;
+    const label = `${idx + 1}. ${step.action}`;
+    const via = step.payload ? [step.payload.protocol, step.payload.target].filter(Boolean).join(' ') : '';
+
+    if (step.from === step.to) {
+      const start = x(step.from);
+      return `<g class="message"><path d="M${start} ${y - 8} h${loop} v16 h-${loop}" marker-end="url(#${marker})"/>` +
+        `<text x="${start + 6}" y="${y - 12}">${escapeHtml(label)}</text>` +
+        (via ? `<text class="via" x="${start + 6}" y="${y + 20}">${escapeHtml(via)}</text>` : '') + '</g>';
+    }
+    const [from, to] = [x(step.from), x(step.to)];
+    const middle = (from + to) / 2;
+    return `<g class="message"><line x1="${from}" y1="${y}" x2="${to}" y2="${y}" marker-end="url(#${marker})"/>` +
+      `<text x="${middle}" y="${y - 6}" text-anchor="middle">${escapeHtml(label)}</text>` +
+      (via ? `<text class="via" x="${middle}" y="${y + 14}" text-anchor="middle">${escapeHtml(via)}</text>` : '') + '</g>';
+  });
+
+  return `<svg class="sequence" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" role="img" aria-label="${escapeHtml(flow.title)}">` +
+    `<defs><marker id="${marker}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M0 0L10 5L0 10z"/></marker></defs>` +
+    `${heads.join('')}${arrows.join('')}</svg>`;
+}
+
+// ---- 섹션 ----
+
+interface ReportSection {
+  id: string;
+  title: string;
+  // 목차에 올릴 하위 항목 (카드 단위)
+  entries: { id: string; title: string }[];
+  body: string;
+}
+
+type NameLabel = (text: string) => string;
+
+const componentCard = (comp: Component, labels: ReportLabels, name: NameLabel) =>
+  `<article class="card"><h4>${escapeHtml(name(comp.name))}</h4>${fields([
+    [labels.tech, comp.tech],
+    [labels.protocol, comp.protocol],
+    [labels.platform, comp.platform],
+    [labels.role, comp.role],
+    [labels.purpose, comp.purpose],
+    [labels.flow, comp.flow],
+    [labels.description, comp.description],
+    [labels.featureList, comp.features],
+    [labels.integrationList, comp.integrations],
+    [labels.regions, comp.regions],
+    [labels.languages, comp.languages],
+    [labels.benefits, comp.benefits]
+  ])}${comp.code ? highlightCode(comp.code, comp.language) : ''}</article>`;
+
+const featureSections = (section: 'features' | 'integrations', features: Feature[], labels: ReportLabels, name: NameLabel): ReportSection => ({
+  id: section,
+  title: labels[section],
+  entries: features.map((feature) => ({ id: anchor(section, feature.id), title: feature.title })),
+  body: features.map((feature) =>
+    `<section id="${anchor(section, feature.id)}" class="group"><h3>${escapeHtml(feature.title)}</h3>${fields([
+      [labels.description, feature.description],
+      [labels.featureList, feature.features],
+      [labels.roadmap, feature.roadmap && `${feature.roadmap.quarter} · ${feature.roadmap.milestone}`]
+    ])}<div class="cards">${feature.components.map((comp) => componentCard(comp, labels, name)).join('')}</div></section>`
+  ).join('')
+});
+
+function buildSections(model: ArchitectureModel, labels: ReportLabels, locale: Locale, name: NameLabel): ReportSection[] {
+  const format = (pattern: string, values: Record<string, string | number>) => formatMessage(pattern, values, locale);
+  const roleTitle = (id: string) => model.team.find((role) => role.id === id)?.title ?? id;
+  const featureTitle = (id: string) =>
+    [...model.features, ...model.integrations].find((feature) => feature.id === id)?.title ?? id;
+  const taskTitle = (id: string) =>
+    model.phases.flatMap((phase) => phase.tasks).find((task) => task.id === id)?.title ?? id;
+  const levelLabels = { High: labels.levelHigh, Medium: labels.levelMedium, Low: labels.levelLow };
+  const statusLabels = {
+    open: labels.statusOpen, mitigating: labels.statusMitigating, mitigated: labels.statusMitigated, accepted: labels.statusAccepted
+  };
+
+  const sections: ReportSection[] = [
+    {
+      id: 'layers',
+      title: labels.layers,
+      entries: model.layers.map((layer) => ({ id: anchor('layers', layer.id), title: layer.title })),
+      body: model.layers.map((layer) =>
+        `<section id="${anchor('layers', layer.id)}" class="group"><h3>${escapeHtml(layer.title)}</h3>` +
+        `${layer.tech ? `<p class="tech">${escapeHtml(layer.tech)}</p>` : ''}` +
+        `<div class="cards">${layer.components.map((comp) => componentCard(comp, labels, name)).join('')}</div></section>`
+      ).join('')
+    },
+    {
+      id: 'flows',
+      title: labels.flows,
+      entries: model.flows.map((flow) => ({ id: anchor('flows', flow.id), title: flow.title })),
+      body: model.flows.map((flow) =>
+        `<section id="${anchor('flows', flow.id)}" class="group"><h3>${escapeHtml(flow.title)}</h3>` +
+        `<figure>${sequenceDiagramSvg(model, flow)}</figure>` +
+        `<ol class="steps">${flow.steps.map((step) =>
+          `<li><strong>${escapeHtml(step.action)}</strong>` +
+          `${step.payload ? `<p class="via">${escapeHtml([labels.payload, step.payload.protocol, step.payload.target].filter(Boolean).join(' · '))}</p>${payloadBlock(step.payload)}` : ''}</li>`
+        ).join('')}</ol></section>`
+      ).join('')
+    },
+    {
+      id: 'domains',
+      title: labels.domains,
+      entries: [],
+      body: `<div class="cards">${model.domains.map((domain) =>
+        `<article class="card"><h4>${escapeHtml(domain.title)}</h4>${list(domain.services)}</article>`
+      ).join('')}</div>`
+    },
+    {
+      id: 'techStacks',
+      title: labels.techStacks,
+      entries: model.techStacks.map((stack) => ({ id: anchor('stack', stack.id), title: stack.title })),
+      body: model.techStacks.map((stack) =>
+        `<section id="${anchor('stack', stack.id)}" class="group"><h3>${escapeHtml(stack.title)}</h3>${table(
+          [labels.category, labels.tech, labels.reason],
+          stack.items.map((item) => [escapeHtml(item.category), escapeHtml(item.tech), escapeHtml(item.reason)])
+        )}</section>`
+      ).join('')
+    },
+    {
+      id: 'protocols',
+      title: labels.protocols,
+      entries: [],
+      body: table(
+        [labels.link, labels.protocol],
+        model.protocols.map((route) => [escapeHtml(route.link), escapeHtml(route.protocols.join(', '))])
+      )
+    },
+    featureSections('features', model.features, labels, name),
+    {
+      id: 'architectures',
+      title: labels.architectures,
+      entries: model.architectures.map((architecture) => ({ id: anchor('architecture', architecture.id), title: architecture.title })),
+      body: model.architectures.map((architecture) =>
+        `<section id="${anchor('architecture', architecture.id)}" class="group"><h3>${escapeHtml(architecture.title)}</h3>` +
+        `${architecture.description ? `<p>${escapeHtml(architecture.description)}</p>` : ''}` +
+        `<div class="cards">${architecture.services.map((service) =>
+          `<article class="card"><h4>${escapeHtml(name(service.name))}</h4>${fields([
+            [labels.tech, service.tech],
+            [labels.responsibility, service.responsibility],
+            [labels.connections, service.connections.map(name)]
+          ])}</article>`
+        ).join('')}</div></section>`
+      ).join('')
+    },
+    {
+      id: 'infrastructure',
+      title: labels.infrastructure,
+      entries: [],
+      body: table(
+        [labels.layer, labels.tech, labels.purpose],
+        model.infrastructure.map((item) => [escapeHtml(item.layer), escapeHtml(item.tech), escapeHtml(item.purpose)])
+      )
+    },
+    featureSections('integrations', model.integrations, labels, name),
+    {
+      id: 'phases',
+      title: labels.phases,
+      entries: model.phases.map((phase) => ({ id: anchor('phase', phase.id), title: phase.title })),
+      body: model.phases.map((phase) =>
+        `<section id="${anchor('phase', phase.id)}" class="group"><h3>${escapeHtml(phase.title)}` +
+        `${phase.weeks ? ` <small>${escapeHtml(format(labels.weeks, { weeks: phase.weeks }))}</small>` : ''}</h3>` +
+        fields([
+          [labels.tasks, phase.tasks.map((task) => task.title)],
+          [labels.deliverables, phase.deliverables.map((item) => item.title)]
+        ]) + '</section>'
+      ).join('')
+    },
+    {
+      id: 'risks',
+      title: labels.risks,
+      entries: [],
+      body: table(
+        [labels.challenge, labels.score, labels.status, labels.owner, labels.reviewDate, labels.solution],
+        sortRisks(model.challenges).map((risk) => {
+          const score = riskScore(risk);
+          const level = riskLevel(score);
+          return [
+            `<strong>${escapeHtml(risk.challenge)}</strong>` +
+              (risk.components.length > 0 ? `<p class="via">${escapeHtml(labels.components)}: ${escapeHtml(risk.components.map(name).join(', '))}</p>` : ''),
+            `<span class="level level-${level.toLowerCase()}">${escapeHtml(levelLabels[level])} · ${score}</span>` +
+              `<p class="via">${escapeHtml(labels.likelihood)} ${risk.likelihood} × ${escapeHtml(labels.impact)} ${risk.impact}</p>`,
+            escapeHtml(statusLabels[risk.status]),
+            escapeHtml(risk.owner ? roleTitle(risk.owner) : ''),
+            escapeHtml(risk.reviewDate ?? ''),
+            escapeHtml(risk.solution)
+          ];
+        })
+      )
+    },
+    {
+      id: 'team',
+      title: labels.team,
+      entries: [],
+      body: `<div class="cards">${model.team.map((role) =>
+        `<article class="card"><h4>${escapeHtml(role.title)} <small>${escapeHtml(format(labels.headcount, { count: role.headcount }))}</small></h4>${fields([
+          [labels.focus, role.focus],
+          [labels.components, role.components.map(name)],
+          [labels.featureList, role.features.map(featureTitle)],
+          [labels.tasks, role.tasks.map(taskTitle)]
+        ])}</article>`
+      ).join('')}</div>`
+    },
+    {
+      id: 'metrics',
+      title: labels.metrics,
+      entries: [],
+      body: table(
+        [labels.category, labels.metric, labels.value],
+        model.metrics.map((metric) => [escapeHtml(metric.category), escapeHtml(metric.name), escapeHtml(metric.value)])
+      )
+    }
+  ];
+
+  // 비어 있는 섹션은 목차와 본문 모두에서 뺌
+  const counts: Record<string, number> = {
+    layers: model.layers.length, flows: model.flows.length, domains: model.domains.length,
+    techStacks: model.techStacks.length, protocols: model.protocols.length, features: model.features.length,
+    architectures: model.architectures.length, infrastructure: model.infrastructure.length,
+    integrations: model.integrations.length, phases: model.phases.length, risks: model.challenges.length,
+    team: model.team.length, metrics: model.metrics.length
+  };
+  return sections.filter((section) => counts[section.id] > 0);
+}
+
+// ---- 문서 ----
+
+const REPORT_STYLES = `
+:root { color-scheme: light; }
+* { box-sizing: border-box; }
+body { margin: 0 auto; max-width: 1100px; padding: 32px; font: 14px/1.6 system-ui, -apple-system, "Apple SD Gothic Neo", "Malgun Gothic", sans-serif; color: #1f2937; }
+h1 { font-size: 28px; margin: 0; }
+h2 { font-size: 22px; border-bottom: 2px solid #e5e7eb; padding-bottom: 4px; margin-top: 40px; }
+h3 { font-size: 17px; margin: 24px 0 8px; }
+h4 { font-size: 15px; margin: 0 0 6px; }
+small { color: #6b7280; font-weight: normal; }
+.meta, .tech, .via { color: #6b7280; font-size: 12px; margin: 2px 0; }
+nav.toc ol { padding-left: 20px; }
+nav.toc a { color: #1d4ed8; text-decoration: none; }
+.cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 12px; }
+.card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+dl { margin: 0; display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font-size: 13px; }
+dt { color: #6b7280; }
+dd { margin: 0; }
+dd ul { margin: 0; padding-left: 18px; }
+table { width: 100%; border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+.level { display: inline-block; padding: 0 6px; border-radius: 4px; white-space: nowrap; }
+.level-high { background: #fee2e2; color: #b91c1c; }
+.level-medium { background: #fef9c3; color: #a16207; }
+.level-low { background: #dcfce7; color: #15803d; }
+figure { margin: 8px 0; overflow-x: auto; }
+svg.sequence { max-width: 100%; height: auto; font-size: 11px; }
+svg.sequence rect { fill: #eff6ff; stroke: #3b82f6; }
+svg.sequence .lifeline { stroke: #9ca3af; stroke-dasharray: 4 4; }
+svg.sequence .message line, svg.sequence .message path { stroke: #1f2937; fill: none; }
+svg.sequence marker path { fill: #1f2937; }
+svg.sequence text { fill: #1f2937; }
+svg.sequence text.via { fill: #6b7280; font-size: 10px; }
+ol.steps li { margin-bottom: 6px; }
+pre.code { background: #f6f8fa; border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px; overflow-x: auto; font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.tok-comment { color: #6a737d; font-style: italic; }
+.tok-string { color: #032f62; }
+.tok-keyword { color: #d73a49; }
+.tok-number { color: #005cc5; }
+.tok-tag { color: #22863a; }
+.tok-attribute, .tok-key { color: #6f42c1; }
+@page { size: A4; margin: 16mm; }
+@media print {
+  body { max-width: none; padding: 0; font-size: 11pt; }
+  nav.toc { break-after: page; }
+  main > section { break-before: page; }
+  .card, figure, tr, pre.code, ol.steps li { break-inside: avoid; }
+  h2, h3, h4 { break-after: avoid; }
+  a { color: inherit; text-decoration: none; }
+  pre.code { white-space: pre-wrap; overflow: visible; }
+  figure { overflow: visible; }
+}
+`;
+
+export function renderReport(model: ArchitectureModel, options: ReportOptions = {}): string {
+  const { labels = REPORT_LABELS, locale = DEFAULT_LOCALE, name = (text: string) => text, generatedAt = todayIso() } = options;
+  const sections = buildSections(model, labels, locale, name);
+
+  const toc = sections.map((section) =>
+    `<li><a href="#${section.id}">${escapeHtml(section.title)}</a>` +
+    (section.entries.length > 0
+      ? `<ol>${section.entries.map((entry) => `<li><a href="#${entry.id}">${escapeHtml(entry.title)}</a></li>`).join('')}</ol>`
+      : '') + '</li>'
+  ).join('');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(model.title)}</title>`,
+    `<style>${REPORT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${escapeHtml(model.title)}</h1><p class="meta">${escapeHtml(formatMessage(labels.generated, { version: model.version, date: generatedAt }, locale))}</p></header>`,
+    `<nav class="toc"><h2>${escapeHtml(labels.toc)}</h2><ol>${toc}</ol></nav>`,
+    `<main>${sections.map((section) => `<section id="${section.id}"><h2>${escapeHtml(section.title)}</h2>${section.body}</section>`).join('')}</main>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { risksToCsv } from './risk';
+
+describe('risk register CSV', () => {
+  it('수식으로 읽히는 칸은 작은따옴표로 막고 줄바꿈 칸은 따옴표로 감쌈', () => {
+    const [first] = architectures.v2.challenges;
+    const model = {
+      ...architectures.v2,
+      challenges: [{ ...first, challenge: '=HYPERLINK("http://evil")', solution: '@SUM(A1)\r\n다음 줄', owner: '-1+2' }]
+    };
+    const csv = risksToCsv(model);
+    expect(csv).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(csv).toContain(`"'@SUM(A1)\r\n다음 줄"`);
+    expect(csv).toContain(`,'-1+2,`);
+    expect(csv).toContain(`,${first.likelihood},${first.impact},`);
+  });
+});
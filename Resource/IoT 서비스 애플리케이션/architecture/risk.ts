@@ -0,0 +1,60 @@
+import type { ArchitectureModel, Challenge } from './model';
+
+// 리스크 레지스터 - 기술 과제(challenges)를 발생 가능성 × 영향도로 점수화
+export const RISK_SCALE = [1, 2, 3, 4, 5] as const;
+
+export type RiskLevel = 'High' | 'Medium' | 'Low';
+
+export const riskScore = (risk: Pick<Challenge, 'likelihood' | 'impact'>) => risk.likelihood * risk.impact;
+
+// 5×5 매트릭스 기준 - 15 이상 높음, 8 이상 보통
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 15) return 'High';
+  if (score >= 8) return 'Medium';
+  return 'Low';
+}
+
+// 점수가 높은 순, 같으면 검토일이 빠른 순
+export function sortRisks(risks: Challenge[]): Challenge[] {
+  return [...risks].sort((a, b) =>
+    riskScore(b) - riskScore(a) || (a.reviewDate ?? '9999').localeCompare(b.reviewDate ?? '9999')
+  );
+}
+
+export const isReviewOverdue = (risk: Challenge, today: string) =>
+  risk.reviewDate !== undefined && risk.reviewDate < today && risk.status !== 'mitigated';
+
+export interface RiskMatrixCell {
+  likelihood: number;
+  impact: number;
+  level: RiskLevel;
+  risks: Challenge[];
+}
+
+// 영향도가 높은 행부터 - 히트맵의 위쪽이 가장 위험
+export function riskMatrix(risks: Challenge[]): RiskMatrixCell[][] {
+  return [...RISK_SCALE].reverse().map((impact) =>
+    RISK_SCALE.map((likelihood) => ({
+      likelihood,
+      impact,
+      level: riskLevel(likelihood * impact),
+      risks: risks.filter((risk) => risk.likelihood === likelihood && risk.impact === impact)
+    }))
+  );
+}
+
+// =, +, -, @ 로 시작하면 스프레드시트가 수식으로 실행 - 작은따옴표를 붙여 문자열로 고정 (숫자 칸은 그대로)
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 스프레드시트로 옮길 수 있도록 CSV 로 내보냄 (UTF-8 BOM 포함 - 엑셀에서 한글이 깨지지 않게)
+export function risksToCsv(model: ArchitectureModel): string {
+  const header = ['id', 'challenge', 'likelihood', 'impact', 'score', 'level', 'status', 'owner', 'reviewDate', 'components', 'solution'];
+  const rows = sortRisks(model.challenges).map((risk) => [
+    risk.id, risk.challenge, risk.likelihood, risk.impact, riskScore(risk), riskLevel(riskScore(risk)),
+    risk.status, risk.owner ?? '', risk.reviewDate ?? '', risk.components.join('; '), risk.solution
+  ]);
+  return `\uFEFF${[header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n')}\n`;
+}
@@ -0,0 +1,269 @@
+import { z } from 'zod';
+
+// 아키텍처 문서 스키마 - 모든 버전(overview, V1~V4)이 공유하는 단일 도메인 모델
+const text = z.string().trim().min(1);
+const textList = z.array(text);
+
+export const versionSchema = z.enum(['overview', 'v1', 'v2', 'v3', 'v4']);
+
+// 코드 스니펫 언어 태그 - 생략하면 뷰어가 내용으로 추정
+export const codeLanguageSchema = z.enum([
+  'cpp', 'javascript', 'typescript', 'python', 'sql', 'yaml', 'json', 'mosquitto', 'vue', 'solidity', 'csharp', 'text'
+]);
+
+// 카드 한 장에 해당하는 구성 요소 (V1 purpose, V2 flow, V3 implementation 등을 하나로 통합)
+export const componentSchema = z.object({
+  name: text,
+  tech: text.optional(),
+  protocol: text.optional(),
+  role: text.optional(),
+  platform: text.optional(),
+  purpose: text.optional(),
+  flow: text.optional(),
+  description: text.optional(),
+  features: textList.optional(),
+  integrations: textList.optional(),
+  regions: textList.optional(),
+  languages: textList.optional(),
+  benefits: textList.optional(),
+  code: text.optional(),
+  language: codeLanguageSchema.optional()
+}).strict();
+
+export const layerSchema = z.object({
+  id: text,
+  title: text,
+  icon: text.optional(),
+  color: text.optional(),
+  tech: text.optional(),
+  components: z.array(componentSchema).min(1)
+}).strict();
+
+export const domainSchema = z.object({
+  id: text,
+  title: text,
+  icon: text.optional(),
+  color: text.optional(),
+  services: textList.min(1)
+}).strict();
+
+export const techStackSchema = z.object({
+  id: text,
+  title: text,
+  items: z.array(z.object({
+    category: text,
+    tech: text,
+    reason: text
+  }).strict()).min(1)
+}).strict();
+
+export const protocolRouteSchema = z.object({
+  link: text,
+  protocols: textList.min(1)
+}).strict();
+
+// 플로우 단계마다 실제로 오가는 메시지 예시 (MQTT 토픽, HTTP 요청 등)
+export const flowPayloadSchema = z.object({
+  protocol: z.enum(['MQTT', 'HTTP', 'WebSocket', 'SQL', 'Internal']),
+  target: text.optional(),
+  body: text
+}).strict();
+
+export const flowStepSchema = z.object({
+  from: text,
+  to: text,
+  action: text,
+  payload: flowPayloadSchema.optional()
+}).strict();
+
+export const flowSchema = z.object({
+  id: text,
+  title: text,
+  steps: z.array(flowStepSchema).min(1)
+}).strict();
+
+// 로드맵 타임라인에서 기술/통합 항목이 놓이는 분기와 그 분기의 목표
+export const roadmapSlotSchema = z.object({
+  quarter: z.enum(['Q1', 'Q2', 'Q3', 'Q4', 'beyond']),
+  milestone: text
+}).strict();
+
+export const featureSchema = z.object({
+  id: text,
+  title: text,
+  icon: text.optional(),
+  description: text.optional(),
+  features: textList.optional(),
+  roadmap: roadmapSlotSchema.optional(),
+  components: z.array(componentSchema).default([])
+}).strict();
+
+export const serviceSchema = z.object({
+  name: text,
+  tech: text,
+  responsibility: text,
+  connections: textList.default([])
+}).strict();
+
+export const serviceArchitectureSchema = z.object({
+  id: text,
+  title: text,
+  icon: text.optional(),
+  description: text.optional(),
+  services: z.array(serviceSchema).min(1)
+}).strict();
+
+export const infrastructureLayerSchema = z.object({
+  layer: text,
+  tech: text,
+  purpose: text
+}).strict();
+
+// 단계의 작업/산출물 - 로드맵 추적기와 팀 역할은 순서나 문구가 아닌 id 로 가리킴 (모델 안에서 유일)
+export const phaseItemSchema = z.object({
+  id: text,
+  title: text
+}).strict();
+
+export const phaseSchema = z.object({
+  id: text,
+  title: text,
+  // 기간(주) - 팀 역할의 단계별 가용 일수를 계산할 때 사용
+  weeks: z.number().positive().optional(),
+  tasks: z.array(phaseItemSchema).min(1),
+  deliverables: z.array(phaseItemSchema).default([])
+}).strict();
+
+// 팀 역할 - 버전이 달라도 같은 역할은 같은 id 를 써서 버전 간 업무량을 비교
+export const teamRoleSchema = z.object({
+  id: text,
+  title: text,
+  headcount: z.number().int().positive().default(1),
+  focus: text,
+  // 담당하는 구성 요소 이름, 기능 카드 id, 구현 단계 작업 id
+  components: textList.default([]),
+  features: textList.default([]),
+  tasks: textList.default([])
+}).strict();
+
+export const RISK_STATUSES = ['open', 'mitigating', 'mitigated', 'accepted'] as const;
+
+const riskScale = z.number().int().min(1).max(5);
+
+// 기술 과제 = 리스크 레지스터 항목 - 발생 가능성 × 영향도(각 1~5)로 점수를 매김
+export const challengeSchema = z.object({
+  id: text,
+  challenge: text,
+  solution: text,
+  likelihood: riskScale,
+  impact: riskScale,
+  // 팀 역할 id (팀이 정의되지 않은 버전은 자유 입력)
+  owner: text.optional(),
+  status: z.enum(RISK_STATUSES).default('open'),
+  reviewDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD 형식이어야 합니다').optional(),
+  components: textList.default([])
+}).strict();
+
+export const metricSchema = z.object({
+  category: text,
+  name: text,
+  value: z.union([text, z.number()]).transform(String)
+}).strict();
+
+const TEAM_REFERENCE_LABELS = { components: '구성 요소', features: '기능', tasks: '작업' } as const;
+
+// 목록 안에서 id/name 중복 여부 검사
+const duplicates = (values: string[]) =>
+  values.filter((value, idx) => values.indexOf(value) !== idx);
+
+export const architectureModelSchema = z.object({
+  version: versionSchema,
+  title: text,
+  layers: z.array(layerSchema).default([]),
+  domains: z.array(domainSchema).default([]),
+  techStacks: z.array(techStackSchema).default([]),
+  protocols: z.array(protocolRouteSchema).default([]),
+  flows: z.array(flowSchema).default([]),
+  features: z.array(featureSchema).default([]),
+  architectures: z.array(serviceArchitectureSchema).default([]),
+  infrastructure: z.array(infrastructureLayerSchema).default([]),
+  phases: z.array(phaseSchema).default([]),
+  challenges: z.array(challengeSchema).default([]),
+  integrations: z.array(featureSchema).default([]),
+  metrics: z.array(metricSchema).default([]),
+  team: z.array(teamRoleSchema).default([])
+}).strict().superRefine((model, ctx) => {
+  const sections = ['layers', 'domains', 'techStacks', 'flows', 'features', 'phases', 'integrations', 'team', 'challenges'] as const;
+  sections.forEach((section) => {
+    duplicates(model[section].map((entry) => entry.id)).forEach((id) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [section], message: `중복된 id "${id}"` });
+    });
+  });
+
+  duplicates(model.phases.flatMap((phase) => [...phase.tasks, ...phase.deliverables].map((item) => item.id))).forEach((id) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['phases'], message: `중복된 작업 id "${id}"` });
+  });
+
+  // 플로우 단계는 반드시 정의된 레이어를 가리켜야 함
+  if (model.layers.length > 0) {
+    const layerIds = new Set(model.layers.map((layer) => layer.id));
+    model.flows.forEach((flow, flowIdx) => {
+      flow.steps.forEach((step, stepIdx) => {
+        (['from', 'to'] as const).forEach((end) => {
+          if (!layerIds.has(step[end])) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['flows', flowIdx, 'steps', stepIdx, end],
+              message: `알 수 없는 레이어 "${step[end]}"`
+            });
+          }
+        });
+      });
+    });
+  }
+
+  // 팀 역할이 담당하는 항목은 같은 모델 안에 있어야 함
+  const known = {
+    components: new Set([
+      ...[...model.layers, ...model.features, ...model.integrations].flatMap((group) => group.components.map((comp) => comp.name)),
+      ...model.architectures.flatMap((architecture) => architecture.services.map((service) => service.name))
+    ]),
+    features: new Set([...model.features, ...model.integrations].map((feature) => feature.id)),
+    tasks: new Set(model.phases.flatMap((phase) => phase.tasks.map((task) => task.id)))
+  };
+  model.team.forEach((role, roleIdx) => {
+    (['components', 'features', 'tasks'] as const).forEach((field) => {
+      role[field].forEach((value, valueIdx) => {
+        if (!known[field].has(value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['team', roleIdx, field, valueIdx],
+            message: `알 수 없는 ${TEAM_REFERENCE_LABELS[field]} "${value}"`
+          });
+        }
+      });
+    });
+  });
+
+  // 리스크가 가리키는 구성 요소와 담당 역할도 같은 모델 안에 있어야 함
+  const roleIds = new Set(model.team.map((role) => role.id));
+  model.challenges.forEach((risk, riskIdx) => {
+    risk.components.forEach((name, nameIdx) => {
+      if (!known.components.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['challenges', riskIdx, 'components', nameIdx], message: `알 수 없는 구성 요소 "${name}"` });
+      }
+    });
+    if (risk.owner && roleIds.size > 0 && !roleIds.has(risk.owner)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['challenges', riskIdx, 'owner'], message: `알 수 없는 팀 역할 "${risk.owner}"` });
+    }
+  });
+});
+
+// 버전 간 이름이 바뀐 컴포넌트를 명시적으로 연결하는 매핑 파일
+export const componentMappingSchema = z.object({
+  components: z.array(z.object({
+    id: text,
+    title: text,
+    members: z.record(versionSchema, textList.min(1))
+  }).strict()).default([])
+}).strict();
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { buildSearchIndex, searchDocuments } from './search';
+import type { SearchDocument } from './search';
+
+const doc = (title: string, text = ''): SearchDocument => ({
+  id: title,
+  version: 'v1',
+  title,
+  context: '',
+  path: '/v1',
+  params: {},
+  fields: text ? [{ label: '설명', text, weight: 2 }] : []
+});
+
+const search = (documents: SearchDocument[], query: string) => searchDocuments(documents, query);
+const titles = (documents: SearchDocument[], query: string) => search(documents, query).map((result) => result.document.title);
+
+describe('searchDocuments', () => {
+  it('조합 중인 음절도 자모 단위로 이어서 매칭', () => {
+    const [result] = search([doc('서비스 목록')], '섭');
+    expect(result.titleRanges).toEqual([{ start: 0, end: 2 }]);
+    expect(titles([doc('닭가슴살')], '달')).toEqual(['닭가슴살']);
+  });
+
+  it('앞 음절만 입력해도 매칭하고 강조는 입력한 음절까지', () => {
+    const [result] = search([doc('스마트 디바이스 관리')], '디바');
+    expect(result.titleRanges).toEqual([{ start: 4, end: 6 }]);
+    expect(titles([doc('디지털 트윈')], '디바')).toEqual([]);
+  });
+
+  it('자음만 입력하면 초성 검색', () => {
+    const [result] = search([doc('스마트 디바이스')], 'ㄷㅂㅇㅅ');
+    expect(result.titleRanges).toEqual([{ start: 4, end: 8 }]);
+    expect(titles([doc('데이터베이스')], 'ㄷㅂㅇㅅ')).toEqual([]);
+    // 자음 하나는 초성 검색이 아니라 자모 매칭
+    expect(titles([doc('음성 인식')], 'ㅇ')).toEqual(['음성 인식']);
+  });
+
+  it('제목 일치 > 제목 단어 시작 > 제목 중간 > 본문 순으로 정렬', () => {
+    const documents = [doc('본문에만', '디바이스 등록'), doc('스마트디바이스'), doc('디바이스 관리'), doc('디바이스')];
+    expect(titles(documents, '디바이스')).toEqual(['디바이스', '디바이스 관리', '스마트디바이스', '본문에만']);
+  });
+
+  it('여러 검색어는 모두 있어야 하고 본문 매치는 스니펫으로 강조', () => {
+    const documents = [doc('MQTT Broker', '디바이스 메시지 중계'), doc('MQTT Client', '서버와 통신')];
+    const results = search(documents, 'mqtt 중계');
+    expect(results.map((result) => result.document.title)).toEqual(['MQTT Broker']);
+    expect(results[0].titleRanges).toEqual([{ start: 0, end: 4 }]);
+    expect(results[0].snippet).toEqual({ label: '설명', text: '디바이스 메시지 중계', ranges: [{ start: 9, end: 11 }] });
+  });
+
+  it('실제 인덱스에서 초성으로 구성 요소를 찾고 원문 이름으로 카드를 가리킴', () => {
+    const index = buildSearchIndex(architectures, undefined, (name) => (name === 'Wake Word Detection' ? '호출어 감지' : name));
+    const [first] = searchDocuments(index, 'ㅎㅊㅇ');
+    expect(first.document).toMatchObject({ title: '호출어 감지', path: '/v2', params: { component: 'Wake Word Detection' } });
+    expect(searchDocuments(index, '디바이스').length).toBeGreaterThan(0);
+  });
+});
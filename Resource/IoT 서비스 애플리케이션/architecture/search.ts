@@ -0,0 +1,342 @@
+import type { ArchitectureSet, ArchitectureVersion, Component } from './model';
+
+// 전체 버전의 카드/플로우/코드 스니펫을 하나의 검색 인덱스로 만들고 한글 부분 음절까지 매칭
+export interface SearchField {
+  label: string;
+  text: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  id: string;
+  version: ArchitectureVersion;
+  title: string;
+  context: string;
+  // 결과 선택 시 이동할 탐색기 경로와 카드를 펼치는 쿼리 파라미터
+  path: string;
+  params: Record<string, string>;
+  fields: SearchField[];
+}
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  label: string;
+  text: string;
+  ranges: MatchRange[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  titleRanges: MatchRange[];
+  snippet?: SearchSnippet;
+}
+
+const WEIGHTS = { title: 5, tech: 3, text: 2, code: 1 };
+const SNIPPET_RADIUS = 40;
+
+export const versionPath = (version: ArchitectureVersion) => (version === 'overview' ? '/' : `/${version}`);
+
+export function searchUrl(document: SearchDocument): string {
+  const query = new URLSearchParams(document.params).toString();
+  return document.path + (query ? `?${query}` : '');
+}
+
+// 필드 이름과 문서 분류 - UI 로캘에 맞춰 바꿔 넘길 수 있음
+export const SEARCH_LABELS = {
+  name: '이름',
+  tech: '기술',
+  role: '역할',
+  features: '기능',
+  support: '지원',
+  code: '코드',
+  domain: '도메인',
+  services: '서비스',
+  reason: '선정 이유',
+  protocolRoute: '통신 프로토콜',
+  protocols: '프로토콜',
+  dataFlow: '데이터 플로우',
+  steps: '단계',
+  messages: '메시지',
+  description: '설명',
+  responsibility: '책임',
+  connections: '연결',
+  integration: '미래 통합 계획',
+  infrastructure: '인프라',
+  purpose: '목적',
+  phase: '개발 단계',
+  tasks: '작업',
+  deliverables: '산출물',
+  challenge: '기술 과제',
+  solution: '해결 방안',
+  value: '값'
+};
+
+export type SearchLabels = Record<keyof typeof SEARCH_LABELS, string>;
+
+const field = (label: string, value: string | string[] | undefined, weight: number): SearchField[] => {
+  const text = Array.isArray(value) ? value.join('\n') : value;
+  return text ? [{ label, text, weight }] : [];
+};
+
+const componentFields = (comp: Component, labels: SearchLabels, title: string): SearchField[] => [
+  ...field(labels.name, title, WEIGHTS.title),
+  ...field(labels.tech, [comp.tech, comp.protocol, comp.platform].filter(Boolean) as string[], WEIGHTS.tech),
+  ...field(labels.role, [comp.role, comp.purpose, comp.flow, comp.description].filter(Boolean) as string[], WEIGHTS.text),
+  ...field(labels.features, [...(comp.features ?? []), ...(comp.integrations ?? []), ...(comp.benefits ?? [])], WEIGHTS.text),
+  ...field(labels.support, [...(comp.regions ?? []), ...(comp.languages ?? [])], WEIGHTS.text),
+  ...field(labels.code, comp.code, WEIGHTS.code)
+];
+
+// name 은 화면에 보일 이름 - 문서 id 와 이동 파라미터는 원문 이름을 그대로 사용
+export function buildSearchIndex(
+  set: ArchitectureSet,
+  labels: SearchLabels = SEARCH_LABELS,
+  name: (text: string) => string = (text) => text
+): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  Object.values(set).forEach((model) => {
+    const { version } = model;
+    const path = versionPath(version);
+    const push = (id: string, title: string, context: string, params: Record<string, string>, fields: SearchField[]) => {
+      documents.push({ id: `${version}:${id}`, version, title, context, path, params, fields });
+    };
+    // 개요 페이지는 layer, V1 은 component 파라미터로 레이어 카드를 펼침
+    const layerParam = version === 'overview' ? 'layer' : 'component';
+
+    model.layers.forEach((layer) => {
+      push(`layer:${layer.id}`, layer.title, model.title, { [layerParam]: layer.id }, field(labels.tech, layer.tech, WEIGHTS.tech));
+      layer.components.forEach((comp) => {
+        push(`layer:${layer.id}:${comp.name}`, name(comp.name), layer.title, { [layerParam]: layer.id }, componentFields(comp, labels, name(comp.name)));
+      });
+    });
+
+    model.domains.forEach((domain) => {
+      push(`domain:${domain.id}`, domain.title, labels.domain, { domain: domain.id }, field(labels.services, domain.services, WEIGHTS.text));
+    });
+
+    model.techStacks.forEach((stack) => {
+      stack.items.forEach((item) => {
+        push(`stack:${stack.id}:${item.category}`, item.category, stack.title, {}, [
+          ...field(labels.tech, item.tech, WEIGHTS.tech),
+          ...field(labels.reason, item.reason, WEIGHTS.text)
+        ]);
+      });
+    });
+
+    model.protocols.forEach((route) => {
+      push(`protocol:${route.link}`, route.link, labels.protocolRoute, {}, field(labels.protocols, route.protocols, WEIGHTS.tech));
+    });
+
+    model.flows.forEach((flow) => {
+      push(`flow:${flow.id}`, flow.title, labels.dataFlow, { flow: flow.id }, [
+        ...field(labels.steps, flow.steps.map((step) => `${step.from} → ${step.to}: ${step.action}`), WEIGHTS.text),
+        ...field(labels.messages, flow.steps.flatMap((step) => step.payload ? [step.payload.target, step.payload.body].filter(Boolean) as string[] : []), WEIGHTS.code)
+      ]);
+    });
+
+    // V2 는 feature + component, V3 는 feature, V4 는 technology 파라미터로 탭을 선택
+    const featureParam = version === 'v4' ? 'technology' : 'feature';
+    model.features.forEach((feature) => {
+      push(`feature:${feature.id}`, feature.title, model.title, { [featureParam]: feature.id }, [
+        ...field(labels.description, feature.description, WEIGHTS.text),
+        ...field(labels.features, feature.features, WEIGHTS.text)
+      ]);
+      feature.components.forEach((comp) => {
+        const params = version === 'v2'
+          ? { feature: feature.id, component: comp.name }
+          : { [featureParam]: feature.id };
+        push(`feature:${feature.id}:${comp.name}`, name(comp.name), feature.title, params, componentFields(comp, labels, name(comp.name)));
+      });
+    });
+
+    model.architectures.forEach((architecture) => {
+      architecture.services.forEach((service) => {
+        push(`service:${architecture.id}:${service.name}`, name(service.name), architecture.title, { architecture: architecture.id }, [
+          ...field(labels.tech, service.tech, WEIGHTS.tech),
+          ...field(labels.responsibility, service.responsibility, WEIGHTS.text),
+          ...field(labels.connections, service.connections.map(name), WEIGHTS.text)
+        ]);
+      });
+    });
+
+    model.integrations.forEach((integration) => {
+      push(`integration:${integration.id}`, integration.title, labels.integration, {}, [
+        ...field(labels.description, integration.description, WEIGHTS.text),
+        ...field(labels.features, integration.features, WEIGHTS.text)
+      ]);
+    });
+
+    model.infrastructure.forEach((layer) => {
+      push(`infra:${layer.layer}`, layer.layer, labels.infrastructure, {}, [
+        ...field(labels.tech, layer.tech, WEIGHTS.tech),
+        ...field(labels.purpose, layer.purpose, WEIGHTS.text)
+      ]);
+    });
+
+    model.phases.forEach((phase) => {
+      push(`phase:${phase.id}`, phase.title, labels.phase, {}, [
+        ...field(labels.tasks, phase.tasks.map((task) => task.title), WEIGHTS.text),
+        ...field(labels.deliverables, phase.deliverables.map((item) => item.title), WEIGHTS.text)
+      ]);
+    });
+
+    model.challenges.forEach((challenge) => {
+      push(`challenge:${challenge.challenge}`, challenge.challenge, labels.challenge, {}, field(labels.solution, challenge.solution, WEIGHTS.text));
+    });
+
+    model.metrics.forEach((metric) => {
+      push(`metric:${metric.category}:${metric.name}`, metric.name, metric.category, {}, field(labels.value, metric.value, WEIGHTS.text));
+    });
+  });
+
+  return documents;
+}
+
+// 한글 음절을 자모로 분해 - 조합 중인 "섭"도 "서비스"에 걸리도록 겹받침/겹모음까지 나눔
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const JUNGSEONG = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅗㅏ', 'ㅗㅐ', 'ㅗㅣ', 'ㅛ', 'ㅜ', 'ㅜㅓ', 'ㅜㅔ', 'ㅜㅣ', 'ㅠ', 'ㅡ', 'ㅡㅣ', 'ㅣ'];
+const JONGSEONG = ['', 'ㄱ', 'ㄲ', 'ㄱㅅ', 'ㄴ', 'ㄴㅈ', 'ㄴㅎ', 'ㄷ', 'ㄹ', 'ㄹㄱ', 'ㄹㅁ', 'ㄹㅂ', 'ㄹㅅ', 'ㄹㅌ', 'ㄹㅍ', 'ㄹㅎ', 'ㅁ', 'ㅂ', 'ㅂㅅ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const COMPOUND_JAMO: Record<string, string> = {
+  'ㄳ': 'ㄱㅅ', 'ㄵ': 'ㄴㅈ', 'ㄶ': 'ㄴㅎ', 'ㄺ': 'ㄹㄱ', 'ㄻ': 'ㄹㅁ', 'ㄼ': 'ㄹㅂ', 'ㄽ': 'ㄹㅅ', 'ㄾ': 'ㄹㅌ',
+  'ㄿ': 'ㄹㅍ', 'ㅀ': 'ㄹㅎ', 'ㅄ': 'ㅂㅅ', 'ㅘ': 'ㅗㅏ', 'ㅙ': 'ㅗㅐ', 'ㅚ': 'ㅗㅣ', 'ㅝ': 'ㅜㅓ', 'ㅞ': 'ㅜㅔ', 'ㅟ': 'ㅜㅣ', 'ㅢ': 'ㅡㅣ'
+};
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+
+interface NormalizedText {
+  text: string;
+  // 정규화된 문자 하나하나가 원문의 몇 번째 문자에서 왔는지
+  positions: number[];
+}
+
+function normalize(value: string, initialsOnly = false): NormalizedText {
+  let text = '';
+  const positions: number[] = [];
+  const append = (chunk: string, position: number) => {
+    text += chunk;
+    for (let i = 0; i < chunk.length; i += 1) positions.push(position);
+  };
+
+  value.toLowerCase().split('').forEach((char, idx) => {
+    const code = char.charCodeAt(0);
+    if (code >= SYLLABLE_BASE && code <= SYLLABLE_LAST) {
+      const offset = code - SYLLABLE_BASE;
+      const initial = CHOSEONG[Math.floor(offset / 588)];
+      if (initialsOnly) append(initial, idx);
+      else append(initial + JUNGSEONG[Math.floor((offset % 588) / 28)] + JONGSEONG[offset % 28], idx);
+    } else {
+      append(COMPOUND_JAMO[char] ?? char, idx);
+    }
+  });
+  return { text, positions };
+}
+
+// "ㅁㅇㅋㄹ" 처럼 자음만 입력하면 초성 검색으로 처리
+const isInitialsQuery = (term: string) => term.length > 1 && [...term].every((char) => CHOSEONG.includes(char));
+
+interface TermMatch {
+  ranges: MatchRange[];
+  wordStart: boolean;
+}
+
+function findTerm(value: string, term: string): TermMatch | null {
+  const initials = isInitialsQuery(term);
+  const haystack = normalize(value, initials);
+  const needle = initials ? term : normalize(term).text;
+  const ranges: MatchRange[] = [];
+  let wordStart = false;
+
+  let from = haystack.text.indexOf(needle);
+  while (from !== -1) {
+    const start = haystack.positions[from];
+    const end = haystack.positions[from + needle.length - 1] + 1;
+    if (start === 0 || /[\s\W_]/.test(value[start - 1])) wordStart = true;
+    ranges.push({ start, end });
+    from = haystack.text.indexOf(needle, from + needle.length);
+  }
+  return ranges.length > 0 ? { ranges, wordStart } : null;
+}
+
+// 겹치는 강조 구간을 하나로 합침
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return merged;
+}
+
+// 첫 매치 주변만 잘라 한 줄 스니펫으로 만들고 강조 구간을 스니펫 기준으로 옮김
+function makeSnippet(label: string, text: string, ranges: MatchRange[]): SearchSnippet {
+  const first = ranges[0];
+  const start = Math.max(0, first.start - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first.end + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+
+  // 공백 압축으로 위치가 달라지므로 잘린 원문 기준으로 다시 계산
+  const shifted = ranges
+    .filter((range) => range.start >= start && range.end <= end)
+    .map((range) => {
+      const before = text.slice(start, range.start).replace(/\s+/g, ' ').length;
+      const inner = text.slice(range.start, range.end).replace(/\s+/g, ' ').length;
+      return { start: prefix.length + before, end: prefix.length + before + inner };
+    });
+  return { label, text: snippet, ranges: shifted };
+}
+
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 30): SearchResult[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  documents.forEach((document) => {
+    let score = 0;
+    const titleRanges: MatchRange[] = [];
+    let snippet: { field: SearchField; ranges: MatchRange[] } | undefined;
+
+    // 모든 검색어가 제목이나 필드 어딘가에 있어야 함 (AND)
+    const matchedAll = terms.every((term) => {
+      let best = 0;
+      const inTitle = findTerm(document.title, term);
+      if (inTitle) {
+        titleRanges.push(...inTitle.ranges);
+        best = WEIGHTS.title * (inTitle.wordStart ? 2 : 1);
+        if (normalize(document.title).text === normalize(term).text) best *= 2;
+      }
+      document.fields.forEach((item) => {
+        const found = findTerm(item.text, term);
+        if (!found) return;
+        best = Math.max(best, item.weight * (found.wordStart ? 1.5 : 1) + Math.min(found.ranges.length, 5) * 0.1);
+        if (!inTitle && (!snippet || snippet.field === item)) {
+          snippet = { field: item, ranges: [...(snippet?.ranges ?? []), ...found.ranges] };
+        }
+      });
+      score += best;
+      return best > 0;
+    });
+
+    if (matchedAll) {
+      results.push({
+        document,
+        score,
+        titleRanges: mergeRanges(titleRanges),
+        snippet: snippet && makeSnippet(snippet.field.label, snippet.field.text, mergeRanges(snippet.ranges))
+      });
+    }
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, limit);
+}
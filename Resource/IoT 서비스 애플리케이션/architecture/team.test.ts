@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import type { ArchitectureModel } from './model';
+import { ownedComponents, phaseStaffing, teamWorkloads, unownedComponents } from './team';
+import { EMPTY_TRACKER, updateTrackedItem, workItemKey } from './tracker';
+
+const v2 = architectures.v2;
+const role = (id: string) => v2.team.find((candidate) => candidate.id === id)!;
+
+describe('ownedComponents', () => {
+  it('직접 지정한 구성 요소와 담당 기능 카드의 구성 요소를 중복 없이 합침', () => {
+    expect(ownedComponents(v2, role('ai'))).toEqual(['Wake Word Detection', 'Speech Recognition', 'Intent Recognition', 'Text-to-Speech']);
+    expect(ownedComponents(v2, role('fullstack-2'))).toEqual(['Matter Bridge', 'Thread Network']);
+    expect(ownedComponents(v2, role('hardware'))).toEqual([]);
+  });
+});
+
+describe('unownedComponents', () => {
+  it('팀이 없는 모델은 검사하지 않고, 팀이 있으면 아무도 맡지 않은 구성 요소를 돌려줌', () => {
+    expect(unownedComponents(architectures.v3)).toEqual([]);
+    expect(unownedComponents(v2)).toEqual([]);
+    const aiOnly: ArchitectureModel = { ...v2, team: [role('ai')] };
+    expect(unownedComponents(aiOnly)).toContain('Thread Network');
+    expect(unownedComponents(aiOnly)).not.toContain('Wake Word Detection');
+  });
+});
+
+describe('teamWorkloads', () => {
+  const workloads = teamWorkloads(architectures);
+  const workload = (id: string) => workloads.find((entry) => entry.id === id)!;
+
+  it('역할 id 로 버전별 담당 범위를 모으고 이름은 가장 최근 버전을 따름', () => {
+    expect(workloads.map((entry) => entry.id)).toEqual(['designer', 'hardware', 'embedded', 'ai', 'fullstack', 'fullstack-1', 'fullstack-2']);
+    expect(workload('hardware').title).toBe('회로 개발');
+    expect(Object.keys(workload('hardware').versions)).toEqual(['overview', 'v1', 'v2']);
+    expect(workload('hardware').versions.v2).toEqual({
+      headcount: 1,
+      focus: 'AI 스피커 하드웨어 설계 및 제작',
+      components: [],
+      features: [],
+      tasks: ['speaker-hardware', 'multi-protocol-tests']
+    });
+  });
+
+  it('한 버전에만 있는 역할은 그 버전만', () => {
+    expect(workload('fullstack').versions).toEqual({ overview: expect.objectContaining({ headcount: 2 }) });
+  });
+});
+
+describe('phaseStaffing', () => {
+  it('여러 역할이 맡은 작업은 추정치를 나누고 가용 일수는 기간 × 인원', () => {
+    const [phase1] = phaseStaffing(v2);
+    expect(phase1.allocations.map(({ role: { id }, tasks, load, capacity }) => [id, tasks.length, load, capacity])).toEqual([
+      ['ai', 3, 2.5, 20],
+      ['embedded', 1, 1, 20],
+      ['hardware', 1, 1, 20],
+      ['designer', 1, 0.5, 20]
+    ]);
+    expect(phase1.unassigned).toEqual([]);
+  });
+
+  it('추적기의 추정치가 가용 일수를 넘으면 초과 배정', () => {
+    const tracker = updateTrackedItem(EMPTY_TRACKER, workItemKey('v2', 'voice-commands'), { estimate: 40 }, '2026-10-01');
+    const [phase1] = phaseStaffing(v2, tracker);
+    const overAllocated = phase1.allocations.filter((allocation) => allocation.overAllocated).map((allocation) => allocation.role.id);
+    // 두 역할이 20일씩 - ai 는 다른 작업 2일이 더해져 22일
+    expect(overAllocated).toEqual(['ai']);
+  });
+
+  it('기간이 없는 단계는 가용 일수를 계산하지 않고 담당 없는 작업을 모음', () => {
+    const [phase] = v2.phases;
+    const model: ArchitectureModel = {
+      ...v2,
+      phases: [{ ...phase, weeks: undefined, tasks: [...phase.tasks, { id: 'field-test', title: '현장 테스트' }] }]
+    };
+    const [staffing] = phaseStaffing(model);
+    expect(staffing.allocations.every((allocation) => allocation.capacity === undefined && !allocation.overAllocated)).toBe(true);
+    expect(staffing.unassigned).toEqual(['현장 테스트']);
+  });
+});
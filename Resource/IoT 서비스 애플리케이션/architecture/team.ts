@@ -0,0 +1,98 @@
+import { collectComponents } from './diff';
+import { EMPTY_TRACKER, itemPoints, workItemKey } from './tracker';
+import type { TrackerState } from './tracker';
+import { ARCHITECTURE_VERSIONS } from './model';
+import type { ArchitectureModel, ArchitectureSet, ArchitectureVersion, Phase, PhaseItem, TeamRole } from './model';
+
+// 단계 기간(주)을 가용 일수로 바꿀 때 쓰는 주당 근무일
+export const WORKING_DAYS_PER_WEEK = 5;
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// 역할이 담당하는 구성 요소 - 직접 지정한 것과 담당 기능 카드에 속한 것을 합침
+export function ownedComponents(model: ArchitectureModel, role: TeamRole): string[] {
+  const features = [...model.features, ...model.integrations].filter((feature) => role.features.includes(feature.id));
+  return unique([...role.components, ...features.flatMap((feature) => feature.components.map((comp) => comp.name))]);
+}
+
+// 팀 역할이 정의된 모델에서 아무 역할도 담당하지 않는 구성 요소
+export function unownedComponents(model: ArchitectureModel): string[] {
+  if (model.team.length === 0) return [];
+  const owned = new Set(model.team.flatMap((role) => ownedComponents(model, role)));
+  return unique(collectComponents(model).map((snapshot) => snapshot.name)).filter((name) => !owned.has(name));
+}
+
+export interface RoleVersionLoad {
+  headcount: number;
+  focus: string;
+  components: string[];
+  features: string[];
+  tasks: string[];
+}
+
+export interface RoleWorkload {
+  id: string;
+  // 가장 최근 버전의 역할 이름
+  title: string;
+  versions: Partial<Record<ArchitectureVersion, RoleVersionLoad>>;
+}
+
+// 역할 id 기준으로 버전별 담당 범위를 모음
+export function teamWorkloads(set: ArchitectureSet): RoleWorkload[] {
+  const workloads = new Map<string, RoleWorkload>();
+  ARCHITECTURE_VERSIONS.forEach((version) => {
+    const model = set[version];
+    model.team.forEach((role) => {
+      const workload = workloads.get(role.id) ?? { id: role.id, title: role.title, versions: {} };
+      workload.title = role.title;
+      workload.versions[version] = {
+        headcount: role.headcount,
+        focus: role.focus,
+        components: ownedComponents(model, role),
+        features: role.features,
+        tasks: role.tasks
+      };
+      workloads.set(role.id, workload);
+    });
+  });
+  return [...workloads.values()];
+}
+
+export interface PhaseAllocation {
+  role: TeamRole;
+  // 담당 작업 제목
+  tasks: string[];
+  // 담당 작업 추정치 합 (일) - 여러 역할이 나눠 맡은 작업은 균등 분배
+  load: number;
+  // 단계 기간 × 인원 (일) - 기간이 없는 단계는 계산하지 않음
+  capacity?: number;
+  overAllocated: boolean;
+}
+
+export interface PhaseStaffing {
+  phase: Phase;
+  allocations: PhaseAllocation[];
+  // 어떤 역할도 맡지 않은 작업
+  unassigned: string[];
+}
+
+export function phaseStaffing(model: ArchitectureModel, tracker: TrackerState = EMPTY_TRACKER): PhaseStaffing[] {
+  return model.phases.map((phase) => {
+    const owners = (task: PhaseItem) => model.team.filter((role) => role.tasks.includes(task.id)).length;
+    const points = (task: PhaseItem) => {
+      const tracked = tracker.items[workItemKey(model.version, task.id)];
+      return tracked ? itemPoints(tracked) : 1;
+    };
+
+    const allocations = model.team
+      .map((role) => {
+        const tasks = phase.tasks.filter((task) => role.tasks.includes(task.id));
+        const load = tasks.reduce((sum, task) => sum + points(task) / owners(task), 0);
+        const capacity = phase.weeks === undefined ? undefined : phase.weeks * WORKING_DAYS_PER_WEEK * role.headcount;
+        return { role, tasks: tasks.map((task) => task.title), load, capacity, overAllocated: capacity !== undefined && load > capacity };
+      })
+      .filter((allocation) => allocation.tasks.length > 0);
+
+    return { phase, allocations, unassigned: phase.tasks.filter((task) => owners(task) === 0).map((task) => task.title) };
+  });
+}
@@ -0,0 +1,259 @@
+import { z } from 'zod';
+import { LoadError, validateWith } from '../shared/validation';
+import { parseSource } from './loader';
+
+export const themeModeSchema = z.enum(['light', 'dark']);
+
+export type ThemeMode = z.infer<typeof themeModeSchema>;
+
+// 탐색기 전체가 CSS 변수(--theme-*)로 읽는 디자인 토큰
+export const themeTokensSchema = z.object({
+  backdrop: z.string(),
+  backdropBlendMode: z.string(),
+  nav: z.string(),
+  navFilter: z.string(),
+  surface: z.string(),
+  surfaceFilter: z.string(),
+  panel: z.string(),
+  panelMuted: z.string(),
+  panelFilter: z.string(),
+  chip: z.string(),
+  chipHover: z.string(),
+  border: z.string(),
+  text: z.string(),
+  textMuted: z.string(),
+  textSubtle: z.string(),
+  accent: z.string(),
+  accentText: z.string(),
+  code: z.string(),
+  codeText: z.string(),
+  tintOpacity: z.string(),
+  cardLayout: z.boolean()
+});
+
+export type ThemeTokens = z.infer<typeof themeTokensSchema>;
+
+// 라이트 기본값은 기존 Tailwind 클래스 색과 같아서 토큰을 적용해도 화면이 바뀌지 않음
+export const BASE_TOKENS: Record<ThemeMode, ThemeTokens> = {
+  light: {
+    backdrop: '#f3f4f6',
+    backdropBlendMode: 'normal',
+    nav: '#ffffff',
+    navFilter: 'none',
+    surface: '#f9fafb',
+    surfaceFilter: 'none',
+    panel: '#ffffff',
+    panelMuted: '#f3f4f6',
+    panelFilter: 'none',
+    chip: '#e5e7eb',
+    chipHover: '#d1d5db',
+    border: '#e5e7eb',
+    text: '#1f2937',
+    textMuted: '#4b5563',
+    textSubtle: '#6b7280',
+    accent: '#2563eb',
+    accentText: '#ffffff',
+    code: '#111827',
+    codeText: '#4ade80',
+    tintOpacity: '1',
+    cardLayout: false
+  },
+  dark: {
+    backdrop: '#0b0f19',
+    backdropBlendMode: 'normal',
+    nav: '#111827',
+    navFilter: 'none',
+    surface: '#111827',
+    surfaceFilter: 'none',
+    panel: '#1f2937',
+    panelMuted: '#1a2230',
+    panelFilter: 'none',
+    chip: '#374151',
+    chipHover: '#4b5563',
+    border: '#374151',
+    text: '#f3f4f6',
+    textMuted: '#d1d5db',
+    textSubtle: '#9ca3af',
+    accent: '#3b82f6',
+    accentText: '#ffffff',
+    code: '#030712',
+    codeText: '#4ade80',
+    tintOpacity: '0.18',
+    cardLayout: false
+  }
+};
+
+export const themePresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  tokens: z.object({ light: themeTokensSchema.partial(), dark: themeTokensSchema.partial() }),
+  // 대응하는 토큰이 없어 적용하지 않은 Style Settings 키
+  ignored: z.array(z.string())
+});
+
+export type ThemePreset = z.infer<typeof themePresetSchema>;
+
+export const DEFAULT_PRESET: ThemePreset = { id: 'default', name: '기본', tokens: { light: {}, dark: {} }, ignored: [] };
+
+export class ThemeImportError extends LoadError {
+  constructor(origin: string, issues: string[]) {
+    super(origin, issues, '스타일 설정을 가져올 수 없습니다');
+    this.name = 'ThemeImportError';
+  }
+}
+
+const styleSettingsSchema = z.record(z.union([z.string(), z.boolean(), z.number()]));
+
+type SettingValue = string | boolean | number;
+
+// Obsidian Style Settings 내보내기의 "섹션@@설정-dark" 키를 모드별 설정으로 분리
+function groupByMode(settings: Record<string, SettingValue>) {
+  const grouped: Record<ThemeMode, Map<string, { key: string; value: SettingValue }>> = { light: new Map(), dark: new Map() };
+  Object.entries(settings).forEach(([key, value]) => {
+    const setting = key.split('@@').pop() ?? key;
+    const mode = setting.match(/-(light|dark)$/)?.[1] as ThemeMode | undefined;
+    const name = mode ? setting.slice(0, -mode.length - 1) : setting;
+    (mode ? [mode] : (['light', 'dark'] as ThemeMode[])).forEach((target) => grouped[target].set(name, { key, value }));
+  });
+  return grouped;
+}
+
+// mod-left/right/root-split 영역과 background-underlying은 "…-select" 값이 어떤 배경 방식을 쓸지 결정
+const SPLIT_REGIONS: { region: string; token: 'nav' | 'surface'; filter: 'navFilter' | 'surfaceFilter' }[] = [
+  { region: 'mod-root-split', token: 'surface', filter: 'surfaceFilter' },
+  { region: 'mod-left-split', token: 'nav', filter: 'navFilter' },
+  { region: 'mod-right-split', token: 'nav', filter: 'navFilter' }
+];
+
+const asString = (value: SettingValue | undefined) => (value === undefined ? undefined : String(value));
+
+function mapModeSettings(settings: Map<string, { key: string; value: SettingValue }>) {
+  const tokens: Partial<ThemeTokens> = {};
+  const used = new Set<string>();
+  const read = (name: string) => {
+    const entry = settings.get(name);
+    if (entry) used.add(entry.key);
+    return entry?.value;
+  };
+
+  // 강조색은 override가 꺼져 있으면 Obsidian 기본 강조색을 쓰므로 무시
+  const accent = read('accent');
+  if (accent !== undefined && read('accent-color-override') !== false) tokens.accent = String(accent);
+
+  const cardLayout = read('card-layout-open');
+  if (typeof cardLayout === 'boolean') tokens.cardLayout = cardLayout;
+
+  SPLIT_REGIONS.forEach(({ region, token, filter }) => {
+    const select = asString(read(`${region}-background-select`));
+    if (!select) return;
+    const short = region.replace('-split', '');
+    if (select.includes('transparent')) {
+      tokens[token] = 'transparent';
+    } else if (select.includes('CSS')) {
+      const background = asString(read(`background-${short}-CSS`));
+      const backdropFilter = asString(read(`background-${short}-CSS-backdrop-filter`));
+      if (background) tokens[token] = background;
+      if (backdropFilter) tokens[filter] = backdropFilter;
+    }
+  });
+
+  const underlying = asString(read('background-underlying-select'));
+  if (underlying?.includes('CSS')) {
+    const background = asString(read('background-underlying-CSS'));
+    const blendMode = asString(read('background-underlying-CSS-blend-mode'));
+    if (background) tokens.backdrop = background;
+    if (blendMode && blendMode !== 'none') tokens.backdropBlendMode = blendMode;
+  }
+
+  // 카드 레이아웃에서는 패널이 반투명해져 뒤의 배경이 비침
+  if (tokens.cardLayout) {
+    tokens.panel = 'rgba(31, 41, 55, 0.72)';
+    tokens.panelMuted = 'rgba(31, 41, 55, 0.5)';
+    tokens.panelFilter = 'blur(12px)';
+  }
+
+  return { tokens, used };
+}
+
+export function importStyleSettings(source: string, origin = '<inline>'): ThemePreset {
+  const settings = validateWith(styleSettingsSchema, parseSource(source, 'json', origin, ThemeImportError), origin, ThemeImportError);
+
+  const grouped = groupByMode(settings);
+  const light = mapModeSettings(grouped.light);
+  const dark = mapModeSettings(grouped.dark);
+  const name = origin.replace(/\.json$/i, '');
+  return {
+    id: name.toLowerCase().replace(/[^a-z0-9가-힣]+/g, '-').replace(/^-+|-+$/g, '') || 'imported',
+    name,
+    tokens: { light: light.tokens, dark: dark.tokens },
+    ignored: Object.keys(settings).filter((key) => !light.used.has(key) && !dark.used.has(key))
+  };
+}
+
+export function resolveTheme(preset: ThemePreset, mode: ThemeMode): ThemeTokens {
+  return { ...BASE_TOKENS[mode], ...preset.tokens[mode] };
+}
+
+const kebab = (name: string) => name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+
+export function themeVariables(tokens: ThemeTokens): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(tokens)
+      .filter(([, value]) => typeof value === 'string')
+      .map(([name, value]) => [`--theme-${kebab(name)}`, value as string])
+  );
+}
+
+// ---- 기존 Tailwind 클래스 → 토큰 연결 ----
+
+// 탐색기와 YAML 데이터(레이어 color)에 쓰이는 색조 - 다크 모드에서 옅은 배경을 반투명 색으로 바꿈
+const TINT_HUES: Record<string, string> = {
+  blue: '59 130 246',
+  green: '34 197 94',
+  purple: '168 85 247',
+  yellow: '234 179 8',
+  red: '239 68 68',
+  orange: '249 115 22',
+  pink: '236 72 153',
+  indigo: '99 102 241',
+  sky: '14 165 233'
+};
+
+const escape = (className: string) => className.replace(/:/g, '\\:').replace(/\//g, '\\/');
+
+const rule = (scope: string, classNames: string[], body: string) =>
+  `${classNames.map((className) => `${scope} .${escape(className)}${className.startsWith('hover:') ? ':hover' : ''}`).join(', ')} { ${body} }`;
+
+// 탐색기 코드의 하드코딩된 회색/흰색/강조 클래스를 토큰 변수에 연결하는 스타일시트 (scope 안에서만 적용)
+export function themeStylesheet(scope: string): string {
+  const dark = `${scope}[data-theme-mode="dark"]`;
+  const rules = [
+    rule(scope, ['bg-white'], 'background-color: var(--theme-panel); backdrop-filter: var(--theme-panel-filter);'),
+    rule(scope, ['bg-gray-50'], 'background: var(--theme-surface); backdrop-filter: var(--theme-surface-filter);'),
+    rule(scope, ['bg-gray-100', 'hover:bg-gray-50'], 'background-color: var(--theme-panel-muted);'),
+    rule(scope, ['bg-gray-200', 'hover:bg-gray-200'], 'background-color: var(--theme-chip);'),
+    rule(scope, ['bg-gray-300', 'hover:bg-gray-300'], 'background-color: var(--theme-chip-hover);'),
+    rule(scope, ['text-gray-800', 'text-gray-900'], 'color: var(--theme-text);'),
+    rule(scope, ['text-gray-600', 'text-gray-700'], 'color: var(--theme-text-muted);'),
+    rule(scope, ['text-gray-400', 'text-gray-500'], 'color: var(--theme-text-subtle);'),
+    rule(scope, ['border-gray-200', 'border-gray-300'], 'border-color: var(--theme-border);'),
+    rule(scope, ['bg-blue-600'], 'background-color: var(--theme-accent); color: var(--theme-accent-text);'),
+    rule(scope, ['hover:bg-blue-700'], 'background-color: var(--theme-accent); filter: brightness(0.9);'),
+    rule(scope, ['text-blue-600'], 'color: var(--theme-accent);'),
+    rule(scope, ['ring-blue-500'], '--tw-ring-color: var(--theme-accent);'),
+    rule(scope, ['bg-gray-900'], 'background-color: var(--theme-code);'),
+    `${scope} .bg-gray-900 .text-green-400 { color: var(--theme-code-text); }`,
+    // 키보드 포커스는 어느 프리셋에서도 보이도록 강조색 윤곽선으로 표시
+    `${scope} :focus-visible { outline: 2px solid var(--theme-accent); outline-offset: 2px; }`,
+    // 동작 줄이기 설정: 카드 전환, 확대, 깜박임 애니메이션을 끔
+    `@media (prefers-reduced-motion: reduce) { ${scope} .transition-all, ${scope} .transition-transform { transition: none; } ${scope} .scale-105 { transform: none; } ${scope} .animate-ping { animation: none; } }`,
+    // 다크 모드: 밝은 파스텔 배경/그라디언트를 반투명 색조로, 진한 색 글자를 밝게
+    `${dark} .bg-gradient-to-r:not(.text-white) { background-image: none; background-color: var(--theme-panel-muted); }`,
+    ...Object.entries(TINT_HUES).flatMap(([hue, rgb]) => [
+      rule(dark, [`bg-${hue}-50`, `bg-${hue}-100`, `bg-${hue}-200`], `background-color: rgb(${rgb} / var(--theme-tint-opacity));`),
+      rule(dark, [`border-${hue}-200`, `border-${hue}-300`], `border-color: rgb(${rgb} / 0.45);`),
+      rule(dark, [`text-${hue}-700`, `text-${hue}-800`, `text-${hue}-900`], `color: rgb(${rgb});`)
+    ])
+  ];
+  return rules.join('\n');
+}
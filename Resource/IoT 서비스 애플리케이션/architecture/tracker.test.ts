@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { architectures } from './data';
+import { phaseStaffing } from './team';
+import { EMPTY_TRACKER, migrateLegacyKeys, phaseWorkItems, updateTrackedItem, workItemKey } from './tracker';
+
+const [phase] = architectures.v2.phases;
+
+describe('roadmap tracker', () => {
+  it('작업 순서가 바뀌어도 진행 상태가 같은 작업을 따라감', () => {
+    const state = updateTrackedItem(EMPTY_TRACKER, workItemKey('v2', 'wake-word'), { status: 'done' }, '2026-10-01');
+    const reordered = { ...phase, tasks: [{ id: 'new-task', title: '새 작업' }, ...[...phase.tasks].reverse()] };
+    const done = phaseWorkItems('v2', reordered, state).filter((item) => item.status === 'done');
+    expect(done.map((item) => item.title)).toEqual(['Wake Word Detection 구현']);
+  });
+
+  it('예전 순번 키를 작업 id 키로 옮기고 이미 있는 id 키는 유지', () => {
+    const legacy = {
+      items: {
+        'v2/phase1/tasks/1': { status: 'done' as const, components: [], history: [] },
+        'v2/phase1/deliverables/0': { status: 'blocked' as const, components: [], history: [] },
+        'v2/voice-lights': { status: 'in-progress' as const, components: [], history: [] },
+        'v2/gone/tasks/0': { status: 'todo' as const, components: [], history: [] }
+      }
+    };
+    const migrated = migrateLegacyKeys(legacy, Object.values(architectures));
+    expect(Object.keys(migrated.items).sort()).toEqual(['v2/gone/tasks/0', 'v2/voice-lights', 'v2/wake-word']);
+    expect(migrated.items['v2/wake-word'].status).toBe('done');
+    expect(migrated.items['v2/voice-lights'].status).toBe('in-progress');
+  });
+
+  it('팀 배분은 작업 id 로 추정치를 찾음', () => {
+    const state = updateTrackedItem(EMPTY_TRACKER, workItemKey('v2', 'speaker-hardware'), { estimate: 12 }, '2026-10-01');
+    const [staffing] = phaseStaffing(architectures.v2, state);
+    const hardware = staffing.allocations.find((allocation) => allocation.role.id === 'hardware');
+    expect(hardware?.tasks).toEqual(['ESP32-S3 기반 AI 스피커 하드웨어 제작']);
+    expect(hardware?.load).toBe(12);
+  });
+});
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { LoadError, validateWith } from '../shared/validation';
+import { parseSource } from './loader';
+import type { ArchitectureModel, ArchitectureVersion, Phase } from './model';
+
+// 구현 단계(phases)의 tasks/deliverables 를 상태, 담당자, 추정치를 가진 작업 항목으로 추적
+export const WORK_ITEM_STATUSES = ['todo', 'in-progress', 'done', 'blocked'] as const;
+
+export type WorkItemStatus = typeof WORK_ITEM_STATUSES[number];
+
+export type WorkItemKind = 'tasks' | 'deliverables';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD 형식이어야 합니다');
+
+export const trackedItemSchema = z.object({
+  status: z.enum(WORK_ITEM_STATUSES).default('todo'),
+  owner: z.string().min(1).optional(),
+  // 추정치는 일(day) 단위 - 없으면 진척도 계산에서 1로 셈
+  estimate: z.number().positive().optional(),
+  components: z.array(z.string().min(1)).default([]),
+  // 상태가 바뀐 날짜 기록 - 번업 차트의 완료선을 여기서 계산
+  history: z.array(z.object({ at: isoDate, status: z.enum(WORK_ITEM_STATUSES) }).strict()).default([])
+}).strict();
+
+export const trackerStateSchema = z.object({
+  items: z.record(trackedItemSchema).default({})
+}).strict();
+
+export type TrackedItem = z.infer<typeof trackedItemSchema>;
+export type TrackerState = z.infer<typeof trackerStateSchema>;
+
+export const EMPTY_TRACKER: TrackerState = { items: {} };
+
+export class TrackerLoadError extends LoadError {
+  constructor(origin: string, issues: string[]) {
+    super(origin, issues, '로드맵 진행 상태를 불러올 수 없습니다');
+    this.name = 'TrackerLoadError';
+  }
+}
+
+export function parseTrackerState(source: string, origin = '<inline>'): TrackerState {
+  return validateWith(trackerStateSchema, parseSource(source, 'json', origin, TrackerLoadError), origin, TrackerLoadError);
+}
+
+export function serializeTrackerState(state: TrackerState): string {
+  return `${JSON.stringify(state, null, 2)}\n`;
+}
+
+// 항목 키는 버전/작업 id - 편집기에서 순서를 바꾸거나 항목을 끼워 넣어도 진행 상태가 따라감
+export const workItemKey = (version: ArchitectureVersion, itemId: string) => `${version}/${itemId}`;
+
+const LEGACY_KEY = /^([^/]+)\/([^/]+)\/(tasks|deliverables)\/(\d+)$/;
+
+// 예전 순번 키(버전/단계/종류/순번)를 현재 모델의 id 키로 옮김 - 이미 id 키로 기록된 항목은 덮어쓰지 않음
+export function migrateLegacyKeys(state: TrackerState, models: ArchitectureModel[]): TrackerState {
+  const items: TrackerState['items'] = {};
+  const legacy: [string, TrackedItem][] = [];
+  Object.entries(state.items).forEach(([key, item]) => {
+    const match = key.match(LEGACY_KEY);
+    const model = match && models.find((candidate) => candidate.version === match[1]);
+    const phaseItem = match && model?.phases.find((phase) => phase.id === match[2])?.[match[3] as WorkItemKind][Number(match[4])];
+    if (model && phaseItem) legacy.push([workItemKey(model.version, phaseItem.id), item]);
+    else items[key] = item;
+  });
+  if (legacy.length === 0) return state;
+  legacy.forEach(([key, item]) => {
+    items[key] ??= item;
+  });
+  return { ...state, items };
+}
+
+export interface WorkItem extends TrackedItem {
+  key: string;
+  kind: WorkItemKind;
+  title: string;
+}
+
+const untracked = (): TrackedItem => ({ status: 'todo', components: [], history: [] });
+
+export function phaseWorkItems(version: ArchitectureVersion, phase: Phase, state: TrackerState): WorkItem[] {
+  return (['tasks', 'deliverables'] as const).flatMap((kind) =>
+    phase[kind].map(({ id, title }) => {
+      const key = workItemKey(version, id);
+      return { ...(state.items[key] ?? untracked()), key, kind, title };
+    })
+  );
+}
+
+export type TrackedItemPatch = Partial<Pick<TrackedItem, 'status' | 'owner' | 'estimate' | 'components'>>;
+
+// 상태가 바뀌면 오늘 날짜로 기록을 남김 - 같은 날 여러 번 바꾸면 마지막 상태만 유지
+export function updateTrackedItem(state: TrackerState, key: string, patch: TrackedItemPatch, today: string): TrackerState {
+  const current = state.items[key] ?? untracked();
+  const next: TrackedItem = { ...current, ...patch };
+  (['owner', 'estimate'] as const).forEach((field) => {
+    if (field in patch && patch[field] === undefined) delete next[field];
+  });
+  if (patch.status && patch.status !== current.status) {
+    next.history = [...current.history.filter((change) => change.at !== today), { at: today, status: patch.status }];
+  }
+  return { ...state, items: { ...state.items, [key]: next } };
+}
+
+export const itemPoints = (item: TrackedItem) => item.estimate ?? 1;
+
+export interface PhaseProgress {
+  total: number;
+  points: number;
+  donePoints: number;
+  ratio: number;
+  byStatus: Record<WorkItemStatus, number>;
+}
+
+export function phaseProgress(items: WorkItem[]): PhaseProgress {
+  const byStatus = Object.fromEntries(WORK_ITEM_STATUSES.map((status) => [status, 0])) as Record<WorkItemStatus, number>;
+  items.forEach((item) => {
+    byStatus[item.status] += 1;
+  });
+  const points = items.reduce((sum, item) => sum + itemPoints(item), 0);
+  const donePoints = items.filter((item) => item.status === 'done').reduce((sum, item) => sum + itemPoints(item), 0);
+  return { total: items.length, points, donePoints, ratio: points > 0 ? donePoints / points : 0, byStatus };
+}
+
+export interface BurnUpPoint {
+  date: string;
+  scope: number;
+  done: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// 첫 상태 변경일부터 오늘까지 하루 단위 번업 - 범위선은 현재 추정치 합, 완료선은 그날의 마지막 상태 기준
+export function burnUp(items: WorkItem[], today: string): BurnUpPoint[] {
+  const dates = items.flatMap((item) => item.history.map((change) => change.at)).sort();
+  const start = Date.parse(dates[0] ?? today);
+  const end = Math.max(Date.parse(today), start);
+  const scope = items.reduce((sum, item) => sum + itemPoints(item), 0);
+
+  const series: BurnUpPoint[] = [];
+  for (let time = start; time <= end; time += DAY) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    const done = items.reduce((sum, item) => {
+      const latest = item.history.filter((change) => change.at <= date).pop();
+      return latest?.status === 'done' ? sum + itemPoints(item) : sum;
+    }, 0);
+    series.push({ date, scope, done });
+  }
+  return series;
+}
+
+export const todayIso = (now = new Date()) => now.toISOString().slice(0, 10);
@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+import { GitCompare, ArrowRight, Plus, Minus, Link2 } from 'lucide-react';
+import { DIFF_STATUSES, diffArchitectures } from '../architecture/diff';
+import type { DiffStatus, SetDiff } from '../architecture/diff';
+import type { ArchitectureVersion } from '../architecture/model';
+import { useI18n } from './i18n';
+import { useUrlState } from './router';
+
+const versionOptions: { id: ArchitectureVersion; label: string }[] = [
+  { id: 'v1', label: 'nav.v1' },
+  { id: 'v2', label: 'nav.v2' },
+  { id: 'v3', label: 'nav.v3' },
+  { id: 'v4', label: 'nav.v4' }
+];
+
+// 알 수 없는 버전 파라미터는 기본값으로 대체
+const toVersionId = (value: string | null, fallback: ArchitectureVersion) =>
+  versionOptions.find((option) => option.id === value)?.id ?? fallback;
+
+const statusStyles: Record<DiffStatus, { label: string; color: string; badge: string }> = {
+  added: { label: 'diff.status.added', color: 'bg-green-50 border-green-300', badge: 'bg-green-100 text-green-700' },
+  removed: { label: 'diff.status.removed', color: 'bg-red-50 border-red-300', badge: 'bg-red-100 text-red-700' },
+  changed: { label: 'diff.status.changed', color: 'bg-yellow-50 border-yellow-300', badge: 'bg-yellow-100 text-yellow-700' },
+  unchanged: { label: 'diff.status.unchanged', color: 'bg-white border-gray-200', badge: 'bg-gray-100 text-gray-600' }
+};
+
+// 추가/삭제/유지 항목을 칩 형태로 표시
+const SetDiffRow = ({ label, diff }: { label: string; diff: SetDiff }) => {
+  if (diff.added.length + diff.removed.length + diff.kept.length === 0) return null;
+  return (
+    <div className="flex items-start gap-2 text-xs mt-2">
+      <span className="w-16 font-medium text-gray-600 flex-shrink-0">{label}</span>
+      <div className="flex flex-wrap gap-1">
+        {diff.removed.map((item) => (
+          <span key={`-${item}`} className="px-2 py-0.5 rounded bg-red-100 text-red-700 line-through flex items-center gap-1">
+            <Minus className="w-3 h-3" />{item}
+          </span>
+        ))}
+        {diff.added.map((item) => (
+          <span key={`+${item}`} className="px-2 py-0.5 rounded bg-green-100 text-green-700 flex items-center gap-1">
+            <Plus className="w-3 h-3" />{item}
+          </span>
+        ))}
+        {diff.kept.map((item) => (
+          <span key={`=${item}`} className="px-2 py-0.5 rounded bg-gray-100 text-gray-600">{item}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ArchitectureDiff = () => {
+  const { t, label, architectures, componentMapping } = useI18n();
+  const [fromParam, setFromVersion] = useUrlState('from', 'v1');
+  const [toParam, setToVersion] = useUrlState('to', 'v2');
+  const [statusFilter, setStatusFilter] = useUrlState('status');
+  const fromVersion = toVersionId(fromParam, 'v1');
+  const toVersion = toVersionId(toParam, 'v2');
+
+  const diff = useMemo(
+    () => diffArchitectures(architectures[fromVersion], architectures[toVersion], componentMapping, label),
+    [architectures, componentMapping, fromVersion, toVersion, label]
+  );
+  const entries = diff.entries.filter((entry) => !statusFilter || entry.status === statusFilter);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
+      <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">
+        {t('diff.title')}
+      </h1>
+
+      {/* 비교 대상 선택 */}
+      <div className="mb-6 p-4 bg-white rounded-lg border flex flex-wrap items-center gap-4">
+        <GitCompare className="w-6 h-6 text-blue-600" />
+        <select
+          value={fromVersion}
+          onChange={(event) => setFromVersion(event.target.value)}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          {versionOptions.map((option) => (
+            <option key={option.id} value={option.id}>{t(option.label)}</option>
+          ))}
+        </select>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <select
+          value={toVersion}
+          onChange={(event) => setToVersion(event.target.value)}
+          className="border rounded-md px-3 py-2 text-sm"
+        >
+          {versionOptions.map((option) => (
+            <option key={option.id} value={option.id}>{t(option.label)}</option>
+          ))}
+        </select>
+
+        <div className="flex gap-2 ml-auto flex-wrap">
+          {DIFF_STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+              aria-pressed={statusFilter === status}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${
+                statusFilter === status ? 'ring-2 ring-blue-500' : ''
+              } ${statusStyles[status].badge}`}
+            >
+              {t(statusStyles[status].label)} {diff.summary[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 정렬된 컴포넌트 목록 */}
+      <div className="space-y-3">
+        {entries.map((entry) => {
+          const style = statusStyles[entry.status];
+          return (
+            <div key={entry.key} className={`border-2 rounded-lg p-4 ${style.color}`}>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold">{entry.title}</h3>
+                <div className="flex items-center gap-2">
+                  {entry.matchedBy === 'mapping' && (
+                    <span className="text-xs text-blue-600 flex items-center gap-1">
+                      <Link2 className="w-3 h-3" />{t('diff.mappingFile')}
+                    </span>
+                  )}
+                  <span className={`text-xs px-2 py-1 rounded ${style.badge}`}>{t(style.label)}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 text-sm text-gray-600">
+                <span className="flex-1 text-right">{entry.from.map((comp) => label(comp.name)).join(', ') || '—'}</span>
+                <ArrowRight className="w-4 h-4 text-gray-400" />
+                <span className="flex-1">{entry.to.map((comp) => label(comp.name)).join(', ') || '—'}</span>
+              </div>
+              <SetDiffRow label={t('diff.tech')} diff={entry.tech} />
+              <SetDiffRow label={t('diff.protocols')} diff={entry.protocols} />
+              <SetDiffRow label={t('diff.responsibilities')} diff={entry.responsibilities} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ArchitectureDiff;
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { architectures } from '../architecture/data';
+
+const STORAGE_KEY = 'iot-explorer:drafts';
+// 테스트마다 편집기와 데이터 모듈을 새로 평가 - 첫 로드는 수 초라 기본 5초 제한으로는 느린 CI 에서 시간 초과
+const RENDER_TIMEOUT_MS = 20_000;
+
+// 초안 저장소는 모듈 상태 - 테스트마다 새로 불러와 localStorage 에서 다시 읽게 함
+const renderEditor = async () => {
+  vi.resetModules();
+  const { default: ArchitectureEditor } = await import('./ArchitectureEditor');
+  return render(<ArchitectureEditor version="v1" />);
+};
+
+const titleInput = () => screen.getAllByLabelText<HTMLInputElement>('제목')[0];
+const button = (name: string) => screen.getByRole<HTMLButtonElement>('button', { name });
+const storedDrafts = () => JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+
+describe('ArchitectureEditor', () => {
+  beforeEach(() => window.localStorage.clear());
+  afterEach(cleanup);
+
+  it('이어서 입력한 제목은 한 번에 되돌리고 단축키로 다시 실행', async () => {
+    await renderEditor();
+    expect(button('되돌리기').disabled).toBe(true);
+
+    fireEvent.change(titleInput(), { target: { value: 'V1' } });
+    fireEvent.change(titleInput(), { target: { value: 'V1 초안' } });
+    expect(screen.getByRole('heading', { name: '편집 모드: V1 초안' })).toBeTruthy();
+
+    fireEvent.keyDown(titleInput(), { key: 'z', ctrlKey: true });
+    expect(titleInput().value).toBe(architectures.v1.title);
+    expect(button('다시 실행').disabled).toBe(false);
+
+    fireEvent.keyDown(titleInput(), { key: 'Z', ctrlKey: true, shiftKey: true });
+    expect(titleInput().value).toBe('V1 초안');
+    fireEvent.click(button('되돌리기'));
+    fireEvent.keyDown(titleInput(), { key: 'y', metaKey: true });
+    expect(titleInput().value).toBe('V1 초안');
+  }, RENDER_TIMEOUT_MS);
+
+  it('검증에 실패하면 오류를 보여 주고 내보내기를 막음', async () => {
+    await renderEditor();
+    fireEvent.change(titleInput(), { target: { value: ' ' } });
+    expect(screen.getByText(/검증 오류 1개/)).toBeTruthy();
+    expect(button('JSON 저장').disabled).toBe(true);
+  }, RENDER_TIMEOUT_MS);
+
+  it('초안은 localStorage 에 남아 다시 열어도 이어서 편집', async () => {
+    const { unmount } = await renderEditor();
+    fireEvent.change(titleInput(), { target: { value: 'V1 초안' } });
+    expect(storedDrafts()).toEqual({ v1: { ...architectures.v1, title: 'V1 초안' } });
+    unmount();
+
+    await renderEditor();
+    expect(titleInput().value).toBe('V1 초안');
+    // 편집 기록은 저장하지 않음 - 되돌리기는 다시 연 시점부터
+    expect(button('되돌리기').disabled).toBe(true);
+
+    fireEvent.click(button('원본으로 초기화'));
+    expect(titleInput().value).toBe(architectures.v1.title);
+    expect(storedDrafts().v1.title).toBe(architectures.v1.title);
+    fireEvent.click(button('되돌리기'));
+    expect(titleInput().value).toBe('V1 초안');
+  }, RENDER_TIMEOUT_MS);
+
+  it('스키마에 맞지 않거나 모르는 버전의 초안은 버림', async () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      v1: { ...architectures.v1, layers: [] },
+      v9: architectures.v1
+    }));
+    await renderEditor();
+    expect(titleInput().value).toBe(architectures.v1.title);
+    expect(screen.getByText('스키마 검증 통과')).toBeTruthy();
+  }, RENDER_TIMEOUT_MS);
+
+  it('저장된 값이 JSON 이 아니면 원본으로 시작', async () => {
+    window.localStorage.setItem(STORAGE_KEY, '{"v1": ');
+    await renderEditor();
+    expect(titleInput().value).toBe(architectures.v1.title);
+  }, RENDER_TIMEOUT_MS);
+});
@@ -0,0 +1,491 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { Undo2, Redo2, Download, Upload, RotateCcw, ArrowUp, ArrowDown, Trash2, Plus, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  NEW_ITEM_LABELS, importModel, newComponent, newFeature, newFlow, newFlowStep, newLayer, newPhase, newPhaseItem, newRisk, newService,
+  serializeModel
+} from '../architecture/editor';
+import type { EditOperation, ModelPath, NewItemLabels } from '../architecture/editor';
+import { ArchitectureLoadError } from '../architecture/loader';
+import { collectComponents } from '../architecture/diff';
+import type { ArchitectureVersion, Component, Feature, PhaseItem } from '../architecture/model';
+import { useArchitectureEditor } from './drafts';
+import { useI18n } from './i18n';
+
+interface EditorContextValue {
+  edit: (operation: EditOperation) => void;
+  invalidPaths: Set<string>;
+  t: ReturnType<typeof useI18n>['t'];
+}
+
+const EditorContext = createContext<EditorContextValue | null>(null);
+
+const useEditor = () => {
+  const context = useContext(EditorContext);
+  if (!context) throw new Error('편집 필드는 ArchitectureEditor 안에서만 사용할 수 있습니다');
+  return context;
+};
+
+const inputClass = (invalid: boolean) =>
+  `mt-1 w-full border rounded-md px-2 py-1 text-sm text-gray-800 bg-white ${invalid ? 'border-red-500 bg-red-50' : ''}`;
+
+// optional 필드는 비우면 모델에서 키를 제거
+const TextField = ({ label, path, value, optional, multiline }: {
+  label: string;
+  path: ModelPath;
+  value: string | undefined;
+  optional?: boolean;
+  multiline?: boolean;
+}) => {
+  const { edit, invalidPaths, t } = useEditor();
+  const invalid = invalidPaths.has(path.join('.'));
+  const onChange = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    edit({ type: 'set', path, value: optional && !event.target.value ? undefined : event.target.value });
+
+  return (
+    <label className="block text-xs text-gray-600">
+      {t(`editor.fields.${label}`)}
+      {multiline
+        ? <textarea value={value ?? ''} onChange={onChange} rows={2} className={inputClass(invalid)} />
+        : <input value={value ?? ''} onChange={onChange} className={inputClass(invalid)} />}
+    </label>
+  );
+};
+
+const SelectField = ({ label, path, value, options }: { label: string; path: ModelPath; value: string; options: string[] }) => {
+  const { edit, invalidPaths, t } = useEditor();
+  return (
+    <label className="block text-xs text-gray-600">
+      {t(`editor.fields.${label}`)}
+      <select
+        value={value}
+        onChange={(event) => edit({ type: 'set', path, value: event.target.value })}
+        className={inputClass(invalidPaths.has(path.join('.')))}
+      >
+        {!options.includes(value) && <option value={value}>{value}</option>}
+        {options.map((option) => <option key={option} value={option}>{option}</option>)}
+      </select>
+    </label>
+  );
+};
+
+// 목록 항목의 순서 변경/삭제 버튼
+const ItemControls = ({ path, index, count }: { path: ModelPath; index: number; count: number }) => {
+  const { edit, t } = useEditor();
+  const button = 'p-1 rounded hover:bg-gray-200 disabled:opacity-30';
+  return (
+    <div className="flex gap-1 ml-auto flex-shrink-0">
+      <button className={button} disabled={index === 0} title={t('editor.moveUp')}
+        onClick={() => edit({ type: 'move', path, from: index, to: index - 1 })}>
+        <ArrowUp className="w-3.5 h-3.5" />
+      </button>
+      <button className={button} disabled={index === count - 1} title={t('editor.moveDown')}
+        onClick={() => edit({ type: 'move', path, from: index, to: index + 1 })}>
+        <ArrowDown className="w-3.5 h-3.5" />
+      </button>
+      <button className={`${button} text-red-600`} title={t('editor.remove')}
+        onClick={() => edit({ type: 'remove', path, index })}>
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+const AddButton = ({ path, label, create }: { path: ModelPath; label: string; create: () => unknown }) => {
+  const { edit, t } = useEditor();
+  return (
+    <button
+      onClick={() => edit({ type: 'insert', path, value: create() })}
+      className="px-2 py-1 rounded-md text-xs font-medium bg-blue-50 text-blue-700 hover:bg-blue-100 flex items-center gap-1"
+    >
+      <Plus className="w-3 h-3" />
+      {t(`editor.add.${label}`)}
+    </button>
+  );
+};
+
+// 카드, 단계, 서비스처럼 필드 묶음으로 된 목록 - 항목마다 접고 펼 수 있음
+function ListEditor<T>({ path, items, title, add, create, children }: {
+  path: ModelPath;
+  items: T[];
+  title: (item: T) => string;
+  add: string;
+  create: () => T;
+  children: (item: T, itemPath: ModelPath) => React.ReactNode;
+}) {
+  const { invalidPaths } = useEditor();
+  const prefix = path.join('.');
+  const hasIssue = (idx: number) => [...invalidPaths].some((key) => key === `${prefix}.${idx}` || key.startsWith(`${prefix}.${idx}.`));
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, idx) => (
+        <details key={idx} className={`border rounded-md bg-white ${hasIssue(idx) ? 'border-red-400' : ''}`}>
+          <summary className="px-3 py-2 cursor-pointer flex items-center gap-2 text-sm font-medium">
+            {hasIssue(idx) && <AlertTriangle className="w-3.5 h-3.5 text-red-600" />}
+            <span className="truncate">{title(item)}</span>
+            <ItemControls path={path} index={idx} count={items.length} />
+          </summary>
+          <div className="px-3 pb-3 space-y-3">{children(item, [...path, idx])}</div>
+        </details>
+      ))}
+      <AddButton path={path} label={add} create={create} />
+    </div>
+  );
+}
+
+// 기능 bullet, 서비스 connections 같은 문자열 목록
+const StringListEditor = ({ label, path, items, add, create }: {
+  label: string;
+  path: ModelPath;
+  items: string[];
+  add: string;
+  create?: () => string;
+}) => {
+  const { edit, invalidPaths, t } = useEditor();
+  return (
+    <div>
+      <div className="text-xs text-gray-600 mb-1">{t(`editor.fields.${label}`)}</div>
+      <div className="space-y-1">
+        {items.map((item, idx) => (
+          <div key={idx} className="flex items-center gap-1">
+            <input
+              value={item}
+              onChange={(event) => edit({ type: 'set', path: [...path, idx], value: event.target.value })}
+              className={`${inputClass(invalidPaths.has([...path, idx].join('.')))} mt-0`}
+            />
+            <ItemControls path={path} index={idx} count={items.length} />
+          </div>
+        ))}
+        <AddButton path={path} label={add} create={create ?? (() => t('editor.newBullet'))} />
+      </div>
+    </div>
+  );
+};
+
+// 구현 단계 작업/산출물 - id 는 추가할 때 정해지고 제목만 고침 (순서를 바꿔도 진행 상태가 따라감)
+const PhaseItemListEditor = ({ label, path, items, create }: {
+  label: string;
+  path: ModelPath;
+  items: PhaseItem[];
+  create: () => PhaseItem;
+}) => {
+  const { edit, invalidPaths, t } = useEditor();
+  const invalid = (idx: number) => invalidPaths.has([...path, idx].join('.')) || invalidPaths.has([...path, idx, 'title'].join('.'));
+  return (
+    <div>
+      <div className="text-xs text-gray-600 mb-1">{t(`editor.fields.${label}`)}</div>
+      <div className="space-y-1">
+        {items.map((item, idx) => (
+          <div key={idx} className="flex items-center gap-1">
+            <input
+              value={item.title}
+              title={item.id}
+              onChange={(event) => edit({ type: 'set', path: [...path, idx, 'title'], value: event.target.value })}
+              className={`${inputClass(invalid(idx))} mt-0`}
+            />
+            <ItemControls path={path} index={idx} count={items.length} />
+          </div>
+        ))}
+        <AddButton path={path} label="bullet" create={create} />
+      </div>
+    </div>
+  );
+};
+
+const COMPONENT_FIELDS = ['tech', 'protocol', 'role', 'purpose', 'flow', 'description'] as const;
+
+const ComponentFields = ({ component, path }: { component: Component; path: ModelPath }) => (
+  <>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <TextField label="name" path={[...path, 'name']} value={component.name} />
+      {COMPONENT_FIELDS.map((field) => (
+        <TextField key={field} label={field} path={[...path, field]} value={component[field]} optional />
+      ))}
+    </div>
+    <StringListEditor label="features" path={[...path, 'features']} items={component.features ?? []} add="bullet" />
+  </>
+);
+
+const FeatureFields = ({ feature, path, labels }: { feature: Feature; path: ModelPath; labels: NewItemLabels }) => (
+  <>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <TextField label="id" path={[...path, 'id']} value={feature.id} />
+      <TextField label="title" path={[...path, 'title']} value={feature.title} />
+    </div>
+    <TextField label="description" path={[...path, 'description']} value={feature.description} optional multiline />
+    <StringListEditor label="features" path={[...path, 'features']} items={feature.features ?? []} add="bullet" />
+    <ListEditor
+      path={[...path, 'components']}
+      items={feature.components}
+      title={(component) => component.name}
+      add="component"
+      create={() => newComponent(labels)}
+    >
+      {(component, componentPath) => <ComponentFields component={component} path={componentPath} />}
+    </ListEditor>
+  </>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div>
+    <h3 className="font-semibold mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+// 새 항목의 기본 문구를 현재 언어로
+export function useNewItemLabels(): NewItemLabels {
+  const { t } = useI18n();
+  return useMemo(
+    () => Object.fromEntries(Object.keys(NEW_ITEM_LABELS).map((key) => [key, t(`editor.newItems.${key}`)])) as NewItemLabels,
+    [t]
+  );
+}
+
+const downloadModel = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 편집 모드 패널 - 폼으로 고친 내용은 바로 아래 탐색기에 반영되고, 모델 파일(JSON)로 내보낼 수 있음
+const ArchitectureEditor = ({ version }: { version: ArchitectureVersion }) => {
+  const { t } = useI18n();
+  const { model, issues, canUndo, canRedo, edit, undo, redo, replace, reset } = useArchitectureEditor(version);
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+
+  const invalidPaths = useMemo(() => new Set(issues.map((issue) => issue.path.join('.'))), [issues]);
+  const context = useMemo(() => ({ edit, invalidPaths, t }), [edit, invalidPaths, t]);
+  const labels = useNewItemLabels();
+  const layerIds = model.layers.map((layer) => layer.id);
+
+  // 입력 중에도 Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y 는 모델 편집 기록에 적용
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redo();
+      else undo();
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      replace(importModel(await file.text(), file.name, version));
+      setImportIssues([]);
+    } catch (error) {
+      setImportIssues(error instanceof ArchitectureLoadError ? error.issues : [(error as Error).message]);
+    }
+  };
+
+  const toolbarButton = 'px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-40 flex items-center gap-1';
+
+  return (
+    <EditorContext.Provider value={context}>
+      <div className="w-full max-w-7xl mx-auto px-6 mb-6" onKeyDown={handleKeyDown}>
+        <div className="p-4 bg-yellow-50 border border-yellow-300 rounded-lg space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-lg font-semibold mr-auto">{t('editor.title', { title: model.title })}</h2>
+            <button className={toolbarButton} disabled={!canUndo} onClick={undo} title="Ctrl+Z">
+              <Undo2 className="w-4 h-4" />{t('editor.undo')}
+            </button>
+            <button className={toolbarButton} disabled={!canRedo} onClick={redo} title="Ctrl+Shift+Z">
+              <Redo2 className="w-4 h-4" />{t('editor.redo')}
+            </button>
+            <button
+              className={toolbarButton}
+              disabled={issues.length > 0}
+              onClick={() => downloadModel(`${version}.json`, serializeModel(model))}
+            >
+              <Download className="w-4 h-4" />{t('editor.export')}
+            </button>
+            <label className={`${toolbarButton} cursor-pointer focus-within:ring-2 focus-within:ring-blue-500`}>
+              <Upload className="w-4 h-4" />{t('editor.import')}
+              <input type="file" accept=".json,.yaml,.yml" className="sr-only" onChange={handleFile} />
+            </label>
+            <button className={toolbarButton} onClick={reset}>
+              <RotateCcw className="w-4 h-4" />{t('editor.reset')}
+            </button>
+          </div>
+
+          {importIssues.length > 0 && (
+            <ul className="text-xs text-red-700 space-y-1">
+              <li className="font-medium">{t('editor.importFailed')}</li>
+              {importIssues.map((issue, idx) => <li key={idx}>• {issue}</li>)}
+            </ul>
+          )}
+          {issues.length > 0 ? (
+            <div className="text-xs text-red-700">
+              <p className="font-medium flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" />
+                {t('editor.issues', { count: issues.length })}
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {issues.map((issue, idx) => (
+                  <li key={idx}>• <span className="font-mono">{issue.path.join('.') || '(root)'}</span>: {issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-xs text-green-700 flex items-center gap-1">
+              <CheckCircle className="w-4 h-4" />
+              {t('editor.valid')}
+            </p>
+          )}
+
+          <TextField label="title" path={['title']} value={model.title} />
+
+          {model.layers.length > 0 && (
+            <Section title={t('editor.sections.layers')}>
+              <ListEditor path={['layers']} items={model.layers} title={(layer) => layer.title} add="layer" create={() => newLayer(model, labels)}>
+                {(layer, path) => (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      <TextField label="id" path={[...path, 'id']} value={layer.id} />
+                      <TextField label="title" path={[...path, 'title']} value={layer.title} />
+                      <TextField label="tech" path={[...path, 'tech']} value={layer.tech} optional />
+                    </div>
+                    <ListEditor
+                      path={[...path, 'components']}
+                      items={layer.components}
+                      title={(component) => component.name}
+                      add="component"
+                      create={() => newComponent(labels)}
+                    >
+                      {(component, componentPath) => <ComponentFields component={component} path={componentPath} />}
+                    </ListEditor>
+                  </>
+                )}
+              </ListEditor>
+            </Section>
+          )}
+
+          {model.layers.length > 0 && (
+            <Section title={t('editor.sections.flows')}>
+              <ListEditor path={['flows']} items={model.flows} title={(flow) => flow.title} add="flow" create={() => newFlow(model, labels)}>
+                {(flow, path) => (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <TextField label="id" path={[...path, 'id']} value={flow.id} />
+                      <TextField label="title" path={[...path, 'title']} value={flow.title} />
+                    </div>
+                    <ListEditor
+                      path={[...path, 'steps']}
+                      items={flow.steps}
+                      title={(step) => `${step.from} → ${step.to}: ${step.action}`}
+                      add="step"
+                      create={() => newFlowStep(model, labels)}
+                    >
+                      {(step, stepPath) => (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                          <SelectField label="from" path={[...stepPath, 'from']} value={step.from} options={layerIds} />
+                          <SelectField label="to" path={[...stepPath, 'to']} value={step.to} options={layerIds} />
+                          <TextField label="action" path={[...stepPath, 'action']} value={step.action} />
+                        </div>
+                      )}
+                    </ListEditor>
+                  </>
+                )}
+              </ListEditor>
+            </Section>
+          )}
+
+          {(['features', 'integrations'] as const).filter((section) => model[section].length > 0).map((section) => (
+            <Section key={section} title={t(`editor.sections.${section}`)}>
+              <ListEditor path={[section]} items={model[section]} title={(feature) => feature.title} add="feature" create={() => newFeature(model, labels)}>
+                {(feature, path) => <FeatureFields feature={feature} path={path} labels={labels} />}
+              </ListEditor>
+            </Section>
+          ))}
+
+          {model.version !== 'overview' && (
+            <Section title={t('editor.sections.phases')}>
+              <ListEditor path={['phases']} items={model.phases} title={(phase) => phase.title} add="phase" create={() => newPhase(model, labels)}>
+                {(phase, path) => (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <TextField label="id" path={[...path, 'id']} value={phase.id} />
+                      <TextField label="title" path={[...path, 'title']} value={phase.title} />
+                    </div>
+                    <PhaseItemListEditor
+                      label="tasks"
+                      path={[...path, 'tasks']}
+                      items={phase.tasks}
+                      create={() => newPhaseItem(model, 'task', t('editor.newBullet'))}
+                    />
+                    <PhaseItemListEditor
+                      label="deliverables"
+                      path={[...path, 'deliverables']}
+                      items={phase.deliverables}
+                      create={() => newPhaseItem(model, 'deliverable', t('editor.newBullet'))}
+                    />
+                  </>
+                )}
+              </ListEditor>
+            </Section>
+          )}
+
+          <Section title={t('editor.sections.challenges')}>
+            <ListEditor path={['challenges']} items={model.challenges} title={(risk) => risk.challenge} add="risk" create={() => newRisk(model, labels)}>
+              {(risk, path) => (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <TextField label="id" path={[...path, 'id']} value={risk.id} />
+                    <TextField label="challenge" path={[...path, 'challenge']} value={risk.challenge} />
+                  </div>
+                  <TextField label="solution" path={[...path, 'solution']} value={risk.solution} multiline />
+                  <StringListEditor
+                    label="components"
+                    path={[...path, 'components']}
+                    items={risk.components}
+                    add="component"
+                    create={() => collectComponents(model)[0]?.name ?? ''}
+                  />
+                </>
+              )}
+            </ListEditor>
+          </Section>
+
+          {model.architectures.length > 0 && (
+            <Section title={t('editor.sections.architectures')}>
+              <div className="space-y-3">
+                {model.architectures.map((architecture, idx) => (
+                  <div key={architecture.id} className="space-y-2">
+                    <TextField label="title" path={['architectures', idx, 'title']} value={architecture.title} />
+                    <ListEditor
+                      path={['architectures', idx, 'services']}
+                      items={architecture.services}
+                      title={(service) => service.name}
+                      add="service"
+                      create={() => newService(labels)}
+                    >
+                      {(service, path) => (
+                        <>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                            <TextField label="name" path={[...path, 'name']} value={service.name} />
+                            <TextField label="tech" path={[...path, 'tech']} value={service.tech} />
+                            <TextField label="responsibility" path={[...path, 'responsibility']} value={service.responsibility} />
+                          </div>
+                          <StringListEditor label="connections" path={[...path, 'connections']} items={service.connections} add="connection" />
+                        </>
+                      )}
+                    </ListEditor>
+                  </div>
+                ))}
+              </div>
+            </Section>
+          )}
+        </div>
+      </div>
+    </EditorContext.Provider>
+  );
+};
+
+export default ArchitectureEditor;
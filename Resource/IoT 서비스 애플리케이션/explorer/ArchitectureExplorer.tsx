@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Home, Package, Mic, Building2, Rocket, GitCompare, Search, FileInput, Pencil, Users, ShieldAlert, ListChecks } from 'lucide-react';
+import IoTArchitectureDiagram from '../1. iot-architecture-diagram';
+import IoTV1Architecture from '../3. [V1] iot-v1-architecture';
+import IoTV2Architecture from '../6. [V2] iot-v2-architecture';
+import IoTV3Architecture from '../8. [V3] iot-v3-architecture';
+import IoTV4Architecture from '../10. [V4] iot-v4-architecture';
+import ArchitectureDiff from './ArchitectureDiff';
+import MermaidImport from './MermaidImport';
+import TeamWorkload from './TeamWorkload';
+import RiskRegisterPage from './RiskRegisterPage';
+import ConsistencyLint from './ConsistencyLint';
+import ArchitectureEditor from './ArchitectureEditor';
+import SearchPalette from './SearchPalette';
+import ExportMenu from './ExportMenu';
+import ThemeMenu from './ThemeMenu';
+import LanguageSwitcher from './LanguageSwitcher';
+import { ThemeProvider } from './theme';
+import { useI18n } from './i18n';
+import { navigate, useLocation, useUrlState, withPersistentParams } from './router';
+import type { ArchitectureVersion } from '../architecture/model';
+
+// 버전별 라우트 - 각 탐색기의 선택 상태는 쿼리 파라미터로 유지됨
+export const routes: {
+  path: string;
+  labelKey: string;
+  icon: typeof Home;
+  component: () => JSX.Element;
+  version?: ArchitectureVersion;
+}[] = [
+  { path: '/', labelKey: 'nav.overview', icon: Home, component: IoTArchitectureDiagram, version: 'overview' },
+  { path: '/v1', labelKey: 'nav.v1', icon: Package, component: IoTV1Architecture, version: 'v1' },
+  { path: '/v2', labelKey: 'nav.v2', icon: Mic, component: IoTV2Architecture, version: 'v2' },
+  { path: '/v3', labelKey: 'nav.v3', icon: Building2, component: IoTV3Architecture, version: 'v3' },
+  { path: '/v4', labelKey: 'nav.v4', icon: Rocket, component: IoTV4Architecture, version: 'v4' },
+  { path: '/diff', labelKey: 'nav.diff', icon: GitCompare, component: ArchitectureDiff },
+  { path: '/import', labelKey: 'nav.import', icon: FileInput, component: MermaidImport },
+  { path: '/team', labelKey: 'nav.team', icon: Users, component: TeamWorkload },
+  { path: '/risks', labelKey: 'nav.risks', icon: ShieldAlert, component: RiskRegisterPage },
+  { path: '/lint', labelKey: 'nav.lint', icon: ListChecks, component: ConsistencyLint }
+];
+
+const ArchitectureExplorer = () => {
+  const { pathname } = useLocation();
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const current = routes.find((route) => route.path === path) ?? routes[0];
+  const { component: Page, version } = current;
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [editMode, setEditMode] = useUrlState('edit');
+  const editing = editMode !== null && version !== undefined;
+  const { t } = useI18n();
+
+  return (
+    <ThemeProvider>
+      <nav aria-label={t('nav.label')} className="sticky top-0 z-10 border-b shadow-sm [background:var(--theme-nav)] [backdrop-filter:var(--theme-nav-filter)]">
+        <div className="max-w-7xl mx-auto px-6 py-3 flex gap-2 flex-wrap">
+          {routes.map((route) => {
+            const Icon = route.icon;
+            return (
+              <a
+                key={route.path}
+                href={withPersistentParams(route.path)}
+                onClick={(event) => {
+                  event.preventDefault();
+                  navigate(route.path);
+                }}
+                aria-current={current === route ? 'page' : undefined}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${
+                  current === route
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                <Icon className="w-4 h-4" aria-hidden />
+                {t(route.labelKey)}
+              </a>
+            );
+          })}
+          <button
+            onClick={() => setSearchOpen(true)}
+            className="ml-auto px-3 py-2 rounded-md text-sm text-gray-500 bg-gray-100 hover:bg-gray-200 flex items-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            {t('nav.search')}
+            <kbd className="text-xs border rounded px-1 bg-white">Ctrl K</kbd>
+          </button>
+          {version && (
+            <button
+              onClick={() => setEditMode(editing ? null : '1')}
+              aria-pressed={editing}
+              title={t('nav.edit')}
+              className={`px-3 py-2 rounded-md text-sm font-medium flex items-center gap-2 ${
+                editing ? 'bg-yellow-400 text-gray-900' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              <Pencil className="w-4 h-4" />
+              {t('nav.edit')}
+            </button>
+          )}
+          {version && <ExportMenu version={version} />}
+          <ThemeMenu />
+          <LanguageSwitcher />
+        </div>
+      </nav>
+      <SearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
+
+      <main className="py-6">
+        {editing && <ArchitectureEditor version={version} />}
+        <Page />
+      </main>
+    </ThemeProvider>
+  );
+};
+
+export default ArchitectureExplorer;
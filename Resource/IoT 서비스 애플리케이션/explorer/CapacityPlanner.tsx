@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, AlertTriangle, RotateCcw } from 'lucide-react';
+import {
+  DEFAULT_ASSUMPTIONS, OUTPUT_UNITS, capacityByLayer, checkTargets, estimateCapacity, inputsFromTargets, unmappedOutputs
+} from '../architecture/capacity';
+import type { CapacityAssumptions, CapacityInputs, CapacityOutput, CapacityUnit } from '../architecture/capacity';
+import type { InfrastructureLayer, Metric } from '../architecture/model';
+import { useI18n } from './i18n';
+import { useUrlState } from './router';
+
+// 입력값은 공유할 수 있도록 쿼리 파라미터에 보관
+const INPUT_PARAMS: Record<keyof CapacityInputs, string> = {
+  devices: 'devices',
+  telemetryIntervalSec: 'interval',
+  payloadBytes: 'payload',
+  commandsPerDeviceHour: 'commands',
+  retentionDays: 'retention'
+};
+
+// 가정값 입력 칸 - scale 은 화면 단위와 내부 값의 배율 (MB/s → 바이트/s 등)
+const ASSUMPTION_FIELDS: { key: keyof CapacityAssumptions; scale: number; unit?: string; step?: number }[] = [
+  { key: 'peakFactor', scale: 1, unit: '×', step: 0.5 },
+  { key: 'targetUtilization', scale: 0.01, unit: '%' },
+  { key: 'connectionsPerBrokerNode', scale: 1 },
+  { key: 'partitionMessagesPerSec', scale: 1, unit: 'msg/s' },
+  { key: 'partitionBytesPerSec', scale: 1e6, unit: 'MB/s' },
+  { key: 'rowsPerMessage', scale: 1 },
+  { key: 'bytesPerRow', scale: 1, unit: 'B' },
+  { key: 'compressionRatio', scale: 1, unit: ':1' },
+  { key: 'redisBytesPerDevice', scale: 1, unit: 'B' },
+  { key: 'redisNodeMemoryBytes', scale: 1e9, unit: 'GB' },
+  { key: 'apiCallsPerCommand', scale: 1 },
+  { key: 'readsPerDeviceHour', scale: 1, unit: '/h' },
+  { key: 'requestsPerGatewayReplica', scale: 1, unit: 'req/s' },
+  { key: 'minReplicas', scale: 1 }
+];
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
+const formatBytes = (bytes: number, locale: string) => {
+  const exponent = Math.min(Math.max(Math.floor(Math.log10(Math.max(bytes, 1)) / 3), 0), BYTE_UNITS.length - 1);
+  const value = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(bytes / 1000 ** exponent);
+  return `${value} ${BYTE_UNITS[exponent]}`;
+};
+
+const NumberField = ({ label, value, unit, step, onChange }: {
+  label: string;
+  value: number;
+  unit?: string;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-sm">
+    <span className="text-gray-600">{label}</span>
+    <span className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0}
+        step={step ?? 'any'}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(event) => {
+          const next = Number(event.target.value);
+          if (event.target.value !== '' && next >= 0) onChange(next);
+        }}
+        className="border rounded px-2 py-1 w-full font-mono"
+      />
+      {unit && <span className="text-xs text-gray-500 whitespace-nowrap">{unit}</span>}
+    </span>
+  </label>
+);
+
+// V3 확장성 목표를 인프라 규모로 환산 - 결과는 배포 아키텍처의 인프라 레이어별로 표시
+const CapacityPlanner = ({ infrastructure, metrics }: { infrastructure: InfrastructureLayer[]; metrics: Metric[] }) => {
+  const { t, locale } = useI18n();
+  const defaults = useMemo(() => inputsFromTargets(metrics), [metrics]);
+  const [assumptions, setAssumptions] = useState<CapacityAssumptions>(DEFAULT_ASSUMPTIONS);
+
+  const params = {
+    devices: useUrlState(INPUT_PARAMS.devices, String(defaults.devices)),
+    telemetryIntervalSec: useUrlState(INPUT_PARAMS.telemetryIntervalSec, String(defaults.telemetryIntervalSec)),
+    payloadBytes: useUrlState(INPUT_PARAMS.payloadBytes, String(defaults.payloadBytes)),
+    commandsPerDeviceHour: useUrlState(INPUT_PARAMS.commandsPerDeviceHour, String(defaults.commandsPerDeviceHour)),
+    retentionDays: useUrlState(INPUT_PARAMS.retentionDays, String(defaults.retentionDays))
+  };
+  // 잘못된 쿼리 값은 기본값으로 대체
+  const readInput = (key: keyof CapacityInputs) => {
+    const raw = params[key][0];
+    const value = raw === null ? Number.NaN : Number(raw);
+    return Number.isFinite(value) && value >= 0 ? value : defaults[key];
+  };
+  const inputs: CapacityInputs = {
+    devices: readInput('devices'),
+    telemetryIntervalSec: readInput('telemetryIntervalSec'),
+    payloadBytes: readInput('payloadBytes'),
+    commandsPerDeviceHour: readInput('commandsPerDeviceHour'),
+    retentionDays: readInput('retentionDays')
+  };
+
+  const estimate = estimateCapacity(inputs, assumptions);
+  const targets = checkTargets(metrics, inputs, estimate);
+  const layers = capacityByLayer(infrastructure);
+  const unmapped = unmappedOutputs(layers);
+
+  const compact = new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 });
+  const format = (value: number, unit: CapacityUnit) => {
+    switch (unit) {
+      case 'count':
+        return new Intl.NumberFormat(locale).format(Math.round(value));
+      case 'rate':
+        return t('capacity.perSecond', { value: compact.format(value) });
+      case 'bytes':
+        return formatBytes(value, locale);
+      case 'byteRate':
+        return t('capacity.perSecond', { value: formatBytes(value, locale) });
+    }
+  };
+
+  const outputList = (outputs: CapacityOutput[]) => (
+    <dl className="mt-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2">
+      {outputs.map((output) => (
+        <div key={output} className="bg-white p-2 rounded border">
+          <dt className="text-xs text-gray-500">{t(`capacity.outputs.${output}`)}</dt>
+          <dd className="font-mono font-medium">{format(estimate[output], OUTPUT_UNITS[output])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg border space-y-6">
+      <div>
+        <h3 className="font-semibold mb-3">{t('capacity.inputs.title')}</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {(Object.keys(INPUT_PARAMS) as (keyof CapacityInputs)[]).map((key) => (
+            <NumberField
+              key={key}
+              label={t(`capacity.inputs.${key}`)}
+              value={inputs[key]}
+              onChange={(value) => params[key][1](String(value))}
+            />
+          ))}
+        </div>
+      </div>
+
+      {targets.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-3">{t('capacity.targets')}</h3>
+          <ul className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {targets.map((check) => (
+              <li
+                key={check.metric.name}
+                className={`p-3 rounded border text-sm ${check.met ? 'bg-green-50 border-green-300' : 'bg-yellow-50 border-yellow-300'}`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  {check.met
+                    ? <CheckCircle className="w-4 h-4 text-green-600" aria-hidden />
+                    : <AlertTriangle className="w-4 h-4 text-yellow-600" aria-hidden />}
+                  {check.metric.name}: {check.metric.value}
+                </div>
+                <div className="mt-1 text-gray-600">
+                  {t(check.met ? 'capacity.met' : 'capacity.short', { value: format(check.estimate, check.unit) })}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold mb-3">{t('capacity.layers')}</h3>
+        <div className="space-y-2">
+          {layers.map(({ layer, outputs }) => (
+            <div key={layer.layer} className={`p-3 bg-gray-50 rounded ${outputs.length === 0 ? 'opacity-60' : ''}`}>
+              <div className="flex flex-wrap items-baseline gap-x-4">
+                <span className="w-40 font-medium text-sm">{layer.layer}</span>
+                <span className="text-sm text-blue-600">{layer.tech}</span>
+              </div>
+              {outputs.length > 0
+                ? outputList(outputs)
+                : <p className="mt-1 text-xs text-gray-500">{t('capacity.noOutputs')}</p>}
+            </div>
+          ))}
+          {unmapped.length > 0 && (
+            <div className="p-3 rounded border border-dashed border-gray-300">
+              <span className="font-medium text-sm">{t('capacity.unmapped.title')}</span>
+              <p className="text-xs text-gray-500">{t('capacity.unmapped.hint')}</p>
+              {outputList(unmapped)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <details>
+        <summary className="cursor-pointer font-semibold">{t('capacity.assumptions.title')}</summary>
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+          {ASSUMPTION_FIELDS.map(({ key, scale, unit, step }) => (
+            <NumberField
+              key={key}
+              label={t(`capacity.assumptions.${key}`)}
+              value={Number((assumptions[key] / scale).toPrecision(6))}
+              unit={unit}
+              step={step}
+              onChange={(value) => setAssumptions((current) => ({ ...current, [key]: value * scale }))}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => setAssumptions(DEFAULT_ASSUMPTIONS)}
+          disabled={assumptions === DEFAULT_ASSUMPTIONS}
+          className="mt-3 px-3 py-1 rounded-md text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 flex items-center gap-1"
+        >
+          <RotateCcw className="w-4 h-4" aria-hidden />
+          {t('capacity.assumptions.reset')}
+        </button>
+      </details>
+    </div>
+  );
+};
+
+export default CapacityPlanner;
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CodeViewer from './CodeViewer';
+
+const writeText = vi.fn<(text: string) => Promise<void>>();
+
+describe('CodeViewer', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    vi.useFakeTimers();
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    writeText.mockReset();
+  });
+
+  const renderViewer = () => render(<CodeViewer code={'// 설정\nconst a = 1;'} name="Config Loader" />);
+
+  it('복사하면 잠시 완료 표시 후 원래대로', async () => {
+    writeText.mockResolvedValue();
+    renderViewer();
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: '클립보드에 복사' })));
+    expect(writeText).toHaveBeenCalledWith('// 설정\nconst a = 1;');
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(screen.getByRole('button', { name: '클립보드에 복사' })).toBeTruthy();
+  });
+
+  it('클립보드가 거부되면 실패 상태를 보여 줌', async () => {
+    writeText.mockRejectedValue(new DOMException('denied', 'NotAllowedError'));
+    renderViewer();
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: '클립보드에 복사' })));
+    expect(screen.getByRole('button', { name: /복사하지 못했습니다/ })).toBeTruthy();
+
+    act(() => vi.advanceTimersByTime(2000));
+    expect(screen.getByRole('button', { name: '클립보드에 복사' })).toBeTruthy();
+  });
+
+  it('언마운트하면 표시 타이머도 정리', async () => {
+    writeText.mockResolvedValue();
+    const { unmount } = renderViewer();
+    await act(async () => fireEvent.click(screen.getByRole('button', { name: '클립보드에 복사' })));
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('다운로드 URL 은 click 이 끝난 다음 해제', () => {
+    const createObjectURL = vi.fn(() => 'blob:snippet');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    renderViewer();
+
+    fireEvent.click(screen.getByRole('button', { name: 'config-loader.js 다운로드' }));
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:snippet');
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Copy, Check, Download, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { detectLanguage, snippetFileName, tokenizeLines } from '../architecture/code';
+import type { TokenType } from '../architecture/code';
+import type { CodeLanguage } from '../architecture/model';
+import { useI18n } from './i18n';
+
+const COLLAPSED_LINES = 12;
+const COPY_FEEDBACK_MS = 2000;
+
+const tokenStyles: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-yellow-300',
+  keyword: 'text-purple-400',
+  number: 'text-orange-300',
+  tag: 'text-blue-400',
+  attribute: 'text-sky-300',
+  key: 'text-sky-300',
+  plain: 'text-green-400'
+};
+
+interface CodeViewerProps {
+  code: string;
+  name: string;
+  language?: CodeLanguage;
+}
+
+// 언어 추정 + 구문 강조 + 줄 번호 + 복사/다운로드 + 긴 스니펫 접기를 지원하는 코드 뷰어
+const CodeViewer = ({ code, name, language }: CodeViewerProps) => {
+  const { t } = useI18n();
+  const resolved = language ?? detectLanguage(code);
+  const lines = useMemo(() => tokenizeLines(code, resolved), [code, resolved]);
+  const fileName = snippetFileName(name, resolved, code);
+  const collapsible = lines.length > COLLAPSED_LINES;
+  const [expanded, setExpanded] = useState(false);
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const copyTimer = useRef<ReturnType<typeof setTimeout>>();
+  const visible = collapsible && !expanded ? lines.slice(0, COLLAPSED_LINES) : lines;
+
+  useEffect(() => () => clearTimeout(copyTimer.current), []);
+
+  // 클립보드 권한이 없거나 보안 컨텍스트가 아니면 writeText 가 거부됨 - 실패 아이콘으로 알림
+  const copy = async () => {
+    let next: 'copied' | 'failed' = 'copied';
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch {
+      next = 'failed';
+    }
+    setCopyState(next);
+    clearTimeout(copyTimer.current);
+    copyTimer.current = setTimeout(() => setCopyState('idle'), COPY_FEEDBACK_MS);
+  };
+  const copyLabel = copyState === 'failed' ? t('codeViewer.copyFailed') : t('codeViewer.copy');
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // 일부 브라우저는 click 직후 다운로드를 시작하므로 바로 해제하면 파일이 비어 버림
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="rounded-lg overflow-hidden bg-gray-900 text-xs">
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 text-gray-300">
+        <span className="font-mono">{fileName}</span>
+        <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-200">{t(`codeViewer.languages.${resolved}`)}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={copy} className="p-1 rounded hover:bg-gray-700" title={copyLabel} aria-label={copyLabel}>
+            {copyState === 'copied' && <Check className="w-3.5 h-3.5 text-green-400" />}
+            {copyState === 'failed' && <X className="w-3.5 h-3.5 text-red-400" />}
+            {copyState === 'idle' && <Copy className="w-3.5 h-3.5" />}
+          </button>
+          <button
+            onClick={download}
+            className="p-1 rounded hover:bg-gray-700"
+            title={t('codeViewer.download', { fileName })}
+            aria-label={t('codeViewer.download', { fileName })}
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <pre className="p-3 overflow-x-auto">
+        <code className="grid" style={{ gridTemplateColumns: 'auto 1fr' }}>
+          {visible.map((tokens, idx) => (
+            <React.Fragment key={idx}>
+              <span className="pr-3 text-right text-gray-600 select-none" aria-hidden>{idx + 1}</span>
+              <span className="whitespace-pre">
+                {tokens.map((token, tokenIdx) => (
+                  <span key={tokenIdx} className={tokenStyles[token.type]}>{token.text}</span>
+                ))}
+              </span>
+            </React.Fragment>
+          ))}
+        </code>
+      </pre>
+
+      {collapsible && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          aria-expanded={expanded}
+          className="w-full py-1.5 bg-gray-800 text-gray-300 hover:bg-gray-700 flex items-center justify-center gap-1"
+        >
+          {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+          {expanded ? t('codeViewer.collapse') : t('codeViewer.expand', { count: lines.length - COLLAPSED_LINES })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CodeViewer;
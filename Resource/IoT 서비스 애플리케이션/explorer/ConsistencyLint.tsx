@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { ListChecks, AlertTriangle, XCircle, CheckCircle } from 'lucide-react';
+import { lintArchitectures, LINT_RULES } from '../architecture/lint';
+import type { LintSeverity } from '../architecture/lint';
+import { parseMermaidGraph } from '../architecture/mermaid-import';
+import { ARCHITECTURE_VERSIONS } from '../architecture/model';
+import type { ArchitectureVersion } from '../architecture/model';
+import { useI18n } from './i18n';
+import { useUrlState } from './router';
+import { mermaidSamples } from './samples';
+
+const severityStyles: Record<LintSeverity, { label: string; icon: typeof XCircle; badge: string; color: string }> = {
+  error: { label: 'lint.severity.error', icon: XCircle, badge: 'bg-red-100 text-red-700', color: 'border-red-300' },
+  warning: { label: 'lint.severity.warning', icon: AlertTriangle, badge: 'bg-yellow-100 text-yellow-700', color: 'border-yellow-300' }
+};
+
+const filters = ['all', 'error', 'warning'] as const;
+
+// 버전 간 기술 스택 정합성 검사 결과 - CLI(lint-architecture.ts)와 같은 규칙을 현재 데이터에 적용
+const ConsistencyLint = () => {
+  const { t, architectures, componentMapping } = useI18n();
+  const [filterParam, setFilter] = useUrlState('severity', 'all');
+  const filter = filters.find((candidate) => candidate === filterParam) ?? 'all';
+
+  const report = useMemo(
+    () => lintArchitectures(
+      architectures,
+      componentMapping,
+      mermaidSamples.map((sample) => parseMermaidGraph(sample.source, sample.name))
+    ),
+    [architectures, componentMapping]
+  );
+  const visible = report.issues.filter((issue) => filter === 'all' || issue.severity === filter);
+
+  const originLabel = (origin: string) =>
+    ARCHITECTURE_VERSIONS.includes(origin as ArchitectureVersion) ? t(`nav.${origin}`) : origin;
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
+      <h1 className="text-3xl font-bold text-center mb-2 text-gray-800">
+        {t('lint.title')}
+      </h1>
+      <p className="text-center text-sm text-gray-600 mb-8">{t('lint.description')}</p>
+
+      <div className="mb-6 p-4 bg-white rounded-lg border flex flex-wrap items-center gap-2">
+        <ListChecks className="w-6 h-6 text-blue-600 mr-2" aria-hidden />
+        {filters.map((candidate) => (
+          <button
+            key={candidate}
+            onClick={() => setFilter(candidate)}
+            aria-pressed={filter === candidate}
+            className={`px-3 py-1 rounded-md text-sm font-medium ${
+              filter === candidate ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {candidate === 'all'
+              ? t('lint.all', { count: report.issues.length })
+              : t(`lint.count.${candidate}`, { count: report.summary[candidate] })}
+          </button>
+        ))}
+        <span className="ml-auto text-xs text-gray-500">{t('lint.sources', { count: mermaidSamples.length })}</span>
+      </div>
+
+      {report.issues.length === 0 && (
+        <div className="p-6 bg-green-50 border border-green-300 rounded-lg text-green-800 flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" aria-hidden />
+          {t('lint.clean')}
+        </div>
+      )}
+
+      <div aria-live="polite" className="space-y-6">
+        {LINT_RULES.map((rule) => {
+          const issues = visible.filter((issue) => issue.rule === rule);
+          if (issues.length === 0) return null;
+          return (
+            <section key={rule} aria-labelledby={`lint-${rule}`}>
+              <h2 id={`lint-${rule}`} className="text-xl font-semibold mb-1 text-gray-800">
+                {t(`lint.rules.${rule}.title`)} ({issues.length})
+              </h2>
+              <p className="text-sm text-gray-600 mb-3">{t(`lint.rules.${rule}.description`)}</p>
+              <ul className="space-y-2">
+                {issues.map((issue, idx) => {
+                  const style = severityStyles[issue.severity];
+                  const Icon = style.icon;
+                  return (
+                    <li key={idx} className={`p-3 bg-white rounded-lg border ${style.color}`}>
+                      <div className="flex items-start gap-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium flex items-center gap-1 shrink-0 ${style.badge}`}>
+                          <Icon className="w-3 h-3" aria-hidden />
+                          {t(style.label)}
+                        </span>
+                        <span className="text-sm text-gray-800">{t(`lint.rules.${rule}.message`, issue.values)}</span>
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {issue.origins.map((origin) => (
+                          <span key={origin} className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
+                            {originLabel(origin)}
+                          </span>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConsistencyLint;
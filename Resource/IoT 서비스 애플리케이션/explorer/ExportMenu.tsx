@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { exportArchitecture } from '../architecture/export';
+import type { ExportFile, ExportFormat } from '../architecture/export';
+import type { ArchitectureVersion } from '../architecture/model';
+import { useI18n } from './i18n';
+
+const formatOptions: { id: ExportFormat; label: string }[] = [
+  { id: 'mermaid', label: 'Mermaid' },
+  { id: 'plantuml', label: 'PlantUML' },
+  { id: 'c4', label: 'C4 (Structurizr DSL)' }
+];
+
+const download = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 현재 보고 있는 버전의 모델을 다이어그램 파일로 내려받는 드롭다운
+const ExportMenu = ({ version }: { version: ArchitectureVersion }) => {
+  const [open, setOpen] = useState(false);
+  const { t, architectures } = useI18n();
+  const labels = { unresolved: t('export.external.unresolved'), infrastructure: t('export.external.infrastructure') };
+  const files = (format: ExportFormat) => exportArchitecture(architectures[version], format, labels);
+
+  return (
+    <div className="relative" onKeyDown={(event) => event.key === 'Escape' && setOpen(false)}>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="export-menu"
+        className="px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center gap-2"
+      >
+        <Download className="w-4 h-4" aria-hidden />
+        {t('export.button')}
+        <ChevronDown className="w-3 h-3" aria-hidden />
+      </button>
+      {open && (
+        <div id="export-menu" className="absolute right-0 mt-2 w-72 bg-white border rounded-lg shadow-lg py-2 z-20">
+          {formatOptions.map((option) => (
+            <div key={option.id} className="px-4 py-2 hover:bg-gray-50">
+              <div className="text-sm font-medium">{option.label}</div>
+              <div className="text-xs text-gray-500 mb-1">{t(`export.formats.${option.id}`)}</div>
+              <div className="flex flex-wrap gap-1">
+                {files(option.id).map((file) => (
+                  <button
+                    key={file.fileName}
+                    onClick={() => download(file)}
+                    className="text-xs px-2 py-0.5 rounded bg-blue-50 text-blue-700 hover:bg-blue-100"
+                  >
+                    {file.fileName}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Flow, FlowStep } from '../architecture/model';
+import FlowPlayer from './FlowPlayer';
+
+const lanes = [{ id: 'device', title: '디바이스' }, { id: 'gateway', title: '게이트웨이' }, { id: 'backend', title: '백엔드' }];
+const registration: Flow = {
+  id: 'registration',
+  title: '등록',
+  steps: [{ from: 'device', to: 'gateway', action: '연결' }, { from: 'gateway', to: 'backend', action: '등록 요청' }]
+};
+const control: Flow = {
+  id: 'control',
+  title: '제어',
+  steps: [{ from: 'backend', to: 'gateway', action: '명령' }, { from: 'gateway', to: 'device', action: '실행' }]
+};
+
+const progress = () => screen.getByText(/^\d+ \/ \d+$/).textContent;
+
+describe('FlowPlayer', () => {
+  afterEach(cleanup);
+
+  it('단계를 옮길 때만 콜백을 호출하고 같은 콜백으로 다시 렌더링하면 호출하지 않음', () => {
+    const onStepChange = vi.fn<(step: FlowStep | null) => void>();
+    const { rerender } = render(<FlowPlayer flow={registration} lanes={lanes} onStepChange={onStepChange} />);
+    expect(onStepChange.mock.calls).toEqual([[null]]);
+
+    fireEvent.click(screen.getByRole('button', { name: '다음 단계' }));
+    expect(onStepChange).toHaveBeenLastCalledWith(registration.steps[0]);
+    rerender(<FlowPlayer flow={registration} lanes={lanes} onStepChange={onStepChange} />);
+    expect(onStepChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('플로우가 바뀌면 처음 단계로 돌아가고 현재 단계 없음을 알림', () => {
+    const onStepChange = vi.fn<(step: FlowStep | null) => void>();
+    const { rerender } = render(<FlowPlayer flow={registration} lanes={lanes} onStepChange={onStepChange} />);
+    fireEvent.click(screen.getByRole('button', { name: /등록 요청/ }));
+    expect(progress()).toBe('2 / 2');
+
+    rerender(<FlowPlayer flow={control} lanes={lanes} onStepChange={onStepChange} />);
+    expect(progress()).toBe('0 / 2');
+    expect(onStepChange).toHaveBeenLastCalledWith(null);
+    expect(screen.getByRole('heading', { name: '제어' })).toBeTruthy();
+  });
+});
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, ArrowRight } from 'lucide-react';
+import type { Flow, FlowStep } from '../architecture/model';
+import { useI18n } from './i18n';
+import { prefersReducedMotion } from './a11y';
+
+interface FlowLane {
+  id: string;
+  title: string;
+  color?: string;
+}
+
+interface FlowPlayerProps {
+  flow: Flow;
+  lanes: FlowLane[];
+  onStepChange?: (step: FlowStep | null) => void;
+}
+
+const STEP_DURATION = 2000;
+const SPEEDS = [0.5, 1, 2];
+
+const payloadStyles = {
+  MQTT: 'bg-green-100 text-green-700',
+  HTTP: 'bg-purple-100 text-purple-700',
+  WebSocket: 'bg-red-100 text-red-700',
+  SQL: 'bg-yellow-100 text-yellow-700',
+  Internal: 'bg-gray-200 text-gray-700'
+};
+
+// 플로우 단계를 재생/일시정지/단계 이동하며 메시지 토큰을 레인 사이로 이동시키는 플레이어
+const FlowPlayback = ({ flow, lanes, onStepChange }: FlowPlayerProps) => {
+  const { t } = useI18n();
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [arrived, setArrived] = useState(false);
+
+  const step = stepIndex >= 0 ? flow.steps[stepIndex] : null;
+  const duration = STEP_DURATION / speed;
+
+  // onStepChange 는 부모의 setState 처럼 렌더마다 바뀌지 않는 콜백이어야 함
+  useEffect(() => {
+    onStepChange?.(step);
+  }, [step, onStepChange]);
+
+  // 단계가 바뀔 때마다 토큰을 출발 지점에 두었다가 다음 프레임에 도착 지점으로 이동
+  useEffect(() => {
+    setArrived(false);
+    const frame = requestAnimationFrame(() => setArrived(true));
+    return () => cancelAnimationFrame(frame);
+  }, [stepIndex]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepIndex >= flow.steps.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex(stepIndex + 1), stepIndex < 0 ? 0 : duration);
+    return () => clearTimeout(timer);
+  }, [playing, stepIndex, duration, flow.steps.length]);
+
+  const laneCenter = (laneId: string) => {
+    const idx = lanes.findIndex((lane) => lane.id === laneId);
+    return ((idx + 0.5) / lanes.length) * 100;
+  };
+
+  const togglePlay = () => {
+    if (!playing && stepIndex >= flow.steps.length - 1) setStepIndex(-1);
+    setPlaying(!playing);
+  };
+
+  const goTo = (idx: number) => {
+    setPlaying(false);
+    setStepIndex(Math.max(-1, Math.min(flow.steps.length - 1, idx)));
+  };
+
+  const tokenLeft = step ? laneCenter(arrived ? step.to : step.from) : null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border">
+      <h3 className="font-semibold mb-3">{flow.title}</h3>
+
+      {/* 레인과 메시지 토큰 */}
+      <div className="relative mb-4">
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${lanes.length}, minmax(0, 1fr))` }}>
+          {lanes.map((lane) => {
+            const active = step && (step.from === lane.id || step.to === lane.id);
+            return (
+              <div
+                key={lane.id}
+                className={`border-2 rounded-md p-2 text-center text-xs font-medium transition-all ${lane.color ?? 'bg-gray-100 border-gray-300'} ${
+                  active ? 'ring-2 ring-offset-2 ring-green-500' : 'opacity-70'
+                }`}
+              >
+                {lane.title}
+              </div>
+            );
+          })}
+        </div>
+        <div className="relative h-6 mt-2" aria-hidden>
+          <div className="absolute top-1/2 left-0 right-0 border-t border-dashed border-gray-300" />
+          {step && tokenLeft !== null && (
+            <div
+              className={`absolute top-1/2 w-4 h-4 -mt-2 -ml-2 rounded-full bg-green-500 shadow-lg ${
+                step.from === step.to ? 'animate-ping' : ''
+              }`}
+              style={{
+                left: `${tokenLeft}%`,
+                transition: arrived && !prefersReducedMotion() ? `left ${duration * 0.6}ms ease-in-out` : 'none'
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* 재생 컨트롤 */}
+      <div className="flex items-center gap-2 mb-4 flex-wrap">
+        <button onClick={() => goTo(-1)} className="p-2 rounded-md bg-gray-200 hover:bg-gray-300" title={t('flowPlayer.restart')} aria-label={t('flowPlayer.restart')}>
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button onClick={() => goTo(stepIndex - 1)} className="p-2 rounded-md bg-gray-200 hover:bg-gray-300" title={t('flowPlayer.previous')} aria-label={t('flowPlayer.previous')}>
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button onClick={togglePlay} className="p-2 rounded-md bg-green-600 text-white hover:bg-green-700" title={t(playing ? 'flowPlayer.pause' : 'flowPlayer.play')} aria-label={t(playing ? 'flowPlayer.pause' : 'flowPlayer.play')}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => goTo(stepIndex + 1)} className="p-2 rounded-md bg-gray-200 hover:bg-gray-300" title={t('flowPlayer.next')} aria-label={t('flowPlayer.next')}>
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <div className="flex gap-1 ml-2">
+          {SPEEDS.map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpeed(value)}
+              aria-pressed={speed === value}
+              className={`px-2 py-1 rounded text-xs font-medium ${
+                speed === value ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {value}x
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-gray-500 ml-auto" aria-live="polite">
+          {stepIndex + 1} / {flow.steps.length}
+        </span>
+      </div>
+
+      {/* 단계 목록 */}
+      <ol className="space-y-2">
+        {flow.steps.map((item, idx) => (
+          <li key={idx}>
+            <button
+              type="button"
+              onClick={() => goTo(idx)}
+              aria-current={idx === stepIndex ? 'step' : undefined}
+              className={`w-full text-left flex items-center gap-3 p-1 rounded transition-all ${
+                idx === stepIndex ? 'bg-green-50 ring-1 ring-green-400' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="text-sm font-medium w-20 text-right">{item.from}</span>
+              <ArrowRight className="w-4 h-4 text-gray-400" aria-hidden />
+              <span className="text-sm font-medium w-20">{item.to}</span>
+              <span className="text-sm text-gray-600 flex-1">{item.action}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {/* 현재 단계의 예시 메시지 */}
+      {step?.payload && (
+        <div className="mt-4 border rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center gap-2 mb-2">
+            <span className={`text-xs px-2 py-1 rounded font-medium ${payloadStyles[step.payload.protocol]}`}>
+              {step.payload.protocol}
+            </span>
+            {step.payload.target && (
+              <code className="text-xs text-gray-700">{step.payload.target}</code>
+            )}
+          </div>
+          <pre className="text-xs bg-gray-900 text-green-400 p-3 rounded overflow-x-auto">
+            <code>{step.payload.body}</code>
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 플로우가 바뀌면 key 로 재생 상태를 새로 만들어 처음부터 다시
+const FlowPlayer = (props: FlowPlayerProps) => <FlowPlayback key={props.flow.id} {...props} />;
+
+export default FlowPlayer;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, LOCALE_LABELS, isLocale } from '../architecture/i18n';
+import { useI18n } from './i18n';
+
+// 표시 언어 선택 - 선택값은 ?lang= 으로 URL에 남아 링크 공유 시에도 유지됨
+const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center gap-2">
+      <Languages className="w-4 h-4" />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) setLocale(event.target.value);
+        }}
+        className="bg-transparent outline-none"
+      >
+        {LOCALES.map((candidate) => (
+          <option key={candidate} value={candidate} lang={candidate}>{LOCALE_LABELS[candidate]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
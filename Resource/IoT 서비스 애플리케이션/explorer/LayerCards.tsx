@@ -0,0 +1,62 @@
+import React from 'react';
+import type { FlowStep, Layer } from '../architecture/model';
+import CodeViewer from './CodeViewer';
+import { useI18n } from './i18n';
+
+interface LayerCardsProps {
+  layers: Layer[];
+  selectedLayer: string | null;
+  onSelect: (layerId: string | null) => void;
+  activeStep?: FlowStep | null;
+}
+
+// 레이어 카드 그리드 - 제목 버튼으로 구성 요소를 펼치고(disclosure), 재생 중인 플로우 단계의 레이어를 강조
+const LayerCards = ({ layers, selectedLayer, onSelect, activeStep }: LayerCardsProps) => {
+  const { label } = useI18n();
+  const isActiveLayer = (id: string) => activeStep && (activeStep.from === id || activeStep.to === id);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {layers.map((layer) => {
+        const expanded = selectedLayer === layer.id;
+        return (
+          <div
+            key={layer.id}
+            className={`border-2 rounded-lg transition-all ${layer.color ?? 'bg-gray-50 border-gray-300'} ${
+              expanded ? 'ring-2 ring-offset-2 ring-purple-500 shadow-lg' : ''
+            } ${isActiveLayer(layer.id) ? 'ring-4 ring-green-500 scale-105' : ''}`}
+          >
+            <h3 className="font-semibold">
+              <button
+                type="button"
+                aria-expanded={expanded}
+                aria-controls={`layer-card-${layer.id}-panel`}
+                onClick={() => onSelect(expanded ? null : layer.id)}
+                className="w-full p-4 text-left rounded-lg"
+              >
+                {layer.title}
+                {layer.tech && <span className="block text-sm font-normal text-gray-600 mt-2">{layer.tech}</span>}
+              </button>
+            </h3>
+
+            {expanded && (
+              <div id={`layer-card-${layer.id}-panel`} className="space-y-3 px-4 pb-4">
+                {layer.components.map((comp, idx) => (
+                  <div key={idx} className="bg-white p-3 rounded-md">
+                    <h4 className="font-medium text-sm mb-1">{label(comp.name)}</h4>
+                    {comp.tech && <p className="text-xs text-gray-600 mb-1">{comp.tech}</p>}
+                    {comp.purpose && <p className="text-xs text-gray-500 mb-2">{comp.purpose}</p>}
+                    {comp.description && <p className="text-xs text-gray-500 mb-2">{comp.description}</p>}
+                    {comp.code && <CodeViewer code={comp.code} name={comp.name} language={comp.language} />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayerCards;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { Layer } from '../architecture/model';
+import { useI18n } from './i18n';
+import { pressable } from './a11y';
+
+interface LayerStackDiagramProps {
+  layers: Layer[];
+  selectedLayer: string | null;
+  onSelect: (layerId: string) => void;
+}
+
+const WIDTH = 760;
+const LAYER_HEIGHT = 84;
+const GAP = 28;
+const PILL_HEIGHT = 28;
+
+// 레이어의 Tailwind 색상 클래스(bg-pink-100 ...)를 SVG 채우기/테두리 색으로 변환
+const PALETTE: Record<string, [string, string]> = {
+  pink: ['#fce7f3', '#f472b6'],
+  purple: ['#f3e8ff', '#c084fc'],
+  blue: ['#dbeafe', '#60a5fa'],
+  green: ['#dcfce7', '#4ade80'],
+  yellow: ['#fef9c3', '#facc15'],
+  red: ['#fee2e2', '#f87171'],
+  indigo: ['#e0e7ff', '#818cf8'],
+  orange: ['#ffedd5', '#fb923c'],
+  gray: ['#f3f4f6', '#9ca3af']
+};
+
+const layerPalette = (layer: Layer) => PALETTE[layer.color?.match(/bg-(\w+)-/)?.[1] ?? 'gray'] ?? PALETTE.gray;
+
+// 위에서 아래로 쌓인 레이어 스택 - 레이어 사이 연결선과 레이어 내부 구성 요소 간 양방향 화살표를 표시
+const LayerStackDiagram = ({ layers, selectedLayer, onSelect }: LayerStackDiagramProps) => {
+  const { t, label } = useI18n();
+  const [hovered, setHovered] = useState<string | null>(null);
+  const height = layers.length * LAYER_HEIGHT + (layers.length - 1) * GAP + 2;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="group" aria-label={t('layerStack.label')}>
+      <defs>
+        <marker id="layer-stack-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M0,0 L10,5 L0,10 z" fill="#4ade80" />
+        </marker>
+      </defs>
+
+      {layers.slice(1).map((layer, idx) => {
+        const y = (idx + 1) * (LAYER_HEIGHT + GAP);
+        const active = [layers[idx].id, layer.id].some((id) => id === hovered || id === selectedLayer);
+        return (
+          <line
+            key={layer.id}
+            x1={WIDTH / 2}
+            y1={y - GAP + 1}
+            x2={WIDTH / 2}
+            y2={y + 1}
+            stroke={active ? '#16a34a' : '#4ade80'}
+            strokeWidth={active ? 3 : 2}
+            markerStart="url(#layer-stack-arrow)"
+            markerEnd="url(#layer-stack-arrow)"
+          />
+        );
+      })}
+
+      {layers.map((layer, idx) => {
+        const y = idx * (LAYER_HEIGHT + GAP) + 1;
+        const [fill, stroke] = layerPalette(layer);
+        const selected = selectedLayer === layer.id;
+        const highlighted = selected || hovered === layer.id;
+        const pillWidth = (WIDTH - 40 - (layer.components.length - 1) * 24) / layer.components.length;
+
+        return (
+          <g
+            key={layer.id}
+            className="cursor-pointer"
+            {...pressable(() => onSelect(layer.id))}
+            aria-pressed={selected}
+            aria-label={layer.title}
+            onMouseEnter={() => setHovered(layer.id)}
+            onMouseLeave={() => setHovered(null)}
+            onFocus={() => setHovered(layer.id)}
+            onBlur={() => setHovered(null)}
+            opacity={hovered && !highlighted ? 0.55 : 1}
+          >
+            <rect
+              x={1}
+              y={y}
+              width={WIDTH - 2}
+              height={LAYER_HEIGHT}
+              rx={10}
+              fill={fill}
+              stroke={selected ? '#7c3aed' : stroke}
+              strokeWidth={highlighted ? 3 : 1.5}
+            />
+            <text x={WIDTH / 2} y={y + 22} textAnchor="middle" className="text-sm font-semibold" fill="#1f2937">
+              {layer.title}
+            </text>
+
+            {layer.components.map((comp, compIdx) => {
+              const x = 20 + compIdx * (pillWidth + 24);
+              const pillY = y + LAYER_HEIGHT - PILL_HEIGHT - 14;
+              return (
+                <g key={comp.name}>
+                  {compIdx > 0 && (
+                    <line
+                      x1={x - 20}
+                      y1={pillY + PILL_HEIGHT / 2}
+                      x2={x - 4}
+                      y2={pillY + PILL_HEIGHT / 2}
+                      stroke={stroke}
+                      strokeWidth={1.5}
+                      markerStart="url(#layer-stack-arrow)"
+                      markerEnd="url(#layer-stack-arrow)"
+                    />
+                  )}
+                  <rect x={x} y={pillY} width={pillWidth} height={PILL_HEIGHT} rx={14} fill="white" stroke={stroke} />
+                  <text x={x + pillWidth / 2} y={pillY + 18} textAnchor="middle" className="text-xs" fill="#374151">
+                    {label(comp.name)}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default LayerStackDiagram;
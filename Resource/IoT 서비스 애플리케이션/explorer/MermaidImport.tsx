@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { FileInput, Upload, AlertTriangle, Layers, Activity } from 'lucide-react';
+import { UNGROUPED, parseMermaidGraph } from '../architecture/mermaid-import';
+import type { FlowStep } from '../architecture/model';
+import LayerCards from './LayerCards';
+import FlowPlayer from './FlowPlayer';
+import { useI18n } from './i18n';
+import { useTabs } from './a11y';
+import { mermaidSamples } from './samples';
+
+// 기존 Mermaid 다이어그램을 불러와 V1 탐색기와 같은 카드/플로우 플레이어로 표시
+const MermaidImport = () => {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState(mermaidSamples[0].name);
+  const [source, setSource] = useState(mermaidSamples[0].source);
+  const [draft, setDraft] = useState(mermaidSamples[0].source);
+  const [selectedLayer, setSelectedLayer] = useState<string | null>(null);
+  const [selectedFlow, setSelectedFlow] = useState('main');
+  const [activeStep, setActiveStep] = useState<FlowStep | null>(null);
+
+  // 경고 문구, 그룹 없음 레이어, 흐름 이름은 현재 언어로 다시 표시
+  const diagram = useMemo(() => {
+    const parsed = parseMermaidGraph(source, fileName);
+    return {
+      ...parsed,
+      warnings: parsed.warnings.map((warning) => ({ ...warning, message: t(`mermaid.warnings.${warning.code}`, warning.values) })),
+      layers: parsed.layers.map((layer) => (layer.id === UNGROUPED ? { ...layer, title: t('mermaid.ungrouped') } : layer)),
+      flows: parsed.flows.map((flow) => ({ ...flow, title: t(`mermaid.flowTitles.${flow.id}`) }))
+    };
+  }, [source, fileName, t]);
+  const currentFlow = diagram.flows.find((flow) => flow.id === selectedFlow) ?? diagram.flows[0];
+  const flowTabs = useTabs('mermaid-flows', diagram.flows.map((flow) => flow.id), currentFlow?.id ?? null, setSelectedFlow);
+
+  const load = (name: string, text: string) => {
+    setFileName(name);
+    setSource(text);
+    setDraft(text);
+    setSelectedLayer(null);
+    setSelectedFlow('main');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) load(file.name, await file.text());
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
+      <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">
+        {t('mermaid.title')}
+      </h1>
+
+      {/* 원본 선택 및 편집 */}
+      <div className="mb-8 p-4 bg-white rounded-lg border">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <FileInput className="w-5 h-5 text-blue-600" />
+          {mermaidSamples.map((sample) => (
+            <button
+              key={sample.name}
+              onClick={() => load(sample.name, sample.source)}
+              aria-pressed={fileName === sample.name}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${
+                fileName === sample.name ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {sample.name}
+            </button>
+          ))}
+          <label className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer flex items-center gap-1 focus-within:ring-2 focus-within:ring-blue-500">
+            <Upload className="w-4 h-4" />
+            {t('mermaid.openFile')}
+            <input type="file" accept=".mermaid,.mmd,.md,.txt" className="sr-only" onChange={handleFile} />
+          </label>
+        </div>
+        <textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          className="w-full h-48 font-mono text-xs border rounded-md p-2"
+          spellCheck={false}
+        />
+        <button
+          onClick={() => load(fileName, draft)}
+          disabled={draft === source}
+          className="mt-2 px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('mermaid.reparse')}
+        </button>
+      </div>
+
+      {/* 지원하지 않는 문법 경고 */}
+      {diagram.warnings.length > 0 && (
+        <div className="mb-8 p-4 bg-yellow-50 border border-yellow-300 rounded-lg">
+          <h2 className="font-semibold text-yellow-800 mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            {t('mermaid.warningsTitle', { count: diagram.warnings.length })}
+          </h2>
+          <ul className="space-y-1 text-sm text-yellow-800">
+            {diagram.warnings.map((warning, idx) => (
+              <li key={idx}>
+                • <span className="font-mono text-xs mr-1">{t('mermaid.line', { line: warning.line })}</span>
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+          <Layers className="w-6 h-6 text-purple-600" />
+          {t('mermaid.layers', { count: diagram.layers.length })}
+        </h2>
+        <LayerCards
+          layers={diagram.layers}
+          selectedLayer={selectedLayer}
+          onSelect={setSelectedLayer}
+          activeStep={activeStep}
+        />
+      </div>
+
+      {currentFlow && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <Activity className="w-6 h-6 text-green-600" />
+            {t('mermaid.flows')}
+          </h2>
+          <div {...flowTabs.tabListProps} aria-label={t('mermaid.flows')} className="mb-4 flex gap-2 flex-wrap">
+            {diagram.flows.map((flow) => (
+              <button
+                key={flow.id}
+                {...flowTabs.tabProps(flow.id)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                  currentFlow.id === flow.id
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {flow.title} ({flow.steps.length})
+              </button>
+            ))}
+          </div>
+          <div {...flowTabs.panelProps}>
+            <FlowPlayer key={source} flow={currentFlow} lanes={diagram.layers} onStepChange={setActiveStep} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MermaidImport;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { chartMetrics } from '../architecture/metrics';
+import type { ChartedMetric } from '../architecture/metrics';
+import type { Metric } from '../architecture/model';
+import { useI18n } from './i18n';
+
+const BAR_WIDTH = 220;
+const BAR_HEIGHT = 12;
+
+// 백분율은 0~100% 선형, 수량은 카테고리 안에서 로그 스케일로 비교
+const barRatio = ({ target }: ChartedMetric, maxMagnitude: number) => {
+  if (target.kind === 'percent') return target.value / 100;
+  if (target.kind === 'quantity') return maxMagnitude > 0 ? Math.max(target.magnitude / maxMagnitude, 0.04) : 1;
+  return 0;
+};
+
+const MetricBar = ({ charted, maxMagnitude }: { charted: ChartedMetric; maxMagnitude: number }) => {
+  const { t } = useI18n();
+  const { metric, target } = charted;
+  // "< 5%", "< 10ms" 같은 상한 목표는 낮을수록 좋으므로 다른 색으로 표시
+  const upperBound = target.kind !== 'qualitative' && target.comparator === '<';
+  const width = BAR_WIDTH * barRatio(charted, maxMagnitude);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-sm text-gray-600">{metric.name}</span>
+        <span className="font-mono font-medium text-sm">{metric.value}</span>
+      </div>
+      {target.kind === 'qualitative' ? (
+        <span className="inline-flex items-center gap-1 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">
+          <CheckCircle className="w-3 h-3" />
+          {target.label}
+        </span>
+      ) : (
+        <svg viewBox={`0 0 ${BAR_WIDTH} ${BAR_HEIGHT}`} className="w-full h-3" preserveAspectRatio="none">
+          <rect width={BAR_WIDTH} height={BAR_HEIGHT} rx={BAR_HEIGHT / 2} fill="#f3f4f6" />
+          <rect width={width} height={BAR_HEIGHT} rx={BAR_HEIGHT / 2} fill={upperBound ? '#38bdf8' : '#f97316'}>
+            <title>{t(upperBound ? 'metricsChart.upperTarget' : 'metricsChart.target', { value: metric.value })}</title>
+          </rect>
+        </svg>
+      )}
+    </div>
+  );
+};
+
+// 카테고리별 지표 목표를 막대 차트로 표시
+const MetricTargetsChart = ({ metrics }: { metrics: Metric[] }) => {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {chartMetrics(metrics).map(({ category, metrics: charted }) => {
+          const maxMagnitude = Math.max(0, ...charted.map(({ target }) => (target.kind === 'quantity' ? target.magnitude : 0)));
+          return (
+            <div key={category} className="bg-white p-4 rounded-lg border">
+              <h3 className="font-semibold mb-3 capitalize">{category}</h3>
+              <div className="space-y-3">
+                {charted.map((item) => (
+                  <MetricBar key={item.metric.name} charted={item} maxMagnitude={maxMagnitude} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-orange-500" />{t('metricsChart.minimum')}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-sky-400" />{t('metricsChart.upper')}</span>
+        <span>{t('metricsChart.logScale')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MetricTargetsChart;
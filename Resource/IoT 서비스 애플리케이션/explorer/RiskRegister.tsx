@@ -0,0 +1,199 @@
+import React from 'react';
+import { Plus, Download, CalendarClock, X } from 'lucide-react';
+import { RISK_SCALE, isReviewOverdue, riskLevel, riskMatrix, riskScore, risksToCsv, sortRisks } from '../architecture/risk';
+import type { RiskLevel } from '../architecture/risk';
+import { newRisk } from '../architecture/editor';
+import { RISK_STATUSES } from '../architecture/schema';
+import { todayIso } from '../architecture/tracker';
+import type { ArchitectureVersion, Challenge } from '../architecture/model';
+import { useNewItemLabels } from './ArchitectureEditor';
+import { useArchitectureEditor } from './drafts';
+import { LABEL_TAGS, useI18n } from './i18n';
+import { useUrlState } from './router';
+
+const LEVEL_STYLES: Record<RiskLevel, { cell: string; badge: string }> = {
+  High: { cell: 'bg-red-400 text-white', badge: 'bg-red-100 text-red-700' },
+  Medium: { cell: 'bg-yellow-300 text-gray-900', badge: 'bg-yellow-100 text-yellow-700' },
+  Low: { cell: 'bg-green-200 text-gray-900', badge: 'bg-green-100 text-green-700' }
+};
+
+const downloadCsv = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 리스크 레지스터 - 히트맵 칸을 누르면 해당 점수의 리스크만 보여 줌
+// 상태, 담당, 검토일, 점수는 여기서 바로 고치고(편집 초안에 기록), 문구와 관련 구성 요소는 편집 모드에서 수정
+const RiskRegister = ({ version }: { version: ArchitectureVersion }) => {
+  const { t, rich, label, architectures } = useI18n();
+  const model = architectures[version];
+  const { model: draft, edit } = useArchitectureEditor(version);
+  const labels = useNewItemLabels();
+  const [cell, setCell] = useUrlState('risk');
+  const today = todayIso();
+
+  const [likelihoodFilter, impactFilter] = (cell ?? '').split('-').map(Number);
+  const visible = sortRisks(model.challenges).filter((risk) =>
+    !cell || (risk.likelihood === likelihoodFilter && risk.impact === impactFilter)
+  );
+
+  // 표시 중인 모델은 번역본일 수 있으므로 id 로 초안의 위치를 찾음
+  const setField = (risk: Challenge, field: keyof Challenge, value: unknown) => {
+    const index = draft.challenges.findIndex((entry) => entry.id === risk.id);
+    if (index >= 0) edit({ type: 'set', path: ['challenges', index, field], value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button
+          onClick={() => edit({ type: 'insert', path: ['challenges'], value: newRisk(draft, labels) })}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-orange-100 text-orange-800 hover:bg-orange-200 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />{t('risks.add')}
+        </button>
+        <button
+          onClick={() => downloadCsv(`${version}-risks.csv`, risksToCsv(model))}
+          disabled={model.challenges.length === 0}
+          className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-40 flex items-center gap-1"
+        >
+          <Download className="w-4 h-4" />{t('risks.exportCsv')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* 발생 가능성 × 영향도 히트맵 */}
+        <div className="bg-white p-4 rounded-lg border">
+          <h3 className="font-semibold mb-3">{t('risks.matrix')}</h3>
+          <div className="flex gap-2">
+            <span className="text-xs text-gray-500 [writing-mode:vertical-rl] rotate-180 text-center">{t('risks.impact')}</span>
+            <div className="flex-1">
+              <div className="grid grid-cols-5 gap-1">
+                {riskMatrix(model.challenges).flat().map((entry) => {
+                  const key = `${entry.likelihood}-${entry.impact}`;
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => setCell(cell === key ? null : key)}
+                      title={entry.risks.map((risk) => risk.challenge).join('\n') || undefined}
+                      aria-label={t('risks.cell', { likelihood: entry.likelihood, impact: entry.impact, count: entry.risks.length })}
+                      aria-pressed={cell === key}
+                      className={`aspect-square rounded text-sm font-semibold ${LEVEL_STYLES[entry.level].cell} ${
+                        entry.risks.length === 0 ? 'opacity-40' : ''
+                      } ${cell === key ? 'ring-2 ring-blue-600 ring-offset-1' : ''}`}
+                    >
+                      {entry.risks.length || ''}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-5 gap-1 mt-1 text-xs text-gray-500 text-center">
+                {RISK_SCALE.map((value) => <span key={value}>{value}</span>)}
+              </div>
+              <p className="text-xs text-gray-500 text-center">{t('risks.likelihood')}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* 레지스터 목록 */}
+        <div className="lg:col-span-2 space-y-3">
+          {cell && (
+            <button onClick={() => setCell(null)} className="text-xs text-blue-600 flex items-center gap-1">
+              <X className="w-3 h-3" />
+              {t('risks.filter', { likelihood: likelihoodFilter, impact: impactFilter })}
+            </button>
+          )}
+          {visible.length === 0 && <p className="text-sm text-gray-500">{t('risks.empty')}</p>}
+          {visible.map((risk) => {
+            const score = riskScore(risk);
+            const level = riskLevel(score);
+            const overdue = isReviewOverdue(risk, today);
+            return (
+              <div key={risk.id} className="bg-orange-50 p-4 rounded-lg border border-orange-200">
+                <div className="flex justify-between items-start gap-2 mb-2">
+                  <h4 className="font-medium text-orange-900">{risk.challenge}</h4>
+                  <span className={`text-xs px-2 py-1 rounded whitespace-nowrap ${LEVEL_STYLES[level].badge}`}>
+                    {t(`risks.levels.${level}`)} · {score}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 mb-3">
+                  {rich('risks.mitigation', { text: risk.solution }, LABEL_TAGS)}
+                </p>
+                <div className="flex flex-wrap gap-2 text-xs items-center">
+                  {(['likelihood', 'impact'] as const).map((field) => (
+                    <label key={field} className="flex items-center gap-1 text-gray-600">
+                      {t(`risks.${field}`)}
+                      <select
+                        value={risk[field]}
+                        onChange={(event) => setField(risk, field, Number(event.target.value))}
+                        className="border rounded px-1 py-0.5 bg-white"
+                      >
+                        {RISK_SCALE.map((value) => <option key={value} value={value}>{value}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-1 text-gray-600">
+                    {t('risks.statusLabel')}
+                    <select
+                      value={risk.status}
+                      onChange={(event) => setField(risk, 'status', event.target.value)}
+                      className="border rounded px-1 py-0.5 bg-white"
+                    >
+                      {RISK_STATUSES.map((status) => <option key={status} value={status}>{t(`risks.status.${status}`)}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1 text-gray-600">
+                    {t('risks.owner')}
+                    {model.team.length > 0 ? (
+                      <select
+                        value={risk.owner ?? ''}
+                        onChange={(event) => setField(risk, 'owner', event.target.value || undefined)}
+                        className="border rounded px-1 py-0.5 bg-white"
+                      >
+                        <option value="">{t('risks.noOwner')}</option>
+                        {model.team.map((role) => <option key={role.id} value={role.id}>{role.title}</option>)}
+                      </select>
+                    ) : (
+                      <input
+                        value={risk.owner ?? ''}
+                        onChange={(event) => setField(risk, 'owner', event.target.value || undefined)}
+                        placeholder={t('risks.noOwner')}
+                        className="border rounded px-1 py-0.5 w-24"
+                      />
+                    )}
+                  </label>
+                  <label className={`flex items-center gap-1 ${overdue ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                    <CalendarClock className="w-3 h-3" />
+                    {t('risks.reviewDate')}
+                    <input
+                      type="date"
+                      value={risk.reviewDate ?? ''}
+                      onChange={(event) => setField(risk, 'reviewDate', event.target.value || undefined)}
+                      className="border rounded px-1 py-0.5 bg-white"
+                    />
+                    {overdue && t('risks.overdue')}
+                  </label>
+                </div>
+                {risk.components.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2 text-xs">
+                    <span className="text-gray-500">{t('risks.components')}</span>
+                    {risk.components.map((name) => (
+                      <span key={name} className="px-2 py-0.5 rounded bg-white border text-gray-700">{label(name)}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-gray-500">{t('risks.editHint')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskRegister;
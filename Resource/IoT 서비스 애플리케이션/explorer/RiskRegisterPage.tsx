@@ -0,0 +1,45 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ARCHITECTURE_VERSIONS } from '../architecture/model';
+import type { ArchitectureVersion } from '../architecture/model';
+import RiskRegister from './RiskRegister';
+import { useI18n } from './i18n';
+import { useUrlState } from './router';
+import { useTabs } from './a11y';
+
+// 모든 버전의 리스크 레지스터 - V2 외의 버전에도 리스크를 추가할 수 있음
+const RiskRegisterPage = () => {
+  const { t, architectures } = useI18n();
+  const [versionParam, setVersion] = useUrlState('version', 'v2');
+  const version = ARCHITECTURE_VERSIONS.find((candidate) => candidate === versionParam) ?? 'v2';
+  const versionTabs = useTabs('risk-versions', ARCHITECTURE_VERSIONS, version, setVersion);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
+      <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">
+        {t('risks.title')}
+      </h1>
+
+      <div {...versionTabs.tabListProps} aria-label={t('risks.title')} className="mb-6 p-4 bg-white rounded-lg border flex flex-wrap items-center gap-2">
+        <ShieldAlert className="w-6 h-6 text-orange-600 mr-2" aria-hidden />
+        {ARCHITECTURE_VERSIONS.map((candidate: ArchitectureVersion) => (
+          <button
+            key={candidate}
+            {...versionTabs.tabProps(candidate)}
+            className={`px-3 py-1 rounded-md text-sm font-medium ${
+              version === candidate ? 'bg-orange-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {t(`nav.${candidate}`)} ({architectures[candidate].challenges.length})
+          </button>
+        ))}
+      </div>
+
+      <div {...versionTabs.panelProps}>
+        <RiskRegister version={version} />
+      </div>
+    </div>
+  );
+};
+
+export default RiskRegisterPage;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Binary } from 'lucide-react';
+import type { Feature, RoadmapSlot } from '../architecture/model';
+import ArchitectureIcon from './icons';
+import { useI18n } from './i18n';
+
+interface RoadmapTimelineProps {
+  technologies: Feature[];
+  integrations: Feature[];
+  selectedTechnology: string | null;
+  onSelectTechnology: (id: string) => void;
+}
+
+const QUARTERS: { id: RoadmapSlot['quarter']; label: string; color: string }[] = [
+  { id: 'Q1', label: 'Q1', color: 'bg-blue-200' },
+  { id: 'Q2', label: 'Q2', color: 'bg-blue-300' },
+  { id: 'Q3', label: 'Q3', color: 'bg-blue-400 text-white' },
+  { id: 'Q4', label: 'Q4', color: 'bg-blue-500 text-white' },
+  { id: 'beyond', label: 'roadmap.beyond', color: 'bg-gray-300' }
+];
+
+// 분기 축 위에 핵심 기술과 미래 통합 기술을 두 개의 레인으로 배치
+const RoadmapTimeline = ({ technologies, integrations, selectedTechnology, onSelectTechnology }: RoadmapTimelineProps) => {
+  const { t } = useI18n();
+  const unscheduled = [...technologies, ...integrations].filter((feature) => !feature.roadmap);
+  const inQuarter = (features: Feature[], quarter: RoadmapSlot['quarter']) =>
+    features.filter((feature) => feature.roadmap?.quarter === quarter);
+
+  const lanes = [
+    {
+      title: t('roadmap.technologies'),
+      render: (quarter: RoadmapSlot['quarter']) =>
+        inQuarter(technologies, quarter).map((technology) => (
+          <button
+            key={technology.id}
+            onClick={() => onSelectTechnology(technology.id)}
+            aria-pressed={selectedTechnology === technology.id}
+            className={`w-full text-left p-2 rounded-md border text-sm transition-all ${
+              selectedTechnology === technology.id
+                ? 'bg-purple-600 text-white border-purple-600 shadow-lg'
+                : 'bg-white hover:border-purple-400'
+            }`}
+          >
+            <span className="font-medium flex items-center gap-1">
+              <ArchitectureIcon name={technology.icon} className="w-4 h-4" />
+              {technology.title}
+            </span>
+            <span className="block text-xs opacity-80 mt-1">{technology.roadmap?.milestone}</span>
+          </button>
+        ))
+    },
+    {
+      title: t('roadmap.integrations'),
+      render: (quarter: RoadmapSlot['quarter']) =>
+        inQuarter(integrations, quarter).map((integration) => (
+          <div key={integration.id} className="p-2 rounded-md border bg-white text-sm">
+            <span className="font-medium">{integration.title}</span>
+            <span className="block text-xs text-gray-500 mt-1">{integration.roadmap?.milestone}</span>
+            <ul className="mt-1 space-y-0.5">
+              {(integration.features ?? []).map((feature, idx) => (
+                <li key={idx} className="text-xs text-gray-600 flex items-start gap-1">
+                  <Binary className="w-3 h-3 text-blue-500 mt-0.5 flex-shrink-0" />
+                  {feature}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+    }
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid gap-2 min-w-[720px]" style={{ gridTemplateColumns: `8rem repeat(${QUARTERS.length}, minmax(0, 1fr))` }}>
+        <div />
+        {QUARTERS.map((quarter) => (
+          <div key={quarter.id} className={`rounded p-2 text-sm font-medium text-center ${quarter.color}`}>
+            {t(quarter.label)}
+          </div>
+        ))}
+
+        {lanes.map((lane) => (
+          <React.Fragment key={lane.title}>
+            <div className="text-sm font-semibold text-gray-700 pt-2">{lane.title}</div>
+            {QUARTERS.map((quarter) => (
+              <div key={quarter.id} className="space-y-2 p-1 border-l-2 border-dashed border-blue-200">
+                {lane.render(quarter.id)}
+              </div>
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {unscheduled.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          {t('roadmap.unscheduled', { titles: unscheduled.map((feature) => feature.title).join(', ') })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RoadmapTimeline;
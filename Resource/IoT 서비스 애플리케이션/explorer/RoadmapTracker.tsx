@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Download, Upload, ListChecks, PackageCheck } from 'lucide-react';
+import {
+  TrackerLoadError, WORK_ITEM_STATUSES, burnUp, parseTrackerState, phaseProgress, phaseWorkItems, serializeTrackerState, todayIso
+} from '../architecture/tracker';
+import type { BurnUpPoint, WorkItem, WorkItemStatus } from '../architecture/tracker';
+import type { ArchitectureVersion, Phase } from '../architecture/model';
+import { useRoadmapProgress } from './progress';
+import { useI18n } from './i18n';
+
+interface RoadmapTrackerProps {
+  version: ArchitectureVersion;
+  phases: Phase[];
+  // 작업 항목에 연결할 수 있는 구성 요소 이름
+  components: string[];
+}
+
+const STATUS_STYLES: Record<WorkItemStatus, { bar: string; badge: string }> = {
+  todo: { bar: '#d1d5db', badge: 'bg-gray-100 text-gray-700' },
+  'in-progress': { bar: '#3b82f6', badge: 'bg-blue-100 text-blue-700' },
+  done: { bar: '#22c55e', badge: 'bg-green-100 text-green-700' },
+  blocked: { bar: '#ef4444', badge: 'bg-red-100 text-red-700' }
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const PADDING = 24;
+
+// 범위선(점선)과 완료선을 같은 축에 그림 - 두 선이 만나면 단계 완료
+const BurnUpChart = ({ series }: { series: BurnUpPoint[] }) => {
+  const { t } = useI18n();
+  const scope = Math.max(1, ...series.map((point) => point.scope));
+  const x = (idx: number) => PADDING + (series.length > 1 ? (idx / (series.length - 1)) * (CHART_WIDTH - PADDING * 2) : 0);
+  const y = (value: number) => CHART_HEIGHT - PADDING - (value / scope) * (CHART_HEIGHT - PADDING * 2);
+  const line = (key: 'scope' | 'done') => series.map((point, idx) => `${x(idx)},${y(point[key])}`).join(' ');
+  const last = series[series.length - 1];
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{t('tracker.burnUp')}</h4>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label={t('tracker.burnUp')}>
+        <line x1={PADDING} y1={CHART_HEIGHT - PADDING} x2={CHART_WIDTH - PADDING} y2={CHART_HEIGHT - PADDING} stroke="#9ca3af" />
+        <line x1={PADDING} y1={PADDING} x2={PADDING} y2={CHART_HEIGHT - PADDING} stroke="#9ca3af" />
+        <polyline points={line('scope')} fill="none" stroke="#6b7280" strokeDasharray="4 3" strokeWidth={1.5} />
+        <polyline points={line('done')} fill="none" stroke="#22c55e" strokeWidth={2} />
+        {series.length === 1 && <circle cx={x(0)} cy={y(last.done)} r={3} fill="#22c55e" />}
+        <text x={PADDING - 4} y={y(scope) + 4} textAnchor="end" fontSize={10} fill="#6b7280">{scope}</text>
+        <text x={PADDING - 4} y={CHART_HEIGHT - PADDING + 4} textAnchor="end" fontSize={10} fill="#6b7280">0</text>
+        <text x={PADDING} y={CHART_HEIGHT - 8} fontSize={10} fill="#6b7280">{series[0].date}</text>
+        <text x={CHART_WIDTH - PADDING} y={CHART_HEIGHT - 8} textAnchor="end" fontSize={10} fill="#6b7280">{last.date}</text>
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-4 border-t-2 border-dashed border-gray-500" />{t('tracker.scope')}</span>
+        <span className="flex items-center gap-1"><span className="w-4 border-t-2 border-green-500" />{t('tracker.done')}</span>
+      </div>
+    </div>
+  );
+};
+
+const WorkItemRow = ({ item, components }: { item: WorkItem; components: string[] }) => {
+  const { t, label } = useI18n();
+  const { update } = useRoadmapProgress();
+  const KindIcon = item.kind === 'tasks' ? ListChecks : PackageCheck;
+  const toggleComponent = (name: string) =>
+    update(item.key, {
+      components: item.components.includes(name)
+        ? item.components.filter((linked) => linked !== name)
+        : [...item.components, name]
+    });
+
+  return (
+    <li className="border rounded-md p-2 space-y-2">
+      <div className="flex items-start gap-2 text-sm">
+        <KindIcon className="w-4 h-4 mt-0.5 text-gray-500 flex-shrink-0" aria-label={t(`tracker.kinds.${item.kind}`)} />
+        <span className={`flex-1 ${item.status === 'done' ? 'line-through text-gray-500' : ''}`}>{item.title}</span>
+        <select
+          value={item.status}
+          onChange={(event) => update(item.key, { status: event.target.value as WorkItemStatus })}
+          className={`text-xs rounded px-1 py-0.5 ${STATUS_STYLES[item.status].badge}`}
+          aria-label={t('tracker.statusLabel')}
+        >
+          {WORK_ITEM_STATUSES.map((status) => (
+            <option key={status} value={status}>{t(`tracker.status.${status}`)}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        <input
+          value={item.owner ?? ''}
+          onChange={(event) => update(item.key, { owner: event.target.value || undefined })}
+          placeholder={t('tracker.owner')}
+          aria-label={t('tracker.owner')}
+          className="border rounded px-2 py-0.5 w-28"
+        />
+        <input
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={item.estimate ?? ''}
+          onChange={(event) => update(item.key, { estimate: Number(event.target.value) > 0 ? Number(event.target.value) : undefined })}
+          placeholder={t('tracker.estimate')}
+          aria-label={t('tracker.estimate')}
+          className="border rounded px-2 py-0.5 w-24"
+        />
+        <details className="relative">
+          <summary className="cursor-pointer text-gray-600">
+            {item.components.length > 0 ? item.components.map(label).join(', ') : t('tracker.linkComponents')}
+          </summary>
+          <div className="absolute z-10 mt-1 bg-white border rounded-md shadow-lg p-2 max-h-48 overflow-y-auto w-64">
+            {components.map((name) => (
+              <label key={name} className="flex items-center gap-2 py-0.5">
+                <input type="checkbox" checked={item.components.includes(name)} onChange={() => toggleComponent(name)} />
+                {label(name)}
+              </label>
+            ))}
+          </div>
+        </details>
+      </div>
+    </li>
+  );
+};
+
+const downloadProgress = (content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'roadmap-progress.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// 구현 단계별 작업 항목 추적 - 진행률 막대와 번업 차트, 상태는 localStorage 또는 JSON 파일로 유지
+const RoadmapTracker = ({ version, phases, components }: RoadmapTrackerProps) => {
+  const { t } = useI18n();
+  const { state, replace } = useRoadmapProgress();
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const today = todayIso();
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      replace(parseTrackerState(await file.text(), file.name));
+      setImportIssues([]);
+    } catch (error) {
+      setImportIssues(error instanceof TrackerLoadError ? error.issues : [(error as Error).message]);
+    }
+  };
+
+  const toolbarButton = 'px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center gap-1';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 justify-end">
+        <button className={toolbarButton} onClick={() => downloadProgress(serializeTrackerState(state))}>
+          <Download className="w-4 h-4" />{t('tracker.export')}
+        </button>
+        <label className={`${toolbarButton} cursor-pointer focus-within:ring-2 focus-within:ring-blue-500`}>
+          <Upload className="w-4 h-4" />{t('tracker.import')}
+          <input type="file" accept=".json" className="sr-only" onChange={handleFile} />
+        </label>
+      </div>
+      {importIssues.length > 0 && (
+        <ul className="text-xs text-red-700 space-y-1">
+          <li className="font-medium">{t('tracker.importFailed')}</li>
+          {importIssues.map((issue, idx) => <li key={idx}>• {issue}</li>)}
+        </ul>
+      )}
+
+      {phases.map((phase) => {
+        const workItems = phaseWorkItems(version, phase, state);
+        const progress = phaseProgress(workItems);
+        return (
+          <div key={phase.id} className="bg-white p-4 rounded-lg border">
+            <div className="flex flex-wrap items-baseline gap-2 mb-2">
+              <h3 className="font-semibold">{phase.title}</h3>
+              <span className="ml-auto text-sm text-gray-600">
+                {t('tracker.progress', { done: progress.donePoints, points: progress.points, percent: Math.round(progress.ratio * 100) })}
+              </span>
+            </div>
+            <div className="flex w-full h-2 rounded overflow-hidden bg-gray-100 mb-2" aria-hidden="true">
+              {WORK_ITEM_STATUSES.map((status) => (
+                <span
+                  key={status}
+                  style={{ width: `${progress.total > 0 ? (progress.byStatus[status] / progress.total) * 100 : 0}%`, background: STATUS_STYLES[status].bar }}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 mb-4 text-xs">
+              {WORK_ITEM_STATUSES.map((status) => (
+                <span key={status} className={`px-2 py-0.5 rounded ${STATUS_STYLES[status].badge}`}>
+                  {t(`tracker.status.${status}`)} {progress.byStatus[status]}
+                </span>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-3">
+                {(['tasks', 'deliverables'] as const).map((kind) => (
+                  <div key={kind}>
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">{t(`tracker.kinds.${kind}`)}</h4>
+                    <ul className="space-y-2">
+                      {workItems.filter((item) => item.kind === kind).map((item) => (
+                        <WorkItemRow key={item.key} item={item} components={components} />
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+              <BurnUpChart series={burnUp(workItems, today)} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RoadmapTracker;
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, CornerDownLeft } from 'lucide-react';
+import { SEARCH_LABELS, buildSearchIndex, searchDocuments, searchUrl } from '../architecture/search';
+import type { MatchRange, SearchLabels, SearchResult } from '../architecture/search';
+import { useI18n } from './i18n';
+import { navigate } from './router';
+
+const versionLabels = {
+  overview: 'search.overview',
+  v1: 'V1',
+  v2: 'V2',
+  v3: 'V3',
+  v4: 'V4'
+};
+
+// 매치 구간을 <mark> 로 감싸서 표시
+const Highlighted = ({ text, ranges }: { text: string; ranges: MatchRange[] }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, idx) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark key={idx} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Ctrl+K (macOS 는 Cmd+K) 로 여는 전체 검색 팔레트
+const SearchPalette = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const { locale, t, label, architectures } = useI18n();
+  const index = useMemo(() => {
+    const labels = Object.fromEntries(
+      Object.keys(SEARCH_LABELS).map((key) => [key, t(`search.labels.${key}`)])
+    ) as SearchLabels;
+    return buildSearchIndex(architectures, labels, label);
+  }, [architectures, t, label]);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  // 팔레트를 닫으면 열기 전에 포커스가 있던 요소로 되돌림
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const results = useMemo(() => searchDocuments(index, query), [index, query]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (open) {
+      returnFocusRef.current = document.activeElement as HTMLElement | null;
+      inputRef.current?.focus();
+    } else {
+      returnFocusRef.current?.focus();
+      returnFocusRef.current = null;
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!open) return null;
+
+  const select = (result: SearchResult) => {
+    navigate(searchUrl(result.document));
+    onOpenChange(false);
+    setQuery('');
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(Math.min(results.length - 1, activeIndex + 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(Math.max(0, activeIndex - 1));
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      select(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      onOpenChange(false);
+    } else if (event.key === 'Tab') {
+      // 대화 상자 안의 포커스 가능한 요소는 입력창 하나뿐이므로 포커스를 가둠
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center pt-24 px-4"
+      onClick={(event) => event.target === event.currentTarget && onOpenChange(false)}
+    >
+      <div role="dialog" aria-modal="true" aria-label={t('nav.search')} className="w-full max-w-2xl bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-3 border-b">
+          <Search className="w-5 h-5 text-gray-400" aria-hidden />
+          <input
+            ref={inputRef}
+            role="combobox"
+            aria-label={t('search.placeholder')}
+            aria-autocomplete="list"
+            aria-expanded={results.length > 0}
+            aria-controls="search-results"
+            aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder={t('search.placeholder')}
+            className="flex-1 outline-none text-sm"
+          />
+          <kbd className="text-xs text-gray-400 border rounded px-1">Esc</kbd>
+        </div>
+
+        {query.trim() && results.length === 0 && (
+          <p className="px-4 py-6 text-center text-sm text-gray-500" role="status">{t('search.empty')}</p>
+        )}
+        {results.length > 0 && (
+          <ul ref={listRef} id="search-results" role="listbox" aria-label={t('nav.search')} className="max-h-96 overflow-y-auto py-2">
+            {results.map((result, idx) => (
+              <li
+                key={result.document.id}
+                id={`search-result-${idx}`}
+                role="option"
+                aria-selected={idx === activeIndex}
+                onClick={() => select(result)}
+                onMouseEnter={() => setActiveIndex(idx)}
+                className={`px-4 py-2 cursor-pointer ${idx === activeIndex ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700 font-medium">
+                    {t(versionLabels[result.document.version])}
+                  </span>
+                  <span className="font-medium text-sm">
+                    <Highlighted text={result.document.title} ranges={result.titleRanges} />
+                  </span>
+                  <span className="text-xs text-gray-400 truncate">{result.document.context}</span>
+                  {idx === activeIndex && <CornerDownLeft className="w-3 h-3 text-gray-400 ml-auto" aria-hidden />}
+                </div>
+                {result.snippet && (
+                  <div className="text-xs text-gray-600 mt-1 truncate">
+                    <span className="text-gray-400 mr-1">{result.snippet.label}:</span>
+                    <Highlighted text={result.snippet.text} ranges={result.snippet.ranges} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
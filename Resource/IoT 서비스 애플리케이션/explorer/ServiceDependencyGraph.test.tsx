@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { architectures } from '../architecture/data';
+import ServiceDependencyGraph from './ServiceDependencyGraph';
+
+const renderGraph = () => render(<ServiceDependencyGraph model={architectures.v3} />);
+const scale = (svg: Element) => svg.querySelector('g')?.getAttribute('transform')?.match(/scale\(([\d.]+)\)/)?.[1];
+
+describe('ServiceDependencyGraph', () => {
+  afterEach(cleanup);
+
+  it('휠로 확대하면서 페이지 스크롤은 막음', () => {
+    renderGraph();
+    const svg = screen.getByRole('group');
+    const wheel = new WheelEvent('wheel', { deltaY: -100, bubbles: true, cancelable: true });
+    act(() => { svg.dispatchEvent(wheel); });
+    expect(wheel.defaultPrevented).toBe(true);
+    expect(scale(svg)).toBe('1.1');
+  });
+
+  it('언마운트하면 휠 리스너를 해제', () => {
+    const { unmount } = renderGraph();
+    const svg = screen.getByRole('group');
+    const remove = vi.spyOn(svg, 'removeEventListener');
+    unmount();
+    expect(remove).toHaveBeenCalledWith('wheel', expect.any(Function));
+  });
+});
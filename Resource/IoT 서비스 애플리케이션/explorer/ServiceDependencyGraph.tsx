@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, RefreshCw, Flame, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { analyzeServiceDependencies } from '../architecture/dependency-graph';
+import type { GraphNode } from '../architecture/dependency-graph';
+import type { ArchitectureModel } from '../architecture/model';
+import { useI18n } from './i18n';
+import { pressable } from './a11y';
+
+const WIDTH = 900;
+const HEIGHT = 640;
+const NODE_RADIUS = 28;
+
+const nodeStyles = {
+  service: { fill: '#EDE9FE', stroke: '#7C3AED', dash: undefined },
+  infrastructure: { fill: '#DBEAFE', stroke: '#2563EB', dash: undefined },
+  unresolved: { fill: '#FEE2E2', stroke: '#DC2626', dash: '4 3' }
+};
+
+// 서비스는 안쪽 원, 인프라/미정의 대상은 바깥 원에 배치
+function layoutNodes(nodes: GraphNode[]) {
+  const positions = new Map<string, { x: number; y: number }>();
+  const rings = [
+    { members: nodes.filter((node) => node.kind === 'service'), radius: 170 },
+    { members: nodes.filter((node) => node.kind !== 'service'), radius: 280 }
+  ];
+  rings.forEach(({ members, radius }, ringIdx) => {
+    members.forEach((node, idx) => {
+      const angle = (idx / members.length) * Math.PI * 2 - Math.PI / 2 + ringIdx * 0.2;
+      positions.set(node.id, {
+        x: WIDTH / 2 + Math.cos(angle) * radius,
+        y: HEIGHT / 2 + Math.sin(angle) * radius
+      });
+    });
+  });
+  return positions;
+}
+
+const ServiceDependencyGraph = ({ model, architectureId }: { model: ArchitectureModel; architectureId?: string }) => {
+  const { t, label } = useI18n();
+  const report = useMemo(() => analyzeServiceDependencies(model, { architectureId }), [model, architectureId]);
+  const positions = useMemo(() => layoutNodes(report.nodes), [report]);
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const hotspotIds = new Set(report.hotspots.map((node) => node.id));
+  const cycleIds = new Set(report.cycles.flat());
+  const selected = report.nodes.find((node) => node.id === selectedNode);
+
+  const zoom = (factor: number) => setView((prev) => ({ ...prev, k: Math.min(3, Math.max(0.4, prev.k * factor)) }));
+
+  // React 의 onWheel 은 passive 리스너라 preventDefault 가 무시됨 - 페이지 스크롤을 막으려면 직접 등록
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return undefined;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoom(event.deltaY < 0 ? 1.1 : 0.9);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    dragRef.current = { x: event.clientX - view.x, y: event.clientY - view.y };
+    (event.currentTarget as Element).setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const origin = dragRef.current;
+    setView((prev) => ({ ...prev, x: event.clientX - origin.x, y: event.clientY - origin.y }));
+  };
+
+  // 노드 중심에서 반지름만큼 떨어진 지점까지만 선을 그려 화살표가 원에 닿게 함
+  const edgePoints = (from: string, to: string) => {
+    const a = positions.get(from)!;
+    const b = positions.get(to)!;
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const dx = ((b.x - a.x) / length) * NODE_RADIUS;
+    const dy = ((b.y - a.y) / length) * NODE_RADIUS;
+    return { x1: a.x + dx, y1: a.y + dy, x2: b.x - dx, y2: b.y - dy };
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <div className="lg:col-span-2 border rounded-lg bg-white relative overflow-hidden">
+        <div className="absolute top-2 right-2 flex gap-1 z-10">
+          {([
+            ['dependencyGraph.zoomIn', ZoomIn, () => zoom(1.2)],
+            ['dependencyGraph.zoomOut', ZoomOut, () => zoom(0.8)],
+            ['dependencyGraph.reset', Maximize2, () => setView({ x: 0, y: 0, k: 1 })]
+          ] as const).map(([labelKey, Icon, action]) => (
+            <button key={labelKey} onClick={action} className="p-1 rounded bg-gray-100 hover:bg-gray-200" title={t(labelKey)} aria-label={t(labelKey)}>
+              <Icon className="w-4 h-4" aria-hidden />
+            </button>
+          ))}
+        </div>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-[480px] cursor-grab active:cursor-grabbing select-none"
+          role="group"
+          aria-label={t('dependencyGraph.label')}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+        >
+          <defs>
+            {['#9CA3AF', '#DC2626', '#EA580C'].map((color) => (
+              <marker key={color} id={`arrow-${color.slice(1)}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill={color} />
+              </marker>
+            ))}
+          </defs>
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+            {report.edges.map((edge, idx) => {
+              const color = !edge.resolved ? '#DC2626' : edge.inCycle ? '#EA580C' : '#9CA3AF';
+              const highlighted = selectedNode && (edge.from === selectedNode || edge.to === selectedNode);
+              return (
+                <line
+                  key={idx}
+                  {...edgePoints(edge.from, edge.to)}
+                  stroke={color}
+                  strokeWidth={highlighted ? 2.5 : 1.2}
+                  strokeDasharray={edge.resolved ? undefined : '5 4'}
+                  opacity={selectedNode && !highlighted ? 0.25 : 1}
+                  markerEnd={`url(#arrow-${color.slice(1)})`}
+                />
+              );
+            })}
+            {report.nodes.map((node) => {
+              const { x, y } = positions.get(node.id)!;
+              const style = nodeStyles[node.kind];
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${x} ${y})`}
+                  className="cursor-pointer"
+                  onPointerDown={(event) => event.stopPropagation()}
+                  {...pressable(() => setSelectedNode(selectedNode === node.id ? null : node.id))}
+                  aria-pressed={selectedNode === node.id}
+                  aria-label={t('dependencyGraph.node', { name: label(node.id), fanIn: node.fanIn, fanOut: node.fanOut })}
+                >
+                  {hotspotIds.has(node.id) && (
+                    <circle r={NODE_RADIUS + 6} fill="none" stroke="#F59E0B" strokeWidth={3} opacity={0.7} />
+                  )}
+                  <circle
+                    r={NODE_RADIUS}
+                    fill={style.fill}
+                    stroke={cycleIds.has(node.id) ? '#EA580C' : style.stroke}
+                    strokeWidth={selectedNode === node.id ? 4 : 2}
+                    strokeDasharray={style.dash}
+                  />
+                  <text y={NODE_RADIUS + 14} textAnchor="middle" fontSize="11" fill="#374151">
+                    {label(node.id)}
+                  </text>
+                  <text y={4} textAnchor="middle" fontSize="11" fontWeight="600" fill="#4B5563">
+                    {node.fanIn}/{node.fanOut}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+        <div className="px-3 pb-2 text-xs text-gray-500 flex gap-4 flex-wrap">
+          <span>{t('dependencyGraph.legend.counts')}</span>
+          <span className="text-purple-600">{t('dependencyGraph.legend.service')}</span>
+          <span className="text-blue-600">{t('dependencyGraph.legend.infrastructure')}</span>
+          <span className="text-red-600">{t('dependencyGraph.legend.unresolved')}</span>
+          <span className="text-orange-600">{t('dependencyGraph.legend.cycle')}</span>
+          <span className="text-yellow-600">{t('dependencyGraph.legend.hotspot')}</span>
+        </div>
+      </div>
+
+      {/* 선택 노드 상세 및 분석 결과 */}
+      <div className="space-y-4">
+        <div aria-live="polite">
+          {selected && (
+            <div className="border rounded-lg p-4 bg-white">
+              <h4 className="font-semibold mb-1">{label(selected.id)}</h4>
+              {selected.service ? (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">{selected.service.tech}</p>
+                  <p className="text-sm text-gray-700 mb-2">{selected.service.responsibility}</p>
+                </>
+              ) : (
+                <p className={`text-sm mb-2 ${selected.kind === 'unresolved' ? 'text-red-600' : 'text-blue-600'}`}>
+                  {t(selected.kind === 'unresolved' ? 'dependencyGraph.undefinedService' : 'dependencyGraph.infrastructureComponent')}
+                </p>
+              )}
+              <div className="text-xs text-gray-600 space-y-1">
+                <p><span className="font-medium">{t('dependencyGraph.callers')}</span> {report.edges.filter((edge) => edge.to === selected.id).map((edge) => label(edge.from)).join(', ') || t('dependencyGraph.none')}</p>
+                <p><span className="font-medium">{t('dependencyGraph.dependencies')}</span> {report.edges.filter((edge) => edge.from === selected.id).map((edge) => label(edge.to)).join(', ') || t('dependencyGraph.none')}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="border rounded-lg p-4 bg-red-50 border-red-200">
+          <h4 className="font-semibold text-red-800 mb-2 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {t('dependencyGraph.unresolved', { count: report.unresolved.length })}
+          </h4>
+          <ul className="space-y-1 text-xs text-red-700">
+            {report.unresolved.map((ref, idx) => (
+              <li key={idx}>
+                • {label(ref.from)} → <strong>{label(ref.target)}</strong>
+                {ref.suggestion && <span className="text-red-500">{t('dependencyGraph.suggestion', { name: label(ref.suggestion) })}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="border rounded-lg p-4 bg-orange-50 border-orange-200">
+          <h4 className="font-semibold text-orange-800 mb-2 flex items-center gap-2">
+            <RefreshCw className="w-4 h-4" />
+            {t('dependencyGraph.cycles', { count: report.cycles.length })}
+          </h4>
+          {report.cycles.length === 0 ? (
+            <p className="text-xs text-orange-700">{t('dependencyGraph.noCycles')}</p>
+          ) : (
+            <ul className="space-y-1 text-xs text-orange-700">
+              {report.cycles.map((cycle, idx) => (
+                <li key={idx}>• {[...cycle, cycle[0]].map(label).join(' → ')}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="border rounded-lg p-4 bg-yellow-50 border-yellow-200">
+          <h4 className="font-semibold text-yellow-800 mb-2 flex items-center gap-2">
+            <Flame className="w-4 h-4" />
+            {t('dependencyGraph.hotspots')}
+          </h4>
+          <ul className="space-y-1 text-xs text-yellow-700">
+            {report.hotspots.map((node) => (
+              <li key={node.id}>• {t('dependencyGraph.hotspot', { name: label(node.id), count: node.fanIn })}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceDependencyGraph;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import type { TeamRole } from '../architecture/model';
+import { LABEL_TAGS, useI18n } from './i18n';
+import { navigate, withPersistentParams } from './router';
+
+// 탐색기 하단의 팀 역할 분담 - 역할 데이터를 두 열로 나눠 표시하고 업무량 화면으로 연결
+const TeamRoles = ({ roles }: { roles: TeamRole[] }) => {
+  const { t, rich } = useI18n();
+  const half = Math.ceil(roles.length / 2);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        {[roles.slice(0, half), roles.slice(half)].map((column, idx) => (
+          <div key={idx} className="space-y-1">
+            {column.map((role) => (
+              <p key={role.id}>
+                {role.headcount > 1
+                  ? rich('team.memberCount', { title: role.title, count: role.headcount, focus: role.focus }, LABEL_TAGS)
+                  : rich('team.member', { title: role.title, focus: role.focus }, LABEL_TAGS)}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+      <a
+        href={withPersistentParams('/team')}
+        onClick={(event) => {
+          event.preventDefault();
+          navigate('/team');
+        }}
+        className="mt-3 inline-flex items-center gap-1 text-xs text-green-700 hover:underline"
+      >
+        {t('team.workloadLink')}
+        <ArrowRight className="w-3 h-3" />
+      </a>
+    </>
+  );
+};
+
+export default TeamRoles;
@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { Users, AlertTriangle, CheckCircle, CalendarRange } from 'lucide-react';
+import { phaseStaffing, teamWorkloads, unownedComponents } from '../architecture/team';
+import { ARCHITECTURE_VERSIONS } from '../architecture/model';
+import { useRoadmapProgress } from './progress';
+import { useI18n } from './i18n';
+
+const days = (value: number) => Math.round(value * 10) / 10;
+
+// 역할별 업무량 - 버전 간 담당 범위, 담당자 없는 구성 요소, 단계별 과할당을 한 화면에서 확인
+const TeamWorkload = () => {
+  const { t, label, architectures } = useI18n();
+  const { state } = useRoadmapProgress();
+  const workloads = useMemo(() => teamWorkloads(architectures), [architectures]);
+  const versions = ARCHITECTURE_VERSIONS.filter((version) => architectures[version].team.length > 0);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
+      <h1 className="text-3xl font-bold text-center mb-8 text-gray-800">
+        {t('team.title')}
+      </h1>
+
+      {/* 버전별 역할 업무량 */}
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+          <Users className="w-6 h-6 text-green-600" />
+          {t('team.workload')}
+        </h2>
+        <div className="overflow-x-auto bg-white rounded-lg border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-gray-50 text-left">
+                <th className="p-3">{t('team.role')}</th>
+                {versions.map((version) => <th key={version} className="p-3">{t(`nav.${version}`)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {workloads.map((workload) => (
+                <tr key={workload.id} className="border-b align-top">
+                  <td className="p-3 font-medium">{workload.title}</td>
+                  {versions.map((version) => {
+                    const load = workload.versions[version];
+                    return (
+                      <td key={version} className="p-3">
+                        {load ? (
+                          <>
+                            <p className="text-gray-600">{load.focus}</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {t('team.summary', { headcount: load.headcount, components: load.components.length, features: load.features.length, tasks: load.tasks.length })}
+                            </p>
+                            {load.components.length > 0 && (
+                              <p className="text-xs text-gray-400 mt-1" title={load.components.map(label).join(', ')}>
+                                {load.components.map(label).join(', ')}
+                              </p>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* 담당자 없는 구성 요소 */}
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+          <AlertTriangle className="w-6 h-6 text-orange-600" />
+          {t('team.unowned')}
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {versions.map((version) => {
+            const unowned = unownedComponents(architectures[version]);
+            return (
+              <div key={version} className="bg-white p-4 rounded-lg border">
+                <h3 className="font-semibold mb-2">{t(`nav.${version}`)}</h3>
+                {unowned.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {unowned.map((name) => (
+                      <span key={name} className="text-xs px-2 py-0.5 rounded bg-orange-100 text-orange-700">{label(name)}</span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700 flex items-center gap-1">
+                    <CheckCircle className="w-4 h-4" />
+                    {t('team.allOwned')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 구현 단계별 인력 배분 */}
+      <div>
+        <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+          <CalendarRange className="w-6 h-6 text-blue-600" />
+          {t('team.phases')}
+        </h2>
+        <p className="text-xs text-gray-500 mb-4">{t('team.estimateHint')}</p>
+        <div className="space-y-4">
+          {versions.filter((version) => architectures[version].phases.length > 0).flatMap((version) =>
+            phaseStaffing(architectures[version], state).map(({ phase, allocations, unassigned }) => (
+              <div key={`${version}/${phase.id}`} className="bg-white p-4 rounded-lg border">
+                <h3 className="font-semibold mb-3">
+                  <span className="text-xs text-gray-500 mr-2">{t(`nav.${version}`)}</span>
+                  {phase.title}
+                </h3>
+                <div className="space-y-2">
+                  {allocations.map(({ role, tasks, load, capacity, overAllocated }) => (
+                    <div key={role.id} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center text-sm">
+                      <span className="font-medium flex items-center gap-1">
+                        {overAllocated && <AlertTriangle className="w-4 h-4 text-red-600" aria-label={t('team.overAllocated')} />}
+                        {role.title}
+                      </span>
+                      <div className="md:col-span-2">
+                        <div className="w-full h-2 rounded bg-gray-100 overflow-hidden">
+                          <div
+                            className={`h-2 ${overAllocated ? 'bg-red-500' : 'bg-green-500'}`}
+                            style={{ width: `${capacity ? Math.min(load / capacity, 1) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{tasks.join(', ')}</p>
+                      </div>
+                      <span className={`text-right ${overAllocated ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                        {capacity === undefined
+                          ? t('team.loadNoCapacity', { load: days(load) })
+                          : t('team.load', { load: days(load), capacity })}
+                        {overAllocated && ` · ${t('team.overAllocated')}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {unassigned.length > 0 && (
+                  <p className="mt-3 text-xs text-orange-700">{t('team.unassigned', { tasks: unassigned.join(', ') })}</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamWorkload;
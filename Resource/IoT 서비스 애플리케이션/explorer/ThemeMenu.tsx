@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Moon, Sun, Palette, ChevronDown, Upload, Check } from 'lucide-react';
+import { DEFAULT_PRESET, importStyleSettings, ThemeImportError } from '../architecture/theme';
+import { useI18n } from './i18n';
+import { useTheme } from './theme';
+
+// 라이트/다크 전환과 Obsidian Style Settings 프리셋 선택/가져오기
+const ThemeMenu = () => {
+  const { mode, setMode, presets, preset, setPresetId, addPreset } = useTheme();
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      addPreset(importStyleSettings(await file.text(), file.name));
+      setIssues([]);
+    } catch (error) {
+      setIssues(error instanceof ThemeImportError ? error.issues : [(error as Error).message]);
+    }
+  };
+
+  return (
+    <div className="relative flex gap-1" onKeyDown={(event) => event.key === 'Escape' && setOpen(false)}>
+      <button
+        onClick={() => setMode(mode === 'dark' ? 'light' : 'dark')}
+        className="px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200"
+        title={t(mode === 'dark' ? 'theme.toLight' : 'theme.toDark')}
+        aria-label={t(mode === 'dark' ? 'theme.toLight' : 'theme.toDark')}
+      >
+        {mode === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="theme-menu"
+        className="px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center gap-2"
+      >
+        <Palette className="w-4 h-4" aria-hidden />
+        {preset.id === DEFAULT_PRESET.id ? t('theme.defaultPreset') : preset.name}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div id="theme-menu" className="absolute right-0 top-full mt-2 w-72 bg-white border rounded-lg shadow-lg py-2 z-20">
+          {presets.map((candidate) => (
+            <button
+              key={candidate.id}
+              onClick={() => setPresetId(candidate.id)}
+              aria-pressed={candidate.id === preset.id}
+              className="w-full px-4 py-2 text-left hover:bg-gray-50 flex items-center gap-2"
+            >
+              <span className="w-4">{candidate.id === preset.id && <Check className="w-4 h-4 text-blue-600" />}</span>
+              <span
+                className="w-3 h-3 rounded-full border"
+                style={{ background: candidate.tokens[mode].accent ?? 'var(--theme-accent)' }}
+              />
+              <span className="text-sm font-medium">{candidate.id === DEFAULT_PRESET.id ? t('theme.defaultPreset') : candidate.name}</span>
+              {candidate.ignored.length > 0 && (
+                <span className="ml-auto text-xs text-gray-500" title={candidate.ignored.join('\n')}>
+                  {t('theme.unsupported', { count: candidate.ignored.length })}
+                </span>
+              )}
+            </button>
+          ))}
+          <label className="mx-4 mt-2 px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer flex items-center gap-1 focus-within:ring-2 focus-within:ring-blue-500">
+            <Upload className="w-4 h-4" />
+            {t('theme.importJson')}
+            <input type="file" accept=".json" className="sr-only" onChange={handleFile} />
+          </label>
+          {issues.length > 0 && (
+            <ul className="mx-4 mt-2 text-xs text-red-700 space-y-1">
+              {issues.map((issue, idx) => <li key={idx}>• {issue}</li>)}
+            </ul>
+          )}
+          {Object.keys(preset.tokens.light).length === 0 && mode === 'light' && preset.id !== DEFAULT_PRESET.id && (
+            <p className="mx-4 mt-2 text-xs text-gray-500">{t('theme.darkOnly')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeMenu;
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import React from 'react';
+import axe from 'axe-core';
+import { cleanup, fireEvent, render, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { routes } from './ArchitectureExplorer';
+import { ThemeProvider } from './theme';
+
+// 버전별 탐색기 - 탭 목록과 펼치는 카드가 있는 페이지
+const explorers = routes.filter((route) => route.version !== undefined);
+
+const renderExplorer = (Page: () => JSX.Element) => render(<ThemeProvider><Page /></ThemeProvider>);
+
+// jsdom 은 레이아웃과 색을 계산하지 않음 - 명도 대비는 브라우저에서만 확인 가능
+// 페이지만 따로 그리므로 랜드마크(nav/main)는 ArchitectureExplorer 쪽 책임
+const axeOptions: axe.RunOptions = { rules: { 'color-contrast': { enabled: false }, region: { enabled: false } } };
+// 큰 페이지(V2)는 axe 한 번에 수 초 - 기본 5초 제한으로는 느린 CI 에서 시간 초과
+const AXE_TIMEOUT_MS = 30_000;
+
+async function expectNoViolations(container: HTMLElement) {
+  const { violations } = await axe.run(container, axeOptions);
+  expect(violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.target.join(' ')).join(', ')}`)).toEqual([]);
+}
+
+const selectedTabs = (tabList: HTMLElement) => within(tabList).getAllByRole('tab').filter((tab) => tab.getAttribute('aria-selected') === 'true');
+
+// useTabs 의 WAI-ARIA 탭 패턴 - 선택된 탭 하나만 Tab 순서에 있고 패널이 그 탭을 가리킴
+function expectTabPattern(tabList: HTMLElement) {
+  const tabs = within(tabList).getAllByRole('tab');
+  const [selected] = selectedTabs(tabList);
+  expect(selectedTabs(tabList)).toHaveLength(1);
+  expect(tabs.map((tab) => tab.tabIndex)).toEqual(tabs.map((tab) => (tab === selected ? 0 : -1)));
+  const panel = document.getElementById(selected.getAttribute('aria-controls')!);
+  expect(panel?.getAttribute('role')).toBe('tabpanel');
+  expect(panel?.getAttribute('aria-labelledby')).toBe(selected.id);
+}
+
+describe('탐색기 접근성', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    window.localStorage.clear();
+  });
+
+  afterEach(cleanup);
+
+  describe.each(explorers.map((route) => [route.path, route.component] as const))('%s', (_path, Page) => {
+    it('axe 위반 없음', async () => {
+      const { container } = renderExplorer(Page);
+      await expectNoViolations(container);
+    }, AXE_TIMEOUT_MS);
+
+    it('탭 목록은 화살표/Home/End 로 선택과 포커스를 옮김', () => {
+      const { container } = renderExplorer(Page);
+      const tabLists = within(container).queryAllByRole('tablist');
+      for (const tabList of tabLists) {
+        const tabs = within(tabList).getAllByRole('tab');
+        expectTabPattern(tabList);
+
+        const start = tabs.indexOf(selectedTabs(tabList)[0]);
+        fireEvent.keyDown(tabs[start], { key: 'ArrowRight' });
+        const next = tabs[(start + 1) % tabs.length];
+        expect(selectedTabs(tabList)).toEqual([next]);
+        expect(document.activeElement).toBe(next);
+        expectTabPattern(tabList);
+
+        fireEvent.keyDown(next, { key: 'End' });
+        expect(selectedTabs(tabList)).toEqual([tabs[tabs.length - 1]]);
+        fireEvent.keyDown(tabs[tabs.length - 1], { key: 'Home' });
+        expect(selectedTabs(tabList)).toEqual([tabs[0]]);
+        expect(document.activeElement).toBe(tabs[0]);
+      }
+    });
+
+    it('펼치는 카드는 aria-expanded 와 펼친 패널이 맞고 펼친 상태도 axe 통과', async () => {
+      const { container } = renderExplorer(Page);
+      const disclosures = [...container.querySelectorAll<HTMLButtonElement>('button[aria-expanded][aria-controls]')];
+      for (const button of disclosures) {
+        const panelId = button.getAttribute('aria-controls')!;
+        const wasExpanded = button.getAttribute('aria-expanded') === 'true';
+        fireEvent.click(button);
+        expect(button.getAttribute('aria-expanded')).toBe(String(!wasExpanded));
+        expect(document.getElementById(panelId) !== null).toBe(!wasExpanded);
+        if (!wasExpanded) await expectNoViolations(container);
+        fireEvent.click(button);
+        expect(button.getAttribute('aria-expanded')).toBe(String(wasExpanded));
+      }
+    }, AXE_TIMEOUT_MS);
+  });
+
+  it('검사할 탭 목록과 펼치는 카드가 실제로 그려짐', () => {
+    const counts = Object.fromEntries(explorers.map(({ path, component: Page }) => {
+      const { container } = renderExplorer(Page);
+      const count = {
+        tabLists: within(container).queryAllByRole('tablist').length,
+        disclosures: container.querySelectorAll('button[aria-expanded][aria-controls]').length
+      };
+      cleanup();
+      return [path, count];
+    }));
+    // 개요와 V1 은 레이어 카드, V1~V4 는 탭 - 대상이 사라지면 위 테스트가 아무것도 확인하지 않고 통과함
+    ['/v1', '/v2', '/v3', '/v4'].forEach((path) => expect(counts[path].tabLists, path).toBeGreaterThan(0));
+    ['/', '/v1'].forEach((path) => expect(counts[path].disclosures, path).toBeGreaterThan(0));
+  });
+});
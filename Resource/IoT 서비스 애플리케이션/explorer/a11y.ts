@@ -0,0 +1,62 @@
+import type React from 'react';
+import { useRef } from 'react';
+
+// 접근성 공통 도우미 - 탭 목록의 로빙 포커스, 키보드로 누를 수 있는 SVG 요소, 동작 줄이기 설정
+
+const TAB_KEYS: Record<string, (idx: number, count: number) => number> = {
+  ArrowRight: (idx, count) => (idx + 1) % count,
+  ArrowLeft: (idx, count) => (idx - 1 + count) % count,
+  Home: () => 0,
+  End: (_, count) => count - 1
+};
+
+// WAI-ARIA 탭 패턴 - 선택된 탭만 Tab 순서에 들어가고, 화살표/Home/End 로 옮기면 바로 선택됨
+// name 은 페이지 안에서 탭 목록을 구분하는 접두사 (탭과 패널 id 에 사용)
+export function useTabs(name: string, ids: string[], selected: string | null, onSelect: (id: string) => void) {
+  const elements = useRef(new Map<string, HTMLElement>());
+  const current = selected !== null && ids.includes(selected) ? selected : ids[0];
+  const tabId = (id: string) => `${name}-tab-${id}`;
+  const panelId = `${name}-panel`;
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    const move = TAB_KEYS[event.key];
+    if (!move || ids.length === 0) return;
+    event.preventDefault();
+    const next = ids[move(ids.indexOf(current), ids.length)];
+    onSelect(next);
+    elements.current.get(next)?.focus();
+  };
+
+  return {
+    tabListProps: { role: 'tablist', onKeyDown },
+    tabProps: (id: string) => ({
+      id: tabId(id),
+      role: 'tab',
+      type: 'button' as const,
+      'aria-selected': id === current,
+      'aria-controls': panelId,
+      tabIndex: id === current ? 0 : -1,
+      ref: (element: HTMLElement | null) => {
+        if (element) elements.current.set(id, element);
+        else elements.current.delete(id);
+      },
+      onClick: () => onSelect(id)
+    }),
+    panelProps: { id: panelId, role: 'tabpanel', 'aria-labelledby': tabId(current), tabIndex: 0 }
+  };
+}
+
+// role="button" 을 준 SVG 요소처럼 기본 키보드 동작이 없는 요소에 Enter/Space 누르기를 연결
+export const pressable = (onPress: () => void) => ({
+  role: 'button',
+  tabIndex: 0,
+  onClick: onPress,
+  onKeyDown: (event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    onPress();
+  }
+});
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches === true;
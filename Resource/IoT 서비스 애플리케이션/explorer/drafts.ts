@@ -0,0 +1,90 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { architectures } from '../architecture/data';
+import { commitModel, createHistory, editHistory, redo, undo, validateDraft } from '../architecture/editor';
+import type { EditHistory, EditOperation } from '../architecture/editor';
+import { ARCHITECTURE_VERSIONS } from '../architecture/model';
+import type { ArchitectureModel, ArchitectureSet, ArchitectureVersion } from '../architecture/model';
+
+// 편집 모드에서 고친 모델(초안)을 버전별 편집 기록과 함께 보관 - 현재 초안은 localStorage 에 유지
+const STORAGE_KEY = 'iot-explorer:drafts';
+
+type Histories = Partial<Record<ArchitectureVersion, EditHistory>>;
+
+const listeners = new Set<() => void>();
+let histories: Histories | null = null;
+
+// 저장된 초안 중 현재 스키마로 검증되지 않는 것은 버림
+const loadStoredDrafts = (): Histories => {
+  try {
+    const stored: Record<string, ArchitectureModel> = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return Object.fromEntries(
+      Object.entries(stored)
+        .filter(([version, model]) => ARCHITECTURE_VERSIONS.includes(version as ArchitectureVersion) && validateDraft(model).length === 0)
+        .map(([version, model]) => [version, createHistory(model)])
+    );
+  } catch {
+    return {};
+  }
+};
+
+const snapshot = () => (histories ??= loadStoredDrafts());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const update = (version: ArchitectureVersion, change: (history: EditHistory) => EditHistory) => {
+  const current = snapshot();
+  const next = change(current[version] ?? createHistory(architectures[version]));
+  if (next === current[version]) return;
+  histories = { ...current, [version]: next };
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(
+    Object.fromEntries(Object.entries(histories).map(([key, history]) => [key, history.present]))
+  ));
+  listeners.forEach((listener) => listener());
+};
+
+// 검증에 실패한 편집 중에는 마지막으로 유효했던 모델을 탐색기에 보여 줌
+const publishedModels = new WeakMap<EditHistory, ArchitectureModel>();
+
+const publishedModel = (version: ArchitectureVersion, history: EditHistory) => {
+  let model = publishedModels.get(history);
+  if (!model) {
+    model = [history.present, ...[...history.past].reverse()].find((candidate) => validateDraft(candidate).length === 0)
+      ?? architectures[version];
+    publishedModels.set(history, model);
+  }
+  return model;
+};
+
+// 기본 데이터에 초안을 덮어쓴 아키텍처 모음 (초안이 없으면 기본 데이터 객체 그대로)
+export function useEditedArchitectures(): ArchitectureSet {
+  const current = useSyncExternalStore(subscribe, snapshot, snapshot);
+  return useMemo(() => {
+    const entries = Object.entries(current) as [ArchitectureVersion, EditHistory][];
+    if (entries.length === 0) return architectures;
+    return { ...architectures, ...Object.fromEntries(entries.map(([version, history]) => [version, publishedModel(version, history)])) };
+  }, [current]);
+}
+
+export function useArchitectureEditor(version: ArchitectureVersion) {
+  const current = useSyncExternalStore(subscribe, snapshot, snapshot);
+  const history = useMemo(() => current[version] ?? createHistory(architectures[version]), [current, version]);
+  const issues = useMemo(() => validateDraft(history.present), [history.present]);
+
+  return {
+    model: history.present,
+    issues,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    edit: useCallback((operation: EditOperation) => update(version, (entry) => editHistory(entry, operation)), [version]),
+    undo: useCallback(() => update(version, undo), [version]),
+    redo: useCallback(() => update(version, redo), [version]),
+    // 가져오기와 초기화도 되돌릴 수 있도록 편집 기록에 남김
+    replace: useCallback((model: ArchitectureModel) => update(version, (entry) => commitModel(entry, model)), [version]),
+    reset: useCallback(() => update(version, (entry) => commitModel(entry, architectures[version])), [version])
+  };
+}
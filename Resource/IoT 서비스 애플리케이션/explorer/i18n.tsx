@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { parse as parseYaml } from 'yaml';
+import {
+  DEFAULT_LOCALE, flattenMessages, formatMessage, isLocale, listSize, nameLabel, translateComponentMapping, translateModel,
+  translationCatalogSchema
+} from '../architecture/i18n';
+import type { Locale, MessageBundle, MessageValues, TranslationCatalog } from '../architecture/i18n';
+import { architectures, componentMapping } from '../architecture/data';
+import type { ArchitectureModel, ArchitectureSet, ComponentMapping } from '../architecture/model';
+import { useEditedArchitectures } from './drafts';
+import { useUrlState } from './router';
+import koSource from './locales/ko.yaml?raw';
+import enSource from './locales/en.yaml?raw';
+import enCatalogSource from '../architecture/data/locales/en.yaml?raw';
+
+// UI 문구 번들과 데이터 번역 카탈로그 - 기본 로캘(ko)의 데이터는 원문 그대로 사용
+export const MESSAGES: Record<Locale, MessageBundle> = {
+  ko: flattenMessages(parseYaml(koSource), 'explorer/locales/ko.yaml'),
+  en: flattenMessages(parseYaml(enSource), 'explorer/locales/en.yaml')
+};
+
+const CATALOGS: Partial<Record<Locale, TranslationCatalog>> = {
+  en: translationCatalogSchema.parse(parseYaml(enCatalogSource))
+};
+
+// 모델 단위로 번역을 캐시 - 편집기에서 한 버전을 고쳐도 나머지 버전은 다시 번역하지 않음
+const translatedModels = new WeakMap<ArchitectureModel, Map<Locale, ArchitectureModel>>();
+const translatedMappings = new Map<Locale, ComponentMapping>();
+
+export function localizedData(locale: Locale, source: ArchitectureSet = architectures) {
+  const catalog = CATALOGS[locale];
+  if (!catalog) return { architectures: source, componentMapping };
+
+  const translate = (model: ArchitectureModel) => {
+    const cache = translatedModels.get(model) ?? new Map<Locale, ArchitectureModel>();
+    translatedModels.set(model, cache);
+    if (!cache.has(locale)) cache.set(locale, translateModel(model, catalog));
+    return cache.get(locale)!;
+  };
+  if (!translatedMappings.has(locale)) translatedMappings.set(locale, translateComponentMapping(componentMapping, catalog));
+
+  return {
+    architectures: Object.fromEntries(
+      Object.entries(source).map(([version, model]) => [version, translate(model)])
+    ) as ArchitectureSet,
+    componentMapping: translatedMappings.get(locale)!
+  };
+}
+
+// 현재 언어는 ?lang= 쿼리에 보관 (라우터가 페이지 이동 시에도 유지)
+export function useLocale(): [Locale, (locale: Locale) => void] {
+  const [value, setValue] = useUrlState('lang', DEFAULT_LOCALE);
+  const locale = isLocale(value) ? value : DEFAULT_LOCALE;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return [locale, setValue];
+}
+
+const TAG_PATTERN = /<(\w+)>(.*?)<\/\1>/gs;
+
+export type RichTags = Record<string, (chunk: string) => React.ReactNode>;
+
+const DEFAULT_TAGS: RichTags = { b: (chunk) => <strong>{chunk}</strong> };
+
+// "역할: 설명" 형태 목록에서 라벨만 font-medium 으로 표시
+export const LABEL_TAGS: RichTags = { b: (chunk) => <span className="font-medium">{chunk}</span> };
+
+export function useI18n() {
+  const [locale, setLocale] = useLocale();
+
+  // 현재 로캘에 없는 키는 기본 로캘, 그래도 없으면 키 자체를 표시
+  const t = useCallback((key: string, values?: MessageValues) => {
+    const pattern = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+    return pattern === undefined ? key : formatMessage(pattern, values, locale);
+  }, [locale]);
+
+  // <b>…</b> 같은 태그를 tags 의 렌더러로 바꿔 표시 (기본은 굵은 글씨)
+  const rich = useCallback((key: string, values?: MessageValues, tags: RichTags = DEFAULT_TAGS) => {
+    const text = t(key, values);
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const start = match.index ?? 0;
+      if (start > cursor) parts.push(text.slice(cursor, start));
+      parts.push(<React.Fragment key={start}>{tags[match[1]]?.(match[2]) ?? match[2]}</React.Fragment>);
+      cursor = start + match[0].length;
+    }
+    parts.push(text.slice(cursor));
+    return <>{parts}</>;
+  }, [t]);
+
+  // 배열로 정의된 문구의 항목 키 목록 ('v1.scope.core.items' → ['v1.scope.core.items.0', …])
+  const items = useCallback((key: string) => {
+    const bundle = listSize(MESSAGES[locale], key) > 0 ? MESSAGES[locale] : MESSAGES[DEFAULT_LOCALE];
+    return Array.from({ length: listSize(bundle, key) }, (_, idx) => `${key}.${idx}`);
+  }, [locale]);
+
+  // 구성 요소/서비스/지표 이름 - 데이터에서는 키로 쓰이므로 원문을 유지하고 표시할 때만 번역
+  const label = useMemo(() => nameLabel(CATALOGS[locale]), [locale]);
+
+  // 편집 모드의 초안이 있으면 기본 데이터 대신 사용
+  const source = useEditedArchitectures();
+  const data = useMemo(() => localizedData(locale, source), [locale, source]);
+
+  return { locale, setLocale, t, rich, items, label, ...data };
+}
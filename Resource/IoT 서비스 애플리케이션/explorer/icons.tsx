@@ -0,0 +1,21 @@
+import React from 'react';
+import {
+  Atom, BarChart3, Box, Boxes, Brain, Building2, Cloud, Cpu, Database,
+  Glasses, Globe, Home, Layers, Lock, MessageSquare, Mic, Network,
+  Radio, Server, Smartphone, Zap, Circle
+} from 'lucide-react';
+
+// 데이터 파일의 icon 문자열 → lucide 아이콘 매핑
+const icons = {
+  Atom, BarChart3, Box, Boxes, Brain, Building2, Cloud, Cpu, Database,
+  Glasses, Globe, Home, Layers, Lock, MessageSquare, Mic, Network,
+  Radio, Server, Smartphone, Zap
+};
+
+const ArchitectureIcon = ({ name, className = 'w-5 h-5' }: { name?: string; className?: string }) => {
+  const Icon = (name && icons[name as keyof typeof icons]) || Circle;
+  // 장식용 아이콘 - 옆의 제목이 이름 역할을 하므로 보조 기술에서는 숨김
+  return <Icon className={className} aria-hidden />;
+};
+
+export default ArchitectureIcon;
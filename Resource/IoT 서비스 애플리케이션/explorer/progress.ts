@@ -0,0 +1,47 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { architectures } from '../architecture/data';
+import { EMPTY_TRACKER, migrateLegacyKeys, todayIso, trackerStateSchema, updateTrackedItem } from '../architecture/tracker';
+import type { TrackedItemPatch, TrackerState } from '../architecture/tracker';
+
+// 로드맵 작업 항목의 진행 상태 - 모든 버전을 한 객체로 localStorage 에 보관
+const STORAGE_KEY = 'iot-explorer:roadmap';
+
+const listeners = new Set<() => void>();
+let state: TrackerState | null = null;
+
+// 순번 키로 저장된 예전 진행 상태는 번들 데이터 기준으로 작업 id 키로 옮김
+const upgrade = (loaded: TrackerState) => migrateLegacyKeys(loaded, Object.values(architectures));
+
+const loadStoredProgress = (): TrackerState => {
+  try {
+    const result = trackerStateSchema.safeParse(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}'));
+    return result.success ? upgrade(result.data) : EMPTY_TRACKER;
+  } catch {
+    return EMPTY_TRACKER;
+  }
+};
+
+const snapshot = () => (state ??= loadStoredProgress());
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const save = (next: TrackerState) => {
+  state = next;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+};
+
+export function useRoadmapProgress() {
+  const current = useSyncExternalStore(subscribe, snapshot, snapshot);
+  return {
+    state: current,
+    update: useCallback((key: string, patch: TrackedItemPatch) => save(updateTrackedItem(snapshot(), key, patch, todayIso())), []),
+    // JSON 파일에서 가져온 상태로 교체
+    replace: useCallback((next: TrackerState) => save(upgrade(next)), [])
+  };
+}
@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useUrlState } from './router';
+
+describe('useUrlState', () => {
+  beforeEach(() => window.history.replaceState(null, '', '/'));
+
+  it('기본값이 있는 키도 null 로 접을 수 있음', () => {
+    const { result } = renderHook(() => useUrlState('feature', 'voice-pipeline'));
+    expect(result.current[0]).toBe('voice-pipeline');
+
+    act(() => result.current[1](null));
+    expect(result.current[0]).toBeNull();
+    expect(window.location.search).toBe('?feature=');
+
+    act(() => result.current[1]('voice-pipeline'));
+    expect(result.current[0]).toBe('voice-pipeline');
+    expect(window.location.search).toBe('');
+  });
+
+  it('기본값이 없는 키는 null 이면 URL 에서 제거', () => {
+    const { result } = renderHook(() => useUrlState('component'));
+    act(() => result.current[1]('mqtt'));
+    expect(window.location.search).toBe('?component=mqtt');
+
+    act(() => result.current[1](null));
+    expect(result.current[0]).toBeNull();
+    expect(window.location.search).toBe('');
+  });
+});
@@ -0,0 +1,66 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// history API 기반의 최소 라우터 - 선택 상태를 URL 쿼리에 보관해 딥 링크와 뒤로/앞으로 이동 지원
+const LOCATION_EVENT = 'explorer:locationchange';
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener('popstate', listener);
+  window.addEventListener(LOCATION_EVENT, listener);
+  return () => {
+    window.removeEventListener('popstate', listener);
+    window.removeEventListener(LOCATION_EVENT, listener);
+  };
+};
+
+const snapshot = () => window.location.pathname + window.location.search;
+
+// 페이지를 옮겨도 유지하는 쿼리 파라미터 (표시 언어 등)
+const PERSISTENT_PARAMS = ['lang'];
+
+// 새 URL에 없는 유지 파라미터를 현재 URL에서 복사 - 링크 href 에도 사용
+export function withPersistentParams(url: string) {
+  const next = new URL(url, window.location.origin);
+  const current = new URLSearchParams(window.location.search);
+  PERSISTENT_PARAMS.forEach((key) => {
+    const value = current.get(key);
+    if (value !== null && !next.searchParams.has(key)) next.searchParams.set(key, value);
+  });
+  return next.pathname + next.search;
+}
+
+// preserve=false 는 현재 URL에서 만든 주소처럼 유지 파라미터를 직접 관리하는 경우
+export function navigate(url: string, { replace = false, preserve = true } = {}) {
+  if (preserve) url = withPersistentParams(url);
+  if (url === snapshot()) return;
+  if (replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+  window.dispatchEvent(new Event(LOCATION_EVENT));
+}
+
+export function useLocation() {
+  const href = useSyncExternalStore(subscribe, snapshot, () => '/');
+  const url = new URL(href, 'http://localhost');
+  return { pathname: url.pathname, params: url.searchParams };
+}
+
+// URL 에 빈 값으로 남겨 "선택 없음(null)" 을 표시 - 지우면 기본값으로 돌아가므로
+// 기본값이 있는 키도 접을 수 있도록 null 을 기본값과 구분해서 보관
+const NULL_PARAM = '';
+
+// useState와 같은 모양으로 쿼리 파라미터 하나를 읽고 씀 (기본값과 같으면 URL에서 제거)
+export function useUrlState(key: string, defaultValue: string): [string | null, (value: string | null) => void];
+export function useUrlState(key: string, defaultValue?: null): [string | null, (value: string | null) => void];
+export function useUrlState(key: string, defaultValue: string | null = null): [string | null, (value: string | null) => void] {
+  const { params } = useLocation();
+  const param = params.get(key);
+  const value = param === null ? defaultValue : param === NULL_PARAM ? null : param;
+
+  const setValue = useCallback((next: string | null) => {
+    const url = new URL(window.location.href);
+    if (next === defaultValue) url.searchParams.delete(key);
+    else url.searchParams.set(key, next ?? NULL_PARAM);
+    navigate(url.pathname + url.search, { preserve: false });
+  }, [key, defaultValue]);
+
+  return [value, setValue];
+}
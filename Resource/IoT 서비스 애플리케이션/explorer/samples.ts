@@ -0,0 +1,10 @@
+import mvpArchitecture from '../../MVP 프로젝트/1. mvp-architecture.mermaid?raw';
+import expandedArchitecture from '../../MVP 프로젝트/2. expanded-iot-architecture.mermaid?raw';
+import pluginArchitecture from '../../MVP 프로젝트/4. plugin-architecture-diagram.mermaid?raw';
+
+// MVP 프로젝트 문서의 Mermaid 다이어그램 - 가져오기 화면의 예시이자 정합성 검사 대상
+export const mermaidSamples = [
+  { name: '1. mvp-architecture.mermaid', source: mvpArchitecture },
+  { name: '2. expanded-iot-architecture.mermaid', source: expandedArchitecture },
+  { name: '4. plugin-architecture-diagram.mermaid', source: pluginArchitecture }
+];
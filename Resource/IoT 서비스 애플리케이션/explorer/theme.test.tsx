@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS, ThemeProvider, useTheme } from './theme';
+
+const STORAGE_KEY = 'iot-explorer:theme';
+
+const renderTheme = () => renderHook(() => useTheme(), {
+  wrapper: ({ children }: { children: React.ReactNode }) => <ThemeProvider>{children}</ThemeProvider>
+});
+
+describe('ThemeProvider', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('저장된 값의 모양이 틀리면 기본값으로 시작', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ imported: null }));
+    const { result } = renderTheme();
+    expect(result.current.presets).toHaveLength(BUILT_IN_PRESETS.length);
+    expect(result.current.presetId).toBe('default');
+  });
+
+  it('올바른 값은 그대로 복원하고 빠진 항목만 기본값', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ mode: 'dark', presetId: 'sunset' }));
+    const { result } = renderTheme();
+    expect(result.current.mode).toBe('dark');
+    expect(result.current.preset.name).toBe('Sunset');
+    expect(result.current.imported).toEqual([]);
+  });
+});
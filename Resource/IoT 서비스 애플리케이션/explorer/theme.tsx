@@ -0,0 +1,109 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { z } from 'zod';
+import {
+  DEFAULT_PRESET, importStyleSettings, resolveTheme, themeModeSchema, themePresetSchema, themeStylesheet, themeVariables
+} from '../architecture/theme';
+import type { ThemeMode, ThemePreset, ThemeTokens } from '../architecture/theme';
+import sunsetSource from '../../css 스니펫/Sunset.json?raw';
+import translucentSource from '../../css 스니펫/Translucent.json?raw';
+
+// 문서 볼트(Obsidian)와 같은 Style Settings 프리셋
+export const BUILT_IN_PRESETS: ThemePreset[] = [
+  DEFAULT_PRESET,
+  importStyleSettings(sunsetSource, 'Sunset.json'),
+  importStyleSettings(translucentSource, 'Translucent.json')
+];
+
+const STORAGE_KEY = 'iot-explorer:theme';
+const SCOPE = '.iot-theme';
+const stylesheet = themeStylesheet(SCOPE);
+
+// 다른 버전이 저장했거나 직접 고친 값일 수 있으므로 검증 후 사용 - 빠진 항목은 기본값
+const storedThemeSchema = z.object({
+  mode: themeModeSchema,
+  presetId: z.string(),
+  imported: z.array(themePresetSchema)
+}).partial();
+
+interface StoredTheme {
+  mode: ThemeMode;
+  presetId: string;
+  imported: ThemePreset[];
+}
+
+interface ThemeContextValue extends StoredTheme {
+  presets: ThemePreset[];
+  preset: ThemePreset;
+  tokens: ThemeTokens;
+  setMode: (mode: ThemeMode) => void;
+  setPresetId: (presetId: string) => void;
+  addPreset: (preset: ThemePreset) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+const loadStoredTheme = (): StoredTheme => {
+  const fallback: StoredTheme = {
+    mode: window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light',
+    presetId: DEFAULT_PRESET.id,
+    imported: []
+  };
+  try {
+    const result = storedThemeSchema.safeParse(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}'));
+    return result.success ? { ...fallback, ...result.data } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// 토큰을 CSS 변수로 내려주고, 기존 탐색기 클래스를 토큰에 연결하는 스타일시트를 함께 주입
+export const ThemeProvider = ({ children }: { children: React.ReactNode }) => {
+  const [stored, setStored] = useState(loadStoredTheme);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }, [stored]);
+
+  const value = useMemo<ThemeContextValue>(() => {
+    const presets = [...BUILT_IN_PRESETS, ...stored.imported];
+    const preset = presets.find((candidate) => candidate.id === stored.presetId) ?? DEFAULT_PRESET;
+    return {
+      ...stored,
+      presets,
+      preset,
+      tokens: resolveTheme(preset, stored.mode),
+      setMode: (mode) => setStored((current) => ({ ...current, mode })),
+      setPresetId: (presetId) => setStored((current) => ({ ...current, presetId })),
+      addPreset: (added) => setStored((current) => ({
+        ...current,
+        presetId: added.id,
+        imported: [...current.imported.filter((candidate) => candidate.id !== added.id), added]
+      }))
+    };
+  }, [stored]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <style>{stylesheet}</style>
+      <div
+        className={`${SCOPE.slice(1)} min-h-screen ${value.mode === 'dark' ? 'dark' : ''}`}
+        data-theme-mode={value.mode}
+        style={{
+          ...(themeVariables(value.tokens) as React.CSSProperties),
+          background: value.tokens.backdrop,
+          backgroundBlendMode: value.tokens.backdropBlendMode,
+          color: value.tokens.text,
+          colorScheme: value.mode
+        }}
+      >
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+};
+
+export function useTheme(): ThemeContextValue {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error('useTheme은 ThemeProvider 안에서만 사용할 수 있습니다');
+  return context;
+}
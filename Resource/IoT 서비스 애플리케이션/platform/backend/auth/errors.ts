@@ -0,0 +1,36 @@
+import { HttpError } from '../http';
+
+export type AuthErrorCode =
+  | 'invalidCredentials'
+  | 'emailTaken'
+  | 'invalidToken'
+  | 'tokenExpired'
+  | 'tokenReused'
+  | 'sessionRevoked'
+  | 'forbidden'
+  | 'notFound';
+
+// HTTP 와 무관한 인증/권한 오류 - authHttpError 에서 상태 코드로 바꿈
+export class AuthError extends Error {
+  constructor(public readonly code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// 토큰 문제는 모두 401 (클라이언트는 refresh 또는 재로그인), 권한 부족은 403
+const AUTH_STATUS: Record<AuthErrorCode, number> = {
+  invalidCredentials: 401,
+  emailTaken: 409,
+  invalidToken: 401,
+  tokenExpired: 401,
+  tokenReused: 401,
+  sessionRevoked: 401,
+  forbidden: 403,
+  notFound: 404
+};
+
+export function authHttpError(error: unknown): HttpError | undefined {
+  if (error instanceof AuthError) return new HttpError(AUTH_STATUS[error.code], error.code, error.message);
+  return undefined;
+}
@@ -0,0 +1,95 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthError } from './errors';
+
+// V1 Auth Service 의 jwt.sign({ userId, role }, JWT_SECRET) - HS256 서명 키를 kid 로 구분해서 여러 개 유지
+export interface SigningKey {
+  kid: string;
+  // base64
+  secret: string;
+  createdAt: string;
+  // 교체된 키 - 새 토큰 서명에는 안 쓰고, 이미 발급한 토큰 검증에만 씀
+  retiredAt?: string;
+}
+
+export interface AccessClaims {
+  sub: string;
+  tid: string;
+  role: string;
+  // 세션(refresh 토큰 계열) ID - 로그아웃하면 이 세션의 access 토큰도 바로 무효
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+export class KeyRing {
+  private keys: SigningKey[];
+
+  constructor(keys: SigningKey[] = []) {
+    this.keys = keys;
+    if (!this.active()) this.rotate();
+  }
+
+  list(): SigningKey[] {
+    return this.keys;
+  }
+
+  // 새 키로 서명 시작 - 옛 키는 graceSec 동안 검증용으로 남김 (access 토큰 수명 이상)
+  rotate(): SigningKey {
+    const now = new Date().toISOString();
+    this.keys.forEach((key) => {
+      key.retiredAt ??= now;
+    });
+    const key: SigningKey = { kid: randomBytes(6).toString('hex'), secret: randomBytes(32).toString('base64'), createdAt: now };
+    this.keys.push(key);
+    return key;
+  }
+
+  // 교체된 지 graceSec 이 지난 키를 버림 - 그 키로 서명된 토큰은 이미 만료됨
+  prune(graceSec: number, now = Date.now()) {
+    this.keys = this.keys.filter((key) => !key.retiredAt || now - Date.parse(key.retiredAt) < graceSec * 1000);
+  }
+
+  sign(claims: AccessClaims): string {
+    const key = this.active()!;
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: key.kid }));
+    const payload = base64url(JSON.stringify(claims));
+    return `${header}.${payload}.${hmac(key, `${header}.${payload}`)}`;
+  }
+
+  verify(token: string, now = Date.now()): AccessClaims {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0) throw new AuthError('invalidToken', '토큰 형식이 올바르지 않습니다');
+
+    const { alg, kid } = parseSegment<{ alg?: string; kid?: string }>(header);
+    // alg 를 고정 - "none" 이나 다른 알고리즘으로 바꾼 토큰을 거부
+    if (alg !== 'HS256') throw new AuthError('invalidToken', `지원하지 않는 서명 알고리즘입니다: ${alg}`);
+    const key = this.keys.find((candidate) => candidate.kid === kid);
+    if (!key) throw new AuthError('invalidToken', '알 수 없는 서명 키입니다');
+
+    const expected = Buffer.from(hmac(key, `${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AuthError('invalidToken', '토큰 서명이 올바르지 않습니다');
+    }
+
+    const claims = parseSegment<AccessClaims>(payload);
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) throw new AuthError('tokenExpired', '토큰이 만료되었습니다');
+    return claims;
+  }
+
+  private active() {
+    return this.keys.find((key) => !key.retiredAt);
+  }
+}
+
+const hmac = (key: SigningKey, data: string) => createHmac('sha256', Buffer.from(key.secret, 'base64')).update(data).digest('base64url');
+
+function parseSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new AuthError('invalidToken', '토큰 형식이 올바르지 않습니다');
+  }
+}
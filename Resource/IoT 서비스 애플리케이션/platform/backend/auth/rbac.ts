@@ -0,0 +1,60 @@
+import type { AuthUser } from '../http';
+import { AuthError } from './errors';
+
+// overview 의 auth 도메인 "권한 관리 (RBAC)" - 역할은 테넌트(가정) 안에서의 역할
+// 뒤 역할이 앞 역할의 권한을 모두 가짐
+export const ROLES = ['guest', 'member', 'admin', 'owner'] as const;
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'devices:read' | 'devices:control' | 'devices:write'
+  | 'automations:read' | 'automations:write'
+  | 'tenant:read' | 'members:manage' | 'tenant:manage';
+
+// 역할마다 새로 얻는 권한
+const GRANTS: Record<Role, Permission[]> = {
+  // 손님 - 보기만
+  guest: ['devices:read', 'automations:read', 'tenant:read'],
+  // 구성원 - 제어하고 자기 디바이스/자동화를 관리
+  member: ['devices:control', 'devices:write', 'automations:write'],
+  // 관리자 - 구성원 관리, 다른 사람의 디바이스/자동화도 수정
+  admin: ['members:manage'],
+  // 소유자 - 테넌트 자체와 관리자 지정
+  owner: ['tenant:manage']
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = Object.fromEntries(ROLES.map((role, idx) => [
+  role,
+  ROLES.slice(0, idx + 1).flatMap((inherited) => GRANTS[inherited])
+])) as Record<Role, Permission[]>;
+
+export const isRole = (role: string): role is Role => (ROLES as readonly string[]).includes(role);
+
+export const roleAtLeast = (role: string, minimum: Role) => isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+
+export function hasPermission(user: AuthUser, permission: Permission) {
+  return isRole(user.role) && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Router 의 authorize 훅 - 라우트에 선언한 permission 을 확인
+export function authorize(user: AuthUser, permission: string) {
+  if (!hasPermission(user, permission as Permission)) {
+    throw new AuthError('forbidden', `${user.role} 역할에는 ${permission} 권한이 없습니다`);
+  }
+}
+
+// 다른 테넌트의 자원은 없는 것처럼 취급 - 403 을 주면 그 id 가 다른 테넌트에 있다는 사실이 드러남
+export const inTenant = <T extends { tenantId: string }>(user: AuthUser, resource: T | undefined): T | undefined =>
+  resource?.tenantId === user.tenantId ? resource : undefined;
+
+// 자원 단위 확인 - 같은 테넌트이고, 만든 사람이거나 admin 이상이어야 수정 가능
+export function assertTenant(user: AuthUser, resource: { tenantId: string }, what: string) {
+  if (resource.tenantId !== user.tenantId) throw new AuthError('forbidden', `${what} 에 접근할 수 없습니다`);
+}
+
+export function assertCanModify(user: AuthUser, resource: { tenantId: string; userId: string }, what: string) {
+  assertTenant(user, resource, what);
+  if (resource.userId !== user.id && !roleAtLeast(user.role, 'admin')) {
+    throw new AuthError('forbidden', `${what} 은(는) 만든 사람이나 관리자만 바꿀 수 있습니다`);
+  }
+}
@@ -0,0 +1,137 @@
+import { SnapshotFile } from '../storage';
+import type { SigningKey } from './jwt';
+import type { Session, Tenant, User } from './schema';
+
+// 저장소 경계 - V1 의 users 테이블과 세션/서명 키 보관소 자리
+export interface AuthRepository {
+  getUser(id: string): Promise<User | undefined>;
+  findUserByEmail(email: string): Promise<User | undefined>;
+  listMembers(tenantId: string): Promise<User[]>;
+  saveUser(user: User): Promise<void>;
+  deleteUser(id: string): Promise<void>;
+  getTenant(id: string): Promise<Tenant | undefined>;
+  saveTenant(tenant: Tenant): Promise<void>;
+  getSession(id: string): Promise<Session | undefined>;
+  // 현재 토큰이든 이미 교체된 토큰이든 해시가 속한 세션
+  findSessionByTokenHash(hash: string): Promise<Session | undefined>;
+  listSessions(userId: string): Promise<Session[]>;
+  saveSession(session: Session): Promise<void>;
+  // refresh 토큰 교체 (compare-and-swap) - 폐기되지 않았고 현재 토큰 해시가 expectedHash 일 때만 바꾸고, 아니면 undefined
+  // SQL 구현은 UPDATE … WHERE current_token_hash = $expected AND revoked_at IS NULL 한 문장
+  rotateSessionToken(sessionId: string, expectedHash: string, nextHash: string): Promise<Session | undefined>;
+  // 서명 키 - 운영에서는 KMS/비밀 저장소에 두는 것이 맞음
+  loadKeys(): Promise<SigningKey[]>;
+  saveKeys(keys: SigningKey[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface AuthSnapshot {
+  users: User[];
+  tenants: Tenant[];
+  sessions: Session[];
+  keys: SigningKey[];
+}
+
+// 내장 저장소 - 메모리에 두고 file 을 주면 JSON 스냅샷으로 유지
+export class EmbeddedAuthRepository implements AuthRepository {
+  private readonly users = new Map<string, User>();
+  private readonly tenants = new Map<string, Tenant>();
+  private readonly sessions = new Map<string, Session>();
+  // 토큰 해시 → 세션 ID (교체된 해시 포함)
+  private readonly tokenIndex = new Map<string, string>();
+  private keys: SigningKey[] = [];
+  private readonly snapshot: SnapshotFile<AuthSnapshot>;
+
+  constructor(file?: string) {
+    this.snapshot = new SnapshotFile(file, () => ({
+      users: [...this.users.values()],
+      tenants: [...this.tenants.values()],
+      sessions: [...this.sessions.values()],
+      keys: this.keys
+    }));
+    const data = this.snapshot.load();
+    data?.users.forEach((user) => this.users.set(user.id, user));
+    data?.tenants.forEach((tenant) => this.tenants.set(tenant.id, tenant));
+    data?.sessions.forEach((session) => this.indexSession(session));
+    this.keys = data?.keys ?? [];
+  }
+
+  async getUser(id: string) {
+    return this.users.get(id);
+  }
+
+  async findUserByEmail(email: string) {
+    return [...this.users.values()].find((user) => user.email === email);
+  }
+
+  async listMembers(tenantId: string) {
+    return [...this.users.values()]
+      .filter((user) => user.tenantId === tenantId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async saveUser(user: User) {
+    this.users.set(user.id, user);
+    this.snapshot.schedule();
+  }
+
+  async deleteUser(id: string) {
+    this.users.delete(id);
+    this.snapshot.schedule();
+  }
+
+  async getTenant(id: string) {
+    return this.tenants.get(id);
+  }
+
+  async saveTenant(tenant: Tenant) {
+    this.tenants.set(tenant.id, tenant);
+    this.snapshot.schedule();
+  }
+
+  async getSession(id: string) {
+    return this.sessions.get(id);
+  }
+
+  async findSessionByTokenHash(hash: string) {
+    const id = this.tokenIndex.get(hash);
+    return id ? this.sessions.get(id) : undefined;
+  }
+
+  async listSessions(userId: string) {
+    return [...this.sessions.values()].filter((session) => session.userId === userId);
+  }
+
+  async saveSession(session: Session) {
+    this.indexSession(session);
+    this.snapshot.schedule();
+  }
+
+  // 확인과 저장 사이에 await 가 없어 같은 토큰으로 동시에 와도 한 요청만 바꿈
+  async rotateSessionToken(sessionId: string, expectedHash: string, nextHash: string) {
+    const current = this.sessions.get(sessionId);
+    if (!current || current.revokedAt || current.currentTokenHash !== expectedHash) return undefined;
+    const rotated: Session = { ...current, currentTokenHash: nextHash, usedTokenHashes: [...current.usedTokenHashes, expectedHash] };
+    this.indexSession(rotated);
+    this.snapshot.schedule();
+    return rotated;
+  }
+
+  async loadKeys() {
+    return this.keys;
+  }
+
+  async saveKeys(keys: SigningKey[]) {
+    this.keys = keys;
+    this.snapshot.schedule();
+  }
+
+  async close() {
+    this.snapshot.flush();
+  }
+
+  private indexSession(session: Session) {
+    this.sessions.set(session.id, session);
+    [session.currentTokenHash, ...session.usedTokenHashes].forEach((hash) => this.tokenIndex.set(hash, session.id));
+  }
+}
@@ -0,0 +1,158 @@
+import { randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startTestBackend } from '../testing';
+import type { TestSession } from '../testing';
+import { KeyRing } from './jwt';
+import type { AccessClaims } from './jwt';
+
+const decodeSegment = <T>(segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+
+// 서버와 같은 kid 와 claims 로, 다른 비밀 키로 서명한 토큰
+function forgeToken(token: string, patch: Partial<AccessClaims> = {}) {
+  const [header, payload] = token.split('.');
+  const { kid } = decodeSegment<{ kid: string }>(header);
+  const ring = new KeyRing([{ kid, secret: randomBytes(32).toString('base64'), createdAt: new Date().toISOString() }]);
+  return ring.sign({ ...decodeSegment<AccessClaims>(payload), ...patch });
+}
+
+describe('auth routes', () => {
+  let api: Awaited<ReturnType<typeof startTestBackend>>;
+  let alice: TestSession;
+
+  beforeEach(async () => {
+    api = await startTestBackend();
+    alice = await api.signUp('alice@example.com');
+  });
+
+  afterEach(() => api.close());
+
+  describe('access 토큰', () => {
+    it('형식이 틀린 토큰은 401', async () => {
+      for (const token of ['not-a-jwt', 'a.b.c', `${alice.accessToken}.extra`]) {
+        const res = await api.request('GET', '/api/auth/me', { token });
+        expect(res.status).toBe(401);
+        expect(res.body.error.code).toBe('invalidToken');
+      }
+    });
+
+    it('다른 키로 서명했거나 claims 를 고친 토큰은 401', async () => {
+      const forged = await api.request('GET', '/api/auth/me', { token: forgeToken(alice.accessToken) });
+      expect(forged.status).toBe(401);
+      expect(forged.body.error.code).toBe('invalidToken');
+
+      const unknownKey = new KeyRing().sign(decodeSegment<AccessClaims>(alice.accessToken.split('.')[1]));
+      expect((await api.request('GET', '/api/auth/me', { token: unknownKey })).status).toBe(401);
+
+      const [header, , signature] = alice.accessToken.split('.');
+      const claims = { ...decodeSegment<AccessClaims>(alice.accessToken.split('.')[1]), role: 'owner', tid: 'someone-else' };
+      const tampered = `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+      expect((await api.request('GET', '/api/auth/me', { token: tampered })).status).toBe(401);
+    });
+
+    it('만료된 토큰은 401 tokenExpired', async () => {
+      const shortLived = await startTestBackend({ authOptions: { accessTtlSec: 0 } });
+      try {
+        const { accessToken } = await shortLived.signUp('bob@example.com');
+        const res = await shortLived.request('GET', '/api/auth/me', { token: accessToken });
+        expect(res.status).toBe(401);
+        expect(res.body.error.code).toBe('tokenExpired');
+      } finally {
+        await shortLived.close();
+      }
+    });
+  });
+
+  describe('refresh 토큰', () => {
+    it('이미 쓴 refresh 토큰이 다시 오면 세션 전체를 폐기', async () => {
+      const first = await api.request('POST', '/api/auth/refresh', { body: { refreshToken: alice.refreshToken } });
+      expect(first.status).toBe(200);
+
+      const reused = await api.request('POST', '/api/auth/refresh', { body: { refreshToken: alice.refreshToken } });
+      expect(reused.status).toBe(401);
+      expect(reused.body.error.code).toBe('tokenReused');
+
+      const rotated = await api.request('POST', '/api/auth/refresh', { body: { refreshToken: first.body.refreshToken } });
+      expect(rotated.status).toBe(401);
+      expect(rotated.body.error.code).toBe('sessionRevoked');
+      expect((await api.request('GET', '/api/auth/me', { token: first.body.accessToken })).status).toBe(401);
+    });
+
+    it('로그아웃한 세션은 access/refresh 토큰 모두 401', async () => {
+      expect((await api.request('POST', '/api/auth/logout', { token: alice.accessToken })).status).toBe(204);
+
+      const me = await api.request('GET', '/api/auth/me', { token: alice.accessToken });
+      expect(me.status).toBe(401);
+      expect(me.body.error.code).toBe('sessionRevoked');
+
+      const refreshed = await api.request('POST', '/api/auth/refresh', { body: { refreshToken: alice.refreshToken } });
+      expect(refreshed.status).toBe(401);
+      expect(refreshed.body.error.code).toBe('sessionRevoked');
+    });
+  });
+
+  describe('권한', () => {
+    const addMember = async (role: string, email: string) => {
+      const added = await api.request('POST', '/api/tenant/members', {
+        token: alice.accessToken,
+        body: { email, name: role, password: 'correct horse battery', role }
+      });
+      expect(added.status).toBe(201);
+      const login = await api.request('POST', '/api/auth/login', { body: { email, password: 'correct horse battery' } });
+      return { id: added.body.id as string, token: login.body.accessToken as string };
+    };
+
+    it('필요한 권한보다 낮은 역할은 403', async () => {
+      const guest = await addMember('guest', 'guest@example.com');
+      const member = await addMember('member', 'member@example.com');
+
+      expect((await api.request('GET', '/api/devices', { token: guest.token })).status).toBe(200);
+      const write = await api.request('POST', '/api/devices', { token: guest.token, body: { name: '조명', type: 'light' } });
+      expect(write.status).toBe(403);
+      expect(write.body.error.code).toBe('forbidden');
+
+      expect((await api.request('PATCH', '/api/tenant', { token: member.token, body: { name: '우리 집' } })).status).toBe(403);
+      expect((await api.request('POST', '/api/tenant/members', {
+        token: member.token, body: { email: 'x@example.com', name: 'x', password: 'correct horse battery', role: 'guest' }
+      })).status).toBe(403);
+    });
+
+    it('역할을 낮추면 이미 받은 토큰에도 바로 반영', async () => {
+      const member = await addMember('member', 'member@example.com');
+      await api.request('PATCH', `/api/tenant/members/${member.id}`, { token: alice.accessToken, body: { role: 'guest' } });
+      const write = await api.request('POST', '/api/devices', { token: member.token, body: { name: '조명', type: 'light' } });
+      expect(write.status).toBe(403);
+    });
+
+    it('다른 테넌트의 구성원/자동화는 없는 것과 같은 404', async () => {
+      const mallory = await api.signUp('mallory@example.com');
+      const member = await addMember('member', 'member@example.com');
+
+      const promote = await api.request('PATCH', `/api/tenant/members/${member.id}`, { token: mallory.accessToken, body: { role: 'admin' } });
+      expect(promote.status).toBe(404);
+      expect((await api.request('DELETE', `/api/tenant/members/${member.id}`, { token: mallory.accessToken })).status).toBe(404);
+
+      await api.request('POST', '/api/devices', { token: alice.accessToken, body: { id: 'sensor-1', name: '센서', type: 'sensor' } });
+      await api.request('POST', '/api/devices', { token: alice.accessToken, body: { id: 'lamp-1', name: '조명', type: 'light' } });
+      const rule = await api.request('POST', '/api/automations', {
+        token: alice.accessToken,
+        body: {
+          name: '더우면 끄기',
+          trigger: { deviceId: 'sensor-1', metric: 'temperature', operator: '>', threshold: 28 },
+          action: { deviceId: 'lamp-1', command: { action: 'turn_off' } }
+        }
+      });
+      expect(rule.status).toBe(201);
+      expect((await api.request('GET', `/api/automations/${rule.body.id}`, { token: mallory.accessToken })).status).toBe(404);
+
+      const hijack = await api.request('POST', '/api/automations', {
+        token: mallory.accessToken,
+        body: {
+          name: '남의 집 조명',
+          trigger: { deviceId: 'sensor-1', metric: 'temperature', operator: '>', threshold: 0 },
+          action: { deviceId: 'lamp-1', command: { action: 'turn_on' } }
+        }
+      });
+      expect(hijack.status).toBe(404);
+    });
+  });
+});
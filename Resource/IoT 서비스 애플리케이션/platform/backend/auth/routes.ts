@@ -0,0 +1,100 @@
+import { defineRoute } from '../http';
+import type { RouteSpec } from '../http';
+import {
+  addMemberSchema, loginSchema, publicUserSchema, refreshSchema, registerSchema, tenantSchema, tenantViewSchema, tokenPairSchema,
+  updateMemberSchema, updateTenantSchema
+} from './schema';
+import type { AddMemberInput, LoginInput, RefreshInput, RegisterInput, UpdateMemberInput, UpdateTenantInput } from './schema';
+import type { AuthService } from './service';
+
+const sessionSchema = tokenPairSchema.extend({ user: publicUserSchema });
+
+// overview 의 auth 도메인 - 사용자 인증 (JWT)
+export function authRoutes(service: AuthService): RouteSpec[] {
+  return [
+    defineRoute<RegisterInput>({
+      method: 'POST', path: '/api/auth/register', tag: 'auth', summary: '가입 (새 테넌트의 owner 가 됨)',
+      public: true,
+      body: registerSchema,
+      response: { status: 201, description: '사용자와 토큰', schema: sessionSchema },
+      handler: async ({ body }) => ({ status: 201, body: await service.register(body) })
+    }),
+    defineRoute<LoginInput>({
+      method: 'POST', path: '/api/auth/login', tag: 'auth', summary: '로그인',
+      public: true,
+      body: loginSchema,
+      response: { status: 200, description: '사용자와 토큰', schema: sessionSchema },
+      handler: async ({ body }) => ({ status: 200, body: await service.login(body) })
+    }),
+    defineRoute<RefreshInput>({
+      method: 'POST', path: '/api/auth/refresh', tag: 'auth', summary: 'access 토큰 갱신 (refresh 토큰도 새로 발급)',
+      public: true,
+      body: refreshSchema,
+      response: { status: 200, description: '새 토큰', schema: tokenPairSchema },
+      handler: async ({ body }) => ({ status: 200, body: await service.refresh(body.refreshToken) })
+    }),
+    defineRoute({
+      method: 'POST', path: '/api/auth/logout', tag: 'auth', summary: '현재 세션 폐기',
+      response: { status: 204, description: '폐기됨' },
+      handler: async ({ user }) => {
+        await service.logout(user!);
+        return { status: 204 };
+      }
+    }),
+    defineRoute({
+      method: 'POST', path: '/api/auth/logout-all', tag: 'auth', summary: '모든 기기의 세션 폐기',
+      response: { status: 204, description: '폐기됨' },
+      handler: async ({ user }) => {
+        await service.logoutAll(user!);
+        return { status: 204 };
+      }
+    }),
+    defineRoute({
+      method: 'GET', path: '/api/auth/me', tag: 'auth', summary: '내 정보',
+      response: { status: 200, description: '사용자', schema: publicUserSchema },
+      handler: async ({ user }) => ({ status: 200, body: await service.me(user!) })
+    })
+  ];
+}
+
+// 테넌트(가정)와 구성원 관리
+export function tenantRoutes(service: AuthService): RouteSpec[] {
+  return [
+    defineRoute({
+      method: 'GET', path: '/api/tenant', tag: 'tenant', summary: '내 테넌트와 구성원',
+      permission: 'tenant:read',
+      response: { status: 200, description: '테넌트', schema: tenantViewSchema },
+      handler: async ({ user }) => ({ status: 200, body: await service.tenant(user!) })
+    }),
+    defineRoute<UpdateTenantInput>({
+      method: 'PATCH', path: '/api/tenant', tag: 'tenant', summary: '테넌트 이름 변경',
+      permission: 'tenant:manage',
+      body: updateTenantSchema,
+      response: { status: 200, description: '테넌트', schema: tenantSchema },
+      handler: async ({ user, body }) => ({ status: 200, body: await service.updateTenant(user!, body) })
+    }),
+    defineRoute<AddMemberInput>({
+      method: 'POST', path: '/api/tenant/members', tag: 'tenant', summary: '구성원 추가 (admin 지정은 owner 만)',
+      permission: 'members:manage',
+      body: addMemberSchema,
+      response: { status: 201, description: '추가된 구성원', schema: publicUserSchema },
+      handler: async ({ user, body }) => ({ status: 201, body: await service.addMember(user!, body) })
+    }),
+    defineRoute<UpdateMemberInput>({
+      method: 'PATCH', path: '/api/tenant/members/:userId', tag: 'tenant', summary: '구성원 역할 변경',
+      permission: 'members:manage',
+      body: updateMemberSchema,
+      response: { status: 200, description: '변경된 구성원', schema: publicUserSchema },
+      handler: async ({ user, params, body }) => ({ status: 200, body: await service.updateMember(user!, params.userId, body) })
+    }),
+    defineRoute({
+      method: 'DELETE', path: '/api/tenant/members/:userId', tag: 'tenant', summary: '구성원 제거 (세션도 폐기)',
+      permission: 'members:manage',
+      response: { status: 204, description: '제거됨' },
+      handler: async ({ user, params }) => {
+        await service.removeMember(user!, params.userId);
+        return { status: 204 };
+      }
+    })
+  ];
+}
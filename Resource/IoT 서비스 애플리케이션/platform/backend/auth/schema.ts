@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { ROLES } from './rbac';
+
+// 사용자는 테넌트(가정) 하나에 속하고 그 안에서 역할을 가짐 - 가입하면 새 테넌트의 owner
+export const roleSchema = z.enum(ROLES);
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  tenantId: z.string(),
+  role: roleSchema,
+  passwordHash: z.string(),
+  createdAt: z.string()
+});
+
+export const tenantSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string()
+});
+
+// 로그인 한 번 = 세션 하나 = refresh 토큰 계열 하나. 토큰은 sha256 해시로만 보관
+export const sessionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  currentTokenHash: z.string(),
+  // 이미 교체된 토큰 - 다시 쓰이면 탈취로 보고 세션 전체를 폐기
+  usedTokenHashes: z.array(z.string()),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  revokedAt: z.string().optional(),
+  revokedReason: z.enum(['logout', 'reuse', 'memberRemoved']).optional()
+});
+
+const emailSchema = z.string().trim().toLowerCase().email().max(254);
+// 길이만 강제 - 조합 규칙보다 긴 암호가 낫고, scrypt 입력이 너무 길지 않도록 상한
+const passwordSchema = z.string().min(10, '비밀번호는 10자 이상').max(128);
+
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  name: z.string().trim().min(1).max(100),
+  tenantName: z.string().trim().min(1).max(100).optional()
+}).strict();
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().max(128)
+}).strict();
+
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+}).strict();
+
+export const tokenPairSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  tokenType: z.literal('Bearer'),
+  expiresIn: z.number().int()
+});
+
+export const publicUserSchema = userSchema.omit({ passwordHash: true });
+
+// admin 이상이 구성원 계정을 만듦 (초대 메일 대신 초기 비밀번호) - owner 는 넘겨줄 수 없음
+export const addMemberSchema = z.object({
+  email: emailSchema,
+  name: z.string().trim().min(1).max(100),
+  password: passwordSchema,
+  role: roleSchema.exclude(['owner'])
+}).strict();
+
+export const updateMemberSchema = z.object({
+  role: roleSchema.exclude(['owner'])
+}).strict();
+
+export const updateTenantSchema = z.object({
+  name: z.string().trim().min(1).max(100)
+}).strict();
+
+export const tenantViewSchema = tenantSchema.extend({ members: z.array(publicUserSchema) });
+
+export type User = z.infer<typeof userSchema>;
+export type PublicUser = z.infer<typeof publicUserSchema>;
+export type Tenant = z.infer<typeof tenantSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshInput = z.infer<typeof refreshSchema>;
+export type TokenPair = z.infer<typeof tokenPairSchema>;
+export type AddMemberInput = z.infer<typeof addMemberSchema>;
+export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
+export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
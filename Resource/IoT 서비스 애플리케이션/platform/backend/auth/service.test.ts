@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuthError } from './errors';
+import { EmbeddedAuthRepository } from './repository';
+import { AuthService } from './service';
+
+// 실제 DB 처럼 조회마다 지연이 있어 동시 요청이 서로 끼어드는 저장소
+class SlowAuthRepository extends EmbeddedAuthRepository {
+  async getUser(id: string) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return super.getUser(id);
+  }
+}
+
+describe('AuthService.refresh', () => {
+  let service: AuthService;
+
+  beforeEach(async () => {
+    service = new AuthService(new SlowAuthRepository());
+    await service.start();
+  });
+
+  afterEach(() => service.stop());
+
+  it('같은 토큰으로 동시에 갱신하면 한 요청만 교체하고 진 쪽은 재사용으로 처리', async () => {
+    const { refreshToken } = await service.register({ email: 'alice@example.com', password: 'correct horse battery', name: 'alice' });
+    const results = await Promise.allSettled([service.refresh(refreshToken), service.refresh(refreshToken)]);
+
+    const winners = results.filter((result) => result.status === 'fulfilled');
+    const losers = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(winners).toHaveLength(1);
+    expect(losers).toHaveLength(1);
+    expect(losers[0].reason).toBeInstanceOf(AuthError);
+    expect((losers[0].reason as AuthError).code).toBe('tokenReused');
+
+    // 재사용이 감지된 세션은 이긴 쪽 토큰도 더 쓸 수 없음
+    const next = (winners[0] as PromiseFulfilledResult<{ refreshToken: string }>).value.refreshToken;
+    await expect(service.refresh(next)).rejects.toMatchObject({ code: 'sessionRevoked' });
+  });
+});
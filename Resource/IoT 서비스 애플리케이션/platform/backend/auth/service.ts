@@ -0,0 +1,207 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { AuthUser } from '../http';
+import { AuthError } from './errors';
+import { KeyRing } from './jwt';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from './password';
+import { inTenant, roleAtLeast } from './rbac';
+import type { AuthRepository } from './repository';
+import type {
+  AddMemberInput, LoginInput, PublicUser, RegisterInput, Session, Tenant, TokenPair, UpdateMemberInput, UpdateTenantInput, User
+} from './schema';
+
+export interface AuthOptions {
+  // V1 은 24시간짜리 토큰 하나 - access 는 짧게, 대신 refresh 토큰으로 갱신
+  accessTtlSec?: number;
+  refreshTtlSec?: number;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('base64url');
+const publicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+export class AuthService {
+  private keyRing = new KeyRing();
+  private readonly accessTtlSec: number;
+  private readonly refreshTtlSec: number;
+
+  constructor(private readonly repository: AuthRepository, options: AuthOptions = {}) {
+    this.accessTtlSec = options.accessTtlSec ?? 15 * 60;
+    this.refreshTtlSec = options.refreshTtlSec ?? 30 * 24 * 3600;
+  }
+
+  async start() {
+    this.keyRing = new KeyRing(await this.repository.loadKeys());
+    await this.repository.saveKeys(this.keyRing.list());
+  }
+
+  async stop() {
+    await this.repository.close();
+  }
+
+  // 서명 키 교체 - 옛 키는 access 토큰 수명 동안만 검증에 남김
+  async rotateKeys() {
+    const key = this.keyRing.rotate();
+    this.keyRing.prune(this.accessTtlSec);
+    await this.repository.saveKeys(this.keyRing.list());
+    return key.kid;
+  }
+
+  async register(input: RegisterInput): Promise<{ user: PublicUser } & TokenPair> {
+    if (await this.repository.findUserByEmail(input.email)) throw new AuthError('emailTaken', '이미 가입된 이메일입니다');
+    const now = new Date().toISOString();
+    const tenant: Tenant = { id: randomUUID(), name: input.tenantName ?? `${input.name}의 집`, createdAt: now };
+    const user: User = {
+      id: randomUUID(), email: input.email, name: input.name, tenantId: tenant.id, role: 'owner',
+      passwordHash: await hashPassword(input.password), createdAt: now
+    };
+    await this.repository.saveTenant(tenant);
+    await this.repository.saveUser(user);
+    return { user: publicUser(user), ...(await this.openSession(user)) };
+  }
+
+  async login(input: LoginInput): Promise<{ user: PublicUser } & TokenPair> {
+    const user = await this.repository.findUserByEmail(input.email);
+    // 없는 계정도 같은 시간 동안 해시를 계산 - 응답 시간으로 가입 여부를 알 수 없도록
+    const valid = await verifyPassword(input.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !valid) throw new AuthError('invalidCredentials', '이메일 또는 비밀번호가 올바르지 않습니다');
+    return { user: publicUser(user), ...(await this.openSession(user)) };
+  }
+
+  // refresh 토큰 교체 - 이미 쓴 토큰이 다시 오면 탈취된 것으로 보고 세션 전체를 폐기
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const hash = hashToken(refreshToken);
+    const session = await this.repository.findSessionByTokenHash(hash);
+    if (!session) throw new AuthError('invalidToken', '알 수 없는 refresh 토큰입니다');
+    this.assertSessionActive(session);
+
+    if (session.currentTokenHash !== hash) await this.rejectReuse(session);
+    const user = await this.repository.getUser(session.userId);
+    if (!user) throw new AuthError('invalidToken', '사용자가 없습니다');
+
+    const next = randomBytes(32).toString('base64url');
+    // 같은 토큰으로 동시에 온 요청 중 하나만 교체 - 진 쪽은 이미 쓴 토큰을 다시 낸 것과 같음
+    if (!(await this.repository.rotateSessionToken(session.id, hash, hashToken(next)))) await this.rejectReuse(session);
+    return this.tokens(user, session.id, next);
+  }
+
+  async logout(user: AuthUser) {
+    const session = user.sessionId ? await this.repository.getSession(user.sessionId) : undefined;
+    if (session && !session.revokedAt) await this.revoke(session, 'logout');
+  }
+
+  async logoutAll(user: AuthUser) {
+    await this.revokeAll(user.id, 'logout');
+  }
+
+  // Router 의 authenticate 훅 - 서명/만료/세션 폐기를 확인하고 역할은 저장된 최신 값을 씀
+  async authenticate(headers: IncomingHttpHeaders): Promise<AuthUser | undefined> {
+    const match = /^Bearer\s+(\S+)$/.exec(headers.authorization ?? '');
+    if (!match) return undefined;
+    const claims = this.keyRing.verify(match[1]);
+    const session = await this.repository.getSession(claims.sid);
+    if (!session || session.userId !== claims.sub) throw new AuthError('invalidToken', '알 수 없는 세션입니다');
+    this.assertSessionActive(session);
+    const user = await this.repository.getUser(claims.sub);
+    if (!user) throw new AuthError('invalidToken', '사용자가 없습니다');
+    return { id: user.id, role: user.role, tenantId: user.tenantId, sessionId: session.id };
+  }
+
+  async me(user: AuthUser): Promise<PublicUser> {
+    return publicUser((await this.repository.getUser(user.id))!);
+  }
+
+  async tenant(user: AuthUser): Promise<Tenant & { members: PublicUser[] }> {
+    const tenant = (await this.repository.getTenant(user.tenantId))!;
+    return { ...tenant, members: (await this.repository.listMembers(tenant.id)).map(publicUser) };
+  }
+
+  async updateTenant(user: AuthUser, input: UpdateTenantInput): Promise<Tenant> {
+    const tenant = { ...(await this.repository.getTenant(user.tenantId))!, ...input };
+    await this.repository.saveTenant(tenant);
+    return tenant;
+  }
+
+  async addMember(user: AuthUser, input: AddMemberInput): Promise<PublicUser> {
+    this.assertCanGrant(user, input.role);
+    if (await this.repository.findUserByEmail(input.email)) throw new AuthError('emailTaken', '이미 가입된 이메일입니다');
+    const member: User = {
+      id: randomUUID(), email: input.email, name: input.name, tenantId: user.tenantId, role: input.role,
+      passwordHash: await hashPassword(input.password), createdAt: new Date().toISOString()
+    };
+    await this.repository.saveUser(member);
+    return publicUser(member);
+  }
+
+  async updateMember(user: AuthUser, memberId: string, input: UpdateMemberInput): Promise<PublicUser> {
+    const member = await this.member(user, memberId);
+    this.assertCanGrant(user, member.role);
+    this.assertCanGrant(user, input.role);
+    const updated = { ...member, role: input.role };
+    await this.repository.saveUser(updated);
+    return publicUser(updated);
+  }
+
+  async removeMember(user: AuthUser, memberId: string) {
+    const member = await this.member(user, memberId);
+    this.assertCanGrant(user, member.role);
+    await this.revokeAll(member.id, 'memberRemoved');
+    await this.repository.deleteUser(member.id);
+  }
+
+  private async member(user: AuthUser, memberId: string): Promise<User> {
+    const member = inTenant(user, await this.repository.getUser(memberId));
+    if (!member) throw new AuthError('notFound', `구성원이 없습니다: ${memberId}`);
+    return member;
+  }
+
+  // owner 역할은 넘기거나 바꿀 수 없고, admin 을 주거나 빼는 것은 owner 만
+  private assertCanGrant(user: AuthUser, role: string) {
+    if (role === 'owner') throw new AuthError('forbidden', 'owner 는 바꾸거나 지정할 수 없습니다');
+    if (role === 'admin' && !roleAtLeast(user.role, 'owner')) throw new AuthError('forbidden', 'admin 역할은 owner 만 관리할 수 있습니다');
+  }
+
+  private async openSession(user: User): Promise<TokenPair> {
+    const refreshToken = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const session: Session = {
+      id: randomUUID(),
+      userId: user.id,
+      currentTokenHash: hashToken(refreshToken),
+      usedTokenHashes: [],
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.refreshTtlSec * 1000).toISOString()
+    };
+    await this.repository.saveSession(session);
+    return this.tokens(user, session.id, refreshToken);
+  }
+
+  private tokens(user: User, sessionId: string, refreshToken: string): TokenPair {
+    const iat = Math.floor(Date.now() / 1000);
+    const accessToken = this.keyRing.sign({
+      sub: user.id, tid: user.tenantId, role: user.role, sid: sessionId, iat, exp: iat + this.accessTtlSec
+    });
+    return { accessToken, refreshToken, tokenType: 'Bearer', expiresIn: this.accessTtlSec };
+  }
+
+  private assertSessionActive(session: Session) {
+    if (session.revokedAt) throw new AuthError('sessionRevoked', '로그아웃되었거나 폐기된 세션입니다');
+    if (Date.parse(session.expiresAt) <= Date.now()) throw new AuthError('tokenExpired', '세션이 만료되었습니다 - 다시 로그인하세요');
+  }
+
+  private async rejectReuse(session: Session): Promise<never> {
+    await this.revoke(session, 'reuse');
+    throw new AuthError('tokenReused', '이미 사용한 refresh 토큰입니다 - 이 세션을 모두 폐기했습니다');
+  }
+
+  // 저장된 최신 세션에 폐기를 기록 - 그사이 교체된 토큰 해시를 옛 값으로 되돌리지 않도록
+  private async revoke(session: Session, reason: NonNullable<Session['revokedReason']>) {
+    const latest = (await this.repository.getSession(session.id)) ?? session;
+    if (latest.revokedAt) return;
+    await this.repository.saveSession({ ...latest, revokedAt: new Date().toISOString(), revokedReason: reason });
+  }
+
+  private async revokeAll(userId: string, reason: NonNullable<Session['revokedReason']>) {
+    const sessions = await this.repository.listSessions(userId);
+    await Promise.all(sessions.filter((session) => !session.revokedAt).map((session) => this.revoke(session, reason)));
+  }
+}
@@ -0,0 +1,47 @@
+import { SnapshotFile } from '../storage';
+import type { Automation } from './schema';
+
+// 저장소 경계 - 자동화 규칙 테이블 자리
+export interface AutomationRepository {
+  get(id: string): Promise<Automation | undefined>;
+  save(automation: Automation): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  listByTenant(tenantId: string): Promise<Automation[]>;
+  close(): Promise<void>;
+}
+
+// 내장 저장소 - 메모리에 두고 file 을 주면 JSON 스냅샷으로 유지
+export class EmbeddedAutomationRepository implements AutomationRepository {
+  private readonly automations = new Map<string, Automation>();
+  private readonly snapshot: SnapshotFile<Automation[]>;
+
+  constructor(file?: string) {
+    this.snapshot = new SnapshotFile(file, () => [...this.automations.values()]);
+    this.snapshot.load()?.forEach((automation) => this.automations.set(automation.id, automation));
+  }
+
+  async get(id: string) {
+    return this.automations.get(id);
+  }
+
+  async save(automation: Automation) {
+    this.automations.set(automation.id, automation);
+    this.snapshot.schedule();
+  }
+
+  async delete(id: string) {
+    const deleted = this.automations.delete(id);
+    if (deleted) this.snapshot.schedule();
+    return deleted;
+  }
+
+  async listByTenant(tenantId: string) {
+    return [...this.automations.values()]
+      .filter((automation) => automation.tenantId === tenantId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async close() {
+    this.snapshot.flush();
+  }
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { defineRoute } from '../http';
+import type { RouteSpec } from '../http';
+import { automationSchema, createAutomationSchema, updateAutomationSchema } from './schema';
+import type { CreateAutomationInput, UpdateAutomationInput } from './schema';
+import type { AutomationService } from './service';
+
+// V1 Automation Engine 의 규칙 관리 API
+export function automationRoutes(service: AutomationService): RouteSpec[] {
+  return [
+    defineRoute({
+      method: 'GET', path: '/api/automations', tag: 'automations', summary: '테넌트의 자동화 규칙 목록',
+      permission: 'automations:read',
+      response: { status: 200, description: '규칙 목록', schema: z.object({ items: z.array(automationSchema) }) },
+      handler: async ({ user }) => ({ status: 200, body: { items: await service.list(user!) } })
+    }),
+    defineRoute<CreateAutomationInput>({
+      method: 'POST', path: '/api/automations', tag: 'automations', summary: '자동화 규칙 추가',
+      permission: 'automations:write',
+      body: createAutomationSchema,
+      response: { status: 201, description: '추가된 규칙', schema: automationSchema },
+      handler: async ({ user, body }) => ({ status: 201, body: await service.create(user!, body) })
+    }),
+    defineRoute({
+      method: 'GET', path: '/api/automations/:id', tag: 'automations', summary: '자동화 규칙 조회',
+      permission: 'automations:read',
+      response: { status: 200, description: '규칙', schema: automationSchema },
+      handler: async ({ user, params }) => ({ status: 200, body: await service.get(user!, params.id) })
+    }),
+    defineRoute<UpdateAutomationInput>({
+      method: 'PATCH', path: '/api/automations/:id', tag: 'automations', summary: '자동화 규칙 변경 (만든 사람 또는 admin 이상)',
+      permission: 'automations:write',
+      body: updateAutomationSchema,
+      response: { status: 200, description: '변경된 규칙', schema: automationSchema },
+      handler: async ({ user, params, body }) => ({ status: 200, body: await service.update(user!, params.id, body) })
+    }),
+    defineRoute({
+      method: 'DELETE', path: '/api/automations/:id', tag: 'automations', summary: '자동화 규칙 삭제 (만든 사람 또는 admin 이상)',
+      permission: 'automations:write',
+      response: { status: 204, description: '삭제됨' },
+      handler: async ({ user, params }) => {
+        await service.remove(user!, params.id);
+        return { status: 204 };
+      }
+    })
+  ];
+}
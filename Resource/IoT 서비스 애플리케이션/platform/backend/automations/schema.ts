@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { commandMessageSchema } from '../../contract';
+import { deviceIdSchema } from '../devices/schema';
+
+// V1 Automation Engine 의 "if (temperature > threshold) sendCommand(aircon.id, 'turn_on')" 를 데이터로 표현
+export const triggerSchema = z.object({
+  deviceId: deviceIdSchema,
+  metric: z.string().min(1).max(50),
+  operator: z.enum(['>', '>=', '<', '<=', '==']),
+  threshold: z.number()
+}).strict();
+
+export const actionSchema = z.object({
+  deviceId: deviceIdSchema,
+  command: commandMessageSchema.omit({ timestamp: true })
+}).strict();
+
+export const automationSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  // 만든 사용자 - 같은 테넌트의 admin 이상도 수정 가능
+  userId: z.string(),
+  name: z.string(),
+  enabled: z.boolean(),
+  trigger: triggerSchema,
+  action: actionSchema,
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const createAutomationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  trigger: triggerSchema,
+  action: actionSchema
+}).strict();
+
+export const updateAutomationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean(),
+  trigger: triggerSchema,
+  action: actionSchema
+}).partial().strict()
+  .refine((patch) => Object.keys(patch).length > 0, { message: '바꿀 항목이 없습니다' });
+
+export type Automation = z.infer<typeof automationSchema>;
+export type CreateAutomationInput = z.infer<typeof createAutomationSchema>;
+export type UpdateAutomationInput = z.infer<typeof updateAutomationSchema>;
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { assertCanModify, inTenant } from '../auth/rbac';
+import type { DeviceRepository } from '../devices/repository';
+import { RegistryError } from '../devices/service';
+import type { AuthUser } from '../http';
+import type { AutomationRepository } from './repository';
+import type { Automation, CreateAutomationInput, UpdateAutomationInput } from './schema';
+
+// 자동화 규칙 관리 - 규칙 실행은 Automation Engine 의 몫이고 여기서는 저장과 권한만 다룸
+export class AutomationService {
+  constructor(private readonly repository: AutomationRepository, private readonly devices: DeviceRepository) {}
+
+  async stop() {
+    await this.repository.close();
+  }
+
+  async list(user: AuthUser): Promise<Automation[]> {
+    return this.repository.listByTenant(user.tenantId);
+  }
+
+  async get(user: AuthUser, id: string): Promise<Automation> {
+    const automation = inTenant(user, await this.repository.get(id));
+    if (!automation) throw new RegistryError('notFound', `자동화 규칙이 없습니다: ${id}`);
+    return automation;
+  }
+
+  async create(user: AuthUser, input: CreateAutomationInput): Promise<Automation> {
+    await this.assertDevices(user, input);
+    const now = new Date().toISOString();
+    const automation: Automation = { id: randomUUID(), tenantId: user.tenantId, userId: user.id, ...input, createdAt: now, updatedAt: now };
+    await this.repository.save(automation);
+    return automation;
+  }
+
+  async update(user: AuthUser, id: string, patch: UpdateAutomationInput): Promise<Automation> {
+    const current = await this.get(user, id);
+    assertCanModify(user, current, id);
+    const automation = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    await this.assertDevices(user, automation);
+    await this.repository.save(automation);
+    return automation;
+  }
+
+  async remove(user: AuthUser, id: string) {
+    assertCanModify(user, await this.get(user, id), id);
+    await this.repository.delete(id);
+  }
+
+  // 조건과 동작의 디바이스가 모두 같은 테넌트에 있어야 함 - 다른 집 디바이스를 트리거로 쓰거나 제어하지 못하도록
+  private async assertDevices(user: AuthUser, rule: Pick<Automation, 'trigger' | 'action'>) {
+    for (const deviceId of [rule.trigger.deviceId, rule.action.deviceId]) {
+      if (!inTenant(user, await this.devices.get(deviceId))) throw new RegistryError('notFound', `디바이스가 없습니다: ${deviceId}`);
+    }
+  }
+}
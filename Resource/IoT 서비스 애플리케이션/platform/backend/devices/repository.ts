@@ -0,0 +1,68 @@
+import { SnapshotFile } from '../storage';
+import type { Device, DevicePage, ListDevicesQuery } from './schema';
+
+export interface DeviceFilter extends ListDevicesQuery {
+  // 없으면 모든 테넌트의 디바이스 (관리 작업용)
+  tenantId?: string;
+}
+
+// 저장소 경계 - V1 의 PostgreSQL devices 테이블 자리. SQL 구현은 같은 인터페이스로 바꿔 끼움
+export interface DeviceRepository {
+  get(id: string): Promise<Device | undefined>;
+  insert(device: Device): Promise<void>;
+  update(device: Device): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(filter: DeviceFilter): Promise<DevicePage>;
+  all(): Promise<Device[]>;
+  close(): Promise<void>;
+}
+
+// 내장 저장소 - 메모리에 두고 file 을 주면 JSON 스냅샷으로 유지 (개발/시뮬레이션용 DB 대용)
+export class EmbeddedDeviceRepository implements DeviceRepository {
+  private readonly devices = new Map<string, Device>();
+  private readonly snapshot: SnapshotFile<Device[]>;
+
+  constructor(file?: string) {
+    this.snapshot = new SnapshotFile(file, () => [...this.devices.values()]);
+    this.snapshot.load()?.forEach((device) => this.devices.set(device.id, device));
+  }
+
+  async get(id: string) {
+    return this.devices.get(id);
+  }
+
+  async insert(device: Device) {
+    this.devices.set(device.id, device);
+    this.snapshot.schedule();
+  }
+
+  async update(device: Device) {
+    this.devices.set(device.id, device);
+    this.snapshot.schedule();
+  }
+
+  async delete(id: string) {
+    const deleted = this.devices.delete(id);
+    if (deleted) this.snapshot.schedule();
+    return deleted;
+  }
+
+  // 등록 순서 (createdAt, id) 로 정렬 - offset 페이지가 새 등록에도 흔들리지 않도록
+  async list({ tenantId, type, room, status, limit, offset }: DeviceFilter): Promise<DevicePage> {
+    const matched = [...this.devices.values()]
+      .filter((device) => (tenantId === undefined || device.tenantId === tenantId)
+        && (type === undefined || device.type === type)
+        && (room === undefined || device.room === room)
+        && (status === undefined || device.status.online === (status === 'online')))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+    return { items: matched.slice(offset, offset + limit), total: matched.length, limit, offset };
+  }
+
+  async all() {
+    return [...this.devices.values()];
+  }
+
+  async close() {
+    this.snapshot.flush();
+  }
+}
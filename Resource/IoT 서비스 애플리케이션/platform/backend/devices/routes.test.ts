@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startTestBackend } from '../testing';
+import type { TestSession } from '../testing';
+
+describe('device routes', () => {
+  let api: Awaited<ReturnType<typeof startTestBackend>>;
+  let alice: TestSession;
+  let mallory: TestSession;
+
+  beforeEach(async () => {
+    api = await startTestBackend();
+    alice = await api.signUp('alice@example.com');
+    mallory = await api.signUp('mallory@example.com');
+    const created = await api.request('POST', '/api/devices', { token: alice.accessToken, body: { id: 'lamp-1', name: '거실 조명', type: 'light' } });
+    expect(created.status).toBe(201);
+  });
+
+  afterEach(() => api.close());
+
+  it('잘못 인코딩된 경로는 500 이 아니라 400', async () => {
+    const res = await api.request('GET', '/api/devices/%E0', { token: alice.accessToken });
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('invalidRequest');
+  });
+
+  it('다른 테넌트의 디바이스는 없는 디바이스와 같은 404', async () => {
+    const unknown = await api.request('GET', '/api/devices/lamp-404', { token: mallory.accessToken });
+    expect(unknown.status).toBe(404);
+
+    const requests = [
+      api.request('GET', '/api/devices/lamp-1', { token: mallory.accessToken }),
+      api.request('GET', '/api/devices/lamp-1/state', { token: mallory.accessToken }),
+      api.request('PATCH', '/api/devices/lamp-1', { token: mallory.accessToken, body: { name: '내 조명' } }),
+      api.request('DELETE', '/api/devices/lamp-1', { token: mallory.accessToken }),
+      api.request('POST', '/api/devices/lamp-1/control', { token: mallory.accessToken, body: { command: { action: 'turn_off' } } }),
+      api.request('GET', '/api/devices/lamp-1/credentials', { token: mallory.accessToken })
+    ];
+    for (const res of await Promise.all(requests)) {
+      expect(res.status).toBe(404);
+      expect(res.body.error.code).toBe(unknown.body.error.code);
+    }
+  });
+
+  it('등록 id 충돌은 같은 테넌트에서만 409 - 다른 테넌트의 id 는 드러내지 않음', async () => {
+    const own = await api.request('POST', '/api/devices', { token: alice.accessToken, body: { id: 'lamp-1', name: '다시', type: 'light' } });
+    expect(own.status).toBe(409);
+
+    const other = await api.request('POST', '/api/devices', { token: mallory.accessToken, body: { id: 'lamp-1', name: '가로채기', type: 'light' } });
+    expect(other.status).toBe(404);
+    expect(other.body.error.message).not.toContain('이미 등록');
+  });
+});
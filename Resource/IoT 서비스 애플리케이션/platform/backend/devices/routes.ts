@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { commandMessageSchema } from '../../contract';
+import { HttpError, defineRoute } from '../http';
+import type { RouteSpec } from '../http';
+import {
+  controlDeviceSchema, createDeviceSchema, devicePageSchema, deviceSchema, deviceStateSchema, listDevicesQuerySchema, updateDeviceSchema
+} from './schema';
+import type { ControlDeviceInput, CreateDeviceInput, ListDevicesQuery, UpdateDeviceInput } from './schema';
+import { RegistryError } from './service';
+import type { DeviceService } from './service';
+
+const REGISTRY_STATUS: Record<RegistryError['code'], number> = {
+  notFound: 404,
+  conflict: 409
+};
+
+export function registryHttpError(error: unknown): HttpError | undefined {
+  if (error instanceof RegistryError) return new HttpError(REGISTRY_STATUS[error.code], error.code, error.message);
+  return undefined;
+}
+
+// V1 REST API 의 app.post('/api/devices') / app.get('/api/devices/:id/state') 와 나머지 CRUD
+export function deviceRoutes(service: DeviceService): RouteSpec[] {
+  return [
+    defineRoute<CreateDeviceInput>({
+      method: 'POST', path: '/api/devices', tag: 'devices', summary: '디바이스 등록 (device/{id}/+ 구독 시작)',
+      permission: 'devices:write',
+      body: createDeviceSchema,
+      response: { status: 201, description: '등록된 디바이스', schema: deviceSchema },
+      handler: async ({ user, body }) => ({ status: 201, body: await service.register(user!, body) })
+    }),
+    defineRoute<unknown, ListDevicesQuery>({
+      method: 'GET', path: '/api/devices', tag: 'devices', summary: '테넌트의 디바이스 목록 (종류/방/상태 필터, offset 페이지)',
+      permission: 'devices:read',
+      query: listDevicesQuerySchema,
+      response: { status: 200, description: '디바이스 페이지', schema: devicePageSchema },
+      handler: async ({ user, query }) => ({ status: 200, body: await service.list(user!, query) })
+    }),
+    defineRoute({
+      method: 'GET', path: '/api/devices/:id', tag: 'devices', summary: '디바이스 조회',
+      permission: 'devices:read',
+      response: { status: 200, description: '디바이스', schema: deviceSchema },
+      handler: async ({ user, params }) => ({ status: 200, body: await service.get(user!, params.id) })
+    }),
+    defineRoute({
+      method: 'GET', path: '/api/devices/:id/state', tag: 'devices', summary: '디바이스 현재 상태',
+      permission: 'devices:read',
+      response: { status: 200, description: '접속 여부와 마지막 상태', schema: deviceStateSchema },
+      handler: async ({ user, params }) => {
+        const device = await service.get(user!, params.id);
+        return { status: 200, body: { id: device.id, ...device.status } };
+      }
+    }),
+    defineRoute<UpdateDeviceInput>({
+      method: 'PATCH', path: '/api/devices/:id', tag: 'devices', summary: '이름/종류/방 등 변경 (등록한 사람 또는 admin 이상)',
+      permission: 'devices:write',
+      body: updateDeviceSchema,
+      response: { status: 200, description: '변경된 디바이스', schema: deviceSchema },
+      handler: async ({ user, params, body }) => ({ status: 200, body: await service.update(user!, params.id, body) })
+    }),
+    defineRoute({
+      method: 'DELETE', path: '/api/devices/:id', tag: 'devices', summary: '디바이스 삭제 (등록한 사람 또는 admin 이상, 구독 해제)',
+      permission: 'devices:write',
+      response: { status: 204, description: '삭제됨' },
+      handler: async ({ user, params }) => {
+        await service.remove(user!, params.id);
+        return { status: 204 };
+      }
+    }),
+    defineRoute<ControlDeviceInput>({
+      method: 'POST', path: '/api/devices/:id/control', tag: 'devices', summary: '제어 명령 발행 (결과는 response 토픽으로 비동기 도착)',
+      permission: 'devices:control',
+      body: controlDeviceSchema,
+      response: { status: 202, description: '발행한 명령', schema: z.object({ command: commandMessageSchema }) },
+      handler: async ({ user, params, body }) => ({ status: 202, body: { command: await service.control(user!, params.id, body) } })
+    })
+  ];
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { commandMessageSchema } from '../../contract';
+
+// V1 devices 테이블 (id, user_id, type, name, status JSONB) 에 테넌트, 방(room), 모델/펌웨어를 더함
+// ID 는 MQTT 토픽 한 단계가 되므로 / + # 를 쓸 수 없음 - V1 흐름 예시의 esp32_001 형태
+export const deviceIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, '영문, 숫자, _, - 로 된 64자 이하 ID');
+
+export const deviceStatusSchema = z.object({
+  online: z.boolean(),
+  // 마지막 device/{id}/response 의 state
+  state: z.record(z.unknown()),
+  lastSeen: z.string().optional()
+});
+
+export const deviceSchema = z.object({
+  id: deviceIdSchema,
+  // 등록한 사용자 - 같은 테넌트의 admin 이상도 수정 가능
+  userId: z.string(),
+  tenantId: z.string(),
+  type: z.string(),
+  name: z.string(),
+  room: z.string().optional(),
+  model: z.string().optional(),
+  firmware: z.string().optional(),
+  status: deviceStatusSchema,
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+// V1 디바이스 등록 흐름의 POST /api/devices { name, type, model } - id 를 생략하면 서버가 만듦
+export const createDeviceSchema = z.object({
+  id: deviceIdSchema.optional(),
+  name: z.string().trim().min(1).max(100),
+  type: z.string().trim().min(1).max(50),
+  room: z.string().trim().min(1).max(50).optional(),
+  model: z.string().max(50).optional(),
+  firmware: z.string().max(20).optional()
+}).strict();
+
+export const updateDeviceSchema = createDeviceSchema.omit({ id: true }).partial().strict()
+  .refine((patch) => Object.keys(patch).length > 0, { message: '바꿀 항목이 없습니다' });
+
+export const listDevicesQuerySchema = z.object({
+  type: z.string().optional(),
+  room: z.string().optional(),
+  status: z.enum(['online', 'offline']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+}).strict();
+
+export const devicePageSchema = z.object({
+  items: z.array(deviceSchema),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int()
+});
+
+export const deviceStateSchema = deviceStatusSchema.extend({ id: deviceIdSchema });
+
+// V1 제어 흐름의 POST /api/devices/{id}/control { command: { action } } - timestamp 는 서버가 붙임
+export const controlDeviceSchema = z.object({
+  command: commandMessageSchema.omit({ timestamp: true })
+}).strict();
+
+export type Device = z.infer<typeof deviceSchema>;
+export type DeviceStatus = z.infer<typeof deviceStatusSchema>;
+export type CreateDeviceInput = z.infer<typeof createDeviceSchema>;
+export type UpdateDeviceInput = z.infer<typeof updateDeviceSchema>;
+export type ListDevicesQuery = z.infer<typeof listDevicesQuerySchema>;
+export type DevicePage = z.infer<typeof devicePageSchema>;
+export type ControlDeviceInput = z.infer<typeof controlDeviceSchema>;
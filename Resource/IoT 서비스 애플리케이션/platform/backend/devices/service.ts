@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import type { BrokerClient, InProcessBroker, MqttCredentials } from '../../mqtt/broker';
+import { commandTopic, deviceIdFromTopic, responseMessageSchema } from '../../contract';
+import type { CommandMessage, RegisterMessage, ResponseMessage } from '../../contract';
+import { assertCanModify, inTenant } from '../auth/rbac';
+import type { AuthUser } from '../http';
+import type { DeviceRepository } from './repository';
+import type {
+  ControlDeviceInput, CreateDeviceInput, Device, DevicePage, DeviceStatus, ListDevicesQuery, UpdateDeviceInput
+} from './schema';
+
+export type RegistryErrorCode = 'notFound' | 'conflict';
+
+// HTTP 와 무관한 도메인 오류 - routes.ts 에서 상태 코드로 바꿈 (권한 문제는 AuthError)
+export class RegistryError extends Error {
+  constructor(public readonly code: RegistryErrorCode, message: string) {
+    super(message);
+    this.name = 'RegistryError';
+  }
+}
+
+// V1 Device Service - registerDevice 가 device/${id}/+ 를 구독하던 것처럼
+// 등록된 디바이스마다 구독을 유지하고, 삭제하면 해제함
+export class DeviceService {
+  private client?: BrokerClient;
+  // 삭제된 디바이스의 뒷정리 (자격 증명 폐기 등) - server.ts 에서 연결
+  private readonly removeHooks: ((deviceId: string) => Promise<void>)[] = [];
+
+  // credentials - 브로커 인증을 켠 경우의 서비스 계정
+  constructor(
+    private readonly repository: DeviceRepository,
+    private readonly broker: InProcessBroker,
+    private readonly credentials: MqttCredentials = {}
+  ) {}
+
+  onRemove(hook: (deviceId: string) => Promise<void>) {
+    this.removeHooks.push(hook);
+  }
+
+  async start() {
+    this.client = await this.broker.connect({ clientId: 'backend-device-service', ...this.credentials });
+    this.client.on('message', (topic: string, payload: string) => {
+      this.handleMessage(topic, payload).catch((error) => console.error(`${topic}: ${(error as Error).message}`));
+    });
+    // 재시작하면 저장된 디바이스의 구독을 다시 만듦
+    (await this.repository.all()).forEach((device) => this.client!.subscribe(deviceFilter(device.id), { qos: 1 }));
+  }
+
+  async stop() {
+    this.client?.end();
+    await this.repository.close();
+  }
+
+  async register(user: AuthUser, input: CreateDeviceInput): Promise<Device> {
+    const id = input.id ?? randomUUID();
+    const existing = await this.repository.get(id);
+    // 디바이스 id 는 MQTT 토픽(device/{id}/…)이라 전역에서 유일 - 다른 테넌트의 id 는 조회와 같은 404 로 감춤
+    if (existing && !inTenant(user, existing)) throw new RegistryError('notFound', `디바이스가 없습니다: ${id}`);
+    if (existing) throw new RegistryError('conflict', `이미 등록된 디바이스입니다: ${id}`);
+    const now = new Date().toISOString();
+    const device: Device = {
+      ...input,
+      id,
+      userId: user.id,
+      tenantId: user.tenantId,
+      // V1 흐름 예시는 등록 시 { "online": true } - 실제 접속 여부는 status 토픽으로 갱신
+      status: { online: false, state: {} },
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.repository.insert(device);
+    this.client?.subscribe(deviceFilter(id), { qos: 1 });
+    return device;
+  }
+
+  async list(user: AuthUser, query: ListDevicesQuery): Promise<DevicePage> {
+    return this.repository.list({ ...query, tenantId: user.tenantId });
+  }
+
+  // 같은 테넌트의 디바이스는 모두 볼 수 있음
+  async get(user: AuthUser, id: string): Promise<Device> {
+    const device = inTenant(user, await this.repository.get(id));
+    if (!device) throw new RegistryError('notFound', `디바이스가 없습니다: ${id}`);
+    return device;
+  }
+
+  async update(user: AuthUser, id: string, patch: UpdateDeviceInput): Promise<Device> {
+    const current = await this.get(user, id);
+    assertCanModify(user, current, id);
+    const device = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    await this.repository.update(device);
+    return device;
+  }
+
+  async remove(user: AuthUser, id: string) {
+    assertCanModify(user, await this.get(user, id), id);
+    await this.repository.delete(id);
+    this.client?.unsubscribe(deviceFilter(id));
+    for (const hook of this.removeHooks) await hook(id);
+  }
+
+  // V1 제어 흐름 - 백엔드가 device/{id}/command 로 명령을 발행, 결과는 response 토픽으로 비동기 도착
+  async control(user: AuthUser, id: string, input: ControlDeviceInput): Promise<CommandMessage> {
+    await this.get(user, id);
+    const command: CommandMessage = { ...input.command, timestamp: new Date().toISOString() };
+    this.broker.publish(commandTopic(id), JSON.stringify(command), { qos: 1 });
+    return command;
+  }
+
+  // 디바이스가 보낸 상태/응답/센서값 반영 - MQTT 구독(handleMessage)과 게이트웨이 브릿지(ingest 라우트)가 같이 씀
+  // 등록되지 않은 디바이스면 false
+  async applyStatus(deviceId: string, online: boolean, at: string) {
+    return this.patchStatus(deviceId, (status) => ({ ...status, online, lastSeen: at }));
+  }
+
+  async applyResponse(deviceId: string, response: ResponseMessage, at: string) {
+    return this.patchStatus(deviceId, () => ({ online: true, state: response.state, lastSeen: at }));
+  }
+
+  async applyTelemetry(deviceId: string, metric: string, value: number, at: string) {
+    return this.patchStatus(deviceId, (status) => ({ online: true, state: { ...status.state, [metric]: value }, lastSeen: at }));
+  }
+
+  // 디바이스가 부팅 때 알리는 펌웨어/모델 - 테넌트는 사용자가 POST /api/devices 로 등록할 때 정해짐
+  async applyRegister(message: RegisterMessage, at: string) {
+    const device = await this.repository.get(message.deviceId);
+    if (!device) return false;
+    await this.repository.update({
+      ...device,
+      firmware: message.firmware,
+      ...(message.model ? { model: message.model } : {}),
+      status: { ...device.status, online: true, lastSeen: at },
+      updatedAt: at
+    });
+    return true;
+  }
+
+  private async patchStatus(deviceId: string, patch: (status: DeviceStatus) => DeviceStatus) {
+    const device = await this.repository.get(deviceId);
+    if (!device) return false;
+    await this.repository.update({ ...device, status: patch(device.status) });
+    return true;
+  }
+
+  // 구독 중인 device/{id}/+ 중 상태를 바꾸는 토픽만 처리 - command 는 백엔드가 보낸 것이 되돌아온 것
+  private async handleMessage(topic: string, payload: string) {
+    const deviceId = deviceIdFromTopic(topic);
+    if (!deviceId) return;
+    const now = new Date().toISOString();
+
+    if (topic.endsWith('/status')) {
+      await this.applyStatus(deviceId, payload === 'online', now);
+    } else if (topic.endsWith('/response')) {
+      const response = responseMessageSchema.safeParse(parseJson(payload));
+      if (response.success) await this.applyResponse(deviceId, response.data, now);
+    }
+  }
+}
+
+const deviceFilter = (deviceId: string) => `device/${deviceId}/+`;
+
+function parseJson(payload: string): unknown {
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,195 @@
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import type { z } from 'zod';
+
+// V1 백엔드의 Express 라우터 자리 - node:http 위에 라우트 선언, 입력 검증, 인증, 오류 응답만 얹음
+// 라우트 선언(RouteSpec)이 OpenAPI 문서의 원본이기도 함 (openapi.ts)
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface AuthUser {
+  id: string;
+  role: string;
+  tenantId: string;
+  // 로그인 세션 - 로그아웃 시 폐기할 대상
+  sessionId?: string;
+}
+
+export interface RequestContext<B = unknown, Q = unknown> {
+  method: Method;
+  path: string;
+  params: Record<string, string>;
+  query: Q;
+  body: B;
+  headers: IncomingHttpHeaders;
+  // public 이 아닌 라우트에서는 항상 있음
+  user?: AuthUser;
+}
+
+export interface Reply {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface RouteSpec<B = unknown, Q = unknown> {
+  method: Method;
+  // /api/devices/:id 처럼 :이름 으로 경로 변수 지정
+  path: string;
+  tag: string;
+  summary: string;
+  // true 면 인증 없이 호출 가능
+  public?: boolean;
+  // 호출에 필요한 권한 - RouterOptions.authorize 가 확인 (RBAC)
+  permission?: string;
+  body?: z.ZodType<B, z.ZodTypeDef, unknown>;
+  query?: z.ZodType<Q, z.ZodTypeDef, unknown>;
+  response?: { status: number; description: string; schema?: z.ZodTypeAny };
+  handler(ctx: RequestContext<B, Q>): Promise<Reply> | Reply;
+}
+
+// 제네릭을 유지한 채 선언하고 Router 에는 같은 타입으로 넘기기 위한 도우미
+export const defineRoute = <B = unknown, Q = unknown>(spec: RouteSpec<B, Q>) => spec as unknown as RouteSpec;
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, where: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new HttpError(400, 'invalidRequest', `${where} 형식이 올바르지 않습니다`, result.error.issues.map((issue) =>
+      `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    ));
+  }
+  return result.data;
+}
+
+export interface RouterOptions {
+  authenticate?: (headers: IncomingHttpHeaders) => Promise<AuthUser | undefined> | AuthUser | undefined;
+  // 권한이 없으면 예외를 던짐
+  authorize?: (user: AuthUser, permission: string) => void;
+  // 도메인 오류(RegistryError 등)를 HTTP 오류로 바꿈 - 바꾸지 못한 오류는 500
+  mapError?: (error: unknown) => HttpError | undefined;
+  maxBodyBytes?: number;
+}
+
+interface CompiledRoute {
+  spec: RouteSpec;
+  pattern: RegExp;
+  keys: string[];
+}
+
+export class Router {
+  private readonly routes: CompiledRoute[] = [];
+
+  constructor(private readonly options: RouterOptions = {}) {}
+
+  add(...specs: RouteSpec[]) {
+    specs.forEach((spec) => {
+      const keys: string[] = [];
+      const source = spec.path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+      });
+      this.routes.push({ spec, pattern: new RegExp(`^${source}$`), keys });
+    });
+    return this;
+  }
+
+  list(): RouteSpec[] {
+    return this.routes.map((route) => route.spec);
+  }
+
+  // http.createServer(router.listener)
+  readonly listener = (req: IncomingMessage, res: ServerResponse) => {
+    this.handle(req, res).catch((error) => {
+      console.error(error);
+      if (!res.headersSent) send(res, { status: 500, body: errorBody('internal', '서버 오류가 발생했습니다') });
+    });
+  };
+
+  async handle(req: IncomingMessage, res: ServerResponse) {
+    try {
+      send(res, await this.dispatch(req));
+    } catch (error) {
+      const httpError = error instanceof HttpError ? error : this.options.mapError?.(error);
+      if (!httpError) throw error;
+      send(res, { status: httpError.status, body: errorBody(httpError.code, httpError.message, httpError.details) });
+    }
+  }
+
+  private async dispatch(req: IncomingMessage): Promise<Reply> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const matches = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+      .filter((candidate) => candidate.match);
+    if (matches.length === 0) throw new HttpError(404, 'notFound', `${url.pathname} 경로가 없습니다`);
+    const found = matches.find((candidate) => candidate.route.spec.method === req.method);
+    if (!found) throw new HttpError(405, 'methodNotAllowed', `${req.method} 를 지원하지 않습니다 (가능: ${matches.map((candidate) => candidate.route.spec.method).join(', ')})`);
+
+    const { spec, keys } = found.route;
+    const user = spec.public ? undefined : await this.options.authenticate?.(req.headers);
+    if (!spec.public && !user) throw new HttpError(401, 'unauthenticated', '인증이 필요합니다');
+    if (spec.permission) {
+      // 권한을 선언했는데 확인할 방법이 없으면 막음
+      if (!user || !this.options.authorize) throw new HttpError(403, 'forbidden', `${spec.permission} 권한을 확인할 수 없습니다`);
+      this.options.authorize(user, spec.permission);
+    }
+
+    const raw = spec.body ? await readJson(req, this.options.maxBodyBytes ?? 1_000_000) : undefined;
+    return spec.handler({
+      method: spec.method,
+      path: url.pathname,
+      params: Object.fromEntries(keys.map((key, idx) => [key, decodeParam(found.match![idx + 1])])),
+      query: spec.query ? parseInput(spec.query, Object.fromEntries(url.searchParams), '쿼리') : undefined,
+      body: spec.body ? parseInput(spec.body, raw, '요청 본문') : undefined,
+      headers: req.headers,
+      user
+    });
+  }
+}
+
+// /api/devices/%E0 처럼 잘못 인코딩된 경로는 URIError 가 500 으로 새지 않도록 400
+function decodeParam(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'invalidRequest', `경로의 URL 인코딩이 올바르지 않습니다: ${value}`);
+  }
+}
+
+const errorBody = (code: string, message: string, details: string[] = []) => ({
+  error: { code, message, ...(details.length > 0 ? { details } : {}) }
+});
+
+function send(res: ServerResponse, reply: Reply) {
+  if (reply.body === undefined) {
+    res.writeHead(reply.status, reply.headers).end();
+    return;
+  }
+  res.writeHead(reply.status, { 'content-type': 'application/json; charset=utf-8', ...reply.headers }).end(JSON.stringify(reply.body));
+}
+
+async function readJson(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, 'payloadTooLarge', `요청 본문은 ${maxBytes}바이트를 넘을 수 없습니다`);
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (text.trim() === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'invalidJson', '요청 본문이 JSON 이 아닙니다');
+  }
+}
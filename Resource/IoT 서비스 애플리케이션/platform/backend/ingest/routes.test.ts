@@ -0,0 +1,88 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { statusTopic, telemetryTopic } from '../../contract';
+import { ProtocolBridge } from '../../gateway/bridge';
+import { loadBridgeConfig, validateBridgeConfig } from '../../gateway/config';
+import { InProcessBroker } from '../../mqtt/broker';
+import { startTestBackend } from '../testing';
+import type { TestSession } from '../testing';
+
+const GATEWAY_TOKEN = 'gateway-token-for-tests';
+const bridgeYaml = loadBridgeConfig(join(__dirname, '../../gateway/bridge.yaml'));
+
+const telemetry = (deviceId: string, data: unknown) => ({
+  records: [{ topic: telemetryTopic(deviceId, 'temp'), deviceId, receivedAt: new Date().toISOString(), data }]
+});
+
+describe('ingest routes', () => {
+  let api: Awaited<ReturnType<typeof startTestBackend>>;
+  let alice: TestSession;
+
+  beforeEach(async () => {
+    api = await startTestBackend({ gatewayTokens: [GATEWAY_TOKEN] });
+    alice = await api.signUp('alice@example.com');
+    await api.request('POST', '/api/devices', { token: alice.accessToken, body: { id: 'dht-1', name: '거실 센서', type: 'sensor' } });
+  });
+
+  afterEach(() => api.close());
+
+  it('bridge.yaml 의 모든 route 가 백엔드의 POST 경로', () => {
+    const posts = api.backend.router.list().filter((route) => route.method === 'POST').map((route) => route.path);
+    expect(bridgeYaml.routes.map((route) => route.path).filter((path) => !posts.includes(path))).toEqual([]);
+  });
+
+  it('게이트웨이 토큰이 없거나 틀리면 401 - 사용자 토큰도 받지 않음', async () => {
+    for (const token of [undefined, 'wrong-token', alice.accessToken]) {
+      const res = await api.request('POST', '/api/ingest/telemetry', { token, body: telemetry('dht-1', 21) });
+      expect(res.status).toBe(401);
+    }
+  });
+
+  it('등록된 디바이스의 레코드만 반영', async () => {
+    const res = await api.request('POST', '/api/ingest/telemetry', {
+      token: GATEWAY_TOKEN,
+      body: { records: [...telemetry('dht-1', 21.5).records, ...telemetry('ghost', 30).records] }
+    });
+    expect(res).toEqual({ status: 200, body: { accepted: 1, ignored: 1 } });
+
+    const state = await api.request('GET', '/api/devices/dht-1/state', { token: alice.accessToken });
+    expect(state.body).toMatchObject({ online: true, state: { temp: 21.5 } });
+  });
+
+  it('다른 디바이스의 ID 로 보낸 등록 메시지는 버림', async () => {
+    const res = await api.request('POST', '/api/ingest/register', {
+      token: GATEWAY_TOKEN,
+      body: { records: [{ topic: 'device/evil/register', deviceId: 'evil', receivedAt: new Date().toISOString(), data: { deviceId: 'dht-1', type: 'dht', firmware: '6.6.6' } }] }
+    });
+    expect(res.body).toEqual({ accepted: 0, ignored: 1 });
+  });
+
+  it('브릿지가 bridge.yaml 의 route 와 토큰으로 백엔드에 전달', async () => {
+    const outbox = mkdtempSync(join(tmpdir(), 'bridge-'));
+    const broker = new InProcessBroker();
+    const bridge = new ProtocolBridge(broker, validateBridgeConfig({
+      backend: api.url,
+      routes: bridgeYaml.routes,
+      auth: { token: GATEWAY_TOKEN },
+      batchIntervalSec: 0.05,
+      outbox: { dir: outbox }
+    }));
+    try {
+      await bridge.start();
+      broker.publish(telemetryTopic('dht-1', 'humidity'), '55', { qos: 1 });
+      broker.publish(statusTopic('dht-1'), 'online', { qos: 1 });
+
+      await vi.waitFor(async () => {
+        const state = await api.request('GET', '/api/devices/dht-1/state', { token: alice.accessToken });
+        expect(state.body).toMatchObject({ online: true, state: { humidity: 55 } });
+      });
+      expect(bridge.metrics()).toMatchObject({ forwarded: 2, deadLettered: 0 });
+    } finally {
+      await bridge.stop();
+      await broker.close();
+      rmSync(outbox, { recursive: true, force: true });
+    }
+  });
+});
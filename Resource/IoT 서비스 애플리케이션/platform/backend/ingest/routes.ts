@@ -0,0 +1,95 @@
+import type { IncomingHttpHeaders } from 'http';
+import { metricFromTopic } from '../../contract';
+import type { DeviceService } from '../devices/service';
+import { HttpError, defineRoute } from '../http';
+import type { RouteSpec } from '../http';
+import { sameSecret } from '../provisioning/broker-auth';
+import { ingestResultSchema, registerBatchSchema, responseBatchSchema, statusBatchSchema, telemetryBatchSchema } from './schema';
+import type { IngestResult, RegisterBatch, ResponseBatch, StatusBatch, TelemetryBatch } from './schema';
+
+// 사용자 JWT 가 아니라 게이트웨이 토큰으로 인증 - 토큰을 설정하지 않으면 모든 요청을 거부
+function assertGateway(headers: IncomingHttpHeaders, tokens: string[]) {
+  const match = /^Bearer\s+(\S+)$/.exec(headers.authorization ?? '');
+  if (!match) throw new HttpError(401, 'unauthenticated', '게이트웨이 토큰이 필요합니다');
+  // 맞는 토큰을 찾아도 멈추지 않음 - 몇 번째 토큰인지 응답 시간으로 드러나지 않도록
+  let matched = false;
+  for (const token of tokens) {
+    if (sameSecret(match[1], token)) matched = true;
+  }
+  if (!matched) throw new HttpError(401, 'invalidToken', '알 수 없는 게이트웨이 토큰입니다');
+}
+
+// 레코드마다 반영하고 레지스트리에 없는 디바이스의 레코드는 세기만 함
+async function ingest<R>(records: R[], apply: (record: R) => Promise<boolean>): Promise<IngestResult> {
+  let accepted = 0;
+  for (const record of records) {
+    if (await apply(record)) accepted += 1;
+  }
+  return { accepted, ignored: records.length - accepted };
+}
+
+// V1 게이트웨이 Protocol Bridge 의 axios.post('/api/telemetry', …) 를 받는 쪽 - bridge.yaml 의 route 별 경로
+export function ingestRoutes(devices: DeviceService, tokens: string[]): RouteSpec[] {
+  const response = { status: 200, description: '반영한 레코드 수', schema: ingestResultSchema };
+  return [
+    defineRoute<TelemetryBatch>({
+      method: 'POST', path: '/api/ingest/telemetry', tag: 'ingest', summary: '센서값 배치 (게이트웨이 토큰)',
+      public: true,
+      body: telemetryBatchSchema,
+      response,
+      handler: async ({ headers, body }) => {
+        assertGateway(headers, tokens);
+        return {
+          status: 200,
+          body: await ingest(body.records, async ({ deviceId, topic, receivedAt, data }) => {
+            const metric = metricFromTopic(topic);
+            return deviceId !== undefined && metric !== undefined && devices.applyTelemetry(deviceId, metric, data, receivedAt);
+          })
+        };
+      }
+    }),
+    defineRoute<StatusBatch>({
+      method: 'POST', path: '/api/ingest/status', tag: 'ingest', summary: '접속 상태 (게이트웨이 토큰)',
+      public: true,
+      body: statusBatchSchema,
+      response,
+      handler: async ({ headers, body }) => {
+        assertGateway(headers, tokens);
+        return {
+          status: 200,
+          body: await ingest(body.records, async ({ deviceId, receivedAt, data }) =>
+            deviceId !== undefined && devices.applyStatus(deviceId, data === 'online', receivedAt))
+        };
+      }
+    }),
+    defineRoute<ResponseBatch>({
+      method: 'POST', path: '/api/ingest/responses', tag: 'ingest', summary: '제어 명령 결과 (게이트웨이 토큰)',
+      public: true,
+      body: responseBatchSchema,
+      response,
+      handler: async ({ headers, body }) => {
+        assertGateway(headers, tokens);
+        return {
+          status: 200,
+          body: await ingest(body.records, async ({ deviceId, receivedAt, data }) =>
+            deviceId !== undefined && devices.applyResponse(deviceId, data, receivedAt))
+        };
+      }
+    }),
+    defineRoute<RegisterBatch>({
+      method: 'POST', path: '/api/ingest/register', tag: 'ingest', summary: '디바이스 부팅 알림 - 펌웨어/모델 갱신 (게이트웨이 토큰)',
+      public: true,
+      body: registerBatchSchema,
+      response,
+      handler: async ({ headers, body }) => {
+        assertGateway(headers, tokens);
+        // 메시지의 deviceId 로 반영하되 발행한 디바이스와 다르면 버림 - 다른 디바이스의 펌웨어 정보를 바꾸지 못하도록
+        return {
+          status: 200,
+          body: await ingest(body.records, async ({ deviceId, receivedAt, data }) =>
+            (deviceId === undefined || deviceId === data.deviceId) && devices.applyRegister(data, receivedAt))
+        };
+      }
+    })
+  ];
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { registerMessageSchema, responseMessageSchema } from '../../contract';
+
+// 게이트웨이 브릿지(platform/gateway)가 보내는 배치 { records } - BridgeRecord 와 같은 모양
+// data 는 브릿지의 payload 형식(number/status/register/response)으로 이미 변환된 값
+const recordsSchema = <T extends z.ZodTypeAny>(data: T) => z.object({
+  records: z.array(z.object({
+    topic: z.string().min(1),
+    // V1 토픽처럼 ID 가 없고 발행한 클라이언트도 모르면 비어 있음
+    deviceId: z.string().min(1).optional(),
+    receivedAt: z.string().datetime(),
+    data
+  }).strict()).min(1)
+}).strict();
+
+export const telemetryBatchSchema = recordsSchema(z.number());
+export const statusBatchSchema = recordsSchema(z.enum(['online', 'offline']));
+export const registerBatchSchema = recordsSchema(registerMessageSchema);
+export const responseBatchSchema = recordsSchema(responseMessageSchema);
+
+export const ingestResultSchema = z.object({
+  accepted: z.number().int(),
+  // 레지스트리에 없는 디바이스의 레코드 - 재시도해도 같으므로 버림
+  ignored: z.number().int()
+});
+
+export type TelemetryBatch = z.infer<typeof telemetryBatchSchema>;
+export type StatusBatch = z.infer<typeof statusBatchSchema>;
+export type RegisterBatch = z.infer<typeof registerBatchSchema>;
+export type ResponseBatch = z.infer<typeof responseBatchSchema>;
+export type IngestResult = z.infer<typeof ingestResultSchema>;
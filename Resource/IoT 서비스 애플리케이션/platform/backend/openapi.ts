@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import type { RouteSpec } from './http';
+
+type JsonSchema = Record<string, unknown>;
+
+// 라우트에 쓰는 zod 스키마를 JSON Schema 로 - 문서가 실제 검증과 어긋나지 않도록 같은 스키마에서 만듦
+// 이 서비스가 쓰는 타입만 다루고 나머지는 제약 없는 스키마({})로 둠
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodString) {
+    const regex = schema._def.checks.find((check) => check.kind === 'regex');
+    return {
+      type: 'string',
+      ...(schema.minLength !== null ? { minLength: schema.minLength } : {}),
+      ...(schema.maxLength !== null ? { maxLength: schema.maxLength } : {}),
+      ...(regex && regex.kind === 'regex' ? { pattern: regex.regex.source } : {})
+    };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? 'integer' : 'number',
+      ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+      ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {})
+    };
+  }
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { enum: [schema.value] };
+  if (schema instanceof z.ZodArray) return { type: 'array', items: toJsonSchema(schema.element) };
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape).filter(([, field]) => !field.isOptional()).map(([key]) => key);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, toJsonSchema(field)])),
+      ...(required.length > 0 ? { required } : {}),
+      ...(schema._def.unknownKeys === 'strict' ? { additionalProperties: false } : {})
+    };
+  }
+  return {};
+}
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: {
+      type: 'object',
+      properties: { code: { type: 'string' }, message: { type: 'string' }, details: { type: 'array', items: { type: 'string' } } },
+      required: ['code', 'message']
+    }
+  }
+};
+
+const ERROR_RESPONSES: Record<string, string> = {
+  400: '요청 형식 오류',
+  401: '인증 필요',
+  403: '권한 없음',
+  404: '대상 없음'
+};
+
+// OpenAPI 3.0 문서 - GET /openapi.json 으로 제공
+export function buildOpenApi(routes: RouteSpec[], info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  routes.forEach((route) => {
+    const path = route.path.replace(/:([A-Za-z]+)/g, '{$1}');
+    const pathParams = [...route.path.matchAll(/:([A-Za-z]+)/g)].map(([, name]) => ({
+      name, in: 'path', required: true, schema: { type: 'string' }
+    }));
+    const queryShape = route.query instanceof z.ZodObject ? (route.query.shape as Record<string, z.ZodTypeAny>) : {};
+    const queryParams = Object.entries(queryShape).map(([name, field]) => ({
+      name, in: 'query', required: !field.isOptional(), schema: toJsonSchema(field)
+    }));
+    const response = route.response ?? { status: 200, description: '성공' };
+
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: {
+        tags: [route.tag],
+        summary: route.summary,
+        ...(route.public ? { security: [] } : {}),
+        ...(route.permission ? { 'x-permission': route.permission } : {}),
+        parameters: [...pathParams, ...queryParams],
+        ...(route.body ? {
+          requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(route.body as z.ZodTypeAny) } } }
+        } : {}),
+        responses: {
+          [response.status]: {
+            description: response.description,
+            ...(response.schema ? { content: { 'application/json': { schema: toJsonSchema(response.schema) } } } : {})
+          },
+          ...Object.fromEntries(Object.entries(ERROR_RESPONSES)
+            .filter(([status]) => !(route.public && (status === '401' || status === '403')))
+            .map(([status, description]) => [status, { description, content: { 'application/json': { schema: errorSchema } } }]))
+        }
+      }
+    };
+  });
+
+  return {
+    openapi: '3.0.3',
+    info,
+    components: { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } },
+    security: [{ bearerAuth: [] }],
+    paths
+  };
+}
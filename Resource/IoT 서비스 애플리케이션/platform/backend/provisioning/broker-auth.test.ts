@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InProcessBroker } from '../../mqtt/broker';
+import type { BrokerAuthHook } from '../../mqtt/broker';
+import { EmbeddedDeviceRepository } from '../devices/repository';
+import { deviceAuthHook } from './broker-auth';
+import { EmbeddedCredentialRepository } from './repository';
+import { ProvisioningError, ProvisioningService } from './service';
+
+const SERVICES = { 'gateway-bridge': 'service-secret' };
+
+describe('deviceAuthHook', () => {
+  let broker: InProcessBroker;
+  let provisioning: ProvisioningService;
+  let hook: BrokerAuthHook;
+
+  beforeEach(() => {
+    broker = new InProcessBroker();
+    provisioning = new ProvisioningService(
+      new EmbeddedCredentialRepository(), new EmbeddedDeviceRepository(), broker, new Set(Object.keys(SERVICES))
+    );
+    hook = deviceAuthHook(provisioning, { services: SERVICES });
+    broker.useAuth(hook);
+  });
+
+  const connectDevice = async (deviceId: string, secret: string) => broker.connect({ clientId: deviceId, username: deviceId, password: secret });
+
+  it('연결이 끊기면 주체를 지움', async () => {
+    const { secret } = await provisioning.provision('lamp-1');
+    const client = await connectDevice('lamp-1', secret);
+    expect(hook.authorizePublish('lamp-1', 'device/lamp-1/status')).toBe(true);
+
+    client.end();
+    expect(hook.authorizePublish('lamp-1', 'device/lamp-1/status')).toBe(false);
+  });
+
+  it('같은 ID 로 다시 접속하면 끊긴 옛 접속이 새 접속의 주체를 지우지 않음', async () => {
+    const { secret } = await provisioning.provision('lamp-1');
+    const first = await connectDevice('lamp-1', secret);
+    const second = await connectDevice('lamp-1', secret);
+    expect(first.connected).toBe(false);
+    expect(hook.authorizePublish('lamp-1', 'device/lamp-1/status')).toBe(true);
+
+    second.end();
+    expect(hook.authorizePublish('lamp-1', 'device/lamp-1/status')).toBe(false);
+  });
+
+  it('서비스 username 과 같은 디바이스 ID 에는 자격 증명을 발급하지 않음', async () => {
+    await expect(provisioning.provision('gateway-bridge')).rejects.toEqual(
+      expect.objectContaining<Partial<ProvisioningError>>({ code: 'reservedId' })
+    );
+  });
+
+  it('서비스 clientId 로 접속해 서비스 세션을 가로채지 못함', async () => {
+    const { secret } = await provisioning.provision('lamp-1');
+    const service = await broker.connect({ clientId: 'gateway-bridge', username: 'gateway-bridge', password: 'service-secret' });
+
+    await expect(broker.connect({ clientId: 'gateway-bridge', username: 'lamp-1', password: secret })).rejects.toMatchObject({ code: 'notAuthorized' });
+    expect(service.connected).toBe(true);
+    expect(hook.authorizeSubscribe('gateway-bridge', 'device/+/telemetry/+')).toBe(true);
+
+    // 서비스 계정도 다른 clientId 로는 접속할 수 없음
+    await expect(broker.connect({ clientId: 'lamp-1', username: 'gateway-bridge', password: 'service-secret' })).rejects.toMatchObject({ code: 'notAuthorized' });
+  });
+});
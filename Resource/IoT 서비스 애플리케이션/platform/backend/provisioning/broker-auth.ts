@@ -0,0 +1,67 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { BrokerAuthHook } from '../../mqtt/broker';
+import { LEGACY_REGISTER_TOPIC } from '../../contract';
+import type { ProvisioningService } from './service';
+
+export interface DeviceAuthOptions {
+  // username → 시크릿. 브릿지/백엔드처럼 모든 디바이스 토픽을 다루는 서비스 계정
+  services?: Record<string, string>;
+  // V1 펌웨어의 telemetry/+ 와 device/register 발행 허용 - 토픽 이전 기간에만 켬
+  legacyTopics?: boolean;
+}
+
+// connection - 이 주체를 인증한 접속. 세션 인수로 끊긴 옛 접속이 새 접속의 주체를 지우지 않도록 확인
+type Principal = ({ kind: 'service' } | { kind: 'device'; deviceId: string }) & { connection: number };
+
+// 길이가 달라도 비교 시간이 같도록 해시끼리 비교 - 게이트웨이 토큰 확인(ingest/routes.ts)에서도 씀
+export const sameSecret = (a: string, b: string) => timingSafeEqual(
+  createHash('sha256').update(a).digest(),
+  createHash('sha256').update(b).digest()
+);
+
+// 디바이스는 username = clientId = deviceId, password = 발급받은 시크릿으로 접속하고
+// 자기 device/{id}/... 아래만 발행/구독 가능. 명령 토픽은 백엔드만 발행
+// 서비스 계정도 clientId = username - 서비스 username 은 디바이스 ID 로 발급하지 않으므로(ProvisioningService) 서로 겹치지 않음
+export function deviceAuthHook(provisioning: ProvisioningService, options: DeviceAuthOptions = {}): BrokerAuthHook {
+  const services = new Map(Object.entries(options.services ?? {}));
+  // 인증에 성공한 clientId 의 주체 - ACL 확인은 clientId 로만 호출됨
+  const principals = new Map<string, Principal>();
+
+  const ownTopic = (deviceId: string, topic: string) => topic.startsWith(`device/${deviceId}/`);
+
+  return {
+    async authenticate({ clientId, username, password }, connection) {
+      if (username === undefined || password === undefined) return false;
+      // 다른 디바이스나 서비스의 clientId 로 세션을 가로채지 못하도록 clientId 도 자기 username 이어야 함
+      if (clientId !== username) return false;
+      const service = services.get(username);
+      if (service !== undefined) {
+        if (!sameSecret(password, service)) return false;
+        principals.set(clientId, { kind: 'service', connection });
+        return true;
+      }
+      if (!(await provisioning.verify(username, password))) return false;
+      principals.set(clientId, { kind: 'device', deviceId: username, connection });
+      return true;
+    },
+
+    disconnected(clientId, connection) {
+      if (principals.get(clientId)?.connection === connection) principals.delete(clientId);
+    },
+
+    authorizePublish(clientId, topic) {
+      const principal = principals.get(clientId);
+      if (principal?.kind === 'service') return true;
+      if (!principal) return false;
+      if (options.legacyTopics && (topic.startsWith('telemetry/') || topic === LEGACY_REGISTER_TOPIC)) return true;
+      return ownTopic(principal.deviceId, topic) && topic !== `device/${principal.deviceId}/command`;
+    },
+
+    // device/+/command 처럼 다른 디바이스까지 걸리는 필터는 거부 - 와일드카드는 자기 ID 뒤에만
+    authorizeSubscribe(clientId, filter) {
+      const principal = principals.get(clientId);
+      if (principal?.kind === 'service') return true;
+      return principal !== undefined && ownTopic(principal.deviceId, filter);
+    }
+  };
+}
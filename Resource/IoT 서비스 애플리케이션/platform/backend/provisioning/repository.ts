@@ -0,0 +1,40 @@
+import { SnapshotFile } from '../storage';
+import type { DeviceCredential } from './schema';
+
+// 저장소 경계 - 디바이스 자격 증명 테이블 자리
+export interface CredentialRepository {
+  get(deviceId: string): Promise<DeviceCredential | undefined>;
+  save(credential: DeviceCredential): Promise<void>;
+  delete(deviceId: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// 내장 저장소 - 메모리에 두고 file 을 주면 JSON 스냅샷으로 유지
+export class EmbeddedCredentialRepository implements CredentialRepository {
+  private readonly credentials = new Map<string, DeviceCredential>();
+  private readonly snapshot: SnapshotFile<DeviceCredential[]>;
+
+  constructor(file?: string) {
+    this.snapshot = new SnapshotFile(file, () => [...this.credentials.values()]);
+    this.snapshot.load()?.forEach((credential) => this.credentials.set(credential.deviceId, credential));
+  }
+
+  async get(deviceId: string) {
+    return this.credentials.get(deviceId);
+  }
+
+  async save(credential: DeviceCredential) {
+    this.credentials.set(credential.deviceId, credential);
+    this.snapshot.schedule();
+  }
+
+  async delete(deviceId: string) {
+    const deleted = this.credentials.delete(deviceId);
+    if (deleted) this.snapshot.schedule();
+    return deleted;
+  }
+
+  async close() {
+    this.snapshot.flush();
+  }
+}
@@ -0,0 +1,50 @@
+import { HttpError, defineRoute } from '../http';
+import type { RouteSpec } from '../http';
+import { credentialInfoSchema, issuedCredentialSchema, revokeCredentialSchema, rotateCredentialSchema } from './schema';
+import type { RevokeCredentialInput, RotateCredentialInput } from './schema';
+import { ProvisioningError } from './service';
+import type { ProvisioningService } from './service';
+
+const PROVISIONING_STATUS: Record<ProvisioningError['code'], number> = {
+  notProvisioned: 404,
+  alreadyProvisioned: 409,
+  revoked: 409,
+  reservedId: 409
+};
+
+export function provisioningHttpError(error: unknown): HttpError | undefined {
+  if (error instanceof ProvisioningError) return new HttpError(PROVISIONING_STATUS[error.code], error.code, error.message);
+  return undefined;
+}
+
+// 디바이스 MQTT 자격 증명 - 시크릿은 발급/교체 응답에만 나오고 다시 볼 수 없음
+export function provisioningRoutes(service: ProvisioningService): RouteSpec[] {
+  return [
+    defineRoute({
+      method: 'POST', path: '/api/devices/:id/credentials', tag: 'provisioning', summary: 'MQTT 자격 증명 발급 (시크릿은 이 응답에서만 확인 가능)',
+      permission: 'devices:write',
+      response: { status: 201, description: '발급된 자격 증명', schema: issuedCredentialSchema },
+      handler: async ({ user, params }) => ({ status: 201, body: await service.issue(user!, params.id) })
+    }),
+    defineRoute({
+      method: 'GET', path: '/api/devices/:id/credentials', tag: 'provisioning', summary: '자격 증명 상태 (시크릿 제외)',
+      permission: 'devices:read',
+      response: { status: 200, description: '자격 증명 상태', schema: credentialInfoSchema },
+      handler: async ({ user, params }) => ({ status: 200, body: await service.info(user!, params.id) })
+    }),
+    defineRoute<RotateCredentialInput>({
+      method: 'POST', path: '/api/devices/:id/credentials/rotate', tag: 'provisioning', summary: '시크릿 교체 (옛 시크릿은 graceSec 동안 유효)',
+      permission: 'devices:write',
+      body: rotateCredentialSchema,
+      response: { status: 201, description: '새 시크릿', schema: issuedCredentialSchema },
+      handler: async ({ user, params, body }) => ({ status: 201, body: await service.rotate(user!, params.id, body.graceSec) })
+    }),
+    defineRoute<RevokeCredentialInput>({
+      method: 'POST', path: '/api/devices/:id/credentials/revoke', tag: 'provisioning', summary: '자격 증명 폐기 (접속 중이면 바로 끊음)',
+      permission: 'devices:write',
+      body: revokeCredentialSchema,
+      response: { status: 200, description: '폐기된 자격 증명', schema: credentialInfoSchema },
+      handler: async ({ user, params, body }) => ({ status: 200, body: await service.revoke(user!, params.id, body.reason) })
+    })
+  ];
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { deviceIdSchema } from '../devices/schema';
+
+// 시크릿은 발급 응답에서 한 번만 보여주고 SHA-256 해시만 저장
+// 교체 직후에는 옛 시크릿도 expiresAt 까지 유효 - 펌웨어가 새 시크릿을 받아 재접속할 시간
+export const credentialSecretSchema = z.object({
+  id: z.string(),
+  hash: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional()
+});
+
+export const deviceCredentialSchema = z.object({
+  deviceId: deviceIdSchema,
+  // 레지스트리에 없는 디바이스(시뮬레이터 등)를 직접 프로비저닝하면 없음
+  tenantId: z.string().optional(),
+  status: z.enum(['active', 'revoked']),
+  secrets: z.array(credentialSecretSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  revokedAt: z.string().optional(),
+  revokedReason: z.string().optional()
+});
+
+// 조회 응답 - 해시는 내보내지 않음
+export const credentialInfoSchema = deviceCredentialSchema.omit({ tenantId: true, secrets: true }).extend({
+  secrets: z.array(credentialSecretSchema.omit({ hash: true }))
+});
+
+// 발급/교체 응답 - ESP32 의 MQTT 접속 설정 (clientId 와 username 모두 deviceId)
+export const issuedCredentialSchema = z.object({
+  deviceId: deviceIdSchema,
+  username: z.string(),
+  secretId: z.string(),
+  secret: z.string(),
+  // 교체한 경우 옛 시크릿이 만료되는 시각
+  previousExpiresAt: z.string().optional()
+});
+
+// 본문을 생략하면 기본값
+export const rotateCredentialSchema = z.object({
+  // 0 이면 옛 시크릿을 바로 무효화
+  graceSec: z.number().int().min(0).max(7 * 24 * 3600).default(3600)
+}).strict().default({});
+
+export const revokeCredentialSchema = z.object({
+  reason: z.string().trim().min(1).max(200).optional()
+}).strict().default({});
+
+export type CredentialSecret = z.infer<typeof credentialSecretSchema>;
+export type DeviceCredential = z.infer<typeof deviceCredentialSchema>;
+export type CredentialInfo = z.infer<typeof credentialInfoSchema>;
+export type IssuedCredential = z.infer<typeof issuedCredentialSchema>;
+export type RotateCredentialInput = z.infer<typeof rotateCredentialSchema>;
+export type RevokeCredentialInput = z.infer<typeof revokeCredentialSchema>;
@@ -0,0 +1,143 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { InProcessBroker } from '../../mqtt/broker';
+import { assertCanModify, inTenant } from '../auth/rbac';
+import type { DeviceRepository } from '../devices/repository';
+import { RegistryError } from '../devices/service';
+import type { AuthUser } from '../http';
+import type { CredentialRepository } from './repository';
+import type { CredentialInfo, CredentialSecret, DeviceCredential, IssuedCredential } from './schema';
+
+export type ProvisioningErrorCode = 'notProvisioned' | 'alreadyProvisioned' | 'revoked' | 'reservedId';
+
+// HTTP 와 무관한 도메인 오류 - routes.ts 에서 상태 코드로 바꿈
+export class ProvisioningError extends Error {
+  constructor(public readonly code: ProvisioningErrorCode, message: string) {
+    super(message);
+    this.name = 'ProvisioningError';
+  }
+}
+
+// 32바이트 난수라 비밀번호처럼 느린 해시가 필요 없음 - 접속마다 검증하므로 SHA-256
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest();
+
+export function secretMatches(secret: string, hash: string) {
+  const expected = Buffer.from(hash, 'base64');
+  const actual = hashSecret(secret);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const isValid = (secret: CredentialSecret, now: number) => secret.expiresAt === undefined || Date.parse(secret.expiresAt) > now;
+
+// 디바이스별 MQTT 자격 증명 발급/교체/폐기 - 브로커 인증 훅(broker-auth.ts)이 verify 로 확인
+export class ProvisioningService {
+  // reservedIds - 브로커 서비스 계정의 username(= clientId). 같은 ID 의 디바이스가 서비스 세션을 인수하지 못하도록 발급하지 않음
+  constructor(
+    private readonly repository: CredentialRepository,
+    private readonly devices: DeviceRepository,
+    private readonly broker: InProcessBroker,
+    private readonly reservedIds: ReadonlySet<string> = new Set()
+  ) {}
+
+  async stop() {
+    await this.repository.close();
+  }
+
+  // 레지스트리의 디바이스에 첫 시크릿 발급 (폐기된 디바이스를 다시 쓰려면 새로 발급)
+  async issue(user: AuthUser, deviceId: string): Promise<IssuedCredential> {
+    await this.assertDevice(user, deviceId);
+    return this.provision(deviceId, user.tenantId);
+  }
+
+  // 권한 확인 없이 발급 - issue 와 시뮬레이터 프로비저닝에서 사용
+  async provision(deviceId: string, tenantId?: string): Promise<IssuedCredential> {
+    if (this.reservedIds.has(deviceId)) {
+      throw new ProvisioningError('reservedId', `서비스 계정과 같은 ID 에는 자격 증명을 발급할 수 없습니다: ${deviceId}`);
+    }
+    const current = await this.repository.get(deviceId);
+    if (current?.status === 'active') {
+      throw new ProvisioningError('alreadyProvisioned', `이미 자격 증명이 있습니다: ${deviceId} (교체는 rotate)`);
+    }
+    const now = new Date().toISOString();
+    const { secret, issued } = newSecret(now);
+    await this.repository.save({ deviceId, tenantId, status: 'active', secrets: [secret], createdAt: now, updatedAt: now });
+    // 폐기 후 재발급이면 옛 세션이 남지 않도록
+    if (current) this.broker.kick(deviceId);
+    return { deviceId, username: deviceId, secretId: secret.id, secret: issued };
+  }
+
+  // 새 시크릿을 추가하고 기존 시크릿은 graceSec 뒤 만료 - 이미 접속한 세션은 끊지 않음
+  async rotate(user: AuthUser, deviceId: string, graceSec: number): Promise<IssuedCredential> {
+    await this.assertDevice(user, deviceId);
+    const current = await this.active(deviceId);
+    const now = Date.now();
+    const expiresAt = new Date(now + graceSec * 1000).toISOString();
+    const { secret, issued } = newSecret(new Date(now).toISOString());
+    const previous = current.secrets
+      .filter((old) => isValid(old, now))
+      .map((old) => ({ ...old, expiresAt: old.expiresAt && old.expiresAt < expiresAt ? old.expiresAt : expiresAt }))
+      .filter((old) => isValid(old, now));
+    await this.repository.save({ ...current, secrets: [...previous, secret], updatedAt: secret.createdAt });
+    return { deviceId, username: deviceId, secretId: secret.id, secret: issued, ...(previous.length > 0 ? { previousExpiresAt: expiresAt } : {}) };
+  }
+
+  // 탈취 등 - 모든 시크릿을 지우고 접속 중이면 바로 끊음 (재접속은 인증 단계에서 거부)
+  async revoke(user: AuthUser, deviceId: string, reason?: string): Promise<CredentialInfo> {
+    await this.assertDevice(user, deviceId);
+    const current = await this.active(deviceId);
+    const now = new Date().toISOString();
+    const credential: DeviceCredential = {
+      ...current, status: 'revoked', secrets: [], updatedAt: now, revokedAt: now, ...(reason ? { revokedReason: reason } : {})
+    };
+    await this.repository.save(credential);
+    this.broker.kick(deviceId);
+    return toInfo(credential);
+  }
+
+  async info(user: AuthUser, deviceId: string): Promise<CredentialInfo> {
+    await this.assertDevice(user, deviceId, false);
+    const credential = await this.repository.get(deviceId);
+    if (!credential) throw new ProvisioningError('notProvisioned', `자격 증명이 없습니다: ${deviceId}`);
+    return toInfo(credential);
+  }
+
+  // 디바이스 삭제 시 - 자격 증명을 지우고 접속을 끊음
+  async forget(deviceId: string) {
+    if (await this.repository.delete(deviceId)) this.broker.kick(deviceId);
+  }
+
+  async verify(deviceId: string, secret: string): Promise<boolean> {
+    const credential = await this.repository.get(deviceId);
+    if (credential?.status !== 'active') return false;
+    const now = Date.now();
+    // 유효한 시크릿을 모두 비교 - 어느 것이 맞았는지에 따라 응답 시간이 달라지지 않도록 중간에 멈추지 않음
+    let matched = false;
+    for (const candidate of credential.secrets) {
+      if (secretMatches(secret, candidate.hash) && isValid(candidate, now)) matched = true;
+    }
+    return matched;
+  }
+
+  private async active(deviceId: string): Promise<DeviceCredential> {
+    const credential = await this.repository.get(deviceId);
+    if (!credential) throw new ProvisioningError('notProvisioned', `자격 증명이 없습니다: ${deviceId}`);
+    if (credential.status === 'revoked') throw new ProvisioningError('revoked', `폐기된 자격 증명입니다: ${deviceId} (새로 발급하세요)`);
+    return credential;
+  }
+
+  // 조회는 같은 테넌트면 가능, 발급/교체/폐기는 등록한 사람이나 admin 이상
+  private async assertDevice(user: AuthUser, deviceId: string, modify = true) {
+    const device = inTenant(user, await this.devices.get(deviceId));
+    if (!device) throw new RegistryError('notFound', `디바이스가 없습니다: ${deviceId}`);
+    if (modify) assertCanModify(user, device, deviceId);
+  }
+}
+
+function newSecret(createdAt: string) {
+  const issued = randomBytes(32).toString('base64url');
+  const secret: CredentialSecret = { id: randomUUID(), hash: hashSecret(issued).toString('base64'), createdAt };
+  return { secret, issued };
+}
+
+function toInfo({ tenantId: _tenantId, secrets, ...credential }: DeviceCredential): CredentialInfo {
+  return { ...credential, secrets: secrets.map(({ hash: _hash, ...secret }) => secret) };
+}
@@ -0,0 +1,110 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { InProcessBroker } from '../mqtt/broker';
+import { FleetConfigError, groupsFromMix, validateFleetConfig } from '../simulator/config';
+import { DeviceFleet } from '../simulator/fleet';
+import { EmbeddedAuthRepository } from './auth/repository';
+import { EmbeddedAutomationRepository } from './automations/repository';
+import { EmbeddedDeviceRepository } from './devices/repository';
+import { EmbeddedCredentialRepository } from './provisioning/repository';
+import { createBackend } from './server';
+
+// 백엔드 API 실행: npx tsx platform/backend/serve.ts [--port 3000] [--data 디렉터리] [--simulate 디바이스수]
+// --openapi 파일 을 주면 서버를 띄우지 않고 OpenAPI 문서만 써서 끝냄
+// --secure-broker 면 브로커에 디바이스 인증/ACL 을 켜고 시뮬레이터 디바이스마다 자격 증명을 발급
+// --gateway-token-file 의 토큰을 가진 게이트웨이 브릿지만 /api/ingest/* 로 디바이스 데이터를 보낼 수 있음
+const USAGE = `사용법: npx tsx platform/backend/serve.ts [--port 3000] [--data 디렉터리] [--simulate 디바이스수] [--duration 초]
+  [--rotate-keys 분] [--openapi 파일] [--secure-broker [--legacy-topics]] [--gateway-token-file 파일]`;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args.splice(idx, 2)[1] : undefined;
+};
+const flag = (name: string) => {
+  const idx = args.indexOf(name);
+  if (idx >= 0) args.splice(idx, 1);
+  return idx >= 0;
+};
+const numberOption = (name: string) => {
+  const value = option(name);
+  return value === undefined ? undefined : Number(value);
+};
+
+const port = numberOption('--port') ?? 3000;
+const dataDir = option('--data');
+const simulate = numberOption('--simulate');
+const duration = numberOption('--duration');
+const rotateKeysMin = numberOption('--rotate-keys');
+const openApiOut = option('--openapi');
+const secureBroker = flag('--secure-broker');
+const legacyTopics = flag('--legacy-topics');
+const gatewayTokenFile = option('--gateway-token-file');
+
+if (args.length > 0 || [port, simulate, duration, rotateKeysMin].some((value) => value !== undefined && Number.isNaN(value))) {
+  if (args.length > 0) console.error(`알 수 없는 인자: ${args.join(' ')}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+async function main() {
+  const broker = new InProcessBroker();
+  // --data 를 주면 저장소마다 JSON 스냅샷 파일 하나
+  if (dataDir) mkdirSync(dataDir, { recursive: true });
+  const file = (name: string) => (dataDir ? join(dataDir, name) : undefined);
+  const backend = await createBackend({
+    broker,
+    devices: new EmbeddedDeviceRepository(file('devices.json')),
+    auth: new EmbeddedAuthRepository(file('auth.json')),
+    automations: new EmbeddedAutomationRepository(file('automations.json')),
+    credentials: new EmbeddedCredentialRepository(file('credentials.json')),
+    brokerAuth: secureBroker ? { legacyTopics } : undefined,
+    gatewayTokens: gatewayTokenFile ? [readFileSync(gatewayTokenFile, 'utf8').trim()] : []
+  });
+
+  if (openApiOut) {
+    writeFileSync(openApiOut, `${JSON.stringify(backend.openApi, null, 2)}\n`);
+    console.log(`${openApiOut} 작성`);
+    await backend.close();
+    await broker.close();
+    return;
+  }
+
+  await backend.listen(port);
+  console.log(`API: http://localhost:${port}/api (문서: /openapi.json, 저장소: ${dataDir ?? '메모리'})`);
+
+  // 서명 키 정기 교체
+  const rotation = rotateKeysMin !== undefined
+    ? setInterval(async () => console.log(`서명 키 교체: ${await backend.authService.rotateKeys()}`), rotateKeysMin * 60_000)
+    : undefined;
+
+  // 시뮬레이터 디바이스는 실행할 때마다 새 시크릿을 받음 (이전 실행의 자격 증명은 버림)
+  const secrets = new Map<string, string>();
+  const fleet = simulate !== undefined
+    ? new DeviceFleet(broker, validateFleetConfig({ groups: groupsFromMix(simulate, 'dht=70,relay=20,dimmer=10') }, '<simulate>'), (id) => secrets.get(id))
+    : undefined;
+  if (fleet && secureBroker) {
+    for (const { id } of fleet.list()) {
+      await backend.provisioningService.forget(id);
+      secrets.set(id, (await backend.provisioningService.provision(id)).secret);
+    }
+    console.log(`시뮬레이터 디바이스 ${secrets.size}대 자격 증명 발급`);
+  }
+  await fleet?.start();
+
+  const shutdown = async () => {
+    clearInterval(rotation);
+    await fleet?.stop();
+    await backend.close();
+    await broker.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  if (duration !== undefined) setTimeout(shutdown, duration * 1000);
+}
+
+main().catch((error) => {
+  if (!(error instanceof FleetConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { InProcessBroker } from '../mqtt/broker';
+import { authHttpError } from './auth/errors';
+import { authorize } from './auth/rbac';
+import type { AuthRepository } from './auth/repository';
+import { authRoutes, tenantRoutes } from './auth/routes';
+import { AuthService } from './auth/service';
+import type { AuthOptions } from './auth/service';
+import type { AutomationRepository } from './automations/repository';
+import { automationRoutes } from './automations/routes';
+import { AutomationService } from './automations/service';
+import type { DeviceRepository } from './devices/repository';
+import { deviceRoutes, registryHttpError } from './devices/routes';
+import { DeviceService } from './devices/service';
+import { Router, defineRoute } from './http';
+import { ingestRoutes } from './ingest/routes';
+import { buildOpenApi } from './openapi';
+import { deviceAuthHook } from './provisioning/broker-auth';
+import type { DeviceAuthOptions } from './provisioning/broker-auth';
+import type { CredentialRepository } from './provisioning/repository';
+import { provisioningHttpError, provisioningRoutes } from './provisioning/routes';
+import { ProvisioningService } from './provisioning/service';
+
+export interface BackendOptions {
+  broker: InProcessBroker;
+  devices: DeviceRepository;
+  auth: AuthRepository;
+  automations: AutomationRepository;
+  credentials: CredentialRepository;
+  authOptions?: AuthOptions;
+  // 주면 브로커에 디바이스 인증/ACL 을 켬 - 백엔드 자신의 서비스 계정은 여기서 만듦
+  brokerAuth?: DeviceAuthOptions;
+  // 게이트웨이 브릿지가 /api/ingest/* 에 보내는 Bearer 토큰 - 없으면 ingest 요청을 모두 거부
+  gatewayTokens?: string[];
+}
+
+const DEVICE_SERVICE_ACCOUNT = 'backend-device-service';
+
+// V1 백엔드 서버 (REST API + Auth Service + Device Service + Automation Engine 규칙 관리) 조립
+export async function createBackend(options: BackendOptions) {
+  const authService = new AuthService(options.auth, options.authOptions);
+  const serviceSecret = randomBytes(32).toString('base64url');
+  const services = { ...options.brokerAuth?.services, [DEVICE_SERVICE_ACCOUNT]: serviceSecret };
+  const provisioningService = new ProvisioningService(options.credentials, options.devices, options.broker, new Set(Object.keys(services)));
+  if (options.brokerAuth) {
+    options.broker.useAuth(deviceAuthHook(provisioningService, { ...options.brokerAuth, services }));
+  }
+  const deviceService = new DeviceService(
+    options.devices,
+    options.broker,
+    options.brokerAuth ? { username: DEVICE_SERVICE_ACCOUNT, password: serviceSecret } : {}
+  );
+  // 삭제된 디바이스는 브로커에도 더 접속하지 못하도록
+  deviceService.onRemove((deviceId) => provisioningService.forget(deviceId));
+  const automationService = new AutomationService(options.automations, options.devices);
+  const router = new Router({
+    authenticate: (headers) => authService.authenticate(headers),
+    authorize,
+    mapError: (error) => authHttpError(error) ?? registryHttpError(error) ?? provisioningHttpError(error)
+  });
+  router.add(
+    ...authRoutes(authService),
+    ...tenantRoutes(authService),
+    ...deviceRoutes(deviceService),
+    ...provisioningRoutes(provisioningService),
+    ...automationRoutes(automationService),
+    ...ingestRoutes(deviceService, options.gatewayTokens ?? [])
+  );
+  const openApi = buildOpenApi(router.list(), { title: 'IoT Platform API', version: '1.0.0' });
+  router.add(defineRoute({
+    method: 'GET', path: '/openapi.json', tag: 'meta', summary: 'OpenAPI 문서',
+    public: true,
+    handler: () => ({ status: 200, body: openApi })
+  }));
+
+  await authService.start();
+  await deviceService.start();
+  const server: Server = createServer(router.listener);
+  return {
+    router,
+    openApi,
+    authService,
+    deviceService,
+    automationService,
+    provisioningService,
+    server,
+    listen: (port: number) => new Promise<void>((resolve) => server.listen(port, resolve)),
+    async close() {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await deviceService.stop();
+      await automationService.stop();
+      await provisioningService.stop();
+      await authService.stop();
+    }
+  };
+}
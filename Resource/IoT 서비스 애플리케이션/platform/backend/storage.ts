@@ -0,0 +1,30 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+
+// 내장 저장소의 JSON 스냅샷 - 변경이 잦아서 매번 쓰지 않고 짧게 모아서 씀
+// file 이 없으면 메모리에만 둠 (개발/시뮬레이션용 DB 대용)
+export class SnapshotFile<T> {
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly file: string | undefined, private readonly snapshot: () => T, private readonly delayMs = 200) {}
+
+  load(): T | undefined {
+    return this.file && existsSync(this.file) ? (JSON.parse(readFileSync(this.file, 'utf8')) as T) : undefined;
+  }
+
+  schedule() {
+    if (!this.file || this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, this.delayMs);
+  }
+
+  // 임시 파일에 쓰고 rename - 쓰는 도중 죽어도 반쯤 쓴 파일이 남지 않음
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.file) return;
+    writeFileSync(`${this.file}.tmp`, JSON.stringify(this.snapshot(), null, 2));
+    renameSync(`${this.file}.tmp`, this.file);
+  }
+}
@@ -0,0 +1,69 @@
+import type { AddressInfo } from 'net';
+import { InProcessBroker } from '../mqtt/broker';
+import { EmbeddedAuthRepository } from './auth/repository';
+import { EmbeddedAutomationRepository } from './automations/repository';
+import { EmbeddedDeviceRepository } from './devices/repository';
+import { EmbeddedCredentialRepository } from './provisioning/repository';
+import { createBackend } from './server';
+import type { BackendOptions } from './server';
+
+export interface TestResponse {
+  status: number;
+  // 테스트에서 필드를 바로 읽도록 느슨하게 둠
+  body: any;
+}
+
+export interface TestSession {
+  accessToken: string;
+  refreshToken: string;
+  user: { id: string; tenantId: string };
+}
+
+// 라우트 단위 테스트용 - 메모리 저장소로 백엔드를 실제 포트에 띄우고 HTTP 로 요청
+export async function startTestBackend(options: Pick<BackendOptions, 'authOptions' | 'gatewayTokens'> = {}) {
+  const broker = new InProcessBroker();
+  const backend = await createBackend({
+    broker,
+    devices: new EmbeddedDeviceRepository(),
+    auth: new EmbeddedAuthRepository(),
+    automations: new EmbeddedAutomationRepository(),
+    credentials: new EmbeddedCredentialRepository(),
+    ...options
+  });
+  await backend.listen(0);
+  const { port } = backend.server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  const request = async (method: string, path: string, options: { token?: string; body?: unknown } = {}): Promise<TestResponse> => {
+    const res = await fetch(`${url}${path}`, {
+      method,
+      headers: {
+        ...(options.token ? { authorization: `Bearer ${options.token}` } : {}),
+        ...(options.body !== undefined ? { 'content-type': 'application/json' } : {})
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : undefined };
+  };
+
+  // 가입하면 새 테넌트의 owner
+  const signUp = async (email: string): Promise<TestSession> => {
+    const res = await request('POST', '/api/auth/register', { body: { email, password: 'correct horse battery', name: email.split('@')[0] } });
+    if (res.status !== 201) throw new Error(`가입 실패: ${JSON.stringify(res.body)}`);
+    return res.body as TestSession;
+  };
+
+  return {
+    backend,
+    broker,
+    url,
+    request,
+    signUp,
+    async close() {
+      // fetch 의 keep-alive 연결이 남아 있으면 server.close 가 끝나지 않음
+      backend.server.closeAllConnections();
+      await backend.close();
+    }
+  };
+}
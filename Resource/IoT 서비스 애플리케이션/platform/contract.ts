@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+// V1 아키텍처 데이터(v1.yaml)의 MQTT 계약 - 디바이스, 게이트웨이, 백엔드가 같은 토픽과 메시지 모양을 공유
+// - Sensor Module: mqtt.publish("telemetry/temp", String(temp))
+// - MQTT Client: mqtt.subscribe("device/+/command")
+// - 디바이스 등록/제어 흐름: device/register, device/{id}/command, device/{id}/response
+// 브로커 ACL 이 디바이스를 device/{id}/... 로 제한하므로 등록과 텔레메트리도 디바이스 토픽 아래로 옮김
+// V1 펌웨어가 쓰던 토픽은 LEGACY_* 로 남겨 이전 기간 동안 브릿지가 함께 받음
+export const registerTopic = (deviceId: string) => `device/${deviceId}/register`;
+export const REGISTER_FILTER = 'device/+/register';
+export const LEGACY_REGISTER_TOPIC = 'device/register';
+
+// 센서값은 JSON 이 아닌 숫자 문자열 ("23.5")
+export const telemetryTopic = (deviceId: string, metric: string) => `device/${deviceId}/telemetry/${metric}`;
+export const TELEMETRY_FILTER = 'device/+/telemetry/+';
+// V1 의 telemetry/temp - 토픽에 ID 가 없어서 어느 디바이스의 값인지는 발행한 클라이언트 ID 로 구분
+export const LEGACY_TELEMETRY_FILTER = 'telemetry/+';
+
+// device/{id}/telemetry/{metric} 와 V1 의 telemetry/{metric} 에서 측정 항목 추출
+export function metricFromTopic(topic: string): string | undefined {
+  const levels = topic.split('/');
+  if (levels.length === 4 && levels[0] === 'device' && levels[2] === 'telemetry') return levels[3] || undefined;
+  if (levels.length === 2 && levels[0] === 'telemetry') return levels[1] || undefined;
+  return undefined;
+}
+
+export const commandTopic = (deviceId: string) => `device/${deviceId}/command`;
+export const responseTopic = (deviceId: string) => `device/${deviceId}/response`;
+// online/offline 을 retain 으로 유지 - offline 은 last will 로 브로커가 대신 발행
+export const statusTopic = (deviceId: string) => `device/${deviceId}/status`;
+
+// device/{id}/... 토픽에서 디바이스 ID 추출 (V1 의 device/register 는 제외)
+export function deviceIdFromTopic(topic: string): string | undefined {
+  const [root, deviceId, ...rest] = topic.split('/');
+  return root === 'device' && deviceId && rest.length > 0 ? deviceId : undefined;
+}
+
+export const registerMessageSchema = z.object({
+  deviceId: z.string().min(1),
+  type: z.string().min(1),
+  firmware: z.string().min(1),
+  model: z.string().optional()
+});
+
+export const commandMessageSchema = z.object({
+  action: z.string().min(1),
+  value: z.unknown().optional(),
+  timestamp: z.string().optional()
+});
+
+export const responseMessageSchema = z.object({
+  action: z.string(),
+  success: z.boolean(),
+  state: z.record(z.unknown()),
+  error: z.string().optional()
+});
+
+export type RegisterMessage = z.infer<typeof registerMessageSchema>;
+export type CommandMessage = z.infer<typeof commandMessageSchema>;
+export type ResponseMessage = z.infer<typeof responseMessageSchema>;
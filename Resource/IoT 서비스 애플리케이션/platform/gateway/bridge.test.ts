@@ -0,0 +1,210 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InProcessBroker } from '../mqtt/broker';
+import type { BrokerClient } from '../mqtt/broker';
+import { ProtocolBridge, retryDelayMs } from './bridge';
+import { validateBridgeConfig } from './config';
+import { DiskOutbox } from './outbox';
+import type { BridgeRecord } from './outbox';
+import { DeliveryError } from './transport';
+import type { BridgeTransport } from './transport';
+
+// 보낸 배치를 기록하고, outcomes 에 넣어 둔 결과를 순서대로 돌려주는 전송 (비면 성공)
+class FakeTransport implements BridgeTransport {
+  readonly sent: { route: string; records: BridgeRecord[] }[] = [];
+  readonly outcomes: (Error | undefined)[] = [];
+
+  async send(route: string, records: BridgeRecord[]) {
+    this.sent.push({ route, records });
+    const outcome = this.outcomes.shift();
+    if (outcome) throw outcome;
+  }
+}
+
+const unreachable = () => new DeliveryError('/api/ingest/telemetry: connect ECONNREFUSED', true);
+const TELEMETRY = 'device/lamp-1/telemetry/temp';
+
+describe('ProtocolBridge', () => {
+  let dir: string;
+  let broker: InProcessBroker;
+  let transport: FakeTransport;
+  let device: BrokerClient;
+  let bridge: ProtocolBridge;
+
+  const config = (overrides: Record<string, unknown> = {}) => validateBridgeConfig({
+    batchIntervalSec: 5,
+    maxBatchSize: 3,
+    retry: { baseMs: 100, maxMs: 1000 },
+    outbox: { dir, maxBatches: 10 },
+    routes: [
+      { filter: 'device/+/telemetry/+', path: '/api/ingest/telemetry', payload: 'number' },
+      { filter: 'device/+/status', path: '/api/ingest/status', payload: 'status', batch: false }
+    ],
+    ...overrides
+  });
+
+  const startBridge = async (overrides?: Record<string, unknown>) => {
+    bridge = new ProtocolBridge(broker, config(overrides), transport);
+    await bridge.start();
+    await settle();
+    return bridge;
+  };
+
+  // 브로커 전달(microtask)과 전송 promise 를 마저 처리
+  const settle = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+  const publish = async (topic: string, payload: string) => {
+    device.publish(topic, payload, { qos: 1 });
+    await settle();
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    // 백오프의 흔들림을 없애 지연을 정확히 확인
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    dir = mkdtempSync(join(tmpdir(), 'bridge-'));
+    broker = new InProcessBroker();
+    transport = new FakeTransport();
+    device = await broker.connect({ clientId: 'lamp-1' });
+  });
+
+  afterEach(async () => {
+    await bridge?.stop();
+    await broker.close();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('배치 간격마다 route 별로 모아 보내고 최대 크기가 차면 바로 보냄', async () => {
+    await startBridge();
+    await publish(TELEMETRY, '23.5');
+    await publish('device/lamp-1/telemetry/humidity', '41');
+    expect(transport.sent).toEqual([]);
+
+    await settle(5000);
+    expect(transport.sent).toEqual([{
+      route: '/api/ingest/telemetry',
+      records: [
+        { topic: TELEMETRY, deviceId: 'lamp-1', receivedAt: '2026-01-01T00:00:00.000Z', data: 23.5 },
+        { topic: 'device/lamp-1/telemetry/humidity', deviceId: 'lamp-1', receivedAt: '2026-01-01T00:00:00.000Z', data: 41 }
+      ]
+    }]);
+
+    await publish(TELEMETRY, '1');
+    await publish(TELEMETRY, '2');
+    await publish(TELEMETRY, '3');
+    expect(transport.sent.map((batch) => batch.records.length)).toEqual([2, 3]);
+    expect(bridge.metrics()).toMatchObject({ received: 5, forwarded: 5, batchesSent: 2, buffered: 0, outboxBatches: 0 });
+  });
+
+  it('batch: false route 는 간격을 기다리지 않고 바로 보냄', async () => {
+    await startBridge();
+    await publish('device/lamp-1/status', 'online');
+    expect(transport.sent).toEqual([{ route: '/api/ingest/status', records: [expect.objectContaining({ data: 'online' })] }]);
+  });
+
+  it('전송에 실패하면 지수 백오프로 재시도하고 시도 횟수를 outbox 에 기록', async () => {
+    transport.outcomes.push(unreachable(), unreachable(), unreachable());
+    await startBridge();
+    await publish('device/lamp-1/status', 'online');
+    expect(transport.sent).toHaveLength(1);
+    expect(bridge.metrics()).toMatchObject({ backendReachable: false, retries: 1, nextRetryInMs: 100 });
+    expect(new DiskOutbox(dir).peek()?.attempts).toBe(1);
+
+    // 100 → 200 → 400ms
+    await settle(99);
+    expect(transport.sent).toHaveLength(1);
+    await settle(1);
+    expect(transport.sent).toHaveLength(2);
+    await settle(199);
+    expect(transport.sent).toHaveLength(2);
+    await settle(1);
+    expect(transport.sent).toHaveLength(3);
+    await settle(400);
+    expect(transport.sent).toHaveLength(4);
+
+    expect(bridge.metrics()).toMatchObject({ backendReachable: true, retries: 3, batchesSent: 1, outboxBatches: 0, deliveryLagMs: 700 });
+  });
+
+  it('재시도 대기 중에 들어온 배치는 순서를 지켜 뒤에 보냄', async () => {
+    transport.outcomes.push(unreachable());
+    await startBridge();
+    await publish('device/lamp-1/status', 'online');
+    await publish('device/lamp-1/status', 'offline');
+    expect(transport.sent).toHaveLength(1);
+
+    await settle(100);
+    expect(transport.sent.map((batch) => batch.records[0].data)).toEqual(['online', 'online', 'offline']);
+  });
+
+  it('백오프는 maxMs 에서 멈추고 50~100% 사이로 흔듦', () => {
+    const retry = { baseMs: 500, maxMs: 60_000 };
+    expect(retryDelayMs(1, retry, () => 1)).toBe(500);
+    expect(retryDelayMs(4, retry, () => 1)).toBe(4000);
+    expect(retryDelayMs(20, retry, () => 1)).toBe(60_000);
+    expect(retryDelayMs(4, retry, () => 0)).toBe(2000);
+  });
+
+  it('형식이 틀린 payload 는 배치에 넣지 않고 바로 dead letter', async () => {
+    await startBridge();
+    await publish(TELEMETRY, 'nan');
+    await publish('device/lamp-1/status', 'rebooting');
+    await settle(5000);
+
+    expect(transport.sent).toEqual([]);
+    expect(bridge.metrics()).toMatchObject({ received: 2, invalid: 2, deadLettered: 2 });
+    expect(bridge.outbox.readDeadLetters()).toEqual([
+      expect.objectContaining({ reason: 'invalidPayload', topic: TELEMETRY, payload: 'nan', error: '숫자가 아닌 센서값 "nan"' }),
+      expect.objectContaining({ reason: 'invalidPayload', topic: 'device/lamp-1/status', payload: 'rebooting' })
+    ]);
+  });
+
+  it('백엔드가 거부한 배치는 재시도하지 않고 dead letter 로 옮긴 뒤 다음 배치로', async () => {
+    transport.outcomes.push(new DeliveryError('/api/ingest/status: HTTP 400 invalid', false, 400));
+    await startBridge();
+    await publish('device/lamp-1/status', 'online');
+    await publish('device/lamp-1/status', 'offline');
+
+    expect(transport.sent).toHaveLength(2);
+    expect(bridge.metrics()).toMatchObject({ retries: 0, deadLettered: 1, batchesSent: 1, backendReachable: true });
+    const [rejected] = bridge.outbox.readDeadLetters();
+    expect(rejected).toMatchObject({ reason: 'rejected', error: '/api/ingest/status: HTTP 400 invalid' });
+    expect(rejected.batch?.records[0].data).toBe('online');
+  });
+
+  it('outbox 한도를 넘으면 가장 오래된 배치부터 dead letter', async () => {
+    transport.outcomes.push(unreachable());
+    await startBridge({ outbox: { dir, maxBatches: 2 } });
+    for (const payload of ['online', 'offline', 'online', 'offline']) await publish('device/lamp-1/status', payload);
+
+    expect(bridge.metrics()).toMatchObject({ outboxBatches: 2, deadLettered: 2 });
+    const overflow = bridge.outbox.readDeadLetters();
+    expect(overflow.map((entry) => [entry.reason, entry.error])).toEqual([
+      ['overflow', 'outbox 한도 2개 초과'],
+      ['overflow', 'outbox 한도 2개 초과']
+    ]);
+    // 처음 두 배치가 밀려나고 남은 두 배치를 순서대로 보냄
+    expect(overflow.map((entry) => entry.batch?.records[0].data)).toEqual(['online', 'offline']);
+    await settle(100);
+    expect(transport.sent.slice(1).map((batch) => batch.records[0].data)).toEqual(['online', 'offline']);
+  });
+
+  it('stop() 은 버퍼를 outbox 에 남기고 다음 실행에서 먼저 보냄', async () => {
+    await startBridge();
+    await publish(TELEMETRY, '23.5');
+    await publish(TELEMETRY, '24');
+    await bridge.stop();
+
+    expect(transport.sent).toEqual([]);
+    expect(new DiskOutbox(dir).peek()?.records.map((record) => record.data)).toEqual([23.5, 24]);
+
+    // 멈춘 뒤에 온 QoS 1 메시지는 브로커의 지속 세션이 보관
+    await publish(TELEMETRY, '25');
+    await startBridge();
+    expect(transport.sent.map((batch) => batch.records.map((record) => record.data))).toEqual([[23.5, 24]]);
+    await settle(5000);
+    expect(transport.sent.map((batch) => batch.records.map((record) => record.data))).toEqual([[23.5, 24], [25]]);
+  });
+});
@@ -0,0 +1,190 @@
+import type { BrokerClient, InProcessBroker, MqttMessage } from '../mqtt/broker';
+import { matchTopic } from '../mqtt/topic';
+import { deviceIdFromTopic } from '../contract';
+import { backendHeaders } from './config';
+import type { BridgeConfig, BridgeRoute } from './config';
+import { RateWindow } from './metrics';
+import type { BridgeMetrics } from './metrics';
+import { DiskOutbox } from './outbox';
+import type { BridgeRecord, OutboxBatch } from './outbox';
+import { PAYLOAD_FORMATS } from './payload';
+import { DeliveryError, httpTransport } from './transport';
+import type { BridgeTransport } from './transport';
+
+// 지수 백오프 - 실패할 때마다 두 배, 최대 maxMs. 게이트웨이 여러 대가 동시에 몰리지 않도록 50~100% 로 흔듦
+export function retryDelayMs(attempt: number, retry: BridgeConfig['retry'], random = Math.random) {
+  return Math.min(retry.maxMs, retry.baseMs * 2 ** Math.max(0, attempt - 1)) * (0.5 + random() * 0.5);
+}
+
+// V1 게이트웨이의 Protocol Bridge - MQTT 메시지를 검증해서 route 별로 모아 백엔드 HTTP API 로 전달
+// 수신 → payload 검증 (실패하면 dead letter) → 배치 버퍼 → 디스크 outbox → 전송 (실패하면 백오프 후 재시도)
+export class ProtocolBridge {
+  readonly outbox: DiskOutbox;
+  private client?: BrokerClient;
+  private readonly buffers = new Map<BridgeRoute, BridgeRecord[]>();
+  private flushTimer?: NodeJS.Timeout;
+  private retryTimer?: NodeJS.Timeout;
+  private retryAt = 0;
+  private draining?: Promise<void>;
+  private sending?: OutboxBatch;
+  private stopped = false;
+  private backendReachable = true;
+  private readonly counters = { received: 0, forwarded: 0, invalid: 0, deadLettered: 0, batchesSent: 0, retries: 0 };
+  private readonly receivedRate = new RateWindow();
+  private readonly forwardedRate = new RateWindow();
+  private readonly lag = { last: 0, max: 0 };
+
+  constructor(
+    private readonly broker: InProcessBroker,
+    readonly config: BridgeConfig,
+    private readonly transport: BridgeTransport = httpTransport(config.backend, config.requestTimeoutSec * 1000, backendHeaders(config))
+  ) {
+    this.outbox = new DiskOutbox(config.outbox.dir);
+  }
+
+  async start() {
+    this.stopped = false;
+    // clean=false - 브릿지가 재시작하는 동안 온 QoS 1 메시지를 브로커가 보관
+    const client = await this.broker.connect({ ...this.config.mqtt, clean: false });
+    this.client = client;
+    client.on('message', (_topic: string, _payload: string, message: MqttMessage) => this.handle(message));
+    this.config.routes.forEach((route) => client.subscribe(route.filter, { qos: 1 }));
+    this.flushTimer = setInterval(() => this.flushAll(), this.config.batchIntervalSec * 1000);
+    // 이전 실행에서 보내지 못한 배치부터 전송
+    this.drain();
+  }
+
+  // 버퍼에 남은 레코드는 outbox 에 써 두고 다음 실행에서 보냄
+  async stop() {
+    this.stopped = true;
+    clearInterval(this.flushTimer);
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.client?.end();
+    this.flushAll();
+    await this.draining;
+  }
+
+  metrics(): BridgeMetrics {
+    const now = Date.now();
+    const buffered = [...this.buffers.values()];
+    const oldest = Math.min(
+      this.outbox.oldestReceivedAt() ?? now,
+      ...buffered.filter((records) => records.length > 0).map((records) => Date.parse(records[0].receivedAt))
+    );
+    return {
+      ...this.counters,
+      receivedPerSec: Number(this.receivedRate.perSec(now).toFixed(2)),
+      forwardedPerSec: Number(this.forwardedRate.perSec(now).toFixed(2)),
+      buffered: buffered.reduce((sum, records) => sum + records.length, 0),
+      outboxBatches: this.outbox.size,
+      outboxRecords: this.outbox.recordCount,
+      pendingLagMs: now - oldest,
+      deliveryLagMs: this.lag.last,
+      maxDeliveryLagMs: this.lag.max,
+      backendReachable: this.backendReachable,
+      nextRetryInMs: this.retryTimer ? Math.max(0, this.retryAt - now) : 0
+    };
+  }
+
+  private handle(message: MqttMessage) {
+    const route = this.config.routes.find((candidate) => matchTopic(candidate.filter, message.topic));
+    if (!route) return;
+    this.counters.received += 1;
+    this.receivedRate.add();
+
+    const result = PAYLOAD_FORMATS[route.payload](message.payload);
+    if (!result.ok) {
+      // 다시 보내도 고쳐지지 않는 메시지 - 배치에 섞어 백엔드가 거부하게 두지 않고 바로 격리
+      this.counters.invalid += 1;
+      this.counters.deadLettered += 1;
+      this.outbox.deadLetter({ reason: 'invalidPayload', error: result.error, topic: message.topic, payload: message.payload });
+      return;
+    }
+
+    const records = this.buffers.get(route) ?? [];
+    this.buffers.set(route, records);
+    records.push({
+      topic: message.topic,
+      // V1 의 telemetry/temp 처럼 토픽에 ID 가 없으면 발행한 클라이언트 ID 가 디바이스 ID
+      deviceId: deviceIdFromTopic(message.topic) ?? message.clientId,
+      receivedAt: new Date().toISOString(),
+      data: result.data
+    });
+    if (!route.batch || records.length >= this.config.maxBatchSize) this.flush(route);
+  }
+
+  private flushAll() {
+    this.buffers.forEach((_, route) => this.flush(route));
+  }
+
+  private flush(route: BridgeRoute) {
+    const records = this.buffers.get(route)?.splice(0) ?? [];
+    if (records.length === 0) return;
+    this.outbox.enqueue(route.path, records);
+    if (!this.sending) this.trimOverflow();
+    if (!this.stopped) this.drain();
+  }
+
+  // outbox 한도를 넘으면 가장 오래된 배치부터 dead letter 로 - 디스크가 무한히 차지 않도록
+  private trimOverflow() {
+    while (this.outbox.size > this.config.outbox.maxBatches) {
+      const batch = this.outbox.peek()!;
+      this.outbox.ack(batch);
+      this.outbox.deadLetter({ reason: 'overflow', error: `outbox 한도 ${this.config.outbox.maxBatches}개 초과`, batch });
+      this.counters.deadLettered += 1;
+    }
+  }
+
+  // 재시도 대기 중이거나 이미 보내는 중이면 새로 시작하지 않음 - 배치는 항상 쌓인 순서대로 전송
+  private drain() {
+    if (this.draining || this.retryTimer || this.stopped) return;
+    this.draining = this.sendPending().finally(() => {
+      this.draining = undefined;
+    });
+  }
+
+  private async sendPending() {
+    while (!this.stopped) {
+      this.trimOverflow();
+      const batch = this.outbox.peek();
+      if (!batch) return;
+
+      this.sending = batch;
+      try {
+        await this.transport.send(batch.route, batch.records);
+      } catch (error) {
+        if (error instanceof DeliveryError && !error.retryable) {
+          // 백엔드가 형식을 거부한 배치 - 재시도해도 같으므로 격리하고 다음 배치로
+          this.outbox.ack(batch);
+          this.outbox.deadLetter({ reason: 'rejected', error: error.message, batch });
+          this.counters.deadLettered += 1;
+          this.backendReachable = true;
+          continue;
+        }
+        this.backendReachable = false;
+        this.outbox.recordAttempt(batch);
+        this.counters.retries += 1;
+        const delay = retryDelayMs(batch.attempts, this.config.retry);
+        this.retryAt = Date.now() + delay;
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = undefined;
+          this.drain();
+        }, delay);
+        return;
+      } finally {
+        this.sending = undefined;
+      }
+
+      this.outbox.ack(batch);
+      const now = Date.now();
+      this.backendReachable = true;
+      this.counters.batchesSent += 1;
+      this.counters.forwarded += batch.records.length;
+      this.forwardedRate.add(batch.records.length, now);
+      // 레코드는 받은 순서로 쌓이므로 첫 레코드가 배치에서 가장 오래 기다린 것
+      this.lag.last = now - Date.parse(batch.records[0].receivedAt);
+      this.lag.max = Math.max(this.lag.max, this.lag.last);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BridgeConfigError, backendHeaders, loadBridgeConfig } from './config';
+
+describe('backendHeaders', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bridge-config-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const load = (auth: string) => {
+    writeFileSync(join(dir, 'bridge.yaml'), `${auth}\nroutes:\n  - filter: device/+/status\n    path: /api/ingest/status\n    payload: status\n`);
+    return loadBridgeConfig(join(dir, 'bridge.yaml'));
+  };
+
+  it('tokenFile 은 설정 파일 기준 경로에서 읽어 Bearer 헤더로', () => {
+    writeFileSync(join(dir, 'token'), 's3cret\n');
+    expect(backendHeaders(load('auth:\n  tokenFile: token'))).toEqual({ authorization: 'Bearer s3cret' });
+  });
+
+  it('토큰 파일이 없으면 설정 오류', () => {
+    expect(() => backendHeaders(load('auth:\n  tokenFile: missing'), 'bridge.yaml')).toThrow(BridgeConfigError);
+  });
+
+  it('token 과 tokenFile 을 같이 쓰면 설정 오류', () => {
+    expect(() => load('auth:\n  token: a\n  tokenFile: token')).toThrow(/하나만/);
+  });
+});
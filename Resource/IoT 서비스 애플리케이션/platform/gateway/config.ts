@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { LoadError, validateWith } from '../../shared/validation';
+import { isValidFilter } from '../mqtt/topic';
+import { PAYLOAD_FORMATS } from './payload';
+import type { PayloadFormat } from './payload';
+
+// MQTT → HTTP 브릿지 설정 - 토픽 필터마다 백엔드 경로와 payload 형식을 지정
+const routeSchema = z.object({
+  // 같은 토픽이 여러 route 에 맞으면 먼저 적힌 route 가 처리
+  filter: z.string().refine(isValidFilter, (filter) => ({ message: `올바르지 않은 토픽 필터 "${filter}"` })),
+  path: z.string().startsWith('/'),
+  payload: z.string().refine((format) => format in PAYLOAD_FORMATS, (format) => ({
+    message: `알 수 없는 payload 형식 "${format}" (가능: ${Object.keys(PAYLOAD_FORMATS).join(', ')})`
+  })).transform((format) => format as PayloadFormat),
+  // false 면 배치 간격을 기다리지 않고 바로 보냄 (등록/응답 같은 이벤트)
+  batch: z.boolean().default(true)
+}).strict();
+
+export const bridgeConfigSchema = z.object({
+  backend: z.string().url().default('http://localhost:3000'),
+  routes: z.array(routeSchema).min(1),
+  // V1 성능 지침 - 센서 데이터는 5초 간격 배치로 전송
+  batchIntervalSec: z.number().positive().default(5),
+  maxBatchSize: z.number().int().positive().default(500),
+  requestTimeoutSec: z.number().positive().default(10),
+  retry: z.object({
+    baseMs: z.number().positive().default(500),
+    maxMs: z.number().positive().default(60_000)
+  }).strict().default({}),
+  // 브로커 인증을 켠 경우 서비스 계정으로 접속 (디바이스 ACL 을 받지 않음) - 브로커가 clientId = username 만 받음
+  mqtt: z.object({
+    clientId: z.string().min(1).default('gateway-bridge'),
+    username: z.string().optional(),
+    password: z.string().optional()
+  }).strict().refine((mqtt) => mqtt.username === undefined || mqtt.username === mqtt.clientId, {
+    message: 'username 을 주면 clientId 와 같아야 합니다'
+  }).default({}),
+  // 백엔드 ingest API 의 게이트웨이 토큰 - Bearer 헤더로 보냄. 설정 파일에 비밀을 두지 않으려면 tokenFile
+  auth: z.object({
+    token: z.string().min(1).optional(),
+    tokenFile: z.string().min(1).optional()
+  }).strict().refine((auth) => !(auth.token && auth.tokenFile), { message: 'token 과 tokenFile 중 하나만 지정하세요' }).default({}),
+  outbox: z.object({
+    dir: z.string().default('.bridge-outbox'),
+    // 이보다 많이 쌓이면 가장 오래된 배치를 dead letter 로 옮김
+    maxBatches: z.number().int().positive().default(10_000)
+  }).strict().default({})
+}).strict();
+
+export type BridgeConfig = z.infer<typeof bridgeConfigSchema>;
+export type BridgeRoute = BridgeConfig['routes'][number];
+
+export class BridgeConfigError extends LoadError {
+  constructor(origin: string, issues: string[]) {
+    super(origin, issues, '브릿지 설정을 불러올 수 없습니다');
+    this.name = 'BridgeConfigError';
+  }
+}
+
+export function validateBridgeConfig(data: unknown, origin = '<inline>'): BridgeConfig {
+  return validateWith(bridgeConfigSchema, data, origin, BridgeConfigError);
+}
+
+export function loadBridgeConfig(filePath: string): BridgeConfig {
+  let data: unknown;
+  try {
+    data = parseYaml(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new BridgeConfigError(filePath, [(error as Error).message]);
+  }
+  const config = validateBridgeConfig(data, filePath);
+  // tokenFile 은 설정 파일 기준 상대 경로
+  const { tokenFile } = config.auth;
+  return tokenFile ? { ...config, auth: { tokenFile: resolve(dirname(filePath), tokenFile) } } : config;
+}
+
+// 백엔드 요청에 붙일 헤더 - 토큰 파일은 브릿지를 만들 때 읽으므로 교체하면 재시작
+export function backendHeaders(config: BridgeConfig, origin = '<inline>'): Record<string, string> {
+  let token = config.auth.token;
+  if (config.auth.tokenFile) {
+    try {
+      token = readFileSync(config.auth.tokenFile, 'utf8').trim();
+    } catch (error) {
+      throw new BridgeConfigError(origin, [`auth.tokenFile: ${(error as Error).message}`]);
+    }
+    if (!token) throw new BridgeConfigError(origin, [`auth.tokenFile: 토큰이 비어 있습니다 (${config.auth.tokenFile})`]);
+  }
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
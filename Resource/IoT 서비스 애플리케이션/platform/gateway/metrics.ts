@@ -0,0 +1,76 @@
+// 브릿지 처리량/지연 지표
+export interface BridgeMetrics {
+  received: number;
+  forwarded: number;
+  invalid: number;
+  deadLettered: number;
+  batchesSent: number;
+  retries: number;
+  // 최근 1분 평균 초당 레코드 수
+  receivedPerSec: number;
+  forwardedPerSec: number;
+  // 배치 버퍼 + outbox 에서 아직 보내지 못한 레코드
+  buffered: number;
+  outboxBatches: number;
+  outboxRecords: number;
+  // 가장 오래 기다리는 미전송 레코드의 나이
+  pendingLagMs: number;
+  // 마지막으로 보낸 배치의 수신 → 전달 지연 (배치 안 가장 오래된 레코드 기준)
+  deliveryLagMs: number;
+  maxDeliveryLagMs: number;
+  backendReachable: boolean;
+  nextRetryInMs: number;
+}
+
+// 초 단위 칸에 개수를 쌓아 최근 windowSec 동안의 초당 평균을 계산
+export class RateWindow {
+  private readonly buckets = new Map<number, number>();
+
+  constructor(private readonly windowSec = 60) {}
+
+  add(count = 1, now = Date.now()) {
+    const second = Math.floor(now / 1000);
+    this.buckets.set(second, (this.buckets.get(second) ?? 0) + count);
+    this.buckets.forEach((_, key) => {
+      if (key <= second - this.windowSec) this.buckets.delete(key);
+    });
+  }
+
+  perSec(now = Date.now()) {
+    const from = Math.floor(now / 1000) - this.windowSec;
+    let total = 0;
+    this.buckets.forEach((count, key) => {
+      if (key > from) total += count;
+    });
+    return total / this.windowSec;
+  }
+}
+
+const METRIC_HELP: Record<keyof BridgeMetrics, [type: 'counter' | 'gauge', help: string]> = {
+  received: ['counter', 'MQTT 에서 받은 메시지 수'],
+  forwarded: ['counter', '백엔드에 전달한 레코드 수'],
+  invalid: ['counter', 'payload 검증에 실패한 메시지 수'],
+  deadLettered: ['counter', 'dead letter 로 옮긴 메시지/배치 수'],
+  batchesSent: ['counter', '전송에 성공한 배치 수'],
+  retries: ['counter', '재시도한 전송 수'],
+  receivedPerSec: ['gauge', '최근 1분 초당 수신 레코드'],
+  forwardedPerSec: ['gauge', '최근 1분 초당 전달 레코드'],
+  buffered: ['gauge', '배치 대기 중인 레코드 수'],
+  outboxBatches: ['gauge', 'outbox 에 쌓인 배치 수'],
+  outboxRecords: ['gauge', 'outbox 에 쌓인 레코드 수'],
+  pendingLagMs: ['gauge', '가장 오래된 미전송 레코드의 나이 (ms)'],
+  deliveryLagMs: ['gauge', '마지막 배치의 수신부터 전달까지 걸린 시간 (ms)'],
+  maxDeliveryLagMs: ['gauge', '가장 길었던 수신-전달 지연 (ms)'],
+  backendReachable: ['gauge', '마지막 전송 시도 성공 여부 (1/0)'],
+  nextRetryInMs: ['gauge', '다음 재시도까지 남은 시간 (ms)']
+};
+
+// Prometheus 텍스트 형식 - iot_bridge_received_total 처럼 snake_case 로 바꿈
+export function formatPrometheus(metrics: BridgeMetrics): string {
+  return (Object.keys(METRIC_HELP) as (keyof BridgeMetrics)[]).flatMap((key) => {
+    const [type, help] = METRIC_HELP[key];
+    const name = `iot_bridge_${key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)}${type === 'counter' ? '_total' : ''}`;
+    const value = Number(metrics[key]);
+    return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, `${name} ${value}`];
+  }).join('\n') + '\n';
+}
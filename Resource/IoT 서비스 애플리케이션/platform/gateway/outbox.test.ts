@@ -0,0 +1,46 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DiskOutbox } from './outbox';
+
+const record = { topic: 'device/lamp-1/telemetry/temp', deviceId: 'lamp-1', receivedAt: '2026-01-01T00:00:00.000Z', data: 23.5 };
+
+describe('DiskOutbox', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outbox-'));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('읽을 수 없는 배치는 격리하고 나머지 배치로 시작', () => {
+    const first = new DiskOutbox(dir);
+    first.enqueue('/api/ingest/telemetry', [record]);
+    writeFileSync(join(dir, '000000000002.json'), '{"id": "000000000002", "rou');
+    writeFileSync(join(dir, '000000000003.json'), JSON.stringify({ id: '000000000003', route: '/api/ingest/telemetry' }));
+
+    const outbox = new DiskOutbox(dir);
+    expect(outbox.size).toBe(1);
+    expect(outbox.peek()?.records).toEqual([record]);
+    expect(outbox.quarantined).toEqual(['000000000002.json', '000000000003.json']);
+    expect(readdirSync(join(dir, 'quarantine')).sort()).toEqual(['000000000002.json', '000000000003.json']);
+    expect(outbox.readDeadLetters().map((entry) => [entry.reason, entry.file])).toEqual([
+      ['unreadable', 'quarantine/000000000002.json'],
+      ['unreadable', 'quarantine/000000000003.json']
+    ]);
+
+    // 격리한 번호를 다시 쓰지 않음
+    expect(outbox.enqueue('/api/ingest/telemetry', [record]).id).toBe('000000000004');
+  });
+
+  it('rename 전에 남은 임시 파일은 지우고 원본 배치를 씀', () => {
+    const batch = new DiskOutbox(dir).enqueue('/api/ingest/telemetry', [record]);
+    writeFileSync(join(dir, `${batch.id}.json.tmp`), '{"id": "half');
+
+    const outbox = new DiskOutbox(dir);
+    expect(outbox.peek()).toEqual(batch);
+    expect(existsSync(join(dir, `${batch.id}.json.tmp`))).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  appendFileSync, closeSync, existsSync, fsyncSync, mkdirSync, openSync, readdirSync, readFileSync, renameSync, unlinkSync, writeSync
+} from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { issueMessages } from '../../shared/validation';
+
+// 백엔드로 보낼 레코드 하나 - V1 브릿지의 { topic, data } 에 디바이스 ID 와 수신 시각을 더함
+export interface BridgeRecord {
+  topic: string;
+  deviceId?: string;
+  receivedAt: string;
+  data: unknown;
+}
+
+export interface OutboxBatch {
+  id: string;
+  // 백엔드 경로 (route 의 path)
+  route: string;
+  records: BridgeRecord[];
+  attempts: number;
+  createdAt: string;
+}
+
+// 디스크에서 다시 읽은 배치 확인용 - 디스크 손상이나 손으로 고친 파일이 재시작을 막지 않도록
+const storedBatchSchema = z.object({
+  id: z.string(),
+  route: z.string().startsWith('/'),
+  records: z.array(z.object({ topic: z.string(), deviceId: z.string().optional(), receivedAt: z.string(), data: z.unknown() })).min(1),
+  attempts: z.number().int().min(0),
+  createdAt: z.string()
+});
+
+export type DeadLetterReason = 'invalidPayload' | 'rejected' | 'overflow' | 'unreadable';
+
+export interface DeadLetter {
+  reason: DeadLetterReason;
+  error: string;
+  at: string;
+  topic?: string;
+  payload?: string;
+  batch?: OutboxBatch;
+  // unreadable - quarantine/ 으로 옮긴 배치 파일 이름
+  file?: string;
+}
+
+const DEAD_LETTER_FILE = 'dead-letter.jsonl';
+const QUARANTINE_DIR = 'quarantine';
+
+// 보낼 배치를 디스크에 먼저 쓰고 전송에 성공하면 지움 - 백엔드가 내려가 있거나 프로세스가 재시작돼도 유지
+// 배치 하나가 파일 하나 (이름 순서 = 보낸 순서), dead letter 는 JSONL 한 파일에 덧붙임
+export class DiskOutbox {
+  private readonly batches: OutboxBatch[] = [];
+  private sequence = 0;
+  // 이번 실행에서 읽지 못해 격리한 배치 파일
+  readonly quarantined: string[] = [];
+
+  constructor(readonly dir: string) {
+    mkdirSync(dir, { recursive: true });
+    const names = readdirSync(dir);
+    // rename 전에 죽어서 남은 임시 파일 - 원본 배치 파일은 그대로 있음
+    names.filter((name) => name.endsWith('.json.tmp')).forEach((name) => unlinkSync(join(dir, name)));
+    // 이전 실행에서 남은 배치를 다시 불러오고 읽을 수 없는 파일은 격리 - 배치 하나 때문에 브릿지가 시작하지 못하지 않도록
+    names
+      .filter((name) => /^\d+\.json$/.test(name))
+      .sort()
+      .forEach((name) => {
+        // 격리한 번호도 건너뜀 - 같은 이름으로 새 배치를 쓰지 않도록
+        this.sequence = Math.max(this.sequence, Number(name.replace('.json', '')));
+        const result = readBatch(join(dir, name));
+        if ('batch' in result) this.batches.push(result.batch);
+        else this.quarantine(name, result.error);
+      });
+  }
+
+  get size() {
+    return this.batches.length;
+  }
+
+  get recordCount() {
+    return this.batches.reduce((sum, batch) => sum + batch.records.length, 0);
+  }
+
+  enqueue(route: string, records: BridgeRecord[]): OutboxBatch {
+    this.sequence += 1;
+    const id = String(this.sequence).padStart(12, '0');
+    const batch: OutboxBatch = { id, route, records, attempts: 0, createdAt: new Date().toISOString() };
+    this.write(batch);
+    this.batches.push(batch);
+    return batch;
+  }
+
+  peek(): OutboxBatch | undefined {
+    return this.batches[0];
+  }
+
+  // 재시도 횟수를 기록 - 재시작 후에도 백오프가 처음부터 다시 시작하지 않도록
+  recordAttempt(batch: OutboxBatch) {
+    batch.attempts += 1;
+    this.write(batch);
+  }
+
+  ack(batch: OutboxBatch) {
+    const idx = this.batches.indexOf(batch);
+    if (idx >= 0) this.batches.splice(idx, 1);
+    const file = this.file(batch.id);
+    if (existsSync(file)) unlinkSync(file);
+  }
+
+  // 가장 오래된 수신 시각 - 아직 전달하지 못한 레코드의 지연 계산용
+  oldestReceivedAt(): number | undefined {
+    const oldest = this.batches[0]?.records[0]?.receivedAt;
+    return oldest ? Date.parse(oldest) : undefined;
+  }
+
+  deadLetter(entry: Omit<DeadLetter, 'at'>) {
+    appendFileSync(join(this.dir, DEAD_LETTER_FILE), `${JSON.stringify({ ...entry, at: new Date().toISOString() })}\n`);
+  }
+
+  readDeadLetters(): DeadLetter[] {
+    const file = join(this.dir, DEAD_LETTER_FILE);
+    if (!existsSync(file)) return [];
+    return readFileSync(file, 'utf8').split('\n').filter(Boolean).map((line) => JSON.parse(line) as DeadLetter);
+  }
+
+  private file(id: string) {
+    return join(this.dir, `${id}.json`);
+  }
+
+  // 임시 파일에 쓰고 디스크에 내린 뒤 rename - 쓰는 도중이나 정전 뒤에도 반쯤 쓴 배치 파일이 남지 않음
+  private write(batch: OutboxBatch) {
+    const target = this.file(batch.id);
+    const fd = openSync(`${target}.tmp`, 'w');
+    try {
+      writeSync(fd, JSON.stringify(batch));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(`${target}.tmp`, target);
+  }
+
+  private quarantine(name: string, error: string) {
+    mkdirSync(join(this.dir, QUARANTINE_DIR), { recursive: true });
+    renameSync(join(this.dir, name), join(this.dir, QUARANTINE_DIR, name));
+    this.quarantined.push(name);
+    this.deadLetter({ reason: 'unreadable', error, file: `${QUARANTINE_DIR}/${name}` });
+  }
+}
+
+function readBatch(file: string): { batch: OutboxBatch } | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+  const result = storedBatchSchema.safeParse(data);
+  return result.success ? { batch: result.data as OutboxBatch } : { error: issueMessages(result.error).join('; ') };
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { issueMessages } from '../../shared/validation';
+import { registerMessageSchema, responseMessageSchema } from '../contract';
+
+// MQTT payload(문자열)를 백엔드로 보낼 값으로 바꿈 - 실패하면 그 메시지는 dead letter 로 감
+export type PayloadResult = { ok: true; data: unknown } | { ok: false; error: string };
+
+const jsonPayload = (schema: z.ZodTypeAny) => (payload: string): PayloadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (error) {
+    return { ok: false, error: `JSON 이 아닙니다: ${(error as Error).message}` };
+  }
+  const result = schema.safeParse(parsed);
+  return result.success
+    ? { ok: true, data: result.data }
+    : { ok: false, error: issueMessages(result.error).join('; ') };
+};
+
+export const PAYLOAD_FORMATS = {
+  // V1 센서 모듈의 String(temp) - 읽기 실패 시 ESP32 가 보내는 "nan" 도 여기서 걸러짐
+  number: (payload: string): PayloadResult => {
+    const value = Number(payload.trim());
+    return payload.trim() !== '' && Number.isFinite(value)
+      ? { ok: true, data: value }
+      : { ok: false, error: `숫자가 아닌 센서값 "${payload.slice(0, 40)}"` };
+  },
+  status: (payload: string): PayloadResult => (payload === 'online' || payload === 'offline'
+    ? { ok: true, data: payload }
+    : { ok: false, error: `알 수 없는 상태 "${payload.slice(0, 40)}"` }),
+  register: jsonPayload(registerMessageSchema),
+  response: jsonPayload(responseMessageSchema),
+  json: jsonPayload(z.unknown())
+};
+
+export type PayloadFormat = keyof typeof PAYLOAD_FORMATS;
@@ -0,0 +1,106 @@
+import { createServer } from 'http';
+import { join } from 'path';
+import { InProcessBroker } from '../mqtt/broker';
+import { FleetConfigError, groupsFromMix, validateFleetConfig } from '../simulator/config';
+import { DeviceFleet } from '../simulator/fleet';
+import { ProtocolBridge } from './bridge';
+import { BridgeConfigError, backendHeaders, loadBridgeConfig, validateBridgeConfig } from './config';
+import { formatPrometheus } from './metrics';
+import { httpTransport } from './transport';
+
+// MQTT → HTTP 브릿지 실행: npx tsx platform/gateway/run-bridge.ts [--config bridge.yaml] [옵션]
+// --simulate 를 주면 같은 프로세스의 브로커에 가상 디바이스를 붙여 브릿지 부하를 확인할 수 있음
+const USAGE = `사용법: npx tsx platform/gateway/run-bridge.ts [--config 파일] [--backend URL] [--outbox 디렉터리]
+  [--metrics-port 9100] [--simulate 디바이스수] [--duration 초] [--report 초]`;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args.splice(idx, 2)[1] : undefined;
+};
+const numberOption = (name: string) => {
+  const value = option(name);
+  return value === undefined ? undefined : Number(value);
+};
+
+const configPath = option('--config') ?? join(__dirname, 'bridge.yaml');
+const backend = option('--backend');
+const outboxDir = option('--outbox');
+const metricsPort = numberOption('--metrics-port');
+const simulate = numberOption('--simulate');
+const duration = numberOption('--duration');
+const reportSec = numberOption('--report') ?? 5;
+
+if (args.length > 0 || [metricsPort, simulate, duration, reportSec].some((value) => value !== undefined && Number.isNaN(value))) {
+  if (args.length > 0) console.error(`알 수 없는 인자: ${args.join(' ')}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+async function main() {
+  const base = loadBridgeConfig(configPath);
+  const config = validateBridgeConfig({
+    ...base,
+    ...(backend ? { backend } : {}),
+    outbox: { ...base.outbox, ...(outboxDir ? { dir: outboxDir } : {}) }
+  }, configPath);
+
+  const broker = new InProcessBroker();
+  const transport = httpTransport(config.backend, config.requestTimeoutSec * 1000, backendHeaders(config, configPath));
+  const bridge = new ProtocolBridge(broker, config, transport);
+  await bridge.start();
+  console.log(`브릿지 시작 → ${config.backend} (route ${config.routes.length}개, outbox ${config.outbox.dir}, 대기 배치 ${bridge.outbox.size}개)`);
+  if (bridge.outbox.quarantined.length > 0) {
+    console.warn(`읽을 수 없는 배치 ${bridge.outbox.quarantined.length}개를 ${config.outbox.dir}/quarantine 으로 옮김 (dead letter 에 기록)`);
+  }
+
+  const fleet = simulate !== undefined
+    ? new DeviceFleet(broker, validateFleetConfig({ groups: groupsFromMix(simulate, 'dht=70,relay=20,dimmer=10') }, '<simulate>'))
+    : undefined;
+  await fleet?.start();
+
+  // Prometheus 수집용 /metrics 와 사람이 보는 /metrics.json
+  const server = metricsPort !== undefined
+    ? createServer((req, res) => {
+      const metrics = bridge.metrics();
+      if (req.url === '/metrics') {
+        res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4' }).end(formatPrometheus(metrics));
+      } else if (req.url === '/metrics.json') {
+        res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(metrics));
+      } else {
+        res.writeHead(404).end();
+      }
+    }).listen(metricsPort, () => console.log(`지표: http://localhost:${metricsPort}/metrics`))
+    : undefined;
+
+  const report = () => {
+    const metrics = bridge.metrics();
+    console.log([
+      `수신 ${metrics.received} (${metrics.receivedPerSec}/s)`,
+      `전달 ${metrics.forwarded} (${metrics.forwardedPerSec}/s, 배치 ${metrics.batchesSent})`,
+      `dead letter ${metrics.deadLettered} (검증 실패 ${metrics.invalid})`,
+      `대기 ${metrics.buffered} + outbox ${metrics.outboxRecords}건/${metrics.outboxBatches}배치`,
+      `지연 ${metrics.deliveryLagMs}ms (최대 ${metrics.maxDeliveryLagMs}ms, 미전송 ${metrics.pendingLagMs}ms)`,
+      metrics.backendReachable ? '백엔드 정상' : `백엔드 응답 없음 - ${Math.round(metrics.nextRetryInMs / 1000)}초 뒤 재시도 (누적 ${metrics.retries}회)`
+    ].join(' | '));
+  };
+  const reporter = setInterval(report, reportSec * 1000);
+
+  const shutdown = async () => {
+    clearInterval(reporter);
+    await fleet?.stop();
+    await bridge.stop();
+    report();
+    server?.close();
+    await broker.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  if (duration !== undefined) setTimeout(shutdown, duration * 1000);
+}
+
+main().catch((error) => {
+  if (!(error instanceof BridgeConfigError) && !(error instanceof FleetConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import type { BridgeRecord } from './outbox';
+
+// 배치를 백엔드로 보내는 방법 - 기본은 HTTP, 다른 전송(큐, 파일 등)으로 바꿀 수 있게 분리
+export interface BridgeTransport {
+  send(route: string, records: BridgeRecord[]): Promise<void>;
+}
+
+// retryable=false 면 다시 보내도 같은 결과 (요청 형식 오류 등) - 배치를 dead letter 로 옮김
+export class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly status?: number) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+// 408/429 와 5xx 는 일시적인 문제로 보고 재시도
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+export function httpTransport(baseUrl: string, timeoutMs: number, headers: Record<string, string> = {}): BridgeTransport {
+  return {
+    async send(route, records) {
+      let response: Response;
+      try {
+        response = await fetch(new URL(route, baseUrl), {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...headers },
+          body: JSON.stringify({ records }),
+          signal: AbortSignal.timeout(timeoutMs)
+        });
+      } catch (error) {
+        // 연결 거부, DNS 실패, 시간 초과 - 백엔드에 닿지 못함
+        throw new DeliveryError(`${route}: ${(error as Error).message}`, true);
+      }
+      if (response.ok) return;
+      const body = await response.text().catch(() => '');
+      throw new DeliveryError(`${route}: HTTP ${response.status} ${body.slice(0, 200)}`.trim(), isRetryableStatus(response.status), response.status);
+    }
+  };
+}
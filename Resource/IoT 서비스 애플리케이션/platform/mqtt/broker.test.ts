@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InProcessBroker, MqttError } from './broker';
+import type { BrokerAuthHook, BrokerClient, MqttMessage } from './broker';
+
+// 받은 메시지를 모아 두는 리스너
+const inbox = (client: BrokerClient) => {
+  const messages: Pick<MqttMessage, 'topic' | 'payload' | 'retain'>[] = [];
+  client.on('message', (_topic: string, _payload: string, { topic, payload, retain }: MqttMessage) => messages.push({ topic, payload, retain }));
+  return messages;
+};
+
+describe('InProcessBroker', () => {
+  let broker: InProcessBroker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    broker = new InProcessBroker();
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    vi.useRealTimers();
+  });
+
+  // 전달은 microtask, 재접속 후 보관 메시지 전달은 다음 tick
+  const settle = () => vi.advanceTimersByTimeAsync(0);
+
+  describe('지속 세션', () => {
+    it('끊긴 동안 온 QoS 1 메시지만 보관했다가 재접속 후 순서대로 전달', async () => {
+      const app = await broker.connect({ clientId: 'lamp-1', clean: false });
+      app.subscribe('device/lamp-1/command', { qos: 1 });
+      app.end();
+
+      broker.publish('device/lamp-1/command', 'turn_on', { qos: 1 });
+      broker.publish('device/lamp-1/command', 'ignored', { qos: 0 });
+      broker.publish('device/lamp-1/command', 'turn_off', { qos: 1 });
+      expect(broker.stats()).toMatchObject({ sessions: 1, clients: 0, queued: 2 });
+
+      // 접속을 받은 다음에 리스너를 붙여도 보관 메시지를 놓치지 않음
+      const again = await broker.connect({ clientId: 'lamp-1', clean: false });
+      const messages = inbox(again);
+      broker.publish('device/lamp-1/command', 'toggle', { qos: 1 });
+      await settle();
+      expect(messages.map((message) => message.payload)).toEqual(['turn_on', 'turn_off', 'toggle']);
+      expect(broker.stats().queued).toBe(0);
+    });
+
+    it('clean 으로 다시 접속하면 보관 메시지와 구독을 버림', async () => {
+      const app = await broker.connect({ clientId: 'lamp-1', clean: false });
+      app.subscribe('device/lamp-1/command', { qos: 1 });
+      app.end();
+      broker.publish('device/lamp-1/command', 'turn_on', { qos: 1 });
+
+      const messages = inbox(await broker.connect({ clientId: 'lamp-1' }));
+      broker.publish('device/lamp-1/command', 'turn_off', { qos: 1 });
+      await settle();
+      expect(messages).toEqual([]);
+      expect(broker.stats()).toMatchObject({ subscriptions: 0, queued: 0 });
+    });
+
+    it('보관 한도를 넘으면 오래된 메시지부터 버림', async () => {
+      broker = new InProcessBroker({ maxQueuedMessages: 2 });
+      const app = await broker.connect({ clientId: 'lamp-1', clean: false });
+      app.subscribe('device/+/command', { qos: 1 });
+      app.end();
+      ['a', 'b', 'c'].forEach((payload) => broker.publish('device/lamp-1/command', payload, { qos: 1 }));
+
+      const messages = inbox(await broker.connect({ clientId: 'lamp-1', clean: false }));
+      await settle();
+      expect(messages.map((message) => message.payload)).toEqual(['b', 'c']);
+      expect(broker.stats().dropped).toBe(1);
+    });
+  });
+
+  describe('last will 과 retain', () => {
+    const connectDevice = () => broker.connect({
+      clientId: 'lamp-1',
+      will: { topic: 'device/lamp-1/status', payload: 'offline', qos: 1, retain: true }
+    });
+
+    it('비정상 종료면 will 을 보관 메시지로 발행하고 나중에 구독한 쪽도 받음', async () => {
+      const device = await connectDevice();
+      device.publish('device/lamp-1/status', 'online', { qos: 1, retain: true });
+      device.drop();
+
+      const dashboard = await broker.connect({ clientId: 'dashboard' });
+      const messages = inbox(dashboard);
+      dashboard.subscribe('device/+/status', { qos: 1 });
+      await settle();
+      expect(messages).toEqual([{ topic: 'device/lamp-1/status', payload: 'offline', retain: true }]);
+    });
+
+    it('정상 종료면 will 을 보내지 않음', async () => {
+      const dashboard = await broker.connect({ clientId: 'dashboard' });
+      const messages = inbox(dashboard);
+      dashboard.subscribe('device/+/status');
+
+      const device = await connectDevice();
+      device.publish('device/lamp-1/status', 'online', { retain: true });
+      device.end();
+      await settle();
+      // 구독 중에 받은 메시지는 retain 플래그가 내려감
+      expect(messages).toEqual([{ topic: 'device/lamp-1/status', payload: 'online', retain: false }]);
+    });
+
+    it('빈 payload 의 retain 메시지는 보관 메시지를 지움', () => {
+      broker.publish('device/lamp-1/status', 'online', { retain: true });
+      expect(broker.stats().retained).toBe(1);
+      broker.publish('device/lamp-1/status', '', { retain: true });
+      expect(broker.stats().retained).toBe(0);
+    });
+  });
+
+  describe('ACL', () => {
+    // 디바이스는 자기 ID 의 토픽만, 비밀번호가 맞아야 접속
+    const auth: BrokerAuthHook = {
+      authenticate: (options) => options.password === `${options.clientId}-secret`,
+      authorizePublish: (clientId, topic) => topic.startsWith(`device/${clientId}/`),
+      authorizeSubscribe: (clientId, filter) => filter.startsWith(`device/${clientId}/`)
+    };
+
+    beforeEach(() => broker.useAuth(auth));
+
+    it('비밀번호가 틀리거나 will 토픽 권한이 없으면 접속 거부', async () => {
+      const denied = vi.fn();
+      broker.on('connectDenied', denied);
+      await expect(broker.connect({ clientId: 'lamp-1', password: 'wrong' })).rejects.toMatchObject({ code: 'notAuthorized' });
+      await expect(broker.connect({
+        clientId: 'lamp-1', password: 'lamp-1-secret', will: { topic: 'device/lamp-2/status', payload: 'offline', qos: 1, retain: true }
+      })).rejects.toBeInstanceOf(MqttError);
+      expect(denied).toHaveBeenCalledTimes(2);
+    });
+
+    it('권한 없는 발행은 알리지 않고 버리고 권한 없는 구독은 오류', async () => {
+      const lamp2 = await broker.connect({ clientId: 'lamp-2', password: 'lamp-2-secret' });
+      const messages = inbox(lamp2);
+      lamp2.subscribe('device/lamp-2/command', { qos: 1 });
+      const lamp1 = await broker.connect({ clientId: 'lamp-1', password: 'lamp-1-secret' });
+      const denied = vi.fn();
+      broker.on('publishDenied', denied);
+
+      lamp1.publish('device/lamp-2/command', 'turn_on');
+      await settle();
+      expect(messages).toEqual([]);
+      expect(denied).toHaveBeenCalledWith('lamp-1', 'device/lamp-2/command');
+      expect(broker.stats()).toMatchObject({ denied: 1, published: 0 });
+      expect(() => lamp1.subscribe('device/+/command')).toThrow(expect.objectContaining({ code: 'notAuthorized' }));
+    });
+  });
+});
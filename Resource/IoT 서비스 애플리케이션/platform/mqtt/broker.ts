@@ -0,0 +1,336 @@
+import { EventEmitter } from 'events';
+import { isValidFilter, isValidTopic, matchTopic } from './topic';
+
+// 프로세스 안에서 동작하는 MQTT 브로커 - 시뮬레이터/브릿지/백엔드를 Mosquitto 없이 한 프로세스에서 연결
+// 네트워크 계층 없이 MQTT 3.1.1 의 의미(와일드카드, QoS 0/1, retain, last will, 지속 세션)만 재현
+export type QoS = 0 | 1;
+
+export interface MqttMessage {
+  topic: string;
+  payload: string;
+  qos: QoS;
+  retain: boolean;
+  // 발행한 클라이언트 (브로커 내부 발행이면 없음) - V1 의 telemetry/temp 처럼 토픽에 ID 가 없는 메시지의 출처
+  clientId?: string;
+}
+
+export interface ConnectOptions {
+  clientId: string;
+  // false 면 연결이 끊겨도 구독을 유지하고 QoS 1 메시지를 보관했다가 재연결 시 전달
+  clean?: boolean;
+  username?: string;
+  password?: string;
+  will?: Omit<MqttMessage, 'clientId'>;
+}
+
+export type MqttCredentials = Pick<ConnectOptions, 'username' | 'password'>;
+
+export interface PublishOptions {
+  qos?: QoS;
+  retain?: boolean;
+}
+
+// Mosquitto 의 allow_anonymous false + password_file/acl_file 자리 - 접속 인증과 토픽 권한을 외부에서 결정
+// connection 은 접속마다 새로 매기는 번호 - 같은 clientId 로 다시 접속해도 어느 접속의 일인지 구분
+export interface BrokerAuthHook {
+  // false 면 접속 거부 (CONNACK: not authorized). will 토픽도 발행 권한이 있어야 함
+  authenticate(options: ConnectOptions, connection: number): Promise<boolean> | boolean;
+  authorizePublish(clientId: string, topic: string): boolean;
+  authorizeSubscribe(clientId: string, filter: string): boolean;
+  // 인증한 접속이 끝남 (연결 종료, 세션 인수, will 권한 부족으로 거부)
+  disconnected?(clientId: string, connection: number): void;
+}
+
+export interface BrokerOptions {
+  // 지속 세션 하나가 오프라인 동안 보관하는 최대 메시지 수 (넘치면 오래된 것부터 버림)
+  maxQueuedMessages?: number;
+  // 없으면 익명 접속과 모든 토픽 허용
+  auth?: BrokerAuthHook;
+}
+
+export interface BrokerStats {
+  clients: number;
+  sessions: number;
+  subscriptions: number;
+  retained: number;
+  published: number;
+  delivered: number;
+  queued: number;
+  dropped: number;
+  // ACL 에 막힌 발행 - MQTT 3.1.1 처럼 발행자에게 알리지 않고 버림
+  denied: number;
+}
+
+export type MqttErrorCode = 'notConnected' | 'invalidTopic' | 'invalidFilter' | 'closed' | 'notAuthorized';
+
+export class MqttError extends Error {
+  constructor(public readonly code: MqttErrorCode, message: string) {
+    super(message);
+    this.name = 'MqttError';
+  }
+}
+
+interface Session {
+  clientId: string;
+  clean: boolean;
+  subscriptions: Map<string, QoS>;
+  queue: MqttMessage[];
+  client?: BrokerClient;
+}
+
+// 클라이언트가 브로커에 요청할 때 쓰는 통로 - 브로커 내부 상태는 클라이언트에 노출하지 않음
+interface ClientLink {
+  publish(message: MqttMessage): void;
+  subscribe(filter: string, qos: QoS): void;
+  unsubscribe(filter: string): void;
+  disconnect(graceful: boolean): void;
+}
+
+export class InProcessBroker extends EventEmitter {
+  private readonly sessions = new Map<string, Session>();
+  private readonly retained = new Map<string, MqttMessage>();
+  // 와일드카드 없는 필터는 토픽으로 바로 찾고, 와일드카드 필터만 순회
+  private readonly exactSubscribers = new Map<string, Set<string>>();
+  private readonly wildcardSubscribers = new Map<string, Set<string>>();
+  private readonly counters = { published: 0, delivered: 0, dropped: 0, denied: 0 };
+  private closed = false;
+  private auth?: BrokerAuthHook;
+  private connections = 0;
+
+  constructor(private readonly options: BrokerOptions = {}) {
+    super();
+    this.auth = options.auth;
+  }
+
+  // 인증 훅이 브로커를 필요로 할 때 (폐기 시 disconnect) 생성 뒤에 연결 - 클라이언트가 접속하기 전에 호출
+  useAuth(auth: BrokerAuthHook) {
+    this.auth = auth;
+  }
+
+  async connect(options: ConnectOptions): Promise<BrokerClient> {
+    if (this.closed) throw new MqttError('closed', '브로커가 종료되었습니다');
+    const { clientId, clean = true, will } = options;
+    const auth = this.auth;
+    const connection = ++this.connections;
+    if (auth) {
+      const authenticated = await auth.authenticate(options, connection);
+      if (!authenticated || (will && !auth.authorizePublish(clientId, will.topic))) {
+        if (authenticated) auth.disconnected?.(clientId, connection);
+        this.emit('connectDenied', clientId);
+        throw new MqttError('notAuthorized', `${clientId}: 접속이 거부되었습니다`);
+      }
+    }
+
+    // 같은 ID 로 다시 접속하면 기존 연결을 끊음 (세션 인수)
+    const existing = this.sessions.get(clientId);
+    existing?.client?.drop();
+
+    let session = this.sessions.get(clientId);
+    if (session && clean) {
+      this.removeSession(session);
+      session = undefined;
+    }
+    if (!session) {
+      session = { clientId, clean, subscriptions: new Map(), queue: [] };
+      this.sessions.set(clientId, session);
+    }
+    session.clean = clean;
+
+    const current = session;
+    const client: BrokerClient = new BrokerClient(clientId, {
+      publish: (message) => {
+        if (auth && !auth.authorizePublish(clientId, message.topic)) {
+          this.counters.denied += 1;
+          this.emit('publishDenied', clientId, message.topic);
+          return;
+        }
+        this.route(message);
+      },
+      subscribe: (filter, qos) => this.subscribe(current, filter, qos),
+      unsubscribe: (filter) => this.unsubscribe(current, filter),
+      disconnect: (graceful) => {
+        this.disconnect(current, client, graceful ? undefined : will);
+        auth?.disconnected?.(clientId, connection);
+      }
+    });
+    current.client = client;
+    this.emit('clientConnected', clientId);
+
+    // 오프라인 동안 쌓인 메시지는 접속을 돌려준 다음에 전달 - 호출한 쪽이 message 리스너를 먼저 붙이도록
+    setImmediate(() => current.queue.splice(0).forEach((message) => this.deliver(current, message)));
+    return client;
+  }
+
+  // 브로커 자체가 발행 (백엔드가 클라이언트 없이 명령을 보낼 때 등)
+  publish(topic: string, payload: string, options: PublishOptions = {}) {
+    if (!isValidTopic(topic)) throw new MqttError('invalidTopic', `발행할 수 없는 토픽입니다: ${topic}`);
+    this.route({ topic, payload, qos: options.qos ?? 0, retain: options.retain ?? false });
+  }
+
+  // 접속 중인 클라이언트를 끊음 (자격 증명 폐기 등) - 비정상 종료로 처리해서 last will 발행
+  kick(clientId: string) {
+    const client = this.sessions.get(clientId)?.client;
+    client?.drop();
+    return client !== undefined;
+  }
+
+  stats(): BrokerStats {
+    const sessions = [...this.sessions.values()];
+    return {
+      clients: sessions.filter((session) => session.client?.connected).length,
+      sessions: sessions.length,
+      subscriptions: sessions.reduce((sum, session) => sum + session.subscriptions.size, 0),
+      retained: this.retained.size,
+      queued: sessions.reduce((sum, session) => sum + session.queue.length, 0),
+      ...this.counters
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    [...this.sessions.values()].forEach((session) => session.client?.end());
+    this.sessions.clear();
+    this.exactSubscribers.clear();
+    this.wildcardSubscribers.clear();
+  }
+
+  private route(message: MqttMessage) {
+    if (this.closed) return;
+    this.counters.published += 1;
+    if (message.retain) {
+      // 빈 payload 의 retain 메시지는 보관된 메시지를 지움
+      if (message.payload === '') this.retained.delete(message.topic);
+      else this.retained.set(message.topic, message);
+    }
+    this.emit('publish', message);
+
+    const targets = new Map<string, QoS>();
+    const add = (clientId: string, qos: QoS) => targets.set(clientId, Math.max(targets.get(clientId) ?? 0, qos) as QoS);
+    this.exactSubscribers.get(message.topic)?.forEach((clientId) => {
+      add(clientId, this.sessions.get(clientId)!.subscriptions.get(message.topic)!);
+    });
+    this.wildcardSubscribers.forEach((clientIds, filter) => {
+      if (!matchTopic(filter, message.topic)) return;
+      clientIds.forEach((clientId) => add(clientId, this.sessions.get(clientId)!.subscriptions.get(filter)!));
+    });
+
+    // 구독자에게 전달되는 메시지는 retain 플래그를 내림 (구독 시점의 보관 메시지만 retain)
+    targets.forEach((qos, clientId) => {
+      this.deliver(this.sessions.get(clientId)!, { ...message, retain: false, qos: Math.min(qos, message.qos) as QoS });
+    });
+  }
+
+  private deliver(session: Session, message: MqttMessage) {
+    const client = session.client;
+    // 재접속 직후 아직 전달하지 않은 보관 메시지가 있으면 그 뒤에 줄 세움
+    if (client?.connected && session.queue.length === 0) {
+      this.counters.delivered += 1;
+      // 발행자 쪽 호출 스택과 분리해서 네트워크처럼 비동기로 전달
+      queueMicrotask(() => client.receive(message));
+      return;
+    }
+    if (!client?.connected && (session.clean || message.qos === 0)) return;
+
+    session.queue.push(message);
+    const limit = this.options.maxQueuedMessages ?? 1000;
+    if (session.queue.length > limit) {
+      session.queue.splice(0, session.queue.length - limit);
+      this.counters.dropped += 1;
+    }
+  }
+
+  private subscribe(session: Session, filter: string, qos: QoS) {
+    if (!isValidFilter(filter)) throw new MqttError('invalidFilter', `구독할 수 없는 토픽 필터입니다: ${filter}`);
+    // SUBACK 실패(0x80)에 해당
+    if (this.auth && !this.auth.authorizeSubscribe(session.clientId, filter)) {
+      throw new MqttError('notAuthorized', `${session.clientId}: ${filter} 구독 권한이 없습니다`);
+    }
+    session.subscriptions.set(filter, qos);
+    const wildcard = /[+#]/.test(filter);
+    const index = wildcard ? this.wildcardSubscribers : this.exactSubscribers;
+    index.set(filter, (index.get(filter) ?? new Set()).add(session.clientId));
+
+    // 보관 메시지 전달 - 와일드카드 없는 필터는 토픽 하나만 확인
+    const retained = wildcard
+      ? [...this.retained.values()].filter((message) => matchTopic(filter, message.topic))
+      : [this.retained.get(filter)].filter((message): message is MqttMessage => message !== undefined);
+    retained.forEach((message) => this.deliver(session, { ...message, qos: Math.min(qos, message.qos) as QoS }));
+  }
+
+  private unsubscribe(session: Session, filter: string) {
+    session.subscriptions.delete(filter);
+    const index = /[+#]/.test(filter) ? this.wildcardSubscribers : this.exactSubscribers;
+    const clientIds = index.get(filter);
+    clientIds?.delete(session.clientId);
+    if (clientIds?.size === 0) index.delete(filter);
+  }
+
+  private removeSession(session: Session) {
+    [...session.subscriptions.keys()].forEach((filter) => this.unsubscribe(session, filter));
+    this.sessions.delete(session.clientId);
+  }
+
+  // will 이 있으면 비정상 종료 - 연결이 끊긴 뒤 last will 메시지를 발행
+  private disconnect(session: Session, client: BrokerClient, will?: ConnectOptions['will']) {
+    if (session.client !== client) return;
+    session.client = undefined;
+    if (session.clean) this.removeSession(session);
+    this.emit('clientDisconnected', session.clientId, will === undefined);
+    if (will) this.route({ ...will, clientId: session.clientId });
+  }
+}
+
+// mqtt.js 클라이언트와 비슷한 모양 - 'message' 이벤트로 (topic, payload, message) 를 받음
+export class BrokerClient extends EventEmitter {
+  private open = true;
+
+  constructor(readonly id: string, private readonly link: ClientLink) {
+    super();
+  }
+
+  get connected() {
+    return this.open;
+  }
+
+  publish(topic: string, payload: string, options: PublishOptions = {}) {
+    this.assertConnected();
+    if (!isValidTopic(topic)) throw new MqttError('invalidTopic', `발행할 수 없는 토픽입니다: ${topic}`);
+    this.link.publish({ topic, payload, qos: options.qos ?? 0, retain: options.retain ?? false, clientId: this.id });
+  }
+
+  subscribe(filter: string, options: { qos?: QoS } = {}) {
+    this.assertConnected();
+    this.link.subscribe(filter, options.qos ?? 0);
+  }
+
+  unsubscribe(filter: string) {
+    this.assertConnected();
+    this.link.unsubscribe(filter);
+  }
+
+  // 정상 종료 (DISCONNECT) - last will 을 보내지 않음
+  end() {
+    this.close(true);
+  }
+
+  // 네트워크 단절 같은 비정상 종료 - last will 발행
+  drop() {
+    this.close(false);
+  }
+
+  // 브로커가 호출 - 연결이 끊긴 뒤 도착한 메시지는 버림
+  receive(message: MqttMessage) {
+    if (this.open) this.emit('message', message.topic, message.payload, message);
+  }
+
+  private close(graceful: boolean) {
+    if (!this.open) return;
+    this.open = false;
+    this.link.disconnect(graceful);
+    this.emit('close', graceful);
+  }
+
+  private assertConnected() {
+    if (!this.open) throw new MqttError('notConnected', `${this.id}: 연결이 끊긴 클라이언트입니다`);
+  }
+}
@@ -0,0 +1,26 @@
+// MQTT 토픽 필터 규칙 (MQTT 3.1.1 4.7절) - + 는 한 단계, # 은 마지막에서 나머지 전체와 일치
+export function matchTopic(filter: string, topic: string): boolean {
+  // $SYS 같은 $ 토픽은 와일드카드로 시작하는 필터와 일치하지 않음
+  if (topic.startsWith('$') && (filter.startsWith('+') || filter.startsWith('#'))) return false;
+
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let idx = 0; idx < filterLevels.length; idx++) {
+    const level = filterLevels[idx];
+    if (level === '#') return true;
+    if (idx >= topicLevels.length) return false;
+    if (level !== '+' && level !== topicLevels[idx]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+}
+
+// 발행 토픽에는 와일드카드를 쓸 수 없음
+export const isValidTopic = (topic: string) => topic.length > 0 && !/[+#\u0000]/.test(topic);
+
+export function isValidFilter(filter: string): boolean {
+  if (filter.length === 0 || filter.includes('\u0000')) return false;
+  const levels = filter.split('/');
+  return levels.every((level, idx) =>
+    (level === '#' ? idx === levels.length - 1 : level === '+' || !/[+#]/.test(level))
+  );
+}
@@ -0,0 +1,98 @@
+import type { BrokerClient, InProcessBroker } from '../mqtt/broker';
+import { commandTopic, deviceIdFromTopic, responseMessageSchema } from '../contract';
+import type { CommandMessage } from '../contract';
+import type { Rng } from './devices';
+import type { VirtualDeviceInfo } from './fleet';
+
+export interface CommandStats {
+  sent: number;
+  succeeded: number;
+  failed: number;
+  // 응답 없이 timeoutMs 가 지난 명령 (대상 디바이스가 끊겨 있던 경우 등)
+  timedOut: number;
+  averageLatencyMs: number;
+}
+
+// 종류별로 보낼 수 있는 명령 - 가끔 지원하지 않는 명령도 섞어 오류 응답 경로를 확인
+const COMMANDS: Record<string, (rng: Rng) => Omit<CommandMessage, 'timestamp'>> = {
+  dht: () => ({ action: 'read' }),
+  relay: (rng) => ({ action: ['turn_on', 'turn_off', 'toggle'][Math.floor(rng.next() * 3)] }),
+  dimmer: (rng) => (rng.next() < 0.5
+    ? { action: 'set_brightness', value: Math.round(rng.between(0, 100)) }
+    : { action: rng.next() < 0.5 ? 'turn_on' : 'turn_off' })
+};
+const UNSUPPORTED_RATIO = 0.02;
+
+// 백엔드 역할 - 임의 디바이스에 제어 명령을 보내고 device/+/response 로 돌아오는 상태 응답을 확인
+export class CommandDriver {
+  private client?: BrokerClient;
+  private timer?: NodeJS.Timeout;
+  private readonly pending = new Map<string, number[]>();
+  private readonly counters = { sent: 0, succeeded: 0, failed: 0, timedOut: 0, latencyTotal: 0 };
+
+  constructor(
+    private readonly broker: InProcessBroker,
+    private readonly targets: VirtualDeviceInfo[],
+    private readonly ratePerSec: number,
+    private readonly rng: Rng,
+    private readonly timeoutMs = 10_000
+  ) {}
+
+  async start() {
+    if (this.ratePerSec <= 0 || this.targets.length === 0) return;
+    this.client = await this.broker.connect({ clientId: 'simulator-commander' });
+    this.client.on('message', (topic: string, payload: string) => this.handleResponse(topic, payload));
+    this.client.subscribe('device/+/response', { qos: 1 });
+    this.timer = setInterval(() => this.send(), 1000 / this.ratePerSec);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.client?.end();
+  }
+
+  stats(): CommandStats {
+    this.expire();
+    const { latencyTotal, ...counts } = this.counters;
+    const answered = counts.succeeded + counts.failed;
+    return { ...counts, averageLatencyMs: answered > 0 ? Math.round(latencyTotal / answered) : 0 };
+  }
+
+  private send() {
+    const target = this.targets[Math.floor(this.rng.next() * this.targets.length)];
+    const command = this.rng.next() < UNSUPPORTED_RATIO ? { action: 'self_test' } : COMMANDS[target.type]?.(this.rng) ?? { action: 'read' };
+    this.client!.publish(commandTopic(target.id), JSON.stringify({ ...command, timestamp: new Date().toISOString() }), { qos: 1 });
+    this.pending.set(target.id, [...(this.pending.get(target.id) ?? []), Date.now()]);
+    this.counters.sent += 1;
+    this.expire();
+  }
+
+  // 응답에는 요청 ID 가 없으므로 디바이스별로 먼저 보낸 명령부터 짝지음
+  private handleResponse(topic: string, payload: string) {
+    const deviceId = deviceIdFromTopic(topic);
+    const queue = deviceId ? this.pending.get(deviceId) : undefined;
+    if (!deviceId || !queue || queue.length === 0) return;
+    const sentAt = queue.shift()!;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      parsed = undefined;
+    }
+    const response = responseMessageSchema.safeParse(parsed);
+    if (response.success && response.data.success) this.counters.succeeded += 1;
+    else this.counters.failed += 1;
+    this.counters.latencyTotal += Date.now() - sentAt;
+  }
+
+  private expire() {
+    const deadline = Date.now() - this.timeoutMs;
+    this.pending.forEach((queue, deviceId) => {
+      const expired = queue.filter((sentAt) => sentAt < deadline).length;
+      if (expired === 0) return;
+      this.counters.timedOut += expired;
+      this.pending.set(deviceId, queue.slice(expired));
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FleetConfigError, groupsFromMix, validateFleetConfig } from './config';
+
+describe('groupsFromMix', () => {
+  it('비율대로 전체 대수를 나눔', () => {
+    expect(groupsFromMix(100, 'dht=70,relay=20,dimmer=10')).toEqual([
+      { type: 'dht', count: 70 },
+      { type: 'relay', count: 20 },
+      { type: 'dimmer', count: 10 }
+    ]);
+  });
+
+  it('반올림 오차는 첫 종류에 더하고 비율을 생략하면 1', () => {
+    expect(groupsFromMix(10, 'dht, relay, dimmer')).toEqual([
+      { type: 'dht', count: 4 },
+      { type: 'relay', count: 3 },
+      { type: 'dimmer', count: 3 }
+    ]);
+    expect(groupsFromMix(8, 'dht,relay=3')).toEqual([{ type: 'dht', count: 2 }, { type: 'relay', count: 6 }]);
+  });
+
+  it('0대가 된 종류는 빼고 비율이 모두 0 이면 첫 종류에 전부', () => {
+    expect(groupsFromMix(2, 'dht=98,relay=1,dimmer=1')).toEqual([{ type: 'dht', count: 2 }]);
+    expect(groupsFromMix(5, 'relay=0,dimmer=0')).toEqual([{ type: 'relay', count: 5 }]);
+  });
+
+  it('알 수 없는 종류는 플릿 설정 검증에서 거부', () => {
+    expect(() => validateFleetConfig({ groups: groupsFromMix(10, 'dht=1,lamp=1') })).toThrow(FleetConfigError);
+    expect(() => validateFleetConfig({ groups: groupsFromMix(10, 'dht=1,lamp=1') })).toThrow(/알 수 없는 디바이스 종류 "lamp"/);
+  });
+});
@@ -0,0 +1,72 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { LoadError, validateWith } from '../../shared/validation';
+import { DEVICE_TYPES } from './devices';
+
+// 가상 디바이스 플릿 설정 - YAML 파일 또는 CLI 의 --devices/--mix 로 만듦
+const groupSchema = z.object({
+  type: z.string().refine((type) => type in DEVICE_TYPES, (type) => ({
+    message: `알 수 없는 디바이스 종류 "${type}" (가능: ${Object.keys(DEVICE_TYPES).join(', ')})`
+  })),
+  count: z.number().int().positive(),
+  // 텔레메트리 발행 간격 - V1 성능 지침의 5초 배치와 맞춤
+  intervalSec: z.number().positive().default(5),
+  // 디바이스 ID 접두사 - 기본은 V1 흐름 예시와 같은 esp32_{type}
+  prefix: z.string().regex(/^[A-Za-z0-9_-]+$/).optional()
+}).strict();
+
+export const fleetConfigSchema = z.object({
+  seed: z.number().int().default(1),
+  firmware: z.string().default('1.0.0'),
+  groups: z.array(groupSchema).min(1),
+  disconnects: z.object({
+    // 디바이스 한 대가 한 시간에 끊기는 평균 횟수
+    perDeviceHour: z.number().min(0).default(0.5),
+    minDowntimeSec: z.number().min(0).default(5),
+    maxDowntimeSec: z.number().min(0).default(60)
+  }).strict().refine((value) => value.minDowntimeSec <= value.maxDowntimeSec, {
+    message: 'minDowntimeSec 는 maxDowntimeSec 보다 클 수 없습니다'
+  }).default({}),
+  // 초당 보내는 임의 제어 명령 수 (0 이면 명령 없음)
+  commandsPerSec: z.number().min(0).default(0)
+}).strict();
+
+export type FleetConfig = z.infer<typeof fleetConfigSchema>;
+export type FleetGroup = FleetConfig['groups'][number];
+
+export class FleetConfigError extends LoadError {
+  constructor(origin: string, issues: string[]) {
+    super(origin, issues, '플릿 설정을 불러올 수 없습니다');
+    this.name = 'FleetConfigError';
+  }
+}
+
+export function validateFleetConfig(data: unknown, origin = '<inline>'): FleetConfig {
+  return validateWith(fleetConfigSchema, data, origin, FleetConfigError);
+}
+
+export function loadFleetConfig(filePath: string): FleetConfig {
+  let data: unknown;
+  try {
+    data = parseYaml(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new FleetConfigError(filePath, [(error as Error).message]);
+  }
+  return validateFleetConfig(data, filePath);
+}
+
+// "dht=70,relay=20,dimmer=10" 비율로 전체 대수를 나눔 - 반올림 오차는 첫 종류에 더함
+export function groupsFromMix(devices: number, mix: string): { type: string; count: number }[] {
+  const weights = mix.split(',').map((entry) => {
+    const [type, weight = '1'] = entry.split('=').map((part) => part.trim());
+    return { type, weight: Number(weight) };
+  });
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  const groups = weights.map(({ type, weight }) => ({
+    type,
+    count: total > 0 ? Math.floor((devices * weight) / total) : 0
+  }));
+  if (groups.length > 0) groups[0].count += devices - groups.reduce((sum, group) => sum + group.count, 0);
+  return groups.filter((group) => group.count > 0);
+}
@@ -0,0 +1,149 @@
+import type { CommandMessage } from '../contract';
+
+// 시뮬레이터용 난수 - 같은 seed 면 같은 센서값/끊김 순서가 재현됨 (mulberry32)
+export interface Rng {
+  next(): number;
+  // 평균 0, 표준편차 1 정규분포 (Box-Muller)
+  normal(): number;
+  between(min: number, max: number): number;
+}
+
+export function createRng(seed: number): Rng {
+  let value = seed >>> 0;
+  const next = () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    normal: () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    between: (min, max) => min + (max - min) * next()
+  };
+}
+
+export type DeviceState = Record<string, string | number | boolean>;
+
+// null 은 센서 읽기 실패 - ESP32 에서 String(NAN) 처럼 "nan" 으로 발행됨
+export interface TelemetryReading {
+  metric: string;
+  value: number | null;
+}
+
+export interface CommandResult {
+  success: boolean;
+  state: DeviceState;
+  error?: string;
+}
+
+// 디바이스 종류별 동작 - DEVICE_TYPES 에 항목을 추가하면 설정 파일에서 바로 쓸 수 있음
+export interface DeviceBehavior {
+  // device/{id}/register 메시지의 type (V1 등록 흐름의 "sensor" 등)
+  kind: 'sensor' | 'actuator';
+  model: string;
+  initialState(rng: Rng): DeviceState;
+  // elapsedSec 는 시뮬레이션 시작 후 경과 시간 - 하루 주기 변화를 만드는 데 사용
+  read(state: DeviceState, rng: Rng, elapsedSec: number): TelemetryReading[];
+  handle(state: DeviceState, command: CommandMessage): CommandResult;
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const DAY = 86_400;
+
+// 설정 범위를 벗어나지 않는 느린 랜덤 워크 - 실내 온도가 천천히 오르내리는 모양
+const drift = (state: DeviceState, key: string, rng: Rng, step: number, limit: number) => {
+  state[key] = clamp(Number(state[key]) + rng.normal() * step, -limit, limit);
+  return Number(state[key]);
+};
+
+const unsupported = (state: DeviceState, command: CommandMessage): CommandResult =>
+  ({ success: false, state, error: `지원하지 않는 명령입니다: ${command.action}` });
+
+// 켜기/끄기/토글은 릴레이와 디머가 같은 규칙을 씀
+function switchPower(state: DeviceState, action: string): DeviceState | undefined {
+  if (action === 'turn_on') return { ...state, power: 'on' };
+  if (action === 'turn_off') return { ...state, power: 'off' };
+  if (action === 'toggle') return { ...state, power: state.power === 'on' ? 'off' : 'on' };
+  return undefined;
+}
+
+const dht: DeviceBehavior = {
+  kind: 'sensor',
+  model: 'DHT22',
+  initialState: (rng) => ({
+    baseTemperature: round(rng.between(20, 25)),
+    baseHumidity: round(rng.between(35, 55)),
+    temperatureDrift: 0,
+    humidityDrift: 0,
+    readFailureRate: 0.005
+  }),
+  read: (state, rng, elapsedSec) => {
+    // 센서가 가끔 읽기에 실패하면 온도/습도 모두 NaN
+    if (rng.next() < Number(state.readFailureRate)) {
+      return [{ metric: 'temp', value: null }, { metric: 'humidity', value: null }];
+    }
+    const daily = Math.sin((2 * Math.PI * elapsedSec) / DAY);
+    const temperature = Number(state.baseTemperature) + 2 * daily
+      + drift(state, 'temperatureDrift', rng, 0.05, 3) + rng.normal() * 0.15;
+    const humidity = Number(state.baseHumidity) - 5 * daily
+      + drift(state, 'humidityDrift', rng, 0.2, 10) + rng.normal() * 0.8;
+    // 마지막 측정값은 read 명령의 응답 state 로 돌려줌
+    state.temp = round(temperature);
+    state.humidity = round(clamp(humidity, 0, 100));
+    return [
+      { metric: 'temp', value: state.temp },
+      { metric: 'humidity', value: state.humidity }
+    ];
+  },
+  handle: (state, command) => {
+    if (command.action !== 'read') return unsupported(state, command);
+    return { success: true, state };
+  }
+};
+
+const relay: DeviceBehavior = {
+  kind: 'actuator',
+  model: 'SRD-05VDC',
+  initialState: (rng) => ({ power: 'off', load: round(rng.between(40, 1200), 0) }),
+  // 켜져 있으면 연결된 부하의 소비 전력, 꺼져 있으면 대기 전력
+  read: (state, rng) => [{
+    metric: 'power',
+    value: round(state.power === 'on' ? Number(state.load) * (1 + rng.normal() * 0.03) : 0.3 + rng.normal() * 0.02)
+  }],
+  handle: (state, command) => {
+    const next = switchPower(state, command.action);
+    return next ? { success: true, state: next } : unsupported(state, command);
+  }
+};
+
+const dimmer: DeviceBehavior = {
+  kind: 'actuator',
+  model: 'ESP32-PWM-Dimmer',
+  initialState: () => ({ power: 'off', brightness: 100 }),
+  read: (state, rng) => [{
+    metric: 'power',
+    value: round(state.power === 'on' ? 9 * (Number(state.brightness) / 100) + rng.normal() * 0.1 : 0.2)
+  }],
+  handle: (state, command) => {
+    if (command.action === 'set_brightness') {
+      const brightness = Number(command.value);
+      if (!Number.isFinite(brightness) || brightness < 0 || brightness > 100) {
+        return { success: false, state, error: '밝기는 0~100 사이 숫자여야 합니다' };
+      }
+      // 밝기 0 은 끄기와 같음
+      return { success: true, state: { ...state, brightness: round(brightness, 0), power: brightness > 0 ? 'on' : 'off' } };
+    }
+    const next = switchPower(state, command.action);
+    return next ? { success: true, state: next } : unsupported(state, command);
+  }
+};
+
+export const DEVICE_TYPES: Record<string, DeviceBehavior> = { dht, relay, dimmer };
+
+// 응답의 state 에는 내부용 값(기준값, 드리프트 등)을 빼고 센서/액추에이터 상태만 담음
+export function publicState(state: DeviceState): DeviceState {
+  return Object.fromEntries(Object.entries(state).filter(([key]) => !/^base|Drift$|Rate$|^load$/.test(key)));
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InProcessBroker } from '../mqtt/broker';
+import type { BrokerClient, MqttMessage } from '../mqtt/broker';
+import { validateFleetConfig } from './config';
+import { DeviceFleet } from './fleet';
+
+const DEVICE = 'relay_001';
+
+describe('DeviceFleet', () => {
+  let broker: InProcessBroker;
+  let fleet: DeviceFleet;
+  let dashboard: BrokerClient;
+  let messages: Pick<MqttMessage, 'topic' | 'payload'>[];
+
+  // 끊김 없이 5초 뒤 재접속하는 릴레이 한 대
+  const config = validateFleetConfig({
+    groups: [{ type: 'relay', count: 1, prefix: 'relay' }],
+    disconnects: { perDeviceHour: 0, minDowntimeSec: 5, maxDowntimeSec: 5 }
+  });
+
+  const settle = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+  const payloads = (topic: string) => messages.filter((message) => message.topic === topic).map((message) => message.payload);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    broker = new InProcessBroker();
+    fleet = new DeviceFleet(broker, config);
+    dashboard = await broker.connect({ clientId: 'dashboard' });
+    messages = [];
+    dashboard.on('message', (topic: string, payload: string) => messages.push({ topic, payload }));
+    dashboard.subscribe('device/#', { qos: 1 });
+  });
+
+  afterEach(async () => {
+    await fleet.stop();
+    await broker.close();
+    vi.useRealTimers();
+  });
+
+  it('접속하면 등록하고 상태를 online 으로 보관', async () => {
+    await fleet.start();
+    await settle();
+    expect(payloads(`device/${DEVICE}/register`).map((payload) => JSON.parse(payload))).toEqual([
+      { deviceId: DEVICE, type: 'actuator', firmware: '1.0.0', model: 'SRD-05VDC' }
+    ]);
+    expect(payloads(`device/${DEVICE}/status`)).toEqual(['online']);
+    expect(fleet.stats()).toMatchObject({ devices: 1, online: 1 });
+  });
+
+  it('끊기면 will 로 offline 이 되고, 재접속하면 끊긴 동안 온 명령을 처리', async () => {
+    await fleet.start();
+    broker.kick(DEVICE);
+    broker.publish(`device/${DEVICE}/command`, JSON.stringify({ action: 'turn_on' }), { qos: 1 });
+    await settle();
+    expect(payloads(`device/${DEVICE}/status`)).toEqual(['online', 'offline']);
+    expect(fleet.stats()).toMatchObject({ online: 0, commands: 0 });
+
+    await settle(5000);
+    expect(payloads(`device/${DEVICE}/status`)).toEqual(['online', 'offline', 'online']);
+    // 보관 명령은 재접속 다음 tick 에 전달 - 가짜 타이머는 타이머 안에서 건 setImmediate 를 1ms 뒤로 잡음
+    await settle(1);
+    expect(payloads(`device/${DEVICE}/response`).map((payload) => JSON.parse(payload))).toEqual([
+      { action: 'turn_on', success: true, state: { power: 'on' } }
+    ]);
+    // 등록은 처음 부팅할 때만
+    expect(payloads(`device/${DEVICE}/register`)).toHaveLength(1);
+    expect(fleet.stats()).toMatchObject({ online: 1, reconnects: 1, commands: 1 });
+  });
+
+  it('브로커가 접속을 거부하면 잠시 뒤 다시 시도', async () => {
+    let allowed = false;
+    broker.useAuth({
+      authenticate: (options) => options.clientId === 'dashboard' || allowed,
+      authorizePublish: () => true,
+      authorizeSubscribe: () => true
+    });
+    await fleet.start();
+    expect(fleet.stats()).toMatchObject({ online: 0, authFailures: 1 });
+
+    await settle(5000);
+    expect(fleet.stats()).toMatchObject({ online: 0, authFailures: 2 });
+
+    allowed = true;
+    await settle(5000);
+    expect(fleet.stats()).toMatchObject({ online: 1, authFailures: 2, reconnects: 1 });
+  });
+
+  it('재접속을 기다리는 동안 브로커가 종료되면 오류 없이 재시도를 멈춤', async () => {
+    await fleet.start();
+    broker.kick(DEVICE);
+    await broker.close();
+
+    await settle(5000);
+    expect(fleet.stats()).toMatchObject({ online: 0, reconnects: 0 });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
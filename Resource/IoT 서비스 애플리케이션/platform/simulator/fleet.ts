@@ -0,0 +1,241 @@
+import { MqttError } from '../mqtt/broker';
+import type { BrokerClient, InProcessBroker, MqttCredentials } from '../mqtt/broker';
+import {
+  commandMessageSchema, commandTopic, registerTopic, responseTopic, statusTopic, telemetryTopic
+} from '../contract';
+import type { RegisterMessage, ResponseMessage } from '../contract';
+import { DEVICE_TYPES, createRng, publicState } from './devices';
+import type { DeviceBehavior, DeviceState, Rng } from './devices';
+import type { FleetConfig } from './config';
+
+export interface FleetStats {
+  devices: number;
+  online: number;
+  telemetry: number;
+  readFailures: number;
+  commands: number;
+  rejectedCommands: number;
+  disconnects: number;
+  reconnects: number;
+  // 브로커가 접속을 거부한 횟수 (자격 증명 폐기/만료)
+  authFailures: number;
+}
+
+export interface VirtualDeviceInfo {
+  id: string;
+  type: string;
+  kind: DeviceBehavior['kind'];
+}
+
+type Counters = Omit<FleetStats, 'devices' | 'online'>;
+
+// ESP32 한 대 - 접속, 등록, 주기적 텔레메트리, 명령 응답, 임의 끊김/재접속
+class VirtualDevice {
+  private client?: BrokerClient;
+  private timer?: NodeJS.Timeout;
+  private state: DeviceState;
+  private registered = false;
+  private stopped = false;
+  // 스스로 끊는 중 - close 이벤트로 재접속을 두 번 예약하지 않도록
+  private dropping = false;
+
+  constructor(
+    readonly info: VirtualDeviceInfo,
+    private readonly behavior: DeviceBehavior,
+    private readonly intervalSec: number,
+    private readonly fleet: DeviceFleet,
+    private readonly rng: Rng
+  ) {
+    this.state = behavior.initialState(rng);
+  }
+
+  get online() {
+    return this.client?.connected ?? false;
+  }
+
+  // 접속에 성공하면 true - 거부되면 실제 펌웨어처럼 잠시 뒤 다시 시도
+  async connect(): Promise<boolean> {
+    const { id } = this.info;
+    let client: BrokerClient;
+    try {
+      // clean=false - 끊긴 동안 온 QoS 1 명령을 재접속 후 받음
+      client = await this.fleet.broker.connect({
+        clientId: id,
+        clean: false,
+        // 디바이스 고유 ID 와 시크릿 (프로비저닝된 경우)
+        ...this.fleet.credentials(id),
+        will: { topic: statusTopic(id), payload: 'offline', qos: 1, retain: true }
+      });
+    } catch (error) {
+      if (!(error instanceof MqttError) || error.code !== 'notAuthorized') throw error;
+      this.fleet.count('authFailures');
+      this.retryLater();
+      return false;
+    }
+    this.client = client;
+    // 브로커가 끊으면 (자격 증명 폐기 등) 다시 접속 시도
+    client.on('close', (graceful: boolean) => {
+      if (!graceful && !this.dropping) this.retryLater();
+    });
+
+    // V1 펌웨어의 mqtt.subscribe("device/+/command") - ACL 때문에 + 대신 자신의 ID 로 구독
+    client.on('message', (topic: string, payload: string) => {
+      if (topic === commandTopic(id)) this.handleCommand(payload);
+    });
+    client.subscribe(commandTopic(id), { qos: 1 });
+    client.publish(statusTopic(id), 'online', { qos: 1, retain: true });
+
+    // 등록 메시지는 처음 부팅할 때만 보냄
+    if (!this.registered) {
+      const message: RegisterMessage = { deviceId: id, type: this.behavior.kind, firmware: this.fleet.config.firmware, model: this.behavior.model };
+      client.publish(registerTopic(id), JSON.stringify(message), { qos: 1 });
+      this.registered = true;
+    }
+    // 모든 디바이스가 같은 순간에 보내지 않도록 첫 발행 시점을 간격 안에서 흩음
+    this.schedule(this.rng.next() * this.intervalSec);
+    return true;
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.client?.end();
+  }
+
+  private schedule(delaySec: number) {
+    clearTimeout(this.timer);
+    if (this.stopped) return;
+    this.timer = setTimeout(() => this.tick(), delaySec * 1000);
+  }
+
+  private tick() {
+    if (!this.client?.connected) return;
+    const { disconnects } = this.fleet.config;
+    // 발행 간격 동안 끊길 확률 (시간당 평균 횟수를 지수분포로 환산)
+    if (this.rng.next() < 1 - Math.exp(-(disconnects.perDeviceHour * this.intervalSec) / 3600)) {
+      this.dropConnection();
+      return;
+    }
+
+    this.behavior.read(this.state, this.rng, this.fleet.elapsedSec()).forEach(({ metric, value }) => {
+      // ESP32 의 String(NAN) 과 같은 "nan" - 브릿지가 걸러야 하는 값
+      this.client!.publish(telemetryTopic(this.info.id, metric), value === null ? 'nan' : String(value));
+      this.fleet.count(value === null ? 'readFailures' : 'telemetry');
+    });
+    // 실제 펌웨어처럼 간격에 ±10% 흔들림을 줌
+    this.schedule(this.intervalSec * this.rng.between(0.9, 1.1));
+  }
+
+  private dropConnection() {
+    this.dropping = true;
+    this.client?.drop();
+    this.dropping = false;
+    this.fleet.count('disconnects');
+    this.retryLater();
+  }
+
+  private retryLater() {
+    const { minDowntimeSec, maxDowntimeSec } = this.fleet.config.disconnects;
+    clearTimeout(this.timer);
+    if (this.stopped) return;
+    this.timer = setTimeout(async () => {
+      if (this.stopped) return;
+      try {
+        if (await this.connect()) this.fleet.count('reconnects');
+      } catch (error) {
+        // 브로커가 종료되면 재접속을 멈추고, 그 밖의 오류는 펌웨어처럼 잠시 뒤 다시 시도
+        if (error instanceof MqttError && error.code === 'closed') return;
+        this.retryLater();
+      }
+    }, this.rng.between(minDowntimeSec, maxDowntimeSec) * 1000);
+  }
+
+  private handleCommand(payload: string) {
+    const { id } = this.info;
+    let response: ResponseMessage;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      parsed = undefined;
+    }
+    const command = commandMessageSchema.safeParse(parsed);
+    if (!command.success) {
+      response = { action: 'unknown', success: false, state: publicState(this.state), error: '명령 형식이 올바르지 않습니다' };
+    } else {
+      const result = this.behavior.handle(this.state, command.data);
+      this.state = result.state;
+      response = { action: command.data.action, success: result.success, state: publicState(result.state), ...(result.error ? { error: result.error } : {}) };
+    }
+    this.fleet.count(response.success ? 'commands' : 'rejectedCommands');
+    // 끊긴 순간 도착한 명령이면 응답은 버림 (펌웨어도 전송에 실패함)
+    if (this.client?.connected) this.client.publish(responseTopic(id), JSON.stringify(response), { qos: 1 });
+  }
+}
+
+// 설정의 그룹별로 가상 디바이스를 만들어 같은 브로커에 접속시킴
+export class DeviceFleet {
+  private readonly devices: VirtualDevice[];
+  private readonly counters: Counters = {
+    telemetry: 0, readFailures: 0, commands: 0, rejectedCommands: 0, disconnects: 0, reconnects: 0, authFailures: 0
+  };
+  private startedAt = Date.now();
+
+  // secrets 를 주면 디바이스마다 username=ID, password=시크릿 으로 접속 (브로커 인증을 켠 경우)
+  constructor(
+    readonly broker: InProcessBroker,
+    readonly config: FleetConfig,
+    private readonly secrets: (deviceId: string) => string | undefined = () => undefined
+  ) {
+    const rng = createRng(config.seed);
+    this.devices = config.groups.flatMap((group) => {
+      const behavior = DEVICE_TYPES[group.type];
+      const prefix = group.prefix ?? `esp32_${group.type}`;
+      return Array.from({ length: group.count }, (_, idx) => new VirtualDevice(
+        { id: `${prefix}_${String(idx + 1).padStart(3, '0')}`, type: group.type, kind: behavior.kind },
+        behavior,
+        group.intervalSec,
+        this,
+        // 디바이스마다 별도 난수열 - 대수를 바꿔도 앞쪽 디바이스의 값은 그대로
+        createRng(Math.floor(rng.next() * 2 ** 32))
+      ));
+    });
+    const seen = new Set<string>();
+    const duplicate = this.devices.map((device) => device.info.id).find((id) => seen.size === seen.add(id).size);
+    if (duplicate) throw new Error(`디바이스 ID 가 겹칩니다: ${duplicate} (그룹마다 prefix 를 다르게 지정하세요)`);
+  }
+
+  async start() {
+    this.startedAt = Date.now();
+    for (const device of this.devices) await device.connect();
+  }
+
+  async stop() {
+    this.devices.forEach((device) => device.stop());
+  }
+
+  list(): VirtualDeviceInfo[] {
+    return this.devices.map((device) => device.info);
+  }
+
+  stats(): FleetStats {
+    return {
+      devices: this.devices.length,
+      online: this.devices.filter((device) => device.online).length,
+      ...this.counters
+    };
+  }
+
+  credentials(deviceId: string): MqttCredentials {
+    const secret = this.secrets(deviceId);
+    return secret === undefined ? {} : { username: deviceId, password: secret };
+  }
+
+  elapsedSec() {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+
+  count(counter: keyof Counters) {
+    this.counters[counter] += 1;
+  }
+}
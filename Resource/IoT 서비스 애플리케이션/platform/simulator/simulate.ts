@@ -0,0 +1,86 @@
+import { InProcessBroker } from '../mqtt/broker';
+import { CommandDriver } from './commander';
+import { FleetConfigError, groupsFromMix, loadFleetConfig, validateFleetConfig } from './config';
+import { createRng } from './devices';
+import { DeviceFleet } from './fleet';
+
+// 가상 ESP32 플릿 실행: npx tsx platform/simulator/simulate.ts [--config fleet.yaml] [옵션]
+// V1 테스트 전략의 "100개 디바이스 시뮬레이션" - 프로세스 안의 브로커에 수천 대까지 접속시킬 수 있음
+const USAGE = `사용법: npx tsx platform/simulator/simulate.ts [--config 파일] [--devices 100] [--mix dht=70,relay=20,dimmer=10]
+  [--interval 초] [--commands 초당명령] [--seed 숫자] [--duration 초] [--report 초]`;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args.splice(idx, 2)[1] : undefined;
+};
+const numberOption = (name: string) => {
+  const value = option(name);
+  return value === undefined ? undefined : Number(value);
+};
+
+const configPath = option('--config');
+const devices = numberOption('--devices');
+const mix = option('--mix') ?? 'dht=70,relay=20,dimmer=10';
+const interval = numberOption('--interval');
+const commands = numberOption('--commands');
+const seed = numberOption('--seed');
+const duration = numberOption('--duration');
+const reportSec = numberOption('--report') ?? 5;
+
+if (args.length > 0 || [devices, interval, commands, seed, duration, reportSec].some((value) => value !== undefined && Number.isNaN(value))) {
+  if (args.length > 0) console.error(`알 수 없는 인자: ${args.join(' ')}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+async function main() {
+  // 설정 파일 값 위에 CLI 옵션을 덮어씀
+  const base = configPath ? loadFleetConfig(configPath) : undefined;
+  const groups: object[] = devices !== undefined || !base ? groupsFromMix(devices ?? 100, mix) : base.groups;
+  const config = validateFleetConfig({
+    ...base,
+    groups: groups.map((group) => (interval !== undefined ? { ...group, intervalSec: interval } : group)),
+    ...(seed !== undefined ? { seed } : {}),
+    ...(commands !== undefined ? { commandsPerSec: commands } : {})
+  }, configPath ?? '<cli>');
+
+  const broker = new InProcessBroker();
+  const fleet = new DeviceFleet(broker, config);
+  const driver = new CommandDriver(broker, fleet.list(), config.commandsPerSec, createRng(config.seed + 1));
+
+  await fleet.start();
+  await driver.start();
+  console.log(`디바이스 ${fleet.stats().devices}대 접속 (${config.groups.map((group) => `${group.type} ${group.count}`).join(', ')})`);
+
+  const report = () => {
+    const stats = fleet.stats();
+    const commandStats = driver.stats();
+    const brokerStats = broker.stats();
+    console.log([
+      `[${fleet.elapsedSec().toFixed(0)}s] 온라인 ${stats.online}/${stats.devices}`,
+      `텔레메트리 ${stats.telemetry} (읽기 실패 ${stats.readFailures})`,
+      `끊김 ${stats.disconnects} / 재접속 ${stats.reconnects}`,
+      `명령 ${commandStats.sent} → 성공 ${commandStats.succeeded}, 실패 ${commandStats.failed}, 시간 초과 ${commandStats.timedOut} (평균 ${commandStats.averageLatencyMs}ms)`,
+      `브로커 발행 ${brokerStats.published}, 보관 중 ${brokerStats.queued}`
+    ].join(' | '));
+  };
+  const reporter = setInterval(report, reportSec * 1000);
+
+  const shutdown = async () => {
+    clearInterval(reporter);
+    driver.stop();
+    await fleet.stop();
+    report();
+    await broker.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  if (duration !== undefined) setTimeout(shutdown, duration * 1000);
+}
+
+main().catch((error) => {
+  if (!(error instanceof FleetConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import type { z } from 'zod';
+
+// 파일/입력 검증 공통 도우미 - 아키텍처 로더(architecture)와 플랫폼 설정(platform)이 같이 씀
+// 어느 쪽에도 의존하지 않도록 zod 외에는 가져오지 않음
+
+// 로드 실패 시 원본 위치와 모든 문제 항목을 함께 보고 - 설정/진행 상태/테마 파일 오류의 공통 모양
+export class LoadError extends Error {
+  constructor(public readonly origin: string, public readonly issues: string[], summary: string) {
+    super(`${origin}: ${summary}\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'LoadError';
+  }
+}
+
+export type LoadErrorType = new (origin: string, issues: string[]) => LoadError;
+
+export const issueMessages = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// 스키마 검증 - 실패하면 모든 문제 항목을 경로와 함께 errorType 으로 던짐
+export function validateWith<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  origin: string,
+  errorType: LoadErrorType
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) throw new errorType(origin, issueMessages(result.error));
+  return result.data;
+}
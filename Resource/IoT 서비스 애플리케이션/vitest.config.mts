@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// 탐색기는 ?raw 로 YAML/JSON/Mermaid 원본을 가져옴 - Vite 가 처리하므로 테스트도 같은 방식으로 로드
+// 기본 환경은 node, React 컴포넌트 테스트는 파일 첫 줄의 @vitest-environment jsdom 으로 바꿈
+export default defineConfig({
+  test: {
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules/**']
+  },
+  server: {
+    // ../css 스니펫, ../MVP 프로젝트 원본을 읽을 수 있도록
+    fs: { allow: ['..'] }
+  }
+});